@@ -6,25 +6,134 @@ import {
   SurveyFormDetector,
   FormResetService,
   ScreenshotService,
-  logger,
+  CheckpointService,
+  AnalysisCheckpoint,
+  SnapshotService,
+  SkipLogicExplorer,
+  surveyPlatformRegistry,
+  configService,
+  applySelectorOverrides,
+  waitForDomStable,
+  languageDetectionService,
+  rtlAuditService,
+  accessibilityAuditService,
+  patternStoreService,
+  unknownFieldService,
+  LogPhase,
+  createRunId,
+  createSeed,
+  logger as rootLogger,
   Survey,
   SurveyForm,
+  SurveyField,
   SurveyTuple
 } from '@form-shot/shared';
 
-export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: number = 3000, screenWidth: number = 767): Promise<void> {
-  const puppeteerManager = new PuppeteerManager();
-  const formDetector = new SurveyFormDetector();
-  const formNavigator = new FormNavigator();
-  const formResetService = new FormResetService();
-  const screenshotService = new ScreenshotService({ width: screenWidth, height: 1024 });
+const logger = rootLogger.child('analyze');
+
+// Unset options fall back to the configured defaults for the tuple's customer
+export interface AnalyzeOptions {
+  navDelay?: number;
+  screenWidth?: number;
+  resume?: boolean;
+  platform?: string;
+  record?: boolean;
+  exploreSkipLogic?: boolean;
+  viewports?: number[];
+  rtlAudit?: boolean;  // Audit right-to-left mirroring even if the tuple language is not known to be RTL
+  accessibility?: boolean;  // Run the accessibility audit on every form (default: true)
+  puppeteerManager?: PuppeteerManager; // Already launched by the caller, which also closes it
+  runId?: string;  // Correlation ID for the run's log records (default: generated)
+  seed?: string;  // Seed of the generated test data (default: the resumed checkpoint's, else random)
+  signal?: AbortSignal;  // Aborting stops the run before its next checkpoint, and it writes no further output
+}
+
+export interface AnalyzeResult {
+  analysisPath: string;
+  totalForms: number;
+  complete: boolean; // false when the analysis stopped before reaching the last form
+}
+
+/**
+ * Analyzes a survey inside a logging run context: every record carries the run ID and tuple,
+ * and is also written as NDJSON to `<output dir>/logs/<runId>.ndjson`.
+ */
+export async function analyzeSurvey(url: string, tuple: SurveyTuple, options: AnalyzeOptions = {}): Promise<AnalyzeResult> {
+  const runId = options.runId || createRunId();
+  const logFile = join(getOutputDir(tuple), 'logs', `${runId}.ndjson`);
+  return logger.runWithContext(
+    { runId, tuple: [tuple.customerId, tuple.studyId, tuple.packageName, tuple.language, tuple.version].join(','), logFile },
+    () => runAnalysis(url, tuple, runId, options)
+  );
+}
+
+async function runAnalysis(url: string, tuple: SurveyTuple, runId: string, options: AnalyzeOptions): Promise<AnalyzeResult> {
+  logger.info(`Starting analysis run ${runId}`);
+  const settings = configService.getSettings(tuple.customerId);
+  const patternSettings = configService.getPatternSettings();
+  await patternStoreService.load(patternSettings);
+  const navDelay = options.navDelay ?? settings.defaults.navDelay * 1000;
+  const screenWidth = options.screenWidth ?? settings.defaults.screenWidth;
+  const viewports = options.viewports ?? settings.defaults.viewports;
+  const resume = options.resume || false;
+  const platform = applySelectorOverrides(
+    surveyPlatformRegistry.get(options.platform || settings.defaults.platform),
+    settings.selectors.platform
+  );
+  logger.info(`Using survey platform: ${platform.name}`);
+  logger.info(`Navigation delay: ${navDelay / 1000} seconds, screen width: ${screenWidth}px`);
+  
+  const ownsBrowser = !options.puppeteerManager;
+  const puppeteerManager = options.puppeteerManager || new PuppeteerManager();
+  // Load forms captured by a previous run, or start a fresh checkpoint
+  const checkpointService = new CheckpointService(tuple);
+  const previousCheckpoint = resume ? checkpointService.load(url) : null;
+  if (!resume) {
+    checkpointService.clear();
+  }
+  // A resumed run keeps the seed and generation time, so its test data match the captured forms'
+  const startedAt = previousCheckpoint?.startedAt || new Date().toISOString();
+  const seed = options.seed || previousCheckpoint?.seed || createSeed();
+  logger.info(`Test data seed: ${seed}`);
+  const testDataOptions = { locale: tuple.language, seed, generatedAt: startedAt };
+
+  const formDetector = new SurveyFormDetector(platform, settings.timings, testDataOptions);
+  const formNavigator = new FormNavigator(platform, settings, testDataOptions);
+  const formResetService = new FormResetService(platform, settings.timings);
+  const screenshotService = new ScreenshotService({ width: screenWidth, height: settings.defaults.screenHeight }, platform.selectors, settings.timings);
+  if (viewports.length > 0) {
+    screenshotService.setViewportWidths(viewports);
+    logger.info(`Capturing screenshots at viewports: ${screenshotService.getViewportWidths().join(', ')} (primary: ${screenshotService.getDefaultViewport().width})`);
+  }
+  const snapshotService = options.record
+    ? new SnapshotService(join(getOutputDir(tuple), 'snapshots'))
+    : null;
+  const skipLogicExplorer = options.exploreSkipLogic
+    ? new SkipLogicExplorer(formNavigator, formResetService, {
+        settleDelay: settings.timings.interactionDelay,
+        quietPeriod: settings.timings.domQuietPeriod
+      })
+    : null;
+  const auditRtl = options.rtlAudit || rtlAuditService.isRtlLanguage(tuple.language);
+  if (auditRtl) {
+    logger.info(`Auditing right-to-left layout of every form (language: ${tuple.language})`);
+  }
+  // Each phase starts without the question the previous one ended on
+  const enterPhase = (phase: LogPhase) => logger.setContext({ phase, questionNumber: undefined });
+  const settle = () => waitForDomStable(puppeteerManager.getPage(), settings.timings.interactionDelay, {
+    container: platform.selectors.container,
+    quietPeriod: settings.timings.domQuietPeriod
+  });
   
   try {
-    logger.info('Launching browser...');
-    await puppeteerManager.launch();
+    if (ownsBrowser) {
+      logger.info('Launching browser...');
+      await puppeteerManager.launch();
+    }
     
+    enterPhase('navigate');
     logger.info('Navigating to survey...');
-    await puppeteerManager.navigateToPage(url);
+    await puppeteerManager.navigateToPage(url, settings.timings);
     
     // Set default viewport (767x1024)
     await screenshotService.setDefaultViewport(puppeteerManager.getPage());
@@ -39,11 +148,51 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
       logger.info('Already on first form');
     }
     
+    snapshotService?.initialize(tuple, url, platform.id);
+    
     const forms: SurveyForm[] = [];
     let formIndex = 0;
     let isLastForm = false;
     
+    const checkpoint: AnalysisCheckpoint = {
+      url,
+      tuple,
+      startedAt,
+      updatedAt: new Date().toISOString(),
+      seed,
+      forms
+    };
+    const saveCheckpoint = () => {
+      options.signal?.throwIfAborted();
+      checkpointService.save(checkpoint);
+    };
+
+    if (previousCheckpoint && previousCheckpoint.forms.length > 0) {
+      logger.info(`Resuming analysis: skipping ${previousCheckpoint.forms.length} already captured forms`);
+      for (const capturedForm of previousCheckpoint.forms) {
+        logger.setContext({ formIndex });
+        enterPhase('navigate');
+        forms.push(capturedForm);
+        formIndex++;
+        
+        if (capturedForm.navigationButtons.some(b => b.type === 'finish')) {
+          logger.info('Checkpoint already contains the last form');
+          isLastForm = true;
+          break;
+        }
+        
+        const advanced = await skipCapturedForm(puppeteerManager.getPage(), formNavigator, capturedForm, navDelay);
+        if (!advanced) {
+          throw new Error(`Could not navigate past captured form ${formIndex} ("${capturedForm.longTitle}") while resuming`);
+        }
+      }
+      logger.info(`Resumed at form ${formIndex + 1}`);
+    }
+    
     while (!isLastForm) {
+      options.signal?.throwIfAborted();
+      logger.setContext({ formIndex });
+      enterPhase('fill');
       logger.info(`Analyzing form ${formIndex + 1}...`);
       
       // Clear any existing values from the form before analysis (skip for cover/intro forms)
@@ -51,9 +200,17 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
       await formResetService.clearFormValues(puppeteerManager.getPage());
       
       // Take on-entry screenshot after clearing values
-      const onEntryScreenshot = await screenshotService.takeOnEntryScreenshot(puppeteerManager.getPage(), {} as SurveyForm, formIndex, tuple);
+      enterPhase('screenshot');
+      const onEntryScreenshots = await screenshotService.takeOnEntryScreenshots(puppeteerManager.getPage(), {} as SurveyForm, formIndex, tuple);
+      const onEntryScreenshot = screenshotService.getPrimaryScreenshot(onEntryScreenshots);
+      
+      // Record the untouched form for offline re-analysis
+      if (snapshotService) {
+        await snapshotService.captureForm(puppeteerManager.getPage(), formIndex);
+      }
       
       // Detect current form
+      enterPhase('detect');
       const form = await formDetector.detectSurveyForm(puppeteerManager.getPage(), tuple, screenshotService, formIndex);
       
       // Detect navigation buttons
@@ -62,13 +219,27 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
       form.formIndex = formIndex;
       
       // Set screenshot paths
+      form.viewports = screenshotService.getViewportWidths();
       if (onEntryScreenshot) {
         form.onEntryScreenshot = onEntryScreenshot;
+        form.onEntryScreenshots = onEntryScreenshots;
       }
       
       logger.info(`Found form ${formIndex + 1}: "${form.longTitle}" with ${form.fields.length} fields`);
       logger.info(`Navigation buttons: ${navButtons.map(b => b.type).join(', ')}`);
       
+      // Check the mirroring before any field is filled or revealed
+      if (auditRtl) {
+        form.rtlAudit = await rtlAuditService.auditForm(puppeteerManager.getPage(), form, await platform.findContainer(puppeteerManager.getPage()), tuple.language);
+      }
+      if (options.accessibility !== false) {
+        try {
+          form.accessibility = await accessibilityAuditService.auditForm(puppeteerManager.getPage(), form);
+        } catch (error) {
+          logger.warn(`Accessibility audit of form ${formIndex + 1} failed:`, error);
+        }
+      }
+      
       // Debug: Log field details for forms with few fields
       if (form.fields.length <= 3) {
         form.fields.forEach(field => {
@@ -76,6 +247,29 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
         });
       }
       
+      // Try every choice of the form's triggers to map out its conditional questions
+      let exploredFields: SurveyField[] = [];
+      if (skipLogicExplorer && form.fields.length > 0) {
+        enterPhase('detect');
+        let revealedCount = 0;
+        const exploration = await skipLogicExplorer.explore(puppeteerManager.getPage(), form.fields, async (field) => {
+          const screenshots = await screenshotService.takeFieldScreenshots(
+            puppeteerManager.getPage(),
+            field,
+            form.fields.length + revealedCount++,
+            tuple,
+            formIndex
+          );
+          const screenshot = screenshotService.getPrimaryScreenshot(screenshots);
+          if (screenshot) {
+            field.screenshotPath = screenshot;
+            field.screenshots = screenshots;
+          }
+        });
+        form.skipLogic = exploration.graph;
+        exploredFields = exploration.discoveredFields;
+      }
+      
       forms.push(form);
       
       // Check if this is the last form (has finish button)
@@ -89,19 +283,23 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
             logger.info('Form appears to have no input fields - checking if it might be a dynamic form');
             
             // Take exit screenshot BEFORE doing navigation tests for informational forms
+            enterPhase('screenshot');
             logger.info('Taking exit screenshot for potential informational form...');
-            const onExitScreenshot = await screenshotService.takeOnExitScreenshot(puppeteerManager.getPage(), form, formIndex, tuple);
+            const onExitScreenshots = await screenshotService.takeOnExitScreenshots(puppeteerManager.getPage(), form, formIndex, tuple);
+            const onExitScreenshot = screenshotService.getPrimaryScreenshot(onExitScreenshots);
             if (onExitScreenshot) {
               form.onExitScreenshot = onExitScreenshot;
+              form.onExitScreenshots = onExitScreenshots;
             }
             
             // Try clicking next to see if it triggers validation or reveals fields
+            enterPhase('navigate');
             logger.info('Attempting navigation to check for dynamic content...');
             try {
               await formNavigator.clickNavigationButtonWithRetry(puppeteerManager.getPage(), 'next', 500); // Use retry logic
               
               // Check if we got a validation modal
-              await new Promise(resolve => setTimeout(resolve, 1000));
+              await settle();
               const hasModal = await formNavigator.detectValidationModal(puppeteerManager.getPage());
               
               if (hasModal) {
@@ -109,7 +307,7 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
                 await formNavigator.closeValidationModal(puppeteerManager.getPage());
                 
                 // Re-analyze the form to find the now-visible fields
-                await new Promise(resolve => setTimeout(resolve, 1000));
+                await settle();
                 const redetectedForm = await formDetector.detectSurveyForm(puppeteerManager.getPage(), tuple, screenshotService, formIndex);
                 
                 if (redetectedForm.fields.length > 0) {
@@ -118,14 +316,18 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
                   forms[forms.length - 1] = form; // Update the form in the array
                   
                   // Fill the fields
+                  enterPhase('fill');
                   const allFields = await formNavigator.fillRequiredFields(puppeteerManager.getPage(), form.fields);
                   form.fields = allFields;
                   
                   // Take a new exit screenshot since this is now a form with fields
+                  enterPhase('screenshot');
                   logger.info('Taking new exit screenshot for dynamic form with fields...');
-                  const newOnExitScreenshot = await screenshotService.takeOnExitScreenshot(puppeteerManager.getPage(), form, formIndex, tuple);
+                  const newOnExitScreenshots = await screenshotService.takeOnExitScreenshots(puppeteerManager.getPage(), form, formIndex, tuple);
+                  const newOnExitScreenshot = screenshotService.getPrimaryScreenshot(newOnExitScreenshots);
                   if (newOnExitScreenshot) {
                     form.onExitScreenshot = newOnExitScreenshot;
+                    form.onExitScreenshots = newOnExitScreenshots;
                   }
                 } else {
                   logger.info('No fields found even after validation modal - confirmed as informational form');
@@ -136,6 +338,7 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
                 if (transitioned) {
                   logger.info('Form transitioned without fields - confirmed as informational form');
                   // Exit screenshot was already taken above, so just continue
+                  saveCheckpoint();
                   
                   // We've already moved to the next form, so continue from there
                   formIndex++;
@@ -146,13 +349,22 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
               logger.warn('Error during dynamic form check:', error);
             }
           } else {
+            enterPhase('fill');
             logger.info('Filling required fields...');
             const allFields = await formNavigator.fillRequiredFields(puppeteerManager.getPage(), form.fields);
             
             // Update form fields to include any conditional fields that were discovered
             form.fields = allFields;
             
+            // Add conditional fields that only skip-logic exploration revealed
+            for (const field of exploredFields) {
+              if (!allFields.some(f => f.questionNumber === field.questionNumber)) {
+                allFields.push(field);
+              }
+            }
+            
             // Take screenshots for any conditional fields that don't have them yet
+            enterPhase('screenshot');
             for (const field of allFields) {
               if (!field.screenshotPath && field.conditionalInfo?.isConditional) {
                 // Check if field is actually visible before taking screenshot
@@ -170,16 +382,19 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
                 }, field.cardBoxSelector);
                 
                 if (isVisible) {
+                  logger.setContext({ questionNumber: field.questionNumber });
                   logger.info(`Taking screenshot for conditional field ${field.questionNumber}`);
-                  const screenshot = await screenshotService.takeFieldScreenshot(
+                  const screenshots = await screenshotService.takeFieldScreenshots(
                     puppeteerManager.getPage(), 
                     field, 
                     allFields.indexOf(field), 
                     tuple,
                     formIndex
                   );
+                  const screenshot = screenshotService.getPrimaryScreenshot(screenshots);
                   if (screenshot) {
                     field.screenshotPath = screenshot;
+                    field.screenshots = screenshots;
                   }
                 } else {
                   logger.warn(`Skipping screenshot for conditional field ${field.questionNumber} - element not visible (selector: ${field.cardBoxSelector})`);
@@ -190,17 +405,24 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
           
           // Take on-exit screenshot for all forms (including last form) if not already taken
           if (!form.onExitScreenshot) {
+            enterPhase('screenshot');
             logger.info('Taking on-exit screenshot...');
-            const onExitScreenshot = await screenshotService.takeOnExitScreenshot(puppeteerManager.getPage(), form, formIndex, tuple);
+            const onExitScreenshots = await screenshotService.takeOnExitScreenshots(puppeteerManager.getPage(), form, formIndex, tuple);
+            const onExitScreenshot = screenshotService.getPrimaryScreenshot(onExitScreenshots);
             if (onExitScreenshot) {
               form.onExitScreenshot = onExitScreenshot;
+              form.onExitScreenshots = onExitScreenshots;
             }
           } else {
             logger.info('Exit screenshot already taken for this form');
           }
           
+          // The form and its screenshots are complete, checkpoint before navigating away
+          saveCheckpoint();
+          
           // Only navigate if this is not the last form
           if (!isLastForm) {
+            enterPhase('navigate');
             logger.info('Clicking next button with retry logic...');
             await formNavigator.clickNavigationButtonWithRetry(puppeteerManager.getPage(), 'next', navDelay);
           
@@ -212,37 +434,16 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
           }
           
           // Additional check: verify we're actually on a different form
-          const newFormPreview = await puppeteerManager.getPage().evaluate(() => {
-            const container = document.querySelector('#survey-body-container');
-            if (!container) return { title: '', shortName: '', questionCount: 0, hasVASSlider: false, questionText: '' };
-            
-            // Use same title detection logic as extractFormTitles()
-            const allPs = container.querySelectorAll('p');
-            let formTitleP = null;
-            
-            // Look for a p tag that has an h3 sibling in the same parent
-            for (const p of allPs) {
-              const parent = p.parentElement;
-              if (parent) {
-                const h3InParent = parent.querySelector('h3');
-                if (h3InParent) {
-                  formTitleP = p;
-                  break;
-                }
-              }
-            }
-            
-            const title = formTitleP?.textContent?.trim() || 'Title not found';
-            
-            // Get short name (h3)
-            const h3Elements = container.querySelectorAll('h3');
-            const shortName = h3Elements.length > 0 ? h3Elements[0].textContent?.trim() || 'Short name not found' : 'Short name not found';
+          const newFormTitles = await platform.extractFormTitles(puppeteerManager.getPage());
+          const newFormContent = await puppeteerManager.getPage().evaluate((selectors) => {
+            const container = document.querySelector(selectors.container);
+            if (!container) return { questionCount: 0, hasVASSlider: false, questionText: '' };
             
             // Count questions
-            const questions = container.querySelectorAll('[class*="CardBox"]');
+            const questions = container.querySelectorAll(selectors.questionCard);
             
             // Check for VAS slider
-            const hasVASSlider = container.querySelector('[class*="SliderTrack"]') !== null;
+            const hasVASSlider = container.querySelector(selectors.sliderTrack) !== null;
             
             // Get first question text for comparison
             let questionText = '';
@@ -252,8 +453,9 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
               questionText = questionTextElement?.textContent?.trim().substring(0, 100) || '';
             }
             
-            return { title, shortName, questionCount: questions.length, hasVASSlider, questionText };
-          });
+            return { questionCount: questions.length, hasVASSlider, questionText };
+          }, platform.selectors);
+          const newFormPreview = { title: newFormTitles.longTitle, shortName: newFormTitles.shortName, ...newFormContent };
           
           logger.info(`New form preview: "${newFormPreview.title}" (${newFormPreview.shortName}) with ${newFormPreview.questionCount} questions, VAS: ${newFormPreview.hasVASSlider}`);
           logger.info(`Question text preview: "${newFormPreview.questionText.substring(0, 50)}..."`);
@@ -278,7 +480,13 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
       }
     }
     
+    // A cancelled run must not overwrite the output that a retry resumes from
+    options.signal?.throwIfAborted();
     logger.info(`Analysis completed. Found ${forms.length} forms`);
+    const layoutIssueCount = forms.reduce((sum, form) => sum + form.fields.reduce((fieldSum, field) => fieldSum + (field.layoutIssues?.length || 0), 0), 0);
+    if (layoutIssueCount > 0) {
+      logger.warn(`Found ${layoutIssueCount} clipped, truncated or overlapping text regions`);
+    }
     
     // Generate survey output
     const survey: Survey = {
@@ -286,24 +494,62 @@ export async function analyzeSurvey(url: string, tuple: SurveyTuple, navDelay: n
         tuple,
         analysisDate: new Date().toISOString(),
         url,
-        totalForms: forms.length
+        totalForms: forms.length,
+        viewports: screenshotService.getViewportWidths(),
+        runId
       },
       forms
     };
     
+    // Flag forms that did not render in the tuple's language
+    languageDetectionService.checkSurvey(survey);
+    rtlAuditService.summarizeSurvey(survey);
+    accessibilityAuditService.summarizeSurvey(survey);
+    
+    // Queue fields with guessed types for classification
+    unknownFieldService.collect(survey);
+    
     // Save results
-    await saveResults(survey, tuple);
+    const analysisPath = await saveResults(survey, tuple);
+    await patternStoreService.saveUsage(patternSettings);
+    
+    // Only a fully captured survey clears the checkpoint; a stopped analysis can still be resumed
+    if (isLastForm) {
+      checkpointService.clear();
+    } else {
+      logger.info(`Analysis stopped before the last form, run again with --resume to continue from ${checkpointService.getCheckpointPath()}`);
+    }
     
     logger.info(`Analysis completed successfully`);
+    return { analysisPath, totalForms: forms.length, complete: isLastForm };
     
   } finally {
-    await puppeteerManager.close();
+    if (ownsBrowser) {
+      await puppeteerManager.close();
+    }
   }
 }
 
-async function saveResults(survey: Survey, tuple: SurveyTuple): Promise<void> {
+async function skipCapturedForm(page: ReturnType<PuppeteerManager['getPage']>, formNavigator: FormNavigator, form: SurveyForm, navDelay: number): Promise<boolean> {
+  logger.info(`Skipping captured form ${(form.formIndex ?? 0) + 1}: "${form.longTitle}"`);
+  
+  // Conditional fields are revealed again while filling their parents
+  const baseFields = form.fields.filter(field => !field.conditionalInfo?.isConditional);
+  if (baseFields.length > 0) {
+    await formNavigator.fillRequiredFields(page, baseFields);
+  }
+  
+  await formNavigator.clickNavigationButtonWithRetry(page, 'next', navDelay);
+  return formNavigator.waitForFormTransition(page, form.longTitle);
+}
+
+function getOutputDir(tuple: SurveyTuple): string {
+  return join('/app/output', tuple.customerId, tuple.studyId, tuple.packageName, tuple.language, tuple.version);
+}
+
+async function saveResults(survey: Survey, tuple: SurveyTuple): Promise<string> {
   // Create output directory structure with proper permissions
-  const outputDir = join('/app/output', tuple.customerId, tuple.studyId, tuple.packageName, tuple.language, tuple.version);
+  const outputDir = getOutputDir(tuple);
   try {
     mkdirSync(outputDir, { recursive: true, mode: 0o777 });
   } catch (error) {
@@ -316,7 +562,7 @@ async function saveResults(survey: Survey, tuple: SurveyTuple): Promise<void> {
     const analysisPath = join(fallbackDir, `analysis_${tuple.customerId}_${tuple.studyId}.json`);
     writeFileSync(analysisPath, JSON.stringify(survey, null, 2));
     logger.info(`Results saved to fallback location: ${analysisPath}`);
-    return;
+    return analysisPath;
   }
   
   // Save main analysis JSON
@@ -324,5 +570,6 @@ async function saveResults(survey: Survey, tuple: SurveyTuple): Promise<void> {
   writeFileSync(analysisPath, JSON.stringify(survey, null, 2));
   
   logger.info(`Results saved to: ${analysisPath}`);
+  return analysisPath;
 }
 
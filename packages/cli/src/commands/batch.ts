@@ -0,0 +1,343 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import {
+  BrowserPool,
+  FirestoreService,
+  PuppeteerManager,
+  createRunId,
+  logger as rootLogger,
+  Survey,
+  SurveyTuple
+} from '@form-shot/shared';
+import { analyzeSurvey, AnalyzeResult } from './analyze.js';
+
+const logger = rootLogger.child('batch');
+
+export interface BatchJob {
+  line: number;
+  width: number;
+  tuple: SurveyTuple;
+  tupleString: string;
+  url: string;
+}
+
+export interface BatchOptions {
+  jobs?: number;           // Concurrent analyses, one pooled browser each (default: 3)
+  retries?: number;        // Extra attempts per failed job (default: 2)
+  backoff?: number;        // Base retry delay in seconds, doubled per attempt (default: 30)
+  timeout?: number;        // Per-attempt timeout in seconds (default: 3600)
+  navDelay?: number;       // Navigation delay in seconds (default: configured per customer)
+  platform?: string;
+  upload?: boolean;
+  local?: boolean;
+  skipExisting?: boolean;
+  summary?: string;
+}
+
+export interface BatchJobResult {
+  line: number;
+  tuple: string;
+  url: string;
+  width: number;
+  status: 'success' | 'failed' | 'timeout' | 'skipped';
+  attempts: number;
+  runIds: string[]; // Log correlation ID of each attempt
+  errors: string[];
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  analysisPath?: string;
+  totalForms?: number;
+  upload?: {
+    status: 'success' | 'failed';
+    durationMs: number;
+    error?: string;
+  };
+}
+
+export interface BatchSummary {
+  inputFile: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  config: Required<Omit<BatchOptions, 'summary' | 'platform' | 'navDelay'>> & { platform?: string; navDelay?: number };
+  invalidLines: Array<{ line: number; content: string; error: string }>;
+  totals: {
+    jobs: number;
+    succeeded: number;
+    failed: number;
+    skipped: number;
+    retried: number;
+    uploaded: number;
+    uploadFailed: number;
+  };
+  jobs: BatchJobResult[];
+}
+
+class BatchTimeoutError extends Error {}
+
+/**
+ * Parses a batch input file. Each non-comment line is
+ * `<width>,<customer_id>,<study_id>,<package_name>,<language>,<version>,<survey_url>`;
+ * the URL may itself contain commas.
+ */
+export function parseBatchFile(inputFile: string): { jobs: BatchJob[]; invalidLines: BatchSummary['invalidLines'] } {
+  if (!existsSync(inputFile)) {
+    throw new Error(`Input file not found: ${inputFile}`);
+  }
+
+  const jobs: BatchJob[] = [];
+  const invalidLines: BatchSummary['invalidLines'] = [];
+
+  readFileSync(inputFile, 'utf-8').split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const content = rawLine.trim();
+    if (!content || content.startsWith('#')) return;
+
+    const parts = content.split(',').map(part => part.trim());
+    let error: string | null = null;
+    if (parts.length < 7) {
+      error = 'expected at least 7 comma-separated parts';
+    } else if (!/^\d+$/.test(parts[0]) || parseInt(parts[0], 10) <= 0) {
+      error = `invalid width '${parts[0]}'`;
+    } else if (!/^https?:\/\//.test(parts.slice(6).join(','))) {
+      error = `invalid URL '${parts.slice(6).join(',')}'`;
+    }
+
+    if (error) {
+      logger.warn(`Line ${line}: skipped, ${error}`);
+      invalidLines.push({ line, content, error });
+      return;
+    }
+
+    const [customerId, studyId, packageName, language, version] = parts.slice(1, 6);
+    jobs.push({
+      line,
+      width: parseInt(parts[0], 10),
+      tuple: { customerId, studyId, packageName, language, version },
+      tupleString: parts.slice(1, 6).join(','),
+      url: parts.slice(6).join(',')
+    });
+  });
+
+  return { jobs, invalidLines };
+}
+
+export async function runBatch(inputFile: string, options: BatchOptions = {}): Promise<BatchSummary> {
+  const config = {
+    jobs: options.jobs ?? 3,
+    retries: options.retries ?? 2,
+    backoff: options.backoff ?? 30,
+    timeout: options.timeout ?? 3600,
+    navDelay: options.navDelay,
+    upload: options.upload || false,
+    local: options.local || false,
+    skipExisting: options.skipExisting || false,
+    platform: options.platform
+  };
+  const startedAt = new Date();
+  const summaryPath = resolve(options.summary || join('/app/output', 'logs', `batch-summary-${startedAt.toISOString().replace(/[:.]/g, '-')}.json`));
+
+  const { jobs, invalidLines } = parseBatchFile(inputFile);
+  if (jobs.length === 0) {
+    throw new Error(`No valid configurations found in ${inputFile}`);
+  }
+  logger.info(`Found ${jobs.length} valid configuration(s), running ${config.jobs} at a time`);
+
+  // Fail fast on missing credentials instead of after the first analysis
+  const firestoreService = config.upload ? new FirestoreService(config.local) : null;
+  const pool = new BrowserPool(config.jobs);
+  const results: BatchJobResult[] = [];
+
+  const buildSummary = (): BatchSummary => {
+    const finishedAt = new Date();
+    return {
+      inputFile: resolve(inputFile),
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      config,
+      invalidLines,
+      totals: {
+        jobs: jobs.length,
+        succeeded: results.filter(r => r.status === 'success').length,
+        failed: results.filter(r => r.status === 'failed' || r.status === 'timeout').length,
+        skipped: results.filter(r => r.status === 'skipped').length,
+        retried: results.filter(r => r.attempts > 1).length,
+        uploaded: results.filter(r => r.upload?.status === 'success').length,
+        uploadFailed: results.filter(r => r.upload?.status === 'failed').length
+      },
+      jobs: [...results].sort((a, b) => a.line - b.line)
+    };
+  };
+
+  // Keep whatever finished when the batch is interrupted
+  const onInterrupt = () => {
+    logger.warn('Batch interrupted, writing partial summary...');
+    writeSummary(summaryPath, buildSummary());
+    pool.close().finally(() => process.exit(130));
+  };
+  process.once('SIGINT', onInterrupt);
+  process.once('SIGTERM', onInterrupt);
+
+  try {
+    let next = 0;
+    const worker = async () => {
+      while (next < jobs.length) {
+        const job = jobs[next++];
+        const result = await logger.runWithContext({ tuple: job.tupleString }, () => runJob(job, config, pool));
+        if (result.status === 'success' && firestoreService && result.analysisPath) {
+          result.upload = await uploadJob(firestoreService, result.analysisPath);
+        }
+        results.push(result);
+        logger.info(`Progress: ${results.length}/${jobs.length} jobs finished`);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(config.jobs, jobs.length) }, () => worker()));
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+    process.removeListener('SIGTERM', onInterrupt);
+    await pool.close();
+  }
+
+  const summary = buildSummary();
+  writeSummary(summaryPath, summary);
+  logSummary(summary);
+  return summary;
+}
+
+async function runJob(job: BatchJob, config: BatchSummary['config'], pool: BrowserPool): Promise<BatchJobResult> {
+  const startedAt = new Date();
+  const result: BatchJobResult = {
+    line: job.line,
+    tuple: job.tupleString,
+    url: job.url,
+    width: job.width,
+    status: 'failed',
+    attempts: 0,
+    runIds: [],
+    errors: [],
+    startedAt: startedAt.toISOString(),
+    finishedAt: '',
+    durationMs: 0
+  };
+  const finish = (): BatchJobResult => {
+    const finishedAt = new Date();
+    result.finishedAt = finishedAt.toISOString();
+    result.durationMs = finishedAt.getTime() - startedAt.getTime();
+    return result;
+  };
+
+  const existingPath = join('/app/output', job.tuple.customerId, job.tuple.studyId, job.tuple.packageName, job.tuple.language, job.tuple.version, 'analysis.json');
+  if (config.skipExisting && existsSync(existingPath)) {
+    logger.info(`[${job.tupleString}] Analysis already exists, skipping`);
+    result.status = 'skipped';
+    result.analysisPath = existingPath;
+    return finish();
+  }
+
+  for (let attempt = 1; attempt <= config.retries + 1; attempt++) {
+    result.attempts = attempt;
+    const runId = createRunId();
+    result.runIds.push(runId);
+    logger.info(`[${job.tupleString}] Starting analysis run ${runId} (attempt ${attempt}/${config.retries + 1})`);
+
+    const puppeteerManager = new PuppeteerManager();
+    const controller = new AbortController();
+    let run: Promise<AnalyzeResult> | undefined;
+    try {
+      await puppeteerManager.launch(pool);
+      run = analyzeSurvey(job.url, job.tuple, {
+        navDelay: config.navDelay !== undefined ? config.navDelay * 1000 : undefined,
+        screenWidth: job.width,
+        platform: config.platform,
+        // Retries continue from the forms the failed attempt already captured
+        resume: attempt > 1,
+        puppeteerManager,
+        runId,
+        signal: controller.signal
+      });
+      const analysis = await withTimeout(run, config.timeout * 1000, controller);
+
+      if (!analysis.complete) {
+        throw new Error(`Analysis stopped after ${analysis.totalForms} forms without reaching the last form`);
+      }
+
+      result.status = 'success';
+      result.analysisPath = analysis.analysisPath;
+      result.totalForms = analysis.totalForms;
+      logger.info(`[${job.tupleString}] Analysis succeeded with ${analysis.totalForms} forms`);
+      return finish();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.errors.push(`Attempt ${attempt}: ${message}`);
+      result.status = error instanceof BatchTimeoutError ? 'timeout' : 'failed';
+      logger.error(`[${job.tupleString}] Attempt ${attempt} failed: ${message}`);
+    } finally {
+      // Closing the page also stops an analysis that is still running after a timeout;
+      // wait for it to settle so the retry does not share the output directory with it
+      await puppeteerManager.close();
+      await run?.catch(() => undefined);
+    }
+
+    if (attempt <= config.retries) {
+      const delay = config.backoff * Math.pow(2, attempt - 1);
+      logger.info(`[${job.tupleString}] Retrying in ${delay}s`);
+      await new Promise(resolve => setTimeout(resolve, delay * 1000));
+    }
+  }
+
+  return finish();
+}
+
+async function uploadJob(firestoreService: FirestoreService, analysisPath: string): Promise<BatchJobResult['upload']> {
+  const startedAt = Date.now();
+  try {
+    const survey = JSON.parse(readFileSync(analysisPath, 'utf-8')) as Survey;
+    await firestoreService.uploadSurvey(survey, dirname(analysisPath));
+    logger.info(`Uploaded ${analysisPath}`);
+    return { status: 'success', durationMs: Date.now() - startedAt };
+  } catch (error) {
+    logger.error(`Upload failed for ${analysisPath}:`, error);
+    return {
+      status: 'failed',
+      durationMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, controller: AbortController): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new BatchTimeoutError(`Timed out after ${timeoutMs / 1000}s`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function writeSummary(summaryPath: string, summary: BatchSummary): void {
+  try {
+    mkdirSync(dirname(summaryPath), { recursive: true });
+    writeFileSync(summaryPath, JSON.stringify(summary, null, 2));
+    logger.info(`Batch summary saved to: ${summaryPath}`);
+  } catch (error) {
+    logger.error(`Failed to write batch summary to ${summaryPath}:`, error);
+  }
+}
+
+function logSummary(summary: BatchSummary): void {
+  const { totals } = summary;
+  logger.info('===== BATCH SUMMARY =====');
+  logger.info(`Jobs: ${totals.jobs} (succeeded: ${totals.succeeded}, failed: ${totals.failed}, skipped: ${totals.skipped}, retried: ${totals.retried})`);
+  if (summary.config.upload) {
+    logger.info(`Uploads: ${totals.uploaded} succeeded, ${totals.uploadFailed} failed`);
+  }
+  logger.info(`Total time: ${Math.round(summary.durationMs / 1000)}s`);
+  summary.jobs
+    .filter(job => job.status === 'failed' || job.status === 'timeout')
+    .forEach(job => logger.warn(`  ${job.status.toUpperCase()}: ${job.tuple} (line ${job.line}) - ${job.errors[job.errors.length - 1] || 'unknown error'}`));
+}
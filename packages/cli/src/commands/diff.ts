@@ -0,0 +1,226 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import {
+  FirestoreService,
+  analysisDiffService,
+  logger,
+  AnalysisDiff,
+  FieldChange,
+  FieldDiff,
+  FormDiff,
+  Survey
+} from '@form-shot/shared';
+
+export interface DiffOptions {
+  json?: string;    // Path of the JSON report
+  html?: string;    // Path of the HTML report
+  local?: boolean;  // Use the Firebase emulators for Firestore analyses
+}
+
+/**
+ * Compares two analyses, each given as an analysis.json path or a Firestore analysis
+ * document ID, and prints the differences. Optionally writes JSON and HTML reports.
+ */
+export async function diffAnalyses(analysisA: string, analysisB: string, options: DiffOptions = {}): Promise<AnalysisDiff> {
+  let firestoreService: FirestoreService | undefined;
+  const load = async (analysis: string): Promise<{ survey: Survey; source: string }> => {
+    if (isLocalAnalysis(analysis)) {
+      const path = resolve(analysis);
+      if (!existsSync(path)) {
+        throw new Error(`Analysis file not found: ${path}`);
+      }
+      logger.info(`Reading analysis from: ${path}`);
+      const survey = JSON.parse(readFileSync(path, 'utf8')) as Survey;
+      if (!survey.metadata || !Array.isArray(survey.forms)) {
+        throw new Error(`Invalid analysis file structure in ${path}. Missing metadata or forms data.`);
+      }
+      return { survey, source: path };
+    }
+
+    firestoreService = firestoreService || new FirestoreService(options.local || false);
+    logger.info(`Reading analysis from Firestore: ${analysis}`);
+    return { survey: await firestoreService.getSurvey(analysis), source: analysis };
+  };
+
+  const a = await load(analysisA);
+  const b = await load(analysisB);
+
+  const tupleA = a.survey.metadata.tuple;
+  const tupleB = b.survey.metadata.tuple;
+  if (tupleA.customerId !== tupleB.customerId || tupleA.studyId !== tupleB.studyId || tupleA.packageName !== tupleB.packageName) {
+    logger.warn(`Comparing analyses of different packages: ${formatTuple(a.survey)} vs ${formatTuple(b.survey)}`);
+  }
+
+  const diff = analysisDiffService.diff(a.survey, b.survey, a.source, b.source);
+  printDiff(diff);
+
+  if (options.json) {
+    writeReport(options.json, JSON.stringify(diff, null, 2));
+    logger.info(`JSON report written to: ${resolve(options.json)}`);
+  }
+  if (options.html) {
+    writeReport(options.html, renderHtml(diff));
+    logger.info(`HTML report written to: ${resolve(options.html)}`);
+  }
+
+  return diff;
+}
+
+// Firestore document IDs never contain path separators or a .json extension
+function isLocalAnalysis(analysis: string): boolean {
+  return analysis.endsWith('.json') || analysis.includes('/') || analysis.includes('\\') || existsSync(analysis);
+}
+
+function formatTuple(survey: Survey): string {
+  const { customerId, studyId, packageName, language, version } = survey.metadata.tuple;
+  return `${customerId}/${studyId}/${packageName}/${language}/${version}`;
+}
+
+function writeReport(path: string, contents: string): void {
+  mkdirSync(dirname(resolve(path)), { recursive: true });
+  writeFileSync(path, contents);
+}
+
+function formatQuestionNumber(field: FieldDiff): string {
+  const before = field.questionNumberA;
+  const after = field.questionNumberB;
+  if (before && after && before !== after) return `Q${before} -> Q${after}`;
+  return `Q${after || before || '?'}`;
+}
+
+function formatChange(change: FieldChange): string {
+  switch (change.property) {
+    case 'questionText':
+      return `text: "${change.before}" -> "${change.after}"`;
+    case 'inputType':
+      return `input type: ${change.before} -> ${change.after}`;
+    case 'isRequired':
+      return `required: ${change.before} -> ${change.after}`;
+    case 'choices': {
+      const parts = [
+        ...change.added.map(choice => `+"${choice}"`),
+        ...change.removed.map(choice => `-"${choice}"`)
+      ];
+      if (change.reordered) parts.push('reordered');
+      return `choices: ${parts.join(', ')}`;
+    }
+  }
+}
+
+function formatForm(form: FormDiff): string {
+  const index = form.formIndexB !== undefined ? form.formIndexB : form.formIndexA;
+  return `Form ${index !== undefined ? index + 1 : '?'} "${form.shortName || form.longTitle}"`;
+}
+
+function printDiff(diff: AnalysisDiff): void {
+  const { summary } = diff;
+  logger.info(`A: ${diff.a.source} (${diff.a.totalForms} forms, ${diff.a.totalFields} fields)`);
+  logger.info(`B: ${diff.b.source} (${diff.b.totalForms} forms, ${diff.b.totalFields} fields)`);
+
+  if (diff.identical) {
+    logger.info('No differences found');
+    return;
+  }
+
+  for (const form of diff.forms) {
+    if (form.status === 'unchanged') continue;
+    if (form.status !== 'changed') {
+      logger.info(`[${form.status}] ${formatForm(form)} (${form.fields.length} questions)`);
+      continue;
+    }
+
+    logger.info(`[changed] ${formatForm(form)}`);
+    if (form.titleChanged) {
+      logger.info(`  title: "${form.titleChanged.before}" -> "${form.titleChanged.after}"`);
+    }
+    for (const field of form.fields) {
+      if (field.status === 'unchanged') continue;
+      if (field.status !== 'changed') {
+        logger.info(`  [${field.status}] ${formatQuestionNumber(field)}: ${field.questionText}`);
+        continue;
+      }
+      logger.info(`  [changed] ${formatQuestionNumber(field)}: ${field.questionText}`);
+      field.changes.forEach(change => logger.info(`    ${formatChange(change)}`));
+    }
+  }
+
+  logger.info('Summary:');
+  logger.info(`  Forms: ${summary.formsAdded} added, ${summary.formsRemoved} removed, ${summary.formsChanged} changed`);
+  logger.info(`  Questions: ${summary.questionsAdded} added, ${summary.questionsRemoved} removed, ${summary.questionsChanged} changed`);
+  logger.info(`  Changes: ${summary.questionTextChanges} question text, ${summary.choiceChanges} choice list, ${summary.inputTypeChanges} input type, ${summary.requiredChanges} required flag`);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderHtmlChange(change: FieldChange): string {
+  switch (change.property) {
+    case 'questionText':
+      return `<div><b>Text</b>: <del>${escapeHtml(change.before)}</del> <ins>${escapeHtml(change.after)}</ins></div>`;
+    case 'inputType':
+      return `<div><b>Input type</b>: <del>${escapeHtml(change.before)}</del> <ins>${escapeHtml(change.after)}</ins></div>`;
+    case 'isRequired':
+      return `<div><b>Required</b>: <del>${change.before}</del> <ins>${change.after}</ins></div>`;
+    case 'choices': {
+      const choices = [
+        ...change.after.map(choice => change.added.includes(choice) ? `<ins>${escapeHtml(choice)}</ins>` : escapeHtml(choice)),
+        ...change.removed.map(choice => `<del>${escapeHtml(choice)}</del>`)
+      ];
+      return `<div><b>Choices</b>${change.reordered ? ' (reordered)' : ''}: ${choices.join(' &middot; ')}</div>`;
+    }
+  }
+}
+
+function renderHtml(diff: AnalysisDiff): string {
+  const { summary } = diff;
+  const forms = diff.forms.map(form => {
+    const rows = form.fields.map(field => `<tr class="${field.status}">
+<td>${escapeHtml(formatQuestionNumber(field))}</td>
+<td>${field.status}</td>
+<td>${escapeHtml(field.questionText)}${field.changes.map(renderHtmlChange).join('')}</td>
+</tr>`).join('\n');
+    const title = form.titleChanged
+      ? `<p><b>Title</b>: <del>${escapeHtml(form.titleChanged.before)}</del> <ins>${escapeHtml(form.titleChanged.after)}</ins></p>`
+      : '';
+    return `<details class="form ${form.status}"${form.status === 'unchanged' ? '' : ' open'}>
+<summary>${escapeHtml(formatForm(form))} &mdash; ${form.status}</summary>
+${title}
+<table><thead><tr><th>Question</th><th>Status</th><th>Details</th></tr></thead><tbody>
+${rows}
+</tbody></table>
+</details>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Analysis diff</title>
+<style>
+body { font-family: Arial, sans-serif; margin: 24px; color: #222; }
+table { border-collapse: collapse; width: 100%; margin: 8px 0 16px; }
+th, td { border: 1px solid #dde; padding: 6px; text-align: left; vertical-align: top; font-size: 14px; }
+details.form { border: 1px solid #ccd; border-radius: 6px; padding: 8px 12px; margin-bottom: 12px; }
+summary { font-weight: bold; cursor: pointer; }
+tr.added, details.added > summary { background: #e6f4ea; }
+tr.removed, details.removed > summary { background: #fce8e6; }
+tr.changed, details.changed > summary { background: #fef7e0; }
+ins { background: #ccebd5; text-decoration: none; }
+del { background: #f6c6c1; }
+</style>
+</head>
+<body>
+<h1>Analysis diff</h1>
+<p><b>A</b>: ${escapeHtml(diff.a.source)} (${diff.a.totalForms} forms, ${diff.a.totalFields} fields, analyzed ${escapeHtml(diff.a.analysisDate)})<br>
+<b>B</b>: ${escapeHtml(diff.b.source)} (${diff.b.totalForms} forms, ${diff.b.totalFields} fields, analyzed ${escapeHtml(diff.b.analysisDate)})</p>
+<table>
+<tr><th>Forms</th><td>${summary.formsAdded} added, ${summary.formsRemoved} removed, ${summary.formsChanged} changed</td></tr>
+<tr><th>Questions</th><td>${summary.questionsAdded} added, ${summary.questionsRemoved} removed, ${summary.questionsChanged} changed</td></tr>
+<tr><th>Changes</th><td>${summary.questionTextChanges} question text, ${summary.choiceChanges} choice list, ${summary.inputTypeChanges} input type, ${summary.requiredChanges} required flag</td></tr>
+</table>
+${forms}
+<p>Generated ${escapeHtml(diff.generatedAt)}</p>
+</body>
+</html>`;
+}
@@ -0,0 +1,46 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { codebookExportService, logger } from '@form-shot/shared';
+import { loadAnalyses } from './export-odm.js';
+
+export type CodebookFormat = 'redcap' | 'xlsx' | 'all';
+
+export interface ExportCodebookOptions {
+  format?: CodebookFormat;  // Which files to write (default: all)
+  outputDir?: string;       // Directory of the files (default: next to a local analysis, else the current directory)
+  allLanguages?: boolean;   // Add the other languages of the package version to the XLSX codebook
+  local?: boolean;          // Use the Firebase emulators for Firestore analyses
+}
+
+/**
+ * Exports an analysis, given as an analysis.json path or a Firestore analysis document ID,
+ * as a REDCap data dictionary CSV and a generic XLSX codebook. REDCap dictionaries hold a
+ * single language, so other languages only go into the workbook.
+ */
+export async function exportCodebook(analysis: string, options: ExportCodebookOptions = {}): Promise<string[]> {
+  const format = options.format || 'all';
+  if (!['redcap', 'xlsx', 'all'].includes(format)) {
+    throw new Error(`Unknown codebook format: ${format}. Use redcap, xlsx or all`);
+  }
+
+  const { survey, translations, localPath } = await loadAnalyses(analysis, options);
+  const outputDir = resolve(options.outputDir || (localPath ? dirname(localPath) : '.'));
+  const prefix = localPath ? '' : `${analysis}.`;
+  mkdirSync(outputDir, { recursive: true });
+
+  const written: string[] = [];
+  if (format === 'redcap' || format === 'all') {
+    const path = join(outputDir, `${prefix}redcap-data-dictionary.csv`);
+    writeFileSync(path, codebookExportService.toRedcapCsv(survey));
+    written.push(path);
+  }
+  if (format === 'xlsx' || format === 'all') {
+    const path = join(outputDir, `${prefix}codebook.xlsx`);
+    writeFileSync(path, codebookExportService.toXlsx([survey, ...translations]));
+    written.push(path);
+  }
+
+  const fieldCount = survey.forms.reduce((sum, form) => sum + form.fields.length, 0);
+  logger.info(`Exported codebook of ${survey.forms.length} forms with ${fieldCount} questions to: ${written.join(', ')}`);
+  return written;
+}
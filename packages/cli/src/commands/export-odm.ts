@@ -0,0 +1,92 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { FirestoreService, odmExportService, logger, Survey } from '@form-shot/shared';
+
+export interface ExportOdmOptions {
+  output?: string;         // Path of the ODM XML file (default: odm.xml next to a local analysis)
+  allLanguages?: boolean;  // Add the other languages of the package version as TranslatedText
+  local?: boolean;         // Use the Firebase emulators for Firestore analyses
+}
+
+/**
+ * Exports the structure of an analysis, given as an analysis.json path or a Firestore
+ * analysis document ID, as CDISC ODM metadata.
+ */
+export async function exportOdm(analysis: string, options: ExportOdmOptions = {}): Promise<string> {
+  const { survey, translations, localPath } = await loadAnalyses(analysis, options);
+
+  // Analyses uploaded before conditional info was stored with their fields read back without it
+  const hasConditions = survey.forms.some(form => form.skipLogic || form.fields.some(field => field.conditionalInfo?.isConditional));
+  if (!localPath && !hasConditions) {
+    logger.warn(`Analysis ${analysis} has no skip logic or conditional info, so no questions get a CollectionExceptionConditionDef. ` +
+      'Re-upload the analysis if it was uploaded before conditional info was stored.');
+  }
+
+  const xml = odmExportService.toOdm(survey, translations);
+  const outputPath = resolve(options.output || (localPath ? join(dirname(localPath), 'odm.xml') : `${analysis}.odm.xml`));
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(outputPath, xml);
+
+  const fieldCount = survey.forms.reduce((sum, form) => sum + form.fields.length, 0);
+  logger.info(`Exported ${survey.forms.length} forms with ${fieldCount} items to: ${outputPath}`);
+  return outputPath;
+}
+
+/**
+ * Loads an analysis from an analysis.json path or a Firestore analysis document ID and,
+ * with allLanguages, the other languages of the same package version sorted by language
+ */
+export async function loadAnalyses(
+  analysis: string,
+  options: { allLanguages?: boolean; local?: boolean } = {}
+): Promise<{ survey: Survey; translations: Survey[]; localPath?: string }> {
+  const localPath = isLocalAnalysis(analysis) ? resolve(analysis) : undefined;
+  const firestoreService = localPath ? undefined : new FirestoreService(options.local || false);
+  const survey = localPath ? readAnalysis(localPath) : await firestoreService!.getSurvey(analysis);
+  const { tuple } = survey.metadata;
+
+  let translations: Survey[] = [];
+  if (options.allLanguages) {
+    const analyses = localPath
+      ? readSiblingLanguages(localPath, tuple.version)
+      : await firestoreService!.getPackageSurveys(tuple.customerId, tuple.studyId, tuple.packageName, tuple.version);
+    translations = Object.keys(analyses)
+      .filter(language => language !== tuple.language)
+      .sort()
+      .map(language => analyses[language]);
+    logger.info(`Adding translations: ${translations.map(translation => translation.metadata.tuple.language).join(', ') || 'none found'}`);
+  }
+
+  return { survey, translations, localPath };
+}
+
+// Firestore document IDs never contain path separators or a .json extension
+function isLocalAnalysis(analysis: string): boolean {
+  return analysis.endsWith('.json') || analysis.includes('/') || analysis.includes('\\') || existsSync(analysis);
+}
+
+function readAnalysis(path: string): Survey {
+  if (!existsSync(path)) {
+    throw new Error(`Analysis file not found: ${path}`);
+  }
+  logger.info(`Reading analysis from: ${path}`);
+  const survey = JSON.parse(readFileSync(path, 'utf8')) as Survey;
+  if (!survey.metadata || !Array.isArray(survey.forms)) {
+    throw new Error(`Invalid analysis file structure in ${path}. Missing metadata or forms data.`);
+  }
+  return survey;
+}
+
+// Local analyses live in <package>/<language>/<version>/analysis.json
+function readSiblingLanguages(analysisPath: string, version: string): Record<string, Survey> {
+  const packageDir = dirname(dirname(dirname(analysisPath)));
+  const analyses: Record<string, Survey> = {};
+  for (const language of readdirSync(packageDir)) {
+    const path = join(packageDir, language, version, 'analysis.json');
+    if (path !== analysisPath && existsSync(path)) {
+      const survey = readAnalysis(path);
+      analyses[survey.metadata.tuple.language] = survey;
+    }
+  }
+  return analyses;
+}
@@ -0,0 +1,550 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { logger } from '@form-shot/shared';
+
+export type MockQuestionType =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'email'
+  | 'date'
+  | 'radio'
+  | 'checkbox'
+  | 'dropdown'
+  | 'autocomplete'
+  | 'VAS'
+  | 'NRS';
+
+export interface MockQuestionSpec {
+  number?: string;            // Printed question number, e.g. "1." or "2.1"
+  text: string;
+  type: MockQuestionType;
+  required?: boolean;
+  choices?: string[];         // radio, checkbox, dropdown and autocomplete options
+  min?: number;               // NRS/VAS lower bound (default 0)
+  max?: number;               // NRS upper bound (default 10), VAS upper bound (default 100)
+  showIf?: {                  // Conditional question, shown when the parent answer matches
+    question: string;         // number of the parent question
+    equals: string;
+  };
+}
+
+export interface MockFormSpec {
+  title: string;
+  shortName: string;
+  questions: MockQuestionSpec[];
+}
+
+export interface MockSurveySpec {
+  id?: string;
+  title?: string;
+  forms: MockFormSpec[];
+}
+
+export interface MockSurveyOptions {
+  port?: number;
+  host?: string;
+}
+
+const VALID_TYPES: MockQuestionType[] = ['text', 'textarea', 'number', 'email', 'date', 'radio', 'checkbox', 'dropdown', 'autocomplete', 'VAS', 'NRS'];
+
+export async function startMockSurvey(specPaths: string[], options: MockSurveyOptions = {}): Promise<void> {
+  const port = options.port ?? 4000;
+  const host = options.host ?? '127.0.0.1';
+
+  const surveys = new Map<string, MockSurveySpec>();
+  for (const specPath of specPaths) {
+    const spec = loadMockSurveySpec(specPath);
+    const id = spec.id || basename(specPath, extname(specPath));
+    if (surveys.has(id)) {
+      throw new Error(`Duplicate mock survey id "${id}" (from ${specPath})`);
+    }
+    surveys.set(id, spec);
+  }
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res, surveys).catch(error => {
+      logger.error(`Mock survey request failed: ${req.method} ${req.url}`, error);
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('Internal error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+
+  logger.info(`Mock survey server listening on http://${host}:${port}`);
+  surveys.forEach((spec, id) => {
+    logger.info(`  ${spec.title || id}: http://${host}:${port}/survey/${id} (${spec.forms.length} forms)`);
+  });
+  logger.info('Press Ctrl+C to stop');
+
+  await new Promise<void>(resolve => {
+    const shutdown = () => {
+      logger.info('Stopping mock survey server...');
+      server.close(() => resolve());
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+}
+
+export function loadMockSurveySpec(specPath: string): MockSurveySpec {
+  const spec = JSON.parse(readFileSync(specPath, 'utf-8')) as MockSurveySpec;
+
+  if (!Array.isArray(spec.forms) || spec.forms.length === 0) {
+    throw new Error(`Mock survey spec ${specPath} must define at least one form`);
+  }
+
+  spec.forms.forEach((form, formIndex) => {
+    if (!form.title || !form.shortName || !Array.isArray(form.questions)) {
+      throw new Error(`Form ${formIndex + 1} in ${specPath} needs a title, shortName and questions`);
+    }
+    const numbers = new Set(form.questions.map(q => q.number).filter(Boolean));
+    form.questions.forEach((question, questionIndex) => {
+      const where = `question ${questionIndex + 1} of form ${formIndex + 1} in ${specPath}`;
+      if (!VALID_TYPES.includes(question.type)) {
+        throw new Error(`Unknown type "${question.type}" for ${where}. Valid types: ${VALID_TYPES.join(', ')}`);
+      }
+      if (['radio', 'checkbox', 'dropdown', 'autocomplete'].includes(question.type) && (!question.choices || question.choices.length === 0)) {
+        throw new Error(`${where} of type ${question.type} needs choices`);
+      }
+      if (question.showIf && !numbers.has(question.showIf.question)) {
+        throw new Error(`${where} depends on unknown question "${question.showIf.question}"`);
+      }
+    });
+  });
+
+  return spec;
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse, surveys: Map<string, MockSurveySpec>): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const match = url.pathname.match(/^\/survey\/([^/]+)(\/(spec\.json|submit))?\/?$/);
+
+  if (url.pathname === '/' && req.method === 'GET') {
+    const links = Array.from(surveys.entries())
+      .map(([id, spec]) => `<li><a href="/survey/${id}">${escapeHtml(spec.title || id)}</a></li>`)
+      .join('');
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(`<!DOCTYPE html><html><head><title>Mock surveys</title></head><body><h1>Mock surveys</h1><ul>${links}</ul></body></html>`);
+    return;
+  }
+
+  const spec = match ? surveys.get(match[1]) : undefined;
+  if (!match || !spec) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found');
+    return;
+  }
+
+  if (match[3] === 'spec.json') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(spec));
+    return;
+  }
+
+  if (match[3] === 'submit' && req.method === 'POST') {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    logger.info(`Survey ${match[1]} submitted: ${body}`);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'ok' }));
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(renderSurveyPage(match[1], spec));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// The page mimics the Castor structures the detector and navigator rely on:
+// CardBox question cards inside #survey-body-container, the navigation area as
+// its next sibling, ActionMenu/BaseButton clearing, SliderTrack VAS sliders,
+// numeric NRS buttons, a MonthYearDropdownWrapper date picker and a role="dialog"
+// validation modal. Conditional questions are only rendered once triggered.
+function renderSurveyPage(id: string, spec: MockSurveySpec): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(spec.title || id)}</title>
+<style>${MOCK_SURVEY_CSS}</style>
+</head>
+<body>
+<div class="SurveyLayout">
+  <div id="survey-body-container"></div>
+  <div class="NavigationBar"></div>
+</div>
+<script>
+window.MOCK_SURVEY_ID = ${JSON.stringify(id)};
+window.MOCK_SURVEY_SPEC = ${JSON.stringify(spec).replace(/</g, '\\u003c')};
+${MOCK_SURVEY_SCRIPT}
+</script>
+</body>
+</html>`;
+}
+
+const MOCK_SURVEY_CSS = `
+body { font-family: Arial, sans-serif; margin: 0; background: #f4f5f7; color: #222; }
+.SurveyLayout { max-width: 720px; margin: 0 auto; padding: 16px; }
+#survey-body-container { background: #fff; padding: 16px; border-radius: 6px; max-height: calc(100vh - 120px); overflow-y: auto; }
+.FormHeader h3 { margin: 0 0 4px; font-size: 14px; color: #666; }
+.FormHeader p { margin: 0 0 16px; font-size: 20px; font-weight: bold; }
+.CardBox_card { position: relative; border: 1px solid #dde; border-radius: 6px; padding: 12px 40px 12px 12px; margin-bottom: 12px; }
+.CardBox_card label { display: block; margin: 4px 0; }
+.CardBox_card input[type="text"], .CardBox_card input[type="number"], .CardBox_card input[type="email"], .CardBox_card textarea, .CardBox_card select { width: 100%; box-sizing: border-box; padding: 6px; }
+.ActionMenu_trigger { position: absolute; top: 8px; right: 8px; width: 24px; height: 24px; border: none; background: transparent; cursor: pointer; }
+.ActionMenu_trigger::before { content: '\\22EE'; font-size: 18px; }
+.ActionMenu_popup { position: absolute; top: 32px; right: 8px; background: #fff; border: 1px solid #ccd; border-radius: 4px; z-index: 10; }
+.BaseButton_clear { padding: 6px 12px; cursor: pointer; }
+.SliderTrack_track { position: relative; height: 12px; background: #dde; border-radius: 6px; margin: 24px 0 8px; cursor: pointer; }
+.SliderHandle_thumb { position: absolute; top: -6px; width: 24px; height: 24px; margin-left: -12px; border-radius: 12px; background: #2a6ebb; }
+.SliderLabels { display: flex; justify-content: space-between; font-size: 12px; color: #666; }
+.NRS_scale { display: flex; gap: 4px; flex-wrap: wrap; }
+.NRS_scale button { min-width: 36px; padding: 6px; border: 1px solid #ccd; background: #fff; cursor: pointer; }
+.NRS_scale button.selected { background: #2a6ebb; color: #fff; }
+.Autocomplete_list { list-style: none; margin: 0; padding: 0; border: 1px solid #ccd; max-height: 160px; overflow-y: auto; }
+.Autocomplete_list li { padding: 6px; cursor: pointer; }
+.DatePicker_popup { border: 1px solid #ccd; background: #fff; padding: 8px; margin-top: 4px; }
+.MonthYearDropdownWrapper { display: flex; gap: 8px; margin-bottom: 8px; }
+.MonthYearDropdownWrapper div { border: 1px solid #ccd; padding: 4px 8px; min-width: 80px; }
+.DatePicker_days { display: grid; grid-template-columns: repeat(7, 1fr); gap: 2px; }
+.DatePicker_days .day { text-align: center; padding: 4px; cursor: pointer; }
+.NavigationBar { display: flex; justify-content: space-between; padding: 16px 0; }
+.NavigationBar button { padding: 8px 20px; font-size: 16px; cursor: pointer; }
+.ValidationModal_overlay { position: fixed; inset: 0; background: rgba(0, 0, 0, 0.4); display: flex; align-items: center; justify-content: center; }
+.ValidationModal_dialog { background: #fff; padding: 24px; border-radius: 6px; max-width: 400px; }
+.Completion { padding: 32px; text-align: center; }
+`;
+
+const MOCK_SURVEY_SCRIPT = `
+(function () {
+  var spec = window.MOCK_SURVEY_SPEC;
+  var storageKey = 'mock-survey-' + window.MOCK_SURVEY_ID;
+  var saved = JSON.parse(sessionStorage.getItem(storageKey) || 'null');
+  var state = saved || { formIndex: 0, answers: {}, finished: false };
+  var MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+  var container = document.getElementById('survey-body-container');
+  var navigation = document.querySelector('.NavigationBar');
+
+  function save() {
+    sessionStorage.setItem(storageKey, JSON.stringify(state));
+  }
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      if (key === 'text') node.textContent = attrs[key];
+      else node.setAttribute(key, attrs[key]);
+    });
+    (children || []).forEach(function (child) { if (child) node.appendChild(child); });
+    return node;
+  }
+
+  function questionKey(formIndex, question, index) {
+    return formIndex + ':' + (question.number || ('q' + index));
+  }
+
+  function answerOf(formIndex, number) {
+    var form = spec.forms[formIndex];
+    for (var i = 0; i < form.questions.length; i++) {
+      if (form.questions[i].number === number) return state.answers[questionKey(formIndex, form.questions[i], i)];
+    }
+    return undefined;
+  }
+
+  function isVisible(formIndex, question) {
+    if (!question.showIf) return true;
+    var parent = answerOf(formIndex, question.showIf.question);
+    if (Array.isArray(parent)) return parent.indexOf(question.showIf.equals) !== -1;
+    return parent !== undefined && String(parent) === String(question.showIf.equals);
+  }
+
+  function setAnswer(key, value, rerender) {
+    if (value === '' || value === undefined || (Array.isArray(value) && value.length === 0)) delete state.answers[key];
+    else state.answers[key] = value;
+    save();
+    if (rerender) render();
+  }
+
+  function inputId(key) {
+    return 'q-' + key.replace(/[^a-zA-Z0-9]/g, '-');
+  }
+
+  function renderChoices(question, key, type) {
+    var current = state.answers[key];
+    return question.choices.map(function (choice, i) {
+      var checked = type === 'radio' ? current === choice : Array.isArray(current) && current.indexOf(choice) !== -1;
+      var input = el('input', { type: type, name: inputId(key), value: choice, id: inputId(key) + '-' + i });
+      input.checked = checked;
+      input.addEventListener('change', function () {
+        if (type === 'radio') {
+          setAnswer(key, choice, true);
+        } else {
+          var values = Array.isArray(state.answers[key]) ? state.answers[key].slice() : [];
+          if (input.checked) values.push(choice);
+          else values = values.filter(function (v) { return v !== choice; });
+          setAnswer(key, values, true);
+        }
+      });
+      return el('label', {}, [input, el('span', { text: choice })]);
+    });
+  }
+
+  function renderVAS(question, key) {
+    var min = question.min !== undefined ? question.min : 0;
+    var max = question.max !== undefined ? question.max : 100;
+    var track = el('div', { class: 'SliderTrack_track', id: inputId(key) + '-track', role: 'slider', 'aria-valuemin': String(min), 'aria-valuemax': String(max) });
+    var current = state.answers[key];
+    if (current !== undefined) {
+      track.setAttribute('aria-valuenow', String(current));
+      var thumb = el('div', { class: 'SliderHandle_thumb' });
+      thumb.style.left = ((current - min) / (max - min) * 100) + '%';
+      track.appendChild(thumb);
+    }
+    track.addEventListener('click', function (event) {
+      var rect = track.getBoundingClientRect();
+      var ratio = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+      setAnswer(key, Math.round(min + ratio * (max - min)), true);
+    });
+    return [track, el('div', { class: 'SliderLabels' }, [el('span', { text: 'Worst' }), el('span', { text: 'Best' })])];
+  }
+
+  function renderNRS(question, key) {
+    var min = question.min !== undefined ? question.min : 0;
+    var max = question.max !== undefined ? question.max : 10;
+    var scale = el('div', { class: 'NRS_scale' });
+    for (var value = min; value <= max; value++) {
+      (function (v) {
+        var button = el('button', { type: 'button', id: inputId(key) + '-' + v, text: String(v) });
+        if (state.answers[key] === v) button.className = 'selected';
+        button.addEventListener('click', function () { setAnswer(key, v, true); });
+        scale.appendChild(button);
+      })(value);
+    }
+    return [scale];
+  }
+
+  function renderAutocomplete(question, key) {
+    var input = el('input', { type: 'text', id: inputId(key), 'aria-autocomplete': 'list', autocomplete: 'off', placeholder: 'Type to search' });
+    input.value = state.answers[key] || '';
+    var list = el('ul', { class: 'Autocomplete_list', role: 'listbox' });
+    list.style.display = 'none';
+    input.addEventListener('input', function () {
+      var term = input.value.toLowerCase();
+      list.innerHTML = '';
+      var matches = question.choices.filter(function (c) { return c.toLowerCase().indexOf(term) !== -1; });
+      if (matches.length === 0 && term) matches = [input.value];
+      matches.slice(0, 20).forEach(function (choice) {
+        var option = el('li', { role: 'option', text: choice });
+        option.addEventListener('click', function () {
+          list.style.display = 'none';
+          setAnswer(key, choice, true);
+        });
+        list.appendChild(option);
+      });
+      list.style.display = matches.length > 0 ? 'block' : 'none';
+    });
+    return [input, list];
+  }
+
+  function renderDate(question, key) {
+    var input = el('input', { type: 'text', id: inputId(key), readonly: 'true', placeholder: 'dd-mm-yyyy' });
+    input.value = state.answers[key] || '';
+    var popup = el('div', { class: 'DatePicker_popup' });
+    popup.style.display = 'none';
+    var today = new Date();
+    var picked = { month: today.getMonth(), year: today.getFullYear() };
+
+    function editable(className, onCommit) {
+      var node = el('div', { class: className, tabindex: '0' });
+      var buffer = '';
+      node.addEventListener('keydown', function (event) {
+        if (event.key === 'Enter') { onCommit(buffer); buffer = ''; drawDays(); }
+        else if (event.key === 'Backspace') buffer = buffer.slice(0, -1);
+        else if (event.key.length === 1 && !event.ctrlKey) buffer += event.key;
+        else if (event.ctrlKey && event.key.toLowerCase() === 'a') buffer = '';
+        event.preventDefault();
+      });
+      return node;
+    }
+
+    var monthSelect = editable('MonthSelect', function (text) {
+      var index = MONTHS.map(function (m) { return m.toLowerCase(); }).indexOf(text.trim().toLowerCase());
+      if (index !== -1) picked.month = index;
+    });
+    var yearSelect = editable('YearSelect', function (text) {
+      var year = parseInt(text, 10);
+      if (!isNaN(year)) picked.year = year;
+    });
+    var days = el('div', { class: 'DatePicker_days' });
+
+    function drawDays() {
+      monthSelect.textContent = MONTHS[picked.month];
+      yearSelect.textContent = String(picked.year);
+      days.innerHTML = '';
+      var count = new Date(picked.year, picked.month + 1, 0).getDate();
+      for (var d = 1; d <= count; d++) {
+        (function (day) {
+          var cell = el('div', { class: 'day', role: 'button', 'aria-label': 'Choose ' + MONTHS[picked.month] + ' ' + day + ', ' + picked.year, text: String(day) });
+          cell.addEventListener('click', function () {
+            var value = String(day).padStart(2, '0') + '-' + String(picked.month + 1).padStart(2, '0') + '-' + picked.year;
+            setAnswer(key, value, true);
+          });
+          days.appendChild(cell);
+        })(d);
+      }
+    }
+
+    popup.appendChild(el('div', { class: 'MonthYearDropdownWrapper' }, [monthSelect, yearSelect]));
+    popup.appendChild(days);
+    input.addEventListener('click', function () {
+      drawDays();
+      popup.style.display = 'block';
+    });
+    return [input, popup];
+  }
+
+  function renderInput(question, key) {
+    switch (question.type) {
+      case 'radio': return renderChoices(question, key, 'radio');
+      case 'checkbox': return renderChoices(question, key, 'checkbox');
+      case 'VAS': return renderVAS(question, key);
+      case 'NRS': return renderNRS(question, key);
+      case 'autocomplete': return renderAutocomplete(question, key);
+      case 'date': return renderDate(question, key);
+      case 'dropdown': {
+        var select = el('select', { id: inputId(key) }, [el('option', { value: '' })].concat(question.choices.map(function (c) {
+          return el('option', { value: c, text: c });
+        })));
+        select.value = state.answers[key] || '';
+        select.addEventListener('change', function () { setAnswer(key, select.value, true); });
+        return [select];
+      }
+      case 'textarea': {
+        var textarea = el('textarea', { id: inputId(key), rows: '4' });
+        textarea.value = state.answers[key] || '';
+        textarea.addEventListener('input', function () { setAnswer(key, textarea.value, false); });
+        textarea.addEventListener('change', function () { render(); });
+        return [textarea];
+      }
+      default: {
+        var input = el('input', { type: question.type, id: inputId(key) });
+        input.value = state.answers[key] !== undefined ? state.answers[key] : '';
+        input.addEventListener('input', function () { setAnswer(key, input.value, false); });
+        input.addEventListener('change', function () { render(); });
+        return [input];
+      }
+    }
+  }
+
+  function renderActionMenu(card, key) {
+    var trigger = el('button', { type: 'button', class: 'ActionMenu_trigger', 'aria-label': 'More actions' });
+    trigger.addEventListener('click', function (event) {
+      event.stopPropagation();
+      closePopups();
+      var clear = el('div', { class: 'BaseButton_clear', role: 'menuitem', text: 'Clear answer' });
+      clear.addEventListener('click', function () { setAnswer(key, undefined, true); });
+      card.appendChild(el('div', { class: 'ActionMenu_popup' }, [clear]));
+    });
+    return trigger;
+  }
+
+  function closePopups() {
+    document.querySelectorAll('.ActionMenu_popup').forEach(function (popup) { popup.remove(); });
+  }
+
+  function renderNavigation() {
+    navigation.innerHTML = '';
+    if (state.finished) return;
+    var isFirst = state.formIndex === 0;
+    var isLast = state.formIndex === spec.forms.length - 1;
+    var left = el('div');
+    var right = el('div');
+    if (!isFirst) {
+      var previous = el('button', { type: 'button', id: 'nav-previous', text: '\\u2190 Previous' });
+      previous.addEventListener('click', function () { state.formIndex--; save(); render(); });
+      left.appendChild(previous);
+    }
+    var forward = el('button', { type: 'button', id: isLast ? 'nav-finish' : 'nav-next', text: isLast ? 'Finish' : 'Next \\u2192' });
+    forward.addEventListener('click', function () {
+      var missing = missingRequired();
+      if (missing.length > 0) {
+        showValidationModal(missing);
+        return;
+      }
+      if (isLast) {
+        state.finished = true;
+        save();
+        fetch(window.location.pathname.replace(/\\/$/, '') + '/submit', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(state.answers) });
+      } else {
+        state.formIndex++;
+        save();
+      }
+      render();
+    });
+    right.appendChild(forward);
+    navigation.appendChild(left);
+    navigation.appendChild(right);
+  }
+
+  function missingRequired() {
+    var form = spec.forms[state.formIndex];
+    var missing = [];
+    form.questions.forEach(function (question, index) {
+      if (!question.required || !isVisible(state.formIndex, question)) return;
+      if (state.answers[questionKey(state.formIndex, question, index)] === undefined) missing.push(question.number || question.text);
+    });
+    return missing;
+  }
+
+  function showValidationModal(missing) {
+    var ok = el('button', { type: 'button', text: 'OK' });
+    var overlay = el('div', { class: 'ValidationModal_overlay' }, [
+      el('div', { class: 'ValidationModal_dialog', role: 'dialog' }, [
+        el('p', { text: 'Please answer all required questions: ' + missing.join(', ') }),
+        ok
+      ])
+    ]);
+    ok.addEventListener('click', function () { overlay.remove(); });
+    document.body.appendChild(overlay);
+  }
+
+  function render() {
+    closePopups();
+    container.innerHTML = '';
+    if (state.finished) {
+      container.appendChild(el('div', { class: 'Completion' }, [el('h2', { text: 'Thank you for completing the survey' })]));
+      renderNavigation();
+      return;
+    }
+    var form = spec.forms[state.formIndex];
+    container.appendChild(el('div', { class: 'FormHeader' }, [el('h3', { text: form.shortName }), el('p', { text: form.title })]));
+    form.questions.forEach(function (question, index) {
+      if (!isVisible(state.formIndex, question)) return;
+      var key = questionKey(state.formIndex, question, index);
+      var label = (question.number ? question.number + ' ' : '') + question.text + (question.required ? ' *' : '');
+      var card = el('div', { class: 'CardBox_card', id: 'question-' + inputId(key) }, [el('p', { class: 'QuestionText', text: label })]);
+      renderInput(question, key).forEach(function (node) { card.appendChild(node); });
+      card.appendChild(renderActionMenu(card, key));
+      container.appendChild(card);
+    });
+    renderNavigation();
+  }
+
+  document.addEventListener('click', function (event) {
+    if (!event.target.closest || !event.target.closest('.ActionMenu_popup')) closePopups();
+  });
+
+  render();
+})();
+`;
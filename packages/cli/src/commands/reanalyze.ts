@@ -0,0 +1,103 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import {
+  PuppeteerManager,
+  FormNavigator,
+  SurveyFormDetector,
+  ScreenshotService,
+  SnapshotService,
+  surveyPlatformRegistry,
+  configService,
+  applySelectorOverrides,
+  languageDetectionService,
+  rtlAuditService,
+  accessibilityAuditService,
+  patternStoreService,
+  unknownFieldService,
+  logger,
+  Survey,
+  SurveyForm
+} from '@form-shot/shared';
+
+export interface ReanalyzeOptions {
+  output?: string;
+  platform?: string;
+}
+
+export async function reanalyzeBundle(bundleDir: string, options: ReanalyzeOptions = {}): Promise<void> {
+  const bundlePath = resolve(bundleDir);
+  const snapshotService = new SnapshotService(bundlePath);
+  const manifest = snapshotService.loadManifest();
+  const settings = configService.getSettings(manifest.tuple.customerId);
+  const platform = applySelectorOverrides(
+    surveyPlatformRegistry.get(options.platform || manifest.platform),
+    settings.selectors.platform
+  );
+  const outputDir = resolve(options.output || join(bundlePath, 'reanalysis'));
+
+  logger.info(`Re-analyzing ${manifest.forms.length} form snapshots from ${bundlePath}`);
+  logger.info(`Original survey: ${manifest.url} (recorded ${manifest.createdAt})`);
+  logger.info(`Using survey platform: ${platform.name}`);
+
+  mkdirSync(outputDir, { recursive: true });
+  // Recorded forms were counted when they were analyzed, so their matches are not recorded again
+  await patternStoreService.load(configService.getPatternSettings());
+
+  const puppeteerManager = new PuppeteerManager();
+  const formDetector = new SurveyFormDetector(platform, settings.timings);
+  const formNavigator = new FormNavigator(platform, settings, { locale: manifest.tuple.language });
+
+  try {
+    await puppeteerManager.launch();
+    const page = puppeteerManager.getPage();
+    const forms: SurveyForm[] = [];
+
+    for (const entry of manifest.forms) {
+      logger.info(`Re-analyzing form ${entry.formIndex + 1} from ${entry.file}...`);
+
+      const screenshotService = new ScreenshotService(entry.viewport, platform.selectors, settings.timings);
+      screenshotService.setOutputDirectory(outputDir);
+      await screenshotService.setDefaultViewport(page);
+
+      // Snapshots have no scripts, so navigation only needs to load the file
+      await page.goto(pathToFileURL(snapshotService.getFormPath(entry)).href, { waitUntil: 'load', timeout: settings.timings.navigationTimeout });
+
+      const form = await formDetector.detectSurveyForm(page, manifest.tuple, screenshotService, entry.formIndex);
+      form.navigationButtons = await formNavigator.detectNavigationButtons(page);
+      form.formIndex = entry.formIndex;
+      form.url = entry.url;
+      if (rtlAuditService.isRtlLanguage(manifest.tuple.language)) {
+        form.rtlAudit = await rtlAuditService.auditForm(page, form, await platform.findContainer(page), manifest.tuple.language);
+      }
+      try {
+        form.accessibility = await accessibilityAuditService.auditForm(page, form);
+      } catch (error) {
+        logger.warn(`Accessibility audit of form ${entry.formIndex + 1} failed:`, error);
+      }
+
+      logger.info(`Found form ${entry.formIndex + 1}: "${form.longTitle}" with ${form.fields.length} fields`);
+      forms.push(form);
+    }
+
+    const survey: Survey = {
+      metadata: {
+        tuple: manifest.tuple,
+        analysisDate: new Date().toISOString(),
+        url: manifest.url,
+        totalForms: forms.length
+      },
+      forms
+    };
+    languageDetectionService.checkSurvey(survey);
+    rtlAuditService.summarizeSurvey(survey);
+    accessibilityAuditService.summarizeSurvey(survey);
+    unknownFieldService.collect(survey);
+
+    const analysisPath = join(outputDir, 'analysis.json');
+    writeFileSync(analysisPath, JSON.stringify(survey, null, 2));
+    logger.info(`Re-analysis saved to: ${analysisPath}`);
+  } finally {
+    await puppeteerManager.close();
+  }
+}
@@ -1,19 +1,33 @@
-import { testDataGenerator, fieldTypeRegistry, FirestoreService, logger } from '@form-shot/shared';
-import { writeFileSync } from 'fs';
-import { join } from 'path';
+import {
+  testDataGenerator,
+  fieldTypeRegistry,
+  patternStoreService,
+  configService,
+  unknownFieldService,
+  FirestoreService,
+  logger,
+  Survey,
+  UnknownField
+} from '@form-shot/shared';
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
 
 
 
 export async function generatePatternStats(): Promise<void> {
   try {
+    // Usage is cumulative over every analysis that recorded it
+    await patternStoreService.load(configService.getPatternSettings());
     const registryStats = fieldTypeRegistry.getPatternStats();
     const generatorStats = testDataGenerator.getTemplateStats();
+    const unknownFields = readLocalAnalyses().flatMap(({ survey }) => survey.unknownFields || []);
 
     const stats = {
       timestamp: new Date().toISOString(),
       fieldTypeRegistry: registryStats,
       testDataGenerator: generatorStats,
-      unknownFields: fieldTypeRegistry.exportUnknownFields()
+      overrides: fieldTypeRegistry.getOverrides().length,
+      unknownFields
     };
 
     const statsPath = join(process.cwd(), 'pattern_stats.json');
@@ -22,7 +36,7 @@ export async function generatePatternStats(): Promise<void> {
     logger.info(`Generated pattern statistics: ${statsPath}`);
     logger.info(`Total patterns: ${registryStats.totalPatterns}`);
     logger.info(`Total templates: ${generatorStats.totalTemplates}`);
-    logger.info(`Unknown fields: ${registryStats.unknownFieldsCount}`);
+    logger.info(`Unknown fields: ${unknownFields.filter(field => field.needsClassification).length} to classify, ${unknownFields.filter(field => field.classification).length} classified`);
 
     // Log top performing patterns
     const patternsByUsage = Object.entries(registryStats.patterns)
@@ -42,9 +56,78 @@ export async function generatePatternStats(): Promise<void> {
   }
 }
 
-export async function exportUnknownFields(): Promise<void> {
+/**
+ * Publishes pattern files to the Firestore field-type-patterns collection. A pattern only
+ * replaces the stored one when its version is newer.
+ */
+export async function pushPatterns(paths: string[], options: { local?: boolean } = {}): Promise<void> {
+  const files = paths.flatMap(path => patternStoreService.readPatternFiles(path));
+  const firestoreService = new FirestoreService(options.local || false);
+
+  let saved = 0;
+  let total = 0;
+  for (const { path, patterns } of files) {
+    logger.info(`Publishing ${patterns.length} patterns from ${path}`);
+    for (const pattern of patterns) {
+      total++;
+      if (await firestoreService.saveFieldTypePattern(pattern)) {
+        saved++;
+      }
+    }
+  }
+
+  logger.info(`Published ${saved} of ${total} patterns to field-type-patterns`);
+}
+
+export interface UnknownFieldsOptions {
+  outputDir?: string;    // Root of the local analyses (default: /app/output)
+  firestore?: boolean;   // Use the analyses in Firestore instead of the local ones
+  local?: boolean;       // Use the Firebase emulators
+}
+
+export interface ExportUnknownFieldsOptions extends UnknownFieldsOptions {
+  output?: string;       // Export file (default: unknown_fields.json)
+  analysis?: string;     // Analysis document ID, e.g. customer_study_package_en_v1
+  customer?: string;
+  study?: string;
+  all?: boolean;         // Include fields that are already classified
+}
+
+export interface ImportClassificationsOptions extends UnknownFieldsOptions {
+  classifiedBy?: string;
+  candidates?: string;   // Pattern candidates file (default: pattern-candidates.json next to the import file)
+}
+
+// Entry of the export file; people fill in assignedType and optionally notes
+interface UnknownFieldEntry extends UnknownField {
+  suggestedClassification?: string;
+  assignedType: string | null;
+  notes: string;
+}
+
+/**
+ * Exports the unknown fields persisted by analyze, from the local analysis.json files or
+ * from Firestore, for people to assign their field types
+ */
+export async function exportUnknownFields(options: ExportUnknownFieldsOptions = {}): Promise<void> {
   try {
-    const unknownFields = fieldTypeRegistry.exportUnknownFields();
+    let unknownFields: UnknownField[];
+    if (options.firestore) {
+      const firestoreService = new FirestoreService(options.local || false);
+      unknownFields = await firestoreService.getUnknownFields({
+        analysisId: options.analysis,
+        customerId: options.customer,
+        studyId: options.study,
+        includeClassified: options.all
+      });
+    } else {
+      unknownFields = readLocalAnalyses(options.outputDir)
+        .flatMap(({ survey }) => survey.unknownFields || [])
+        .filter(field => !options.analysis || field.analysisMetadata.analysisId === options.analysis)
+        .filter(field => !options.customer || field.analysisMetadata.customerId === options.customer)
+        .filter(field => !options.study || field.analysisMetadata.studyId === options.study)
+        .filter(field => options.all || field.needsClassification);
+    }
     
     if (unknownFields.length === 0) {
       logger.info('No unknown fields to export');
@@ -54,26 +137,20 @@ export async function exportUnknownFields(): Promise<void> {
     const exportData = {
       timestamp: new Date().toISOString(),
       totalFields: unknownFields.length,
-      fields: unknownFields.map(field => ({
-        id: field.id,
-        questionText: field.questionText,
-        inputType: field.inputType,
-        choices: field.choices,
-        context: field.context,
-        analysisMetadata: field.analysisMetadata,
+      availableTypes: testDataGenerator.getFieldTypes(),
+      fields: unknownFields.map((field): UnknownFieldEntry => ({
+        ...field,
         suggestedClassification: field.suggestedType,
-        needsClassification: field.needsClassification
+        assignedType: field.classification?.fieldType || null,
+        notes: field.classification?.notes || ''
       }))
     };
 
-    const exportPath = join(process.cwd(), 'unknown_fields.json');
+    const exportPath = resolve(options.output || 'unknown_fields.json');
     writeFileSync(exportPath, JSON.stringify(exportData, null, 2));
 
     logger.info(`Exported ${unknownFields.length} unknown fields: ${exportPath}`);
-    
-    // Clear the unknown fields cache after export
-    fieldTypeRegistry.clearUnknownFields();
-    logger.info('Cleared unknown fields cache');
+    logger.info('Set assignedType of each field to one of availableTypes, then run import-classifications');
 
   } catch (error) {
     logger.error('Failed to export unknown fields:', error);
@@ -81,6 +158,139 @@ export async function exportUnknownFields(): Promise<void> {
   }
 }
 
+/**
+ * Imports the field types assigned in an export file. The classifications are stored with
+ * their analyses, become overrides for the same questions in later analyses and are drafted
+ * into pattern candidates.
+ */
+export async function importClassifications(file: string, options: ImportClassificationsOptions = {}): Promise<void> {
+  const importPath = resolve(file);
+  const data = JSON.parse(readFileSync(importPath, 'utf8')) as { fields?: UnknownFieldEntry[] };
+  if (!Array.isArray(data.fields)) {
+    throw new Error(`No fields array in ${importPath}; use a file written by export-unknown`);
+  }
+
+  const assigned = data.fields.filter(entry => entry.assignedType && entry.assignedType.trim());
+  if (assigned.length === 0) {
+    logger.info('No fields with an assignedType to import');
+    return;
+  }
+
+  const classified = assigned.map(({ suggestedClassification: _suggested, assignedType, notes, ...field }) =>
+    unknownFieldService.classify(field, assignedType!.trim(), { classifiedBy: options.classifiedBy, notes }));
+
+  let firestoreService: FirestoreService | undefined;
+  if (options.firestore) {
+    firestoreService = new FirestoreService(options.local || false);
+    for (const field of classified) {
+      await firestoreService.saveUnknownFieldClassification(field);
+    }
+    logger.info(`Saved ${classified.length} classifications to Firestore`);
+  } else {
+    updateLocalAnalyses(options.outputDir, classified);
+  }
+
+  await patternStoreService.saveOverrides(configService.getPatternSettings(), classified.map(field => unknownFieldService.toOverride(field)), firestoreService);
+
+  const candidatesPath = resolve(options.candidates || join(dirname(importPath), 'pattern-candidates.json'));
+  const candidates = unknownFieldService.toPatternCandidates(classified);
+  writeFileSync(candidatesPath, JSON.stringify({ patterns: candidates }, null, 2));
+  logger.info(`Imported ${classified.length} classifications, wrote ${candidates.length} pattern candidates for review: ${candidatesPath}`);
+}
+
+function readLocalAnalyses(outputDir: string = '/app/output'): Array<{ path: string; survey: Survey }> {
+  return unknownFieldService.findLocalAnalyses(resolve(outputDir))
+    .map(path => ({ path, survey: JSON.parse(readFileSync(path, 'utf8')) as Survey }));
+}
+
+// Writes the classifications into the analysis.json files holding the fields
+function updateLocalAnalyses(outputDir: string | undefined, classified: UnknownField[]): void {
+  const byId = new Map(classified.map(field => [field.id, field]));
+  const updated = new Set<string>();
+
+  for (const { path, survey } of readLocalAnalyses(outputDir)) {
+    let changed = false;
+    survey.unknownFields = (survey.unknownFields || []).map(field => {
+      const classifiedField = byId.get(field.id);
+      if (!classifiedField) return field;
+      changed = true;
+      updated.add(field.id);
+      return { ...field, classification: classifiedField.classification, needsClassification: false };
+    });
+    if (changed) {
+      writeFileSync(path, JSON.stringify(survey, null, 2));
+      logger.info(`Updated classifications in ${path}`);
+    }
+  }
+
+  const missing = classified.filter(field => !updated.has(field.id));
+  if (missing.length > 0) {
+    logger.warn(`${missing.length} classified fields were not found in the local analyses, only their overrides are saved`);
+  }
+}
+
+export interface RegenerateOptions {
+  output?: string;   // Regenerated analysis file (default: the analysis file itself)
+  seed?: string;     // Regenerate with this seed instead of the recorded ones
+  check?: boolean;   // Only compare with the recorded test data, fail when they differ
+}
+
+/**
+ * Regenerates the test data of an analysis from the seed, locale and generation time
+ * recorded with each field, reproducing the test cases of the original run. Fields whose
+ * detected type or test cases came out differently, e.g. because patterns changed since,
+ * are reported.
+ */
+export async function regenerateTestData(file: string, options: RegenerateOptions = {}): Promise<void> {
+  const analysisPath = resolve(file);
+  const survey = JSON.parse(readFileSync(analysisPath, 'utf8')) as Survey;
+  // Same patterns and overrides as analyze; usage is not recorded again
+  await patternStoreService.load(configService.getPatternSettings());
+
+  let identical = 0;
+  let unseeded = 0;
+  const changed: string[] = [];
+  for (const form of survey.forms) {
+    for (const field of form.fields) {
+      if (!field.testData) continue;
+      const seed = options.seed || field.testData.metadata?.seed;
+      if (!seed) {
+        unseeded++;
+        continue;
+      }
+
+      const testData = testDataGenerator.generateTestData(field, {
+        locale: field.testData.metadata?.locale || survey.metadata.tuple.language,
+        seed,
+        generatedAt: field.testData.generatedAt
+      });
+      if (JSON.stringify(testData) === JSON.stringify(field.testData)) {
+        identical++;
+      } else {
+        changed.push(`${form.shortName || form.longTitle} ${field.questionNumber || field.questionText}`);
+      }
+      field.testData = testData;
+    }
+  }
+
+  logger.info(`Regenerated test data of ${identical + changed.length} fields: ${identical} identical, ${changed.length} changed`);
+  changed.forEach(name => logger.info(`  Changed: ${name}`));
+  if (unseeded > 0) {
+    logger.warn(`${unseeded} fields have no recorded seed and were kept as they are; pass --seed to regenerate them`);
+  }
+
+  if (options.check) {
+    if (changed.length > 0) {
+      throw new Error(`${changed.length} fields do not reproduce the recorded test data`);
+    }
+    return;
+  }
+
+  const outputPath = resolve(options.output || analysisPath);
+  writeFileSync(outputPath, JSON.stringify(survey, null, 2));
+  logger.info(`Saved regenerated analysis: ${outputPath}`);
+}
+
 export async function queryTestCases(options: {
   analysis?: string;
   customer?: string;
@@ -1,7 +1,15 @@
 import { 
   PuppeteerManager, 
   FirestoreService, 
-  logger, 
+  FormShotSettings,
+  PlatformSelectors,
+  scopeSelector,
+  configService,
+  applySelectorOverrides,
+  surveyPlatformRegistry,
+  waitForDomStable,
+  parseLocalizedDate,
+  logger as rootLogger, 
   SurveyTuple, 
   TestRunResult, 
   TestCaseResult 
@@ -9,6 +17,8 @@ import {
 import { mkdirSync, existsSync, rmSync } from 'fs';
 import { join } from 'path';
 
+const logger = rootLogger.child('test-run');
+
 export interface TestRunOptions {
   analysisId: string;
   url: string;
@@ -19,19 +29,29 @@ export interface TestRunOptions {
   screenWidth?: number;
 }
 
+/**
+ * Runs the test cases inside a logging run context. The NDJSON run log goes to
+ * `<outputDir>/logs/<runId>.ndjson` so it survives the cleanup of the run directory.
+ */
 export async function runTests(options: TestRunOptions): Promise<TestRunResult> {
-  const firestoreService = new FirestoreService();
-  const puppeteerManager = new PuppeteerManager();
-  
   const startTime = new Date();
   const outputDir = options.outputDir || './output/test-runs';
+  const runId = `${options.analysisId}_${startTime.getTime()}`;
+  return logger.runWithContext(
+    { runId, tuple: options.analysisId, phase: 'test', logFile: join(outputDir, 'logs', `${runId}.ndjson`) },
+    () => executeTestRun(options, runId, startTime, outputDir)
+  );
+}
+
+async function executeTestRun(options: TestRunOptions, runId: string, startTime: Date, outputDir: string): Promise<TestRunResult> {
+  const firestoreService = new FirestoreService();
+  const puppeteerManager = new PuppeteerManager();
   
   // Ensure output directory exists
   if (!existsSync(outputDir)) {
     mkdirSync(outputDir, { recursive: true });
   }
   
-  const runId = `${options.analysisId}_${startTime.getTime()}`;
   const runOutputDir = join(outputDir, runId);
   mkdirSync(runOutputDir, { recursive: true });
   
@@ -50,38 +70,45 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
     
     logger.info(`Found ${analysisData.fields.length} fields with test data`);
     
+    const settings = configService.getSettings(analysisData.customerId);
+    const platform = applySelectorOverrides(surveyPlatformRegistry.get(settings.defaults.platform), settings.selectors.platform);
+    const settle = (timeout: number) => waitForDomStable(puppeteerManager.getPage(), timeout, {
+      container: platform.selectors.container,
+      quietPeriod: settings.timings.domQuietPeriod
+    });
+    
     // Initialize browser
     logger.info('Initializing browser...');
     await puppeteerManager.launch();
     const page = puppeteerManager.getPage();
     
     // Set viewport with custom width if provided
-    const viewportWidth = options.screenWidth || 767;
+    const viewportWidth = options.screenWidth || settings.defaults.screenWidth;
     logger.info(`Setting viewport width to ${viewportWidth}px`);
-    await page.setViewport({ width: viewportWidth, height: 1024, deviceScaleFactor: 1 });
+    await page.setViewport({ width: viewportWidth, height: settings.defaults.screenHeight, deviceScaleFactor: 1 });
     
     // Navigate to the form
     logger.info(`Navigating to: ${options.url}`);
-    await page.goto(options.url, { waitUntil: 'networkidle2' });
+    await page.goto(options.url, { waitUntil: 'networkidle2', timeout: settings.timings.navigationTimeout });
     
     // Wait for survey container
-    await page.waitForSelector('#survey-body-container', { timeout: 10000 });
+    await page.waitForSelector(platform.selectors.container, { timeout: settings.timings.selectorTimeout });
     
     // Add a wait to ensure form is fully loaded and any dynamic content has rendered
     logger.info('Waiting for form to fully load...');
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    await settle(settings.timings.renderSettleDelay);
     
     // Import necessary services for form navigation
     const { FormNavigator, FormResetService } = await import('@form-shot/shared');
-    const formNavigator = new FormNavigator();
-    const formResetService = new FormResetService();
+    const formNavigator = new FormNavigator(platform, settings, { locale: analysisData.language });
+    const formResetService = new FormResetService(platform, settings.timings);
     
     // Check if we need to navigate to first form
     logger.info('Checking if we need to navigate to first form...');
     const isFirstForm = await formResetService.isFirstForm(page);
     if (!isFirstForm) {
       logger.info('Not on first form, navigating to first form...');
-      await formResetService.navigateToFirstForm(page, 3000);
+      await formResetService.navigateToFirstForm(page, settings.defaults.navDelay * 1000);
     } else {
       logger.info('Already on first form');
     }
@@ -92,6 +119,7 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
     let successfulTestCases = 0;
     let failedTestCases = 0;
     let validationErrorsFound = 0;
+    let unexpectedOutcomes = 0;
     
     // Group fields by form index
     const fieldsByForm = new Map<number, any[]>();
@@ -110,6 +138,7 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
     // Process each form
     for (const formIndex of sortedFormIndices) {
       const formFields = fieldsByForm.get(formIndex)!;
+      logger.setContext({ formIndex, phase: 'test', questionNumber: undefined });
       logger.info(`\n=== Processing Form ${formIndex + 1} with ${formFields.length} fields ===`);
       
       // Add form state debugging
@@ -177,6 +206,7 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
           continue;
         }
         
+        logger.setContext({ questionNumber: field.questionNumber });
         logger.info(`Processing field ${field.questionNumber}: "${field.questionText}"`);
         
         // Check if this field is actually visible on the current form
@@ -225,7 +255,7 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
           
           try {
             // Apply test case value to field
-            await applyTestCaseValue(page, field, testCase);
+            await applyTestCaseValue(page, field, testCase, platform.selectors, () => settle(settings.timings.interactionDelay), analysisData.language);
             result.applied = true;
             
             // Move focus away to trigger validation
@@ -233,10 +263,10 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
             
             // Wait for potential validation
             if (!options.skipValidation) {
-              await new Promise(resolve => setTimeout(resolve, options.delay || 500));
+              await settle(options.delay || 500);
               
               // Check for validation messages
-              const validationResult = await checkValidationMessages(page, field);
+              const validationResult = await checkValidationMessages(page, field, settings);
               result.validationTriggered = validationResult.triggered;
               result.validationMessages = validationResult.messages;
               
@@ -244,6 +274,28 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
                 validationErrorsFound++;
                 logger.info(`    Validation triggered: ${result.validationMessages.join(', ')}`);
               }
+
+              // Values outside the field's constraints should trigger validation, values inside should not
+              if (testCase.expected) {
+                result.expected = testCase.expected;
+                result.outcomeMatched = result.validationTriggered === (testCase.expected === 'reject');
+                if (!result.outcomeMatched) {
+                  logger.warn(`    Expected the value to be ${testCase.expected === 'reject' ? 'rejected' : 'accepted'}, but validation ${result.validationTriggered ? 'triggered' : 'did not trigger'}`);
+                }
+
+                // The browser stops typing at maxlength, so longer values must have been cut off
+                const maxLength = field.constraints?.maxLength;
+                if (maxLength !== undefined && String(testCase.value).length > maxLength) {
+                  result.enteredLength = await readEnteredLength(page, field);
+                  if (result.enteredLength !== undefined && result.enteredLength > maxLength) {
+                    result.outcomeMatched = false;
+                    logger.warn(`    Expected the value to be truncated to ${maxLength} characters, but ${result.enteredLength} were entered`);
+                  }
+                }
+                if (!result.outcomeMatched) {
+                  unexpectedOutcomes++;
+                }
+              }
             }
             
             // Take screenshot of the field
@@ -277,13 +329,14 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
       
       // After processing all fields in the form, navigate to next form if not the last
       if (formIndex < sortedFormIndices[sortedFormIndices.length - 1]) {
+        logger.setContext({ phase: 'navigate', questionNumber: undefined });
         logger.info(`\nPreparing to navigate from form ${formIndex + 1} to form ${formIndex + 2}...`);
         
         try {
           // First, fill any required fields that haven't been filled yet
           logger.info('Checking for unfilled required fields before navigation...');
           await formNavigator.fillMissingRequiredFields(page);
-          await new Promise(resolve => setTimeout(resolve, 1000));
+          await settle(settings.timings.interactionDelay);
           
           // Detect navigation buttons
           const navButtons = await formNavigator.detectNavigationButtons(page);
@@ -330,7 +383,7 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
             // Clear any existing values on the new form
             logger.info(`Clearing any existing values on form ${formIndex + 2}...`);
             await formResetService.clearFormValues(page);
-            await new Promise(resolve => setTimeout(resolve, 1000));
+            await settle(settings.timings.interactionDelay);
             
           } else {
             logger.warn(`No enabled next button found on form ${formIndex + 1}`);
@@ -357,6 +410,7 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
       successfulTestCases,
       failedTestCases,
       validationErrorsFound,
+      unexpectedOutcomes,
       results
     };
     
@@ -379,6 +433,7 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
     logger.info(`   Successful: ${successfulTestCases}`);
     logger.info(`   Failed: ${failedTestCases}`);
     logger.info(`   Validation Errors Found: ${validationErrorsFound}`);
+    logger.info(`   Unexpected Outcomes: ${unexpectedOutcomes}`);
     logger.info(`   Duration: ${Math.round(totalDuration / 1000)}s`);
     logger.info(`   Results saved to: ${resultPath}`);
     logger.info(`   ✅ Results uploaded to Firestore and Cloud Storage`);
@@ -403,7 +458,11 @@ export async function runTests(options: TestRunOptions): Promise<TestRunResult>
   }
 }
 
-async function applyTestCaseValue(page: any, field: any, testCase: any): Promise<void> {
+/**
+ * Enters a test case value into its field. `settle` waits for the survey to react to an
+ * interaction, at most the configured interaction delay.
+ */
+async function applyTestCaseValue(page: any, field: any, testCase: any, selectors: PlatformSelectors, settle: () => Promise<unknown>, locale?: string): Promise<void> {
   const selector = field.selector || field.cardBoxSelector;
   
   if (!selector) {
@@ -414,7 +473,7 @@ async function applyTestCaseValue(page: any, field: any, testCase: any): Promise
   try {
     if (selector.endsWith('[class*="CardBox"]')) {
       // For generic selectors, just ensure the survey container is there
-      await page.waitForSelector('#survey-body-container', { timeout: 5000 });
+      await page.waitForSelector(selectors.container, { timeout: 5000 });
     } else {
       await page.waitForSelector(selector, { timeout: 5000 });
     }
@@ -424,7 +483,7 @@ async function applyTestCaseValue(page: any, field: any, testCase: any): Promise
   
   switch (field.inputType.toLowerCase()) {
     case 'vas':
-      await applyVASValue(page, field, testCase);
+      await applyVASValue(page, field, testCase, selectors.sliderTrack);
       break;
       
     case 'nrs':
@@ -441,7 +500,7 @@ async function applyTestCaseValue(page: any, field: any, testCase: any): Promise
       break;
       
     case 'autocomplete_dropdown':
-      await applyAutocompleteDropdownValue(page, field, testCase);
+      await applyAutocompleteDropdownValue(page, field, testCase, settle);
       break;
       
     case 'text':
@@ -452,7 +511,7 @@ async function applyTestCaseValue(page: any, field: any, testCase: any): Promise
       break;
       
     case 'date':
-      await applyDateValue(page, field, testCase);
+      await applyDateValue(page, field, testCase, settle, locale);
       break;
       
     case 'textarea':
@@ -469,9 +528,9 @@ async function applyTestCaseValue(page: any, field: any, testCase: any): Promise
   }
 }
 
-async function applyVASValue(page: any, field: any, testCase: any): Promise<void> {
+async function applyVASValue(page: any, field: any, testCase: any, sliderTrackSelector: string): Promise<void> {
   // For VAS sliders, find the SliderTrack element and click on it
-  const sliderSelector = `${field.cardBoxSelector} [class*="SliderTrack"]`;
+  const sliderSelector = `${field.cardBoxSelector} ${scopeSelector(sliderTrackSelector)}`;
   
   // Wait for slider track to be available
   await page.waitForSelector(sliderSelector, { timeout: 5000 });
@@ -935,7 +994,7 @@ async function applySelectValue(page: any, field: any, testCase: any): Promise<v
   logger.debug(`Selected option "${testCase.value}" for field ${field.questionNumber}`);
 }
 
-async function applyAutocompleteDropdownValue(page: any, field: any, testCase: any): Promise<void> {
+async function applyAutocompleteDropdownValue(page: any, field: any, testCase: any, settle: () => Promise<unknown>): Promise<void> {
   // For autocomplete dropdowns (e.g., weight fields), type first then select
   const inputSelector = field.selector || `${field.cardBoxSelector} input`;
   
@@ -956,7 +1015,7 @@ async function applyAutocompleteDropdownValue(page: any, field: any, testCase: a
     logger.debug(`Typed "${typedValue}" into autocomplete dropdown`);
     
     // Wait for dropdown options to appear
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    await settle();
     
     // Try to select the first dropdown option
     const optionSelected = await page.evaluate(() => {
@@ -1007,7 +1066,7 @@ async function applyAutocompleteDropdownValue(page: any, field: any, testCase: a
     }
     
     // Wait for dropdown to close and value to be set
-    await new Promise(resolve => setTimeout(resolve, 500));
+    await settle();
     
   } catch (error) {
     logger.error(`Failed to handle autocomplete dropdown field ${field.questionNumber}:`, error);
@@ -1029,6 +1088,14 @@ async function applyTextValue(page: any, field: any, testCase: any): Promise<voi
   logger.debug(`Entered text "${testCase.value}" for field ${field.questionNumber}`);
 }
 
+// Length of the value in the field's text input or textarea, if it has one
+async function readEnteredLength(page: any, field: any): Promise<number | undefined> {
+  return page.evaluate((cardSelector: string) => {
+    const input = document.querySelector(`${cardSelector} textarea, ${cardSelector} input:not([type="hidden"]):not([type="radio"]):not([type="checkbox"])`) as HTMLInputElement | null;
+    return input ? input.value.length : undefined;
+  }, field.cardBoxSelector);
+}
+
 async function applyTextareaValue(page: any, field: any, testCase: any): Promise<void> {
   const textareaSelector = `${field.cardBoxSelector} textarea`;
   
@@ -1060,7 +1127,7 @@ async function applyCheckboxValue(page: any, field: any, testCase: any): Promise
   logger.debug(`Set checkbox to ${shouldCheck} for field ${field.questionNumber}`);
 }
 
-async function applyDateValue(page: any, field: any, testCase: any): Promise<void> {
+async function applyDateValue(page: any, field: any, testCase: any, settle: () => Promise<unknown>, locale?: string): Promise<void> {
   const dateSelector = `${field.cardBoxSelector} input[type="date"]`;
   
   logger.info(`Handling date field ${field.questionNumber} for test case ${testCase.id}`);
@@ -1068,7 +1135,7 @@ async function applyDateValue(page: any, field: any, testCase: any): Promise<voi
   try {
     // Click the date input to open date picker
     await page.click(dateSelector);
-    await new Promise(resolve => setTimeout(resolve, 500));
+    await settle();
     
     // Determine the date to use
     let targetDate: Date;
@@ -1082,8 +1149,8 @@ async function applyDateValue(page: any, field: any, testCase: any): Promise<voi
       targetDate = new Date();
       targetDate.setDate(targetDate.getDate() + 1);
     } else {
-      // Try to parse the provided date value
-      targetDate = new Date(testCase.value);
+      // Try to parse the provided date value, typed in the order of the survey's locale
+      targetDate = parseLocalizedDate(String(testCase.value), locale) || new Date(testCase.value);
       if (isNaN(targetDate.getTime())) {
         // If invalid date, default to yesterday
         targetDate = new Date();
@@ -1112,7 +1179,7 @@ async function applyDateValue(page: any, field: any, testCase: any): Promise<voi
           // Click the first div (month selector)
           logger.info('Clicking month selector div');
           await divs[0].click();
-          await new Promise(resolve => setTimeout(resolve, 300));
+          await settle();
           
           // Clear and type the month name
           await page.keyboard.down('Control');
@@ -1120,12 +1187,12 @@ async function applyDateValue(page: any, field: any, testCase: any): Promise<voi
           await page.keyboard.up('Control');
           await page.keyboard.type(monthName);
           await page.keyboard.press('Enter');
-          await new Promise(resolve => setTimeout(resolve, 300));
+          await settle();
           
           // Click the second div (year selector)
           logger.info('Clicking year selector div');
           await divs[1].click();
-          await new Promise(resolve => setTimeout(resolve, 300));
+          await settle();
           
           // Clear and type the year
           await page.keyboard.down('Control');
@@ -1133,7 +1200,7 @@ async function applyDateValue(page: any, field: any, testCase: any): Promise<voi
           await page.keyboard.up('Control');
           await page.keyboard.type(String(year));
           await page.keyboard.press('Enter');
-          await new Promise(resolve => setTimeout(resolve, 300));
+          await settle();
           
           // Now select the day from the calendar
           const daySelected = await page.evaluate((targetDay: number) => {
@@ -1230,7 +1297,7 @@ async function applyDateValue(page: any, field: any, testCase: any): Promise<voi
     }
     
     // Wait for date picker to close
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    await settle();
     
     logger.debug(`Applied date value for field ${field.questionNumber}`);
   } catch (error) {
@@ -1238,17 +1305,10 @@ async function applyDateValue(page: any, field: any, testCase: any): Promise<voi
   }
 }
 
-async function checkValidationMessages(page: any, field: any): Promise<{triggered: boolean, messages: string[]}> {
+async function checkValidationMessages(page: any, field: any, settings: FormShotSettings): Promise<{triggered: boolean, messages: string[]}> {
   try {
-    // Common validation message selectors
-    const validationSelectors = [
-      `${field.cardBoxSelector} .error`,
-      `${field.cardBoxSelector} .validation-error`,
-      `${field.cardBoxSelector} .field-error`,
-      `${field.cardBoxSelector} .invalid-feedback`,
-      `${field.cardBoxSelector} [class*="error"]`,
-      `${field.cardBoxSelector} [role="alert"]`
-    ];
+    // Configured validation message selectors, scoped to the question
+    const validationSelectors = settings.selectors.validationMessages.map(selector => `${field.cardBoxSelector} ${scopeSelector(selector)}`);
     
     const messages: string[] = [];
     
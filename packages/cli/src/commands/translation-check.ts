@@ -0,0 +1,85 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import {
+  FirestoreService,
+  translationCheckService,
+  logger,
+  PackageRef,
+  Survey,
+  TranslationCheckReport
+} from '@form-shot/shared';
+
+export interface TranslationCheckOptions {
+  source?: string;       // Source language (default: en)
+  outputRoot?: string;   // Root of the local analysis output (default: /app/output)
+  firestore?: boolean;   // Load the analyses from Firestore instead
+  local?: boolean;       // Use the Firebase emulators
+  json?: string;         // Path of the JSON report
+}
+
+/**
+ * Checks every language analysis of a package version against the source language
+ * and prints the coverage per language and every mismatch found.
+ */
+export async function checkTranslations(packageRef: PackageRef, options: TranslationCheckOptions = {}): Promise<TranslationCheckReport> {
+  const sourceLanguage = options.source || 'en';
+  const analyses = options.firestore
+    ? await new FirestoreService(options.local || false).getPackageSurveys(packageRef.customerId, packageRef.studyId, packageRef.packageName, packageRef.version)
+    : readLocalAnalyses(packageRef, options.outputRoot || '/app/output');
+
+  const languages = Object.keys(analyses).sort();
+  logger.info(`Found ${languages.length} language analyses: ${languages.join(', ')}`);
+  if (languages.length < 2) {
+    logger.warn('Translation check needs at least two languages to compare');
+  }
+
+  const report = translationCheckService.check(packageRef, analyses, sourceLanguage);
+  printReport(report);
+
+  if (options.json) {
+    mkdirSync(dirname(resolve(options.json)), { recursive: true });
+    writeFileSync(options.json, JSON.stringify(report, null, 2));
+    logger.info(`JSON report written to: ${resolve(options.json)}`);
+  }
+
+  return report;
+}
+
+function readLocalAnalyses(packageRef: PackageRef, outputRoot: string): Record<string, Survey> {
+  const packageDir = join(outputRoot, packageRef.customerId, packageRef.studyId, packageRef.packageName);
+  if (!existsSync(packageDir)) {
+    throw new Error(`No analyses found for package: ${packageDir}`);
+  }
+
+  const analyses: Record<string, Survey> = {};
+  for (const language of readdirSync(packageDir)) {
+    const analysisPath = join(packageDir, language, packageRef.version, 'analysis.json');
+    if (existsSync(analysisPath)) {
+      logger.info(`Reading analysis from: ${analysisPath}`);
+      analyses[language] = JSON.parse(readFileSync(analysisPath, 'utf8')) as Survey;
+    }
+  }
+  return analyses;
+}
+
+function printReport(report: TranslationCheckReport): void {
+  const { customerId, studyId, packageName, version } = report.package;
+  logger.info(`Translation check for ${customerId}/${studyId}/${packageName}/${version} (source: ${report.sourceLanguage})`);
+
+  for (const coverage of report.languages) {
+    if (coverage.language === report.sourceLanguage) {
+      logger.info(`  ${coverage.language}: source (${coverage.totalForms} forms, ${coverage.totalFields} fields)`);
+      continue;
+    }
+    const translated = coverage.translatableStrings - coverage.untranslatedStrings;
+    const percentage = coverage.translatableStrings > 0 ? Math.round((translated / coverage.translatableStrings) * 100) : 100;
+    logger.info(`  ${coverage.language}: ${coverage.complete ? 'complete' : 'incomplete'} - ${coverage.totalForms} forms, ${coverage.totalFields} fields, ` +
+      `${coverage.errors} structural mismatches, ${percentage}% of strings translated`);
+  }
+
+  for (const issue of report.issues) {
+    const where = issue.formIndex !== undefined ? ` form ${issue.formIndex + 1}` : '';
+    const log = issue.severity === 'error' ? logger.warn.bind(logger) : logger.info.bind(logger);
+    log(`  [${issue.language}${where}] ${issue.kind}: ${issue.message}`);
+  }
+}
@@ -1,4 +1,4 @@
-import { FirestoreService, Survey, logger } from '@form-shot/shared';
+import { FirestoreService, Survey, languageDetectionService, logger } from '@form-shot/shared';
 import { readFileSync, existsSync, rmSync } from 'fs';
 import { join, dirname } from 'path';
 
@@ -28,6 +28,16 @@ export async function uploadToFirestore(analysisJsonPath: string, leaveFiles: bo
     logger.info(`Found survey for: ${surveyData.metadata.tuple.customerId}/${surveyData.metadata.tuple.studyId}`);
     logger.info(`Survey has ${surveyData.forms.length} forms with ${surveyData.forms.reduce((sum, f) => sum + f.fields.length, 0)} total fields`);
     
+    // Analyses captured before language verification are checked on upload
+    if (surveyData.forms.some(form => !form.languageCheck)) {
+      logger.info('Verifying the language of every form...');
+      languageDetectionService.checkSurvey(surveyData);
+    }
+    const mismatchedForms = surveyData.metadata.languageMismatchForms || [];
+    if (mismatchedForms.length > 0) {
+      logger.warn(`${mismatchedForms.length} forms did not render in "${surveyData.metadata.tuple.language}": ${mismatchedForms.map(index => index + 1).join(', ')}`);
+    }
+    
     // Screenshots directory is the same as analysis.json directory
     const screenshotsDir = dirname(analysisJsonPath);
     
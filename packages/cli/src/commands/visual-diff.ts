@@ -0,0 +1,71 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import {
+  FirestoreService,
+  visualRegressionService,
+  logger,
+  Survey,
+  VisualRegressionReport,
+  VISUAL_DIFF_DIRNAME,
+  VISUAL_DIFF_REPORT
+} from '@form-shot/shared';
+
+export interface VisualDiffOptions {
+  output?: string;
+  threshold?: number;
+  changeThreshold?: number;
+  masks?: string;    // Path of a JSON mask file
+  upload?: boolean;
+  local?: boolean;
+}
+
+/**
+ * Compares the screenshots of two local analyses and stores the diff images and
+ * visual-diff.json next to the current analysis, optionally uploading them for the UI.
+ */
+export async function visualDiff(baselinePath: string, currentPath: string, options: VisualDiffOptions = {}): Promise<VisualRegressionReport> {
+  const baseline = readAnalysis(baselinePath);
+  const current = readAnalysis(currentPath);
+  const currentDir = dirname(resolve(currentPath));
+  const outputDir = resolve(options.output || join(currentDir, VISUAL_DIFF_DIRNAME));
+  const masks = options.masks ? visualRegressionService.loadMasks(options.masks) : [];
+
+  logger.info(`Comparing screenshots of ${resolve(currentPath)} against ${resolve(baselinePath)}`);
+  if (masks.length > 0) {
+    logger.info(`Masking ${masks.length} regions`);
+  }
+
+  const report = visualRegressionService.compareAnalyses(baseline, dirname(resolve(baselinePath)), current, currentDir, outputDir, {
+    threshold: options.threshold,
+    changeThreshold: options.changeThreshold,
+    masks
+  });
+
+  const { summary } = report;
+  logger.info('Visual diff summary:');
+  logger.info(`  Screenshots compared: ${summary.screenshotsCompared} (${summary.changed} changed, ${summary.added} added, ${summary.removed} removed, ${summary.missing} missing)`);
+  logger.info(`  Forms changed: ${summary.formsChanged} of ${report.forms.length} (max change score ${summary.maxChangeScore})`);
+  report.forms
+    .filter(form => form.changed)
+    .forEach(form => logger.info(`  ${form.shortName || form.longTitle}: change score ${form.changeScore}`));
+  logger.info(`Report written to: ${join(outputDir, VISUAL_DIFF_REPORT)}`);
+
+  if (options.upload) {
+    const firestoreService = new FirestoreService(options.local || false);
+    const analysisId = await firestoreService.uploadVisualDiff(report, outputDir);
+    logger.info(`Visual diff stored with analysis ${analysisId}`);
+  }
+
+  return report;
+}
+
+function readAnalysis(path: string): Survey {
+  if (!existsSync(path)) {
+    throw new Error(`Analysis file not found: ${path}`);
+  }
+  const survey = JSON.parse(readFileSync(path, 'utf8')) as Survey;
+  if (!survey.metadata || !Array.isArray(survey.forms)) {
+    throw new Error(`Invalid analysis file structure in ${path}. Missing metadata or forms data.`);
+  }
+  return survey;
+}
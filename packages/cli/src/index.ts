@@ -5,7 +5,10 @@ import { analyzeSurvey } from './commands/analyze.js';
 import { uploadToFirestore, queryFirestore, clearFirestore } from './commands/upload.js';
 import { 
   generatePatternStats,
+  pushPatterns,
   exportUnknownFields,
+  importClassifications,
+  regenerateTestData,
   queryTestCases,
   getCompleteAnalysis,
   updateTestCaseStatus
@@ -13,41 +16,275 @@ import {
 import { runTests } from './commands/test-run.js';
 import { fixAnalysis } from './commands/fix-analysis.js';
 import { fixScreenshots } from './commands/fix-screenshots.js';
-import { SurveyTuple, logger } from '@form-shot/shared';
+import { reanalyzeBundle } from './commands/reanalyze.js';
+import { startMockSurvey } from './commands/mock-survey.js';
+import { runBatch } from './commands/batch.js';
+import { diffAnalyses } from './commands/diff.js';
+import { visualDiff } from './commands/visual-diff.js';
+import { checkTranslations } from './commands/translation-check.js';
+import { exportOdm } from './commands/export-odm.js';
+import { exportCodebook, CodebookFormat } from './commands/export-codebook.js';
+import {
+  SurveyTuple,
+  PackageRef,
+  logger,
+  surveyPlatformRegistry,
+  DEFAULT_PLATFORM,
+  parseLogLevel,
+  parseModuleLevels,
+  configService,
+  CONFIG_FILENAMES
+} from '@form-shot/shared';
 
 const program = new Command();
 
 program
   .name('form-shot')
   .description('Automated survey form analysis tool')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--log-format <format>', 'Console log format: text or json (NDJSON records with run/form correlation fields)')
+  .option('--log-level <level>', 'Log level: error, warn, info or debug (default: LOG_LEVEL or info)')
+  .option('--log-levels <levels>', 'Per-module log levels, e.g. form-navigator=debug,screenshot-service=warn')
+  .option('--log-file <path>', 'Also append every log record as NDJSON to this file')
+  .option('--config <path>', `Configuration file with defaults, timings and selectors (default: first of ${CONFIG_FILENAMES.join(', ')} in the working directory)`)
+  .hook('preAction', () => {
+    try {
+      configureLogging(program.opts());
+    } catch (error) {
+      logger.error('Invalid logging options:', error);
+      process.exit(1);
+    }
+    try {
+      configService.load(program.opts().config);
+    } catch (error) {
+      logger.error('Failed to load configuration:', error);
+      process.exit(1);
+    }
+  });
 
 program
   .command('analyze')
   .description('Analyze survey form at given URL')
   .argument('<url>', 'URL of the survey form to analyze')
   .argument('<tuple>', 'Tuple string in format: [customer_id,study_id,package_name,language,version]')
-  .option('--nav-delay <seconds>', 'Pause in seconds before clicking navigation buttons (default: 3)', '3')
-  .option('--screen-width <pixels>', 'Set viewport width in pixels (default: 767)', '767')
+  .option('--nav-delay <seconds>', 'Pause in seconds before clicking navigation buttons (default: config or 3)')
+  .option('--screen-width <pixels>', 'Set viewport width in pixels (default: config or 767)')
+  .option('--resume', 'Resume from the checkpoint of a previous interrupted run (default: false)')
+  .option('--platform <platform>', `Survey platform adapter to use (${surveyPlatformRegistry.list().join(', ')}; default: config or ${DEFAULT_PLATFORM})`)
+  .option('--record', 'Save a DOM snapshot bundle of every form for offline re-analysis (default: false)')
+  .option('--explore-skip-logic', 'Try every choice of radio/dropdown/checkbox fields to map conditional questions (default: false)')
+  .option('--viewports <widths>', 'Comma-separated viewport widths to capture in one run, e.g. 375,767,1280 (first is primary; overrides --screen-width)')
+  .option('--rtl-audit', 'Audit right-to-left mirroring of every form; automatic for ar, he, fa, ur and other RTL languages (default: false)')
+  .option('--no-accessibility', 'Skip the axe-core accessibility audit of every form')
+  .option('--seed <seed>', 'Seed of the generated test data, to reproduce them in a later run (default: random, recorded in the test data)')
   .action(async (url: string, tupleString: string, options) => {
     try {
       // Parse the tuple string
       const tuple = parseTupleString(tupleString);
-      const navDelay = parseInt(options.navDelay) * 1000; // Convert to milliseconds
-      const screenWidth = parseInt(options.screenWidth);
+      const navDelay = options.navDelay !== undefined ? parseInteger(options.navDelay, '--nav-delay', 0) * 1000 : undefined; // Convert to milliseconds
+      const screenWidth = options.screenWidth !== undefined ? parseInteger(options.screenWidth, '--screen-width', 1) : undefined;
+      const viewports = options.viewports ? parseViewportWidths(options.viewports) : undefined;
       
       logger.info(`Starting analysis of ${url}`);
       logger.info(`Tuple: ${JSON.stringify(tuple)}`);
-      logger.info(`Navigation delay: ${options.navDelay} seconds`);
-      logger.info(`Screen width: ${screenWidth}px`);
+      if (options.resume) {
+        logger.info('Resuming from checkpoint if available');
+      }
+      if (options.record) {
+        logger.info('Recording DOM snapshots');
+      }
+      if (options.exploreSkipLogic) {
+        logger.info('Exploring skip logic of every form');
+      }
       
-      await analyzeSurvey(url, tuple, navDelay, screenWidth);
+      await analyzeSurvey(url, tuple, {
+        navDelay,
+        screenWidth,
+        resume: options.resume || false,
+        platform: options.platform,
+        record: options.record || false,
+        exploreSkipLogic: options.exploreSkipLogic || false,
+        viewports,
+        rtlAudit: options.rtlAudit || false,
+        accessibility: options.accessibility,
+        seed: options.seed
+      });
     } catch (error) {
       logger.error('Analysis failed:', error);
       process.exit(1);
     }
   });
 
+program
+  .command('reanalyze')
+  .description('Re-run form detection and test data generation on a recorded snapshot bundle')
+  .argument('<bundle>', 'Path to a snapshot bundle directory (created with analyze --record)')
+  .option('-o, --output <dir>', 'Output directory for analysis.json and screenshots (default: <bundle>/reanalysis)')
+  .option('--platform <platform>', 'Survey platform adapter to use (default: platform used when recording)')
+  .action(async (bundle: string, options) => {
+    try {
+      await reanalyzeBundle(bundle, {
+        output: options.output,
+        platform: options.platform
+      });
+    } catch (error) {
+      logger.error('Re-analysis failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('batch')
+  .description('Run many analyses concurrently from an input file, sharing a browser pool')
+  .argument('<input-file>', 'Text file with one <width>,<customer_id>,<study_id>,<package_name>,<language>,<version>,<survey_url> per line')
+  .option('-j, --jobs <number>', 'Maximum concurrent analyses (default: 3)', '3')
+  .option('-r, --retries <number>', 'Retries per failed analysis (default: 2)', '2')
+  .option('--backoff <seconds>', 'Base delay before a retry, doubled for each further retry (default: 30)', '30')
+  .option('-t, --timeout <seconds>', 'Timeout per analysis attempt (default: 3600)', '3600')
+  .option('--nav-delay <seconds>', 'Pause in seconds before clicking navigation buttons (default: config or 3)')
+  .option('--platform <platform>', `Survey platform adapter to use (${surveyPlatformRegistry.list().join(', ')}; default: config or ${DEFAULT_PLATFORM})`)
+  .option('-u, --upload', 'Upload each successful analysis to Firestore (default: false)')
+  .option('--local', 'Use local Firebase emulators for uploads (default: false)')
+  .option('--skip-existing', 'Skip analyses whose analysis.json already exists (default: false)')
+  .option('-s, --summary <file>', 'Path of the JSON summary (default: /app/output/logs/batch-summary-<timestamp>.json)')
+  .action(async (inputFile: string, options) => {
+    try {
+      const summary = await runBatch(inputFile, {
+        jobs: parseInteger(options.jobs, '--jobs', 1),
+        retries: parseInteger(options.retries, '--retries', 0),
+        backoff: parseInteger(options.backoff, '--backoff', 0),
+        timeout: parseInteger(options.timeout, '--timeout', 1),
+        navDelay: options.navDelay !== undefined ? parseInteger(options.navDelay, '--nav-delay', 0) : undefined,
+        platform: options.platform,
+        upload: options.upload || false,
+        local: options.local || false,
+        skipExisting: options.skipExisting || false,
+        summary: options.summary
+      });
+      
+      if (summary.totals.failed > 0 || summary.totals.uploadFailed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error('Batch failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('diff')
+  .description('Compare two analyses of the same package, e.g. survey versions v1 and v2')
+  .argument('<analysisA>', 'Baseline analysis: path to analysis.json or Firestore analysis document ID')
+  .argument('<analysisB>', 'Analysis to compare: path to analysis.json or Firestore analysis document ID')
+  .option('--json <file>', 'Also write the differences as JSON to this file')
+  .option('--html <file>', 'Also write the differences as an HTML report to this file')
+  .option('--local', 'Use local Firebase emulators for Firestore analyses (default: false)')
+  .action(async (analysisA: string, analysisB: string, options) => {
+    try {
+      await diffAnalyses(analysisA, analysisB, {
+        json: options.json,
+        html: options.html,
+        local: options.local || false
+      });
+    } catch (error) {
+      logger.error('Diff failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('visual-diff')
+  .description('Compare the screenshots of two analyses pixel by pixel and write highlighted diff images')
+  .argument('<baseline>', 'Path to the baseline analysis.json')
+  .argument('<current>', 'Path to the analysis.json to compare against the baseline')
+  .option('-o, --output <dir>', 'Output directory for diff images and visual-diff.json (default: visual-diff next to the current analysis)')
+  .option('--threshold <number>', 'Per-pixel color distance from 0 to 1 that counts as a visible change (default: 0.1)')
+  .option('--change-threshold <number>', 'Share of visibly changed pixels above which a screenshot counts as changed (default: 0.001)')
+  .option('--masks <file>', 'JSON file with regions to ignore: [{ "x", "y", "width", "height", "screenshots"?: regex }]')
+  .option('-u, --upload', 'Store the report and diff images with the current analysis in Firestore (default: false)')
+  .option('--local', 'Use local Firebase emulators for the upload (default: false)')
+  .action(async (baseline: string, current: string, options) => {
+    try {
+      await visualDiff(baseline, current, {
+        output: options.output,
+        threshold: options.threshold !== undefined ? parseRatio(options.threshold, '--threshold') : undefined,
+        changeThreshold: options.changeThreshold !== undefined ? parseRatio(options.changeThreshold, '--change-threshold') : undefined,
+        masks: options.masks,
+        upload: options.upload || false,
+        local: options.local || false
+      });
+    } catch (error) {
+      logger.error('Visual diff failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('translation-check')
+  .description('Compare every language analysis of a package version with the source language')
+  .argument('<package>', 'Package in format: [customer_id,study_id,package_name,version]')
+  .option('--source <language>', 'Source language the translations are compared with (default: en)', 'en')
+  .option('--output-root <dir>', 'Root directory of local analyses (default: /app/output)', '/app/output')
+  .option('--firestore', 'Load the analyses from Firestore instead of local files (default: false)')
+  .option('--local', 'Use local Firebase emulators with --firestore (default: false)')
+  .option('--json <file>', 'Also write the report as JSON to this file')
+  .action(async (packageString: string, options) => {
+    try {
+      await checkTranslations(parsePackageString(packageString), {
+        source: options.source,
+        outputRoot: options.outputRoot,
+        firestore: options.firestore || false,
+        local: options.local || false,
+        json: options.json
+      });
+    } catch (error) {
+      logger.error('Translation check failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('export-odm')
+  .description('Export the detected forms, questions and choices of an analysis as CDISC ODM 1.3.2 XML')
+  .argument('<analysis>', 'Path to analysis.json or Firestore analysis document ID')
+  .option('-o, --output <file>', 'Path of the ODM file (default: odm.xml next to a local analysis, <analysis>.odm.xml otherwise)')
+  .option('--all-languages', 'Add the other language analyses of the package version as translations (default: false)')
+  .option('--local', 'Use local Firebase emulators for Firestore analyses (default: false)')
+  .action(async (analysis: string, options) => {
+    try {
+      await exportOdm(analysis, {
+        output: options.output,
+        allLanguages: options.allLanguages || false,
+        local: options.local || false
+      });
+    } catch (error) {
+      logger.error('ODM export failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('export-codebook')
+  .description('Export an analysis as a REDCap data dictionary CSV and a generic XLSX codebook')
+  .argument('<analysis>', 'Path to analysis.json or Firestore analysis document ID')
+  .option('-f, --format <format>', 'Files to write: redcap, xlsx or all', 'all')
+  .option('-o, --output <dir>', 'Output directory (default: next to a local analysis, the current directory otherwise)')
+  .option('--all-languages', 'Add the other language analyses of the package version to the XLSX codebook (default: false)')
+  .option('--local', 'Use local Firebase emulators for Firestore analyses (default: false)')
+  .action(async (analysis: string, options) => {
+    try {
+      await exportCodebook(analysis, {
+        format: options.format as CodebookFormat,
+        outputDir: options.output,
+        allLanguages: options.allLanguages || false,
+        local: options.local || false
+      });
+    } catch (error) {
+      logger.error('Codebook export failed:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('upload')
   .description('Upload analysis results to Firestore')
@@ -106,18 +343,93 @@ program
     }
   });
 
+program
+  .command('push-patterns')
+  .description('Publish field type pattern JSON files to Firestore; only newer versions replace stored patterns')
+  .argument('<paths...>', 'Pattern files or directories of them')
+  .option('--local', 'Use local Firebase emulators (default: false)')
+  .action(async (paths: string[], options) => {
+    try {
+      await pushPatterns(paths, { local: options.local || false });
+    } catch (error) {
+      logger.error('Pushing patterns failed:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('export-unknown')
-  .description('Export unknown fields for manual classification')
-  .action(async () => {
+  .description('Export unknown and low-confidence fields of the analyses for manual classification')
+  .option('-o, --output <file>', 'Export file (default: unknown_fields.json)')
+  .option('--output-dir <dir>', 'Root directory of the local analyses (default: /app/output)')
+  .option('-a, --analysis <analysisId>', 'Filter by analysis ID')
+  .option('-c, --customer <customerId>', 'Filter by customer ID')
+  .option('-s, --study <studyId>', 'Filter by study ID')
+  .option('--all', 'Include fields that are already classified (default: false)')
+  .option('--firestore', 'Read the analyses from Firestore instead of the output directory (default: false)')
+  .option('--local', 'Use local Firebase emulators (default: false)')
+  .action(async (options) => {
     try {
-      await exportUnknownFields();
+      await exportUnknownFields({
+        output: options.output,
+        outputDir: options.outputDir,
+        analysis: options.analysis,
+        customer: options.customer,
+        study: options.study,
+        all: options.all || false,
+        firestore: options.firestore || false,
+        local: options.local || false
+      });
     } catch (error) {
       logger.error('Export unknown fields failed:', error);
       process.exit(1);
     }
   });
 
+program
+  .command('import-classifications')
+  .description('Import the field types assigned in an export-unknown file as overrides and pattern candidates')
+  .argument('<file>', 'Export file with assignedType filled in')
+  .option('--classified-by <name>', 'Name stored with the classifications')
+  .option('--candidates <file>', 'Pattern candidates file (default: pattern-candidates.json next to the import file)')
+  .option('--output-dir <dir>', 'Root directory of the local analyses (default: /app/output)')
+  .option('--firestore', 'Store the classifications in Firestore instead of the local analyses (default: false)')
+  .option('--local', 'Use local Firebase emulators (default: false)')
+  .action(async (file: string, options) => {
+    try {
+      await importClassifications(file, {
+        classifiedBy: options.classifiedBy,
+        candidates: options.candidates,
+        outputDir: options.outputDir,
+        firestore: options.firestore || false,
+        local: options.local || false
+      });
+    } catch (error) {
+      logger.error('Import classifications failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('regenerate')
+  .description('Regenerate the test data of an analysis from their recorded seeds, reproducing the original run')
+  .argument('<analysis>', 'Path to an analysis.json file')
+  .option('-o, --output <file>', 'Regenerated analysis file (default: overwrite the analysis file)')
+  .option('--seed <seed>', 'Regenerate with this seed instead of the recorded ones')
+  .option('--check', 'Only verify that the recorded test data are reproduced; fails when they differ (default: false)')
+  .action(async (analysis: string, options) => {
+    try {
+      await regenerateTestData(analysis, {
+        output: options.output,
+        seed: options.seed,
+        check: options.check || false
+      });
+    } catch (error) {
+      logger.error('Regenerate failed:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('query-test-cases')
   .description('Query test cases from Firestore')
@@ -172,10 +484,10 @@ program
   .argument('<analysis-id>', 'Analysis document ID from Firestore')
   .argument('<url>', 'Survey form URL to test')
   .option('-o, --output <dir>', 'Output directory for test results', './output/test-runs')
-  .option('-d, --delay <ms>', 'Delay after field input (ms)', '500')
+  .option('-d, --delay <ms>', 'Maximum wait for validation to settle after field input (ms)', '500')
   .option('--skip-validation', 'Skip validation message detection')
   .option('--leave', 'Keep local output files after upload (default: remove)')
-  .option('--screen-width <pixels>', 'Set viewport width in pixels (default: 767)', '767')
+  .option('--screen-width <pixels>', 'Set viewport width in pixels (default: config or 767)')
   .action(async (analysisId: string, url: string, options) => {
     try {
       const testRunOptions = {
@@ -185,7 +497,7 @@ program
         delay: parseInt(options.delay) || 500,
         skipValidation: options.skipValidation || false,
         leaveFiles: options.leave || false,
-        screenWidth: parseInt(options.screenWidth) || 767
+        screenWidth: options.screenWidth ? parseInt(options.screenWidth) : undefined
       };
       
       await runTests(testRunOptions);
@@ -219,6 +531,24 @@ program
     }
   });
 
+program
+  .command('mock-survey')
+  .description('Serve mock surveys defined in JSON spec files for local end-to-end runs')
+  .argument('<spec...>', 'One or more survey spec JSON files')
+  .option('-p, --port <port>', 'Port to listen on', '4000')
+  .option('--host <host>', 'Host to bind to', '127.0.0.1')
+  .action(async (specPaths: string[], options) => {
+    try {
+      await startMockSurvey(specPaths, {
+        port: parseInt(options.port) || 4000,
+        host: options.host
+      });
+    } catch (error) {
+      logger.error('Mock survey server failed:', error);
+      process.exit(1);
+    }
+  });
+
 function parseTupleString(tupleString: string): SurveyTuple {
   // Remove brackets and split by comma
   const cleaned = tupleString.replace(/[\[\]]/g, '').trim();
@@ -237,4 +567,62 @@ function parseTupleString(tupleString: string): SurveyTuple {
   };
 }
 
+function parsePackageString(packageString: string): PackageRef {
+  const parts = packageString.replace(/[\[\]]/g, '').trim().split(',').map(part => part.trim());
+  
+  if (parts.length !== 4) {
+    throw new Error('Package must contain exactly 4 elements: [customer_id,study_id,package_name,version]');
+  }
+  
+  return {
+    customerId: parts[0],
+    studyId: parts[1],
+    packageName: parts[2],
+    version: parts[3]
+  };
+}
+
+function parseViewportWidths(value: string): number[] {
+  const widths = value.split(',').map(part => parseInt(part.trim(), 10));
+  
+  if (widths.length === 0 || widths.some(width => isNaN(width) || width <= 0)) {
+    throw new Error(`Invalid viewport widths "${value}": expected comma-separated pixel widths, e.g. 375,767,1280`);
+  }
+  
+  return widths;
+}
+
+function parseRatio(value: string, option: string): number {
+  const ratio = parseFloat(value);
+  
+  if (isNaN(ratio) || ratio < 0 || ratio > 1) {
+    throw new Error(`Invalid ${option} "${value}": expected a number from 0 to 1`);
+  }
+  
+  return ratio;
+}
+
+function parseInteger(value: string, option: string, min: number): number {
+  const integer = /^\d+$/.test(value.trim()) ? parseInt(value, 10) : NaN;
+  
+  if (isNaN(integer) || integer < min) {
+    throw new Error(`Invalid ${option} "${value}": expected ${min === 0 ? 'a whole number of 0 or more' : 'a positive whole number'}`);
+  }
+  
+  return integer;
+}
+
+function configureLogging(options: { logFormat?: string; logLevel?: string; logLevels?: string; logFile?: string }): void {
+  if (options.logFormat && options.logFormat !== 'text' && options.logFormat !== 'json') {
+    throw new Error(`Invalid log format "${options.logFormat}": expected text or json`);
+  }
+  
+  logger.configure({
+    format: options.logFormat as 'text' | 'json' | undefined,
+    level: options.logLevel ? parseLogLevel(options.logLevel) : undefined,
+    moduleLevels: options.logLevels ? parseModuleLevels(options.logLevels) : undefined,
+    file: options.logFile
+  });
+}
+
 program.parse();
\ No newline at end of file
@@ -524,6 +524,7 @@ export const generateReport = onRequest({
     
     logger.info("Created job entry", {
       jobId,
+      runId: jobId, // Same correlation field as the CLI run logs
       configurationId,
       languages: config.selectedLanguages
     });
@@ -538,12 +539,14 @@ export const generateReport = onRequest({
       .then(() => {
         logger.info("PDF generation completed", {
           jobId,
+          runId: jobId,
           processingTimeMs: Date.now() - startTime
         });
       })
       .catch((error) => {
         logger.error("PDF generation failed", {
           jobId,
+          runId: jobId,
           error: error instanceof Error ? error.message : String(error),
           stack: error instanceof Error ? error.stack : undefined
         });
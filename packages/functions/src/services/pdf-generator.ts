@@ -15,6 +15,7 @@ interface ReportConfiguration {
   formOrder: string[];
   selectedLanguages: string[];
   includeMetadata: boolean;
+  includeAccessibility?: boolean;
   pageOrientation: 'portrait' | 'landscape';
   pageSize: 'A4' | 'Letter' | 'Legal';
   screenshotType: 'on-exit' | 'on-entry' | 'both';
@@ -28,8 +29,21 @@ interface FormData {
   questionCount: number;
   screenshotPath?: string;
   screenshotUrl?: string;
+  layoutIssues: LayoutIssueRegion[];  // Only for on-exit screenshots, which the regions refer to
 }
 
+interface LayoutIssueRegion {
+  kind: 'horizontal_overflow' | 'vertical_overflow' | 'ellipsis' | 'overlap';
+  formRect: { x: number; y: number; width: number; height: number };
+}
+
+const LAYOUT_ISSUE_COLORS: Record<LayoutIssueRegion['kind'], string> = {
+  horizontal_overflow: '#d32f2f',
+  vertical_overflow: '#d32f2f',
+  ellipsis: '#ed6c02',
+  overlap: '#9c27b0'
+};
+
 interface AnalysisData {
   id: string;
   customerId: string;
@@ -38,6 +52,15 @@ interface AnalysisData {
   language: string;
   version: string;
   forms: FormData[];
+  accessibility?: AccessibilitySummary;
+}
+
+interface AccessibilitySummary {
+  auditedForms: number;
+  violations: number;
+  formsWithViolations: number[];
+  byImpact: Record<string, number>;
+  rules: Array<{ rule: string; impact: string; help: string; occurrences: number; forms: number[] }>;
 }
 
 export class PDFGenerator {
@@ -166,6 +189,10 @@ export class PDFGenerator {
 
       // Add title page
       this.addTitlePage(doc, config, analysisData);
+      
+      if (config.includeAccessibility) {
+        this.addAccessibilityPage(doc, analysisData);
+      }
 
       // Process forms in configured order
       const orderedForms = this.orderForms(analysisData.forms, config.formOrder);
@@ -218,6 +245,47 @@ export class PDFGenerator {
     doc.addPage();
   }
 
+  /**
+   * Add the accessibility summary page, listing violated rules by severity
+   */
+  private addAccessibilityPage(doc: any, analysisData: AnalysisData): void {
+    doc.font('DejaVuSans')
+       .fontSize(16)
+       .fillColor('#000000')
+       .text('Accessibility Summary');
+    
+    doc.moveDown();
+    
+    const summary = analysisData.accessibility;
+    if (!summary) {
+      doc.fontSize(10)
+         .fillColor('#666666')
+         .text('No accessibility audit is available for this analysis.');
+      doc.addPage();
+      return;
+    }
+    
+    doc.fontSize(12)
+       .text(`${summary.violations} WCAG 2.1 A/AA violations on ${summary.formsWithViolations.length} of ${summary.auditedForms} forms`)
+       .fontSize(10)
+       .fillColor('#666666')
+       .text(['critical', 'serious', 'moderate', 'minor'].map(impact => `${summary.byImpact[impact] || 0} ${impact}`).join(', '));
+    
+    doc.moveDown();
+    
+    for (const rule of summary.rules) {
+      doc.fontSize(11)
+         .fillColor('#000000')
+         .text(`${rule.rule} (${rule.impact}) - ${rule.occurrences} occurrences on forms ${rule.forms.map(index => index + 1).join(', ')}`)
+         .fontSize(9)
+         .fillColor('#666666')
+         .text(rule.help);
+      doc.moveDown(0.5);
+    }
+    
+    doc.addPage();
+  }
+
   /**
    * Add a form page to PDF
    */
@@ -250,11 +318,16 @@ export class PDFGenerator {
         // Calculate image dimensions to fit page
         const pageWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
         const maxHeight = doc.page.height - doc.y - doc.page.margins.bottom - 50;
+        const imageTop = doc.y;
         
         doc.image(imageBuffer, {
           fit: [pageWidth, maxHeight],
           align: 'center'
         });
+        
+        if (form.layoutIssues.length > 0) {
+          this.drawLayoutIssues(doc, form.layoutIssues, doc.openImage(imageBuffer), doc.page.margins.left, imageTop, pageWidth, maxHeight);
+        }
       } catch (error) {
         console.error(`Failed to add screenshot for form ${form.id}:`, error);
         doc.font('DejaVuSans')
@@ -271,6 +344,11 @@ export class PDFGenerator {
          .fontSize(10)
          .fillColor('#666666')
          .text(`Questions: ${form.questionCount}`);
+      
+      if (form.layoutIssues.length > 0) {
+        doc.fillColor('#d32f2f')
+           .text(`Layout issues: ${form.layoutIssues.length} clipped, truncated or overlapping text regions (outlined)`);
+      }
     }
     
     // Start new page for next form (except for last form)
@@ -279,6 +357,33 @@ export class PDFGenerator {
     }
   }
 
+  /**
+   * Outline layout issue regions on a screenshot placed with fit and center alignment.
+   * Screenshots are captured at a device scale factor of 1, so image pixels are CSS pixels.
+   */
+  private drawLayoutIssues(
+    doc: any,
+    issues: LayoutIssueRegion[],
+    image: { width: number; height: number },
+    boxLeft: number,
+    boxTop: number,
+    boxWidth: number,
+    boxHeight: number
+  ): void {
+    const scale = Math.min(boxWidth / image.width, boxHeight / image.height);
+    const left = boxLeft + (boxWidth - image.width * scale) / 2;
+    
+    doc.save();
+    for (const issue of issues) {
+      const { x, y, width, height } = issue.formRect;
+      doc.rect(left + x * scale, boxTop + y * scale, width * scale, height * scale)
+         .lineWidth(1)
+         .fillOpacity(0.15)
+         .fillAndStroke(LAYOUT_ISSUE_COLORS[issue.kind] || '#d32f2f', LAYOUT_ISSUE_COLORS[issue.kind] || '#d32f2f');
+    }
+    doc.restore();
+  }
+
   /**
    * Order forms according to configuration
    */
@@ -450,6 +555,7 @@ export class PDFGenerator {
     const forms = await Promise.all(formsSnapshot.docs.map(async (formDoc) => {
       const form = formDoc.data();
       let screenshotUrl = null;
+      let layoutIssues: LayoutIssueRegion[] = [];
       
       // Select screenshot URL based on config.screenshotType (default to on-exit)
       // The URLs are already stored in Firestore from the upload process
@@ -474,6 +580,15 @@ export class PDFGenerator {
         console.log(`No screenshot URLs found for form ${formDoc.id}. Available fields: onExitScreenshotUrl=${form.onExitScreenshotUrl}, onEntryScreenshotUrl=${form.onEntryScreenshotUrl}`);
       }
       
+      // Layout issue regions are measured against the form as captured on exit at the primary viewport
+      if (form.layoutIssueCount > 0 && screenshotUrl && screenshotUrl === form.onExitScreenshotUrl) {
+        const primaryViewport = form.viewports?.[0];
+        const fieldsSnapshot = await formDoc.ref.collection('fields').get();
+        layoutIssues = fieldsSnapshot.docs
+          .flatMap(fieldDoc => (fieldDoc.data().layoutIssues || []) as Array<LayoutIssueRegion & { viewportWidth: number }>)
+          .filter(issue => primaryViewport === undefined || issue.viewportWidth === primaryViewport);
+      }
+      
       return {
         id: formDoc.id,
         formIndex: form.formIndex,
@@ -481,7 +596,8 @@ export class PDFGenerator {
         shortName: form.shortName,
         questionCount: form.questions?.length || 0,
         screenshotPath: form.onExitScreenshot,
-        screenshotUrl: screenshotUrl || undefined
+        screenshotUrl: screenshotUrl || undefined,
+        layoutIssues
       };
     }));
     
@@ -492,7 +608,8 @@ export class PDFGenerator {
       packageName: data.packageName,
       language: data.language,
       version: data.version,
-      forms
+      forms,
+      accessibility: data.accessibility || undefined
     };
   }
 
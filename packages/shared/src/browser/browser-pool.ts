@@ -0,0 +1,104 @@
+import { Browser } from 'puppeteer';
+import { logger as rootLogger } from '../utils/logger.js';
+import { PuppeteerManager } from './puppeteer-manager.js';
+
+const logger = rootLogger.child('browser-pool');
+
+/**
+ * Shares a bounded set of browsers between concurrent analyses. Browsers are launched
+ * lazily up to `size`, reused across jobs, and replaced when they disconnect.
+ */
+export class BrowserPool {
+  private idle: Browser[] = [];
+  private leased = new Set<Browser>();
+  private waiting: Array<{ resolve: (browser: Browser) => void; reject: (error: unknown) => void }> = [];
+  private launching = 0;
+  private closed = false;
+
+  constructor(private readonly size: number) {
+    if (size < 1) {
+      throw new Error('Browser pool size must be at least 1');
+    }
+  }
+
+  async acquire(): Promise<Browser> {
+    if (this.closed) {
+      throw new Error('Browser pool is closed');
+    }
+
+    while (this.idle.length > 0) {
+      const browser = this.idle.pop()!;
+      if (browser.connected) {
+        this.leased.add(browser);
+        return browser;
+      }
+      logger.warn('Discarding disconnected browser from pool');
+    }
+
+    if (this.leased.size + this.launching < this.size) {
+      this.launching++;
+      try {
+        const browser = await PuppeteerManager.launchBrowser();
+        this.leased.add(browser);
+        logger.debug(`Launched pooled browser (${this.leased.size}/${this.size} in use)`);
+        return browser;
+      } finally {
+        this.launching--;
+      }
+    }
+
+    // Every browser is busy, wait for one to be released
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  release(browser: Browser): void {
+    this.leased.delete(browser);
+
+    if (this.closed || !browser.connected) {
+      browser.close().catch(() => undefined);
+      this.launchForWaiter();
+      return;
+    }
+
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      this.leased.add(browser);
+      waiter.resolve(browser);
+    } else {
+      this.idle.push(browser);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.waiting.forEach(waiter => waiter.reject(new Error('Browser pool is closed')));
+    this.waiting = [];
+    const browsers = [...this.idle, ...this.leased];
+    this.idle = [];
+    this.leased.clear();
+    await Promise.all(browsers.map(browser => browser.close().catch(error => {
+      logger.warn('Failed to close pooled browser:', error);
+    })));
+  }
+
+  // A discarded browser frees a slot, so launch a replacement for anyone still waiting
+  private launchForWaiter(): void {
+    if (this.closed) return;
+    const waiter = this.waiting.shift();
+    if (!waiter) return;
+
+    this.launching++;
+    PuppeteerManager.launchBrowser()
+      .then(browser => {
+        this.leased.add(browser);
+        waiter.resolve(browser);
+      })
+      .catch(error => {
+        logger.error('Failed to launch replacement browser:', error);
+        waiter.reject(error);
+      })
+      .finally(() => {
+        this.launching--;
+      });
+  }
+}
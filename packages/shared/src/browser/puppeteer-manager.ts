@@ -1,10 +1,30 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
+import type { BrowserPool } from './browser-pool.js';
+import { DEFAULT_SETTINGS, FormShotTimings } from '../services/config-service.js';
+import { waitForDomStable } from '../utils/dom-stability.js';
 
 export class PuppeteerManager {
   private browser: Browser | null = null;
   private page: Page | null = null;
+  private pool: BrowserPool | null = null;
 
-  async launch(): Promise<void> {
+  /**
+   * Opens a page in a new browser, or in a browser leased from the pool when one is given.
+   * Pooled browsers are handed back on close() instead of being shut down.
+   */
+  async launch(pool?: BrowserPool): Promise<void> {
+    if (pool) {
+      this.pool = pool;
+      this.browser = await pool.acquire();
+    } else {
+      this.browser = await PuppeteerManager.launchBrowser();
+    }
+
+    this.page = await this.browser.newPage();
+    await this.page.setViewport({ width: 1920, height: 1080 });
+  }
+
+  static async launchBrowser(): Promise<Browser> {
     // Try to find Chrome executable or use bundled version
     const launchOptions: any = {
       headless: 'new',
@@ -29,24 +49,21 @@ export class PuppeteerManager {
       launchOptions.executablePath = '/usr/bin/google-chrome';
     }
 
-    this.browser = await puppeteer.launch(launchOptions);
-
-    this.page = await this.browser.newPage();
-    await this.page.setViewport({ width: 1920, height: 1080 });
+    return puppeteer.launch(launchOptions);
   }
 
-  async navigateToPage(url: string): Promise<void> {
+  async navigateToPage(url: string, timings: FormShotTimings = DEFAULT_SETTINGS.timings): Promise<void> {
     if (!this.page) {
       throw new Error('Browser not launched');
     }
 
     await this.page.goto(url, { 
       waitUntil: 'networkidle2',
-      timeout: 30000 
+      timeout: timings.navigationTimeout 
     });
 
     // Wait for potential dynamic content to load
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    await waitForDomStable(this.page, timings.pageLoadDelay, { quietPeriod: timings.domQuietPeriod });
   }
 
   getPage(): Page {
@@ -57,7 +74,17 @@ export class PuppeteerManager {
   }
 
   async close(): Promise<void> {
-    if (this.browser) {
+    if (this.browser && this.pool) {
+      try {
+        await this.page?.close();
+      } catch {
+        // Page is already gone if the browser crashed
+      }
+      this.pool.release(this.browser);
+      this.pool = null;
+      this.browser = null;
+      this.page = null;
+    } else if (this.browser) {
       await this.browser.close();
       this.browser = null;
       this.page = null;
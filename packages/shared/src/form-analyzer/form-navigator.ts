@@ -1,13 +1,39 @@
 import { Page } from 'puppeteer';
 import { NavigationButton, SurveyField } from '../types/types.js';
-import { logger } from '../utils/logger.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import { SurveyPlatformAdapter, scopeSelector } from './platforms/survey-platform-adapter.js';
+import { surveyPlatformRegistry } from './platforms/platform-registry.js';
+import { DEFAULT_SETTINGS, FormShotSettings } from '../services/config-service.js';
+import type { TestDataOptions } from '../test-generator/test-data-generator.js';
+import { waitForDomStable } from '../utils/dom-stability.js';
+
+const logger = rootLogger.child('form-navigator');
 
 export class FormNavigator {
+  private platform: SurveyPlatformAdapter;
+  private settings: FormShotSettings;
+  private testDataOptions: TestDataOptions;  // Locale and seed of the test data of fields found while filling
+
+  constructor(platform?: SurveyPlatformAdapter, settings: FormShotSettings = DEFAULT_SETTINGS, testDataOptions: TestDataOptions = {}) {
+    this.platform = platform || surveyPlatformRegistry.get();
+    this.settings = settings;
+    this.testDataOptions = testDataOptions;
+  }
+  
+  /**
+   * Waits for the form to react to an interaction, at most `timeout` ms (default: interactionDelay)
+   */
+  private async settle(page: Page, timeout: number = this.settings.timings.interactionDelay): Promise<void> {
+    await waitForDomStable(page, timeout, {
+      container: this.platform.selectors.container,
+      quietPeriod: this.settings.timings.domQuietPeriod
+    });
+  }
   
   async getFormShortName(page: Page): Promise<string> {
     try {
-      return await page.evaluate(() => {
-        const container = document.querySelector('#survey-body-container');
+      return await page.evaluate((containerSelector) => {
+        const container = document.querySelector(containerSelector);
         if (!container) return 'NO_CONTAINER';
         
         // Look for h3 element which contains the short name
@@ -17,7 +43,7 @@ export class FormNavigator {
         }
         
         return 'NO_SHORT_NAME';
-      });
+      }, this.platform.selectors.container);
     } catch (error) {
       logger.error('Error getting form short name:', error);
       return 'ERROR';
@@ -25,62 +51,7 @@ export class FormNavigator {
   }
   
   async detectNavigationButtons(page: Page): Promise<NavigationButton[]> {
-    return await page.evaluate(() => {
-      // Navigation buttons are after survey-body-container
-      const surveyBodyContainer = document.querySelector('#survey-body-container');
-      if (!surveyBodyContainer) {
-        return [];
-      }
-      
-      // Look for navigation area after the survey body
-      const navigationArea = surveyBodyContainer.nextElementSibling;
-      if (!navigationArea) {
-        return [];
-      }
-      
-      const buttons: NavigationButton[] = [];
-      const buttonElements = navigationArea.querySelectorAll('button');
-      
-      buttonElements.forEach((button) => {
-        const text = button.textContent?.trim() || '';
-        const isEnabled = !button.disabled;
-        
-        let type: 'next' | 'previous' | 'finish' | undefined;
-        
-        // Detect button type based on text content
-        if (text.toLowerCase().includes('next') || text.includes('→')) {
-          type = 'next';
-        } else if (text.toLowerCase().includes('prev') || text.toLowerCase().includes('back') || text.includes('←')) {
-          type = 'previous';
-        } else if (text.toLowerCase().includes('finish') || text.toLowerCase().includes('submit')) {
-          type = 'finish';
-        }
-        
-        if (type) {
-          // Generate selector for the button
-          let selector = '';
-          if (button.id) {
-            selector = `#${CSS.escape(button.id)}`;
-          } else if (button.className) {
-            selector = `button.${button.className.split(' ').join('.')}`;
-          } else {
-            // Use index-based selector within navigation area
-            const allButtons = Array.from(navigationArea.querySelectorAll('button'));
-            const index = allButtons.indexOf(button);
-            selector = `#survey-body-container + div button:nth-of-type(${index + 1})`;
-          }
-          
-          buttons.push({
-            type,
-            text,
-            selector,
-            isEnabled
-          });
-        }
-      });
-      
-      return buttons;
-    });
+    return this.platform.detectNavigationButtons(page);
   }
   
   private generateFieldKey(field: SurveyField, index: number): string {
@@ -108,6 +79,7 @@ export class FormNavigator {
     logger.info(`Processing ${allFields.length} fields total`);
     for (let i = 0; i < allFields.length; i++) {
       const field = allFields[i];
+      logger.setContext({ questionNumber: field.questionNumber });
       // Skip if already filled (including conditional fields filled immediately)
       const fieldKey = this.generateFieldKey(field, i);
       logger.info(`Checking field ${i}: key="${fieldKey}", type="${field.inputType}", required=${field.isRequired}`);
@@ -138,7 +110,7 @@ export class FormNavigator {
         filledQuestions.add(fieldKey);
         
         // Wait for any conditional fields to appear
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        await this.settle(page);
         
         // Check for new questions that appeared
         const questionsAfter = await this.getVisibleQuestions(page);
@@ -171,7 +143,7 @@ export class FormNavigator {
               logger.info(`Added conditional field to filled set with key: ${conditionalFieldKey}`);
               
               // Wait after filling each conditional field
-              await new Promise(resolve => setTimeout(resolve, 1000));
+              await this.settle(page);
               
               // Check if this conditional field triggered more conditional fields
               const questionsAfterConditional = await this.getVisibleQuestions(page);
@@ -202,7 +174,7 @@ export class FormNavigator {
                   filledQuestions.add(nestedFieldKey);
                   logger.info(`Added nested conditional field to filled set with key: ${nestedFieldKey}`);
                   
-                  await new Promise(resolve => setTimeout(resolve, 1000));
+                  await this.settle(page);
                 }
               }
             } catch (error) {
@@ -259,7 +231,7 @@ export class FormNavigator {
           logger.info(`Added late-appearing field to filled set with key: ${fieldKey}`);
           
           // Wait for any cascade effects
-          await new Promise(resolve => setTimeout(resolve, 1000));
+          await this.settle(page);
         } catch (error) {
           logger.error(`Failed to fill late-appearing field ${missingField.questionNumber || 'unnamed'}:`, error);
         }
@@ -272,11 +244,11 @@ export class FormNavigator {
   
   private async scanForMissingRequiredFields(page: Page, filledQuestions: Set<string>, allFields: SurveyField[]): Promise<SurveyField[]> {
     try {
-      const missingFields = await page.evaluate(() => {
-        const container = document.querySelector('#survey-body-container');
+      const missingFields = await page.evaluate((selectors) => {
+        const container = document.querySelector(selectors.container);
         if (!container) return [];
         
-        const cardBoxes = container.querySelectorAll('[class*="CardBox"]');
+        const cardBoxes = container.querySelectorAll(selectors.questionCard);
         const fields: any[] = [];
         
         cardBoxes.forEach((cardBox, index) => {
@@ -350,10 +322,10 @@ export class FormNavigator {
           }
           
           // Check for VAS slider
-          if (cardBox.querySelector('[class*="SliderTrack"]')) {
+          if (cardBox.querySelector(selectors.sliderTrack)) {
             inputType = 'VAS';
             hasValue = false; // VAS always needs interaction
-            selector = '[class*="SliderTrack"]';
+            selector = selectors.sliderTrack;
           }
           
           // If this is a required field without a value, add it to missing fields
@@ -364,13 +336,13 @@ export class FormNavigator {
               inputType,
               isRequired: true,
               selector,
-              cardBoxSelector: cardBox.id ? `#${cardBox.id}` : `[class*="CardBox"]:nth-of-type(${index + 1})`
+              cardBoxSelector: cardBox.id ? `#${cardBox.id}` : `:is(${selectors.questionCard}):nth-of-type(${index + 1})`
             });
           }
         });
         
         return fields;
-      });
+      }, this.platform.selectors);
       
       // Import test generator for creating test data
       const { TestDataGenerator } = await import('../test-generator/test-data-generator.js');
@@ -390,19 +362,18 @@ export class FormNavigator {
         
         const isAlreadyFilled = possibleKeys.some(key => filledQuestions.has(key));
         if (!isAlreadyFilled) {
-          // Generate test data for the field
-          const testData = await testGenerator.generateTestData({
+          // Generate test data for the field, within the constraints of its input
+          const missingField: SurveyField = {
             ...field,
             inputType: field.inputType as any,
             screenshotPath: '',
             choices: []
-          });
+          };
+          missingField.constraints = await this.platform.detectFieldConstraints(page, missingField);
+          const testData = await testGenerator.generateTestData(missingField, this.testDataOptions);
           
           newMissingFields.push({
-            ...field,
-            inputType: field.inputType as any,
-            choices: [],
-            screenshotPath: '',
+            ...missingField,
             testData,
             conditionalInfo: {
               isConditional: true,
@@ -421,12 +392,12 @@ export class FormNavigator {
     }
   }
   
-  private async getVisibleQuestions(page: Page): Promise<string[]> {
-    return await page.evaluate(() => {
-      const container = document.querySelector('#survey-body-container');
+  async getVisibleQuestions(page: Page): Promise<string[]> {
+    return await page.evaluate((selectors) => {
+      const container = document.querySelector(selectors.container);
       if (!container) return [];
       
-      const cardBoxes = container.querySelectorAll('[class*="CardBox"]');
+      const cardBoxes = container.querySelectorAll(selectors.questionCard);
       const visibleQuestions: string[] = [];
       
       cardBoxes.forEach((cardBox) => {
@@ -455,7 +426,7 @@ export class FormNavigator {
         
         // If no question number found, use a unique identifier based on position
         if (!questionId) {
-          const allCardBoxes = Array.from(container.querySelectorAll('[class*="CardBox"]'));
+          const allCardBoxes = Array.from(container.querySelectorAll(selectors.questionCard));
           const position = allCardBoxes.indexOf(cardBox);
           questionId = `no_number_${position}`;
         }
@@ -464,7 +435,7 @@ export class FormNavigator {
       });
       
       return visibleQuestions;
-    });
+    }, this.platform.selectors);
   }
 
   private async fillFieldAndGetValue(page: Page, field: SurveyField): Promise<string | number> {
@@ -482,7 +453,7 @@ export class FormNavigator {
     return String(testValue);
   }
 
-  private async scanConditionalFields(page: Page, newQuestionNumbers: string[], parentQuestion: string, parentValue: string | number): Promise<SurveyField[]> {
+  async scanConditionalFields(page: Page, newQuestionNumbers: string[], parentQuestion: string, parentValue: string | number): Promise<SurveyField[]> {
     logger.info(`Scanning ${newQuestionNumbers.length} conditional fields that appeared after ${parentQuestion} = ${parentValue}`);
     
     // Import necessary services
@@ -493,12 +464,12 @@ export class FormNavigator {
     
     for (const questionNumber of newQuestionNumbers) {
       try {
-        const fieldData = await page.evaluate((qNum) => {
-          const container = document.querySelector('#survey-body-container');
+        const fieldData = await page.evaluate((qNum, selectors) => {
+          const container = document.querySelector(selectors.container);
           if (!container) return null;
           
           // Find the CardBox with this question number or position
-          const cardBoxes = container.querySelectorAll('[class*="CardBox"]');
+          const cardBoxes = container.querySelectorAll(selectors.questionCard);
           for (const cardBox of cardBoxes) {
             const textElements = cardBox.querySelectorAll('h4, h5, h6, span, p, div');
             let foundQuestion = false;
@@ -508,7 +479,7 @@ export class FormNavigator {
             // Handle both numbered and unnumbered questions
             if (qNum.startsWith('no_number_')) {
               // This is an unnumbered question, find by position
-              const allCardBoxes = Array.from(container.querySelectorAll('[class*="CardBox"]'));
+              const allCardBoxes = Array.from(container.querySelectorAll(selectors.questionCard));
               const position = parseInt(qNum.replace('no_number_', ''));
               if (allCardBoxes[position] === cardBox) {
                 foundQuestion = true;
@@ -633,7 +604,7 @@ export class FormNavigator {
                 } else {
                   // For conditional fields, we need a unique selector
                   // Since the cardBox is the exact element we found, let's create a unique identifier
-                  const allCardBoxes = Array.from(container.querySelectorAll('[class*="CardBox"]'));
+                  const allCardBoxes = Array.from(container.querySelectorAll(selectors.questionCard));
                   const cardBoxIndex = allCardBoxes.indexOf(cardBox);
                   
                   if (cardBoxIndex >= 0) {
@@ -644,28 +615,23 @@ export class FormNavigator {
                     cardBoxSelector = `#${cardBox.id}`;
                   } else {
                     // This shouldn't happen, but as a fallback
-                    cardBoxSelector = `[class*="CardBox"]`;
+                    cardBoxSelector = `:is(${selectors.questionCard})`;
                   }
                 }
               } else if (cardBox.className) {
                 // Fallback to class-based selector
-                const cardBoxClass = cardBox.className.split(' ').find(c => c.includes('CardBox'));
-                if (cardBoxClass) {
-                  cardBoxSelector = `[class*="${cardBoxClass}"]`;
-                } else {
-                  cardBoxSelector = `.${cardBox.className.split(' ').join('.')}`;
-                }
+                cardBoxSelector = `.${cardBox.className.split(' ').filter(c => c).join('.')}`;
               }
             }
             
             // Check for VAS slider
-            if (cardBox.querySelector('[class*="SliderTrack"]')) {
+            if (cardBox.querySelector(selectors.sliderTrack)) {
               inputType = 'VAS';
-              const sliderElement = cardBox.querySelector('[class*="SliderTrack"]');
+              const sliderElement = cardBox.querySelector(selectors.sliderTrack);
               if (sliderElement && sliderElement.id) {
                 selector = `#${sliderElement.id}`;
               } else {
-                selector = `${cardBoxSelector} [class*="SliderTrack"]`;
+                selector = `${cardBoxSelector} :is(${selectors.sliderTrack})`;
               }
             }
             
@@ -681,20 +647,23 @@ export class FormNavigator {
           }
           
           return null;
-        }, questionNumber);
+        }, questionNumber, this.platform.selectors);
         
         if (fieldData) {
-          // Generate test data
-          const testData = await testGenerator.generateTestData({
+          // Generate test data, within the constraints of the field's input
+          const detectedField: SurveyField = {
             ...fieldData,
             inputType: fieldData.inputType as any,
             screenshotPath: '' // Will be set later
-          });
+          };
+          const constraints = await this.platform.detectFieldConstraints(page, detectedField);
+          const testData = await testGenerator.generateTestData({ ...detectedField, constraints }, this.testDataOptions);
           
           // Create the conditional field with improved cardBoxSelector
           const conditionalField: SurveyField = {
             ...fieldData,
             inputType: fieldData.inputType as any,
+            constraints,
             isRequired: true, // Force conditional fields to be required since they appeared due to user action
             screenshotPath: '', // Will be set when screenshot is taken
             testData,
@@ -747,7 +716,7 @@ export class FormNavigator {
         try {
           // Click the date input to open date picker
           await page.click(field.selector);
-          await new Promise(resolve => setTimeout(resolve, 500));
+          await this.settle(page);
           
           // Calculate yesterday's date
           const yesterday = new Date();
@@ -764,7 +733,7 @@ export class FormNavigator {
           // Handle the specific MonthYearDropdownWrapper structure
           try {
             // Find the MonthYearDropdownWrapper
-            const dropdownWrapper = await page.$('[class*="MonthYearDropdownWrapper"]');
+            const dropdownWrapper = await page.$(this.platform.selectors.monthYearDropdown);
             if (dropdownWrapper) {
               // Get the two divs inside
               const divs = await dropdownWrapper.$$('div');
@@ -773,7 +742,7 @@ export class FormNavigator {
                 // Click the first div (month selector)
                 logger.info('Clicking month selector div');
                 await divs[0].click();
-                await new Promise(resolve => setTimeout(resolve, 300));
+                await this.settle(page);
                 
                 // Clear and type the month name
                 await page.keyboard.down('Control');
@@ -781,12 +750,12 @@ export class FormNavigator {
                 await page.keyboard.up('Control');
                 await page.keyboard.type(monthName);
                 await page.keyboard.press('Enter');
-                await new Promise(resolve => setTimeout(resolve, 300));
+                await this.settle(page);
                 
                 // Click the second div (year selector)
                 logger.info('Clicking year selector div');
                 await divs[1].click();
-                await new Promise(resolve => setTimeout(resolve, 300));
+                await this.settle(page);
                 
                 // Clear and type the year
                 await page.keyboard.down('Control');
@@ -794,7 +763,7 @@ export class FormNavigator {
                 await page.keyboard.up('Control');
                 await page.keyboard.type(String(year));
                 await page.keyboard.press('Enter');
-                await new Promise(resolve => setTimeout(resolve, 300));
+                await this.settle(page);
                 
                 // Now select the day from the calendar
                 const daySelected = await page.evaluate((targetDay) => {
@@ -843,7 +812,7 @@ export class FormNavigator {
           }
           
           // Wait for date picker to close
-          await new Promise(resolve => setTimeout(resolve, 1000));
+          await this.settle(page);
           
         } catch (error) {
           logger.error(`Failed to handle date field ${field.questionNumber}:`, error);
@@ -869,19 +838,19 @@ export class FormNavigator {
           try {
             // For fields with generic selector, find by question number or position
             if ((field.conditionalInfo?.isConditional || !field.questionNumber || field.questionNumber.trim() === '') && 
-                field.cardBoxSelector === '[class*="CardBox"]') {
+                field.cardBoxSelector === this.platform.selectors.questionCard) {
               
               // If no question number, use broader approach to find radio fields
               if (!field.questionNumber || field.questionNumber.trim() === '') {
                 logger.info('Field has no question number, attempting to find radio buttons by input type');
                 
                 // Try to find all radio button groups on the page
-                const result = await page.evaluate((radioIdx: number) => {
-                  const container = document.querySelector('#survey-body-container');
+                const result = await page.evaluate((radioIdx: number, selectors) => {
+                  const container = document.querySelector(selectors.container);
                   if (!container) return { clicked: false, count: 0, found: false };
                   
                   // Find all CardBoxes with radio buttons
-                  const cardBoxes = container.querySelectorAll('[class*="CardBox"]');
+                  const cardBoxes = container.querySelectorAll(selectors.questionCard);
                   const radioCardBoxes = [];
                   
                   for (const cardBox of cardBoxes) {
@@ -913,7 +882,7 @@ export class FormNavigator {
                   }
                   
                   return { clicked: false, count: 0, found: false, totalGroups: radioCardBoxes.length };
-                }, radioIndex);
+                }, radioIndex, this.platform.selectors);
                 
                 if (result.found) {
                   logger.info(`Found ${result.totalGroups} radio button groups, selected from group with ${result.count} radio buttons`);
@@ -928,8 +897,8 @@ export class FormNavigator {
                 }
               } else {
                 // Use page.evaluate directly to find and click the radio button by question number
-                const result = await page.evaluate((questionNum: string, radioIdx: number) => {
-                const cardBoxes = document.querySelectorAll('#survey-body-container [class*="CardBox"]');
+                const result = await page.evaluate((questionNum: string, radioIdx: number, selectors) => {
+                const cardBoxes = document.querySelectorAll(`:is(${selectors.container}) :is(${selectors.questionCard})`);
                 for (const cardBox of cardBoxes) {
                   // Look for question number more precisely
                   const textElements = cardBox.querySelectorAll('h4, h5, h6, span, p, div');
@@ -958,7 +927,7 @@ export class FormNavigator {
                   }
                 }
                 return { clicked: false, count: 0, found: false };
-              }, field.questionNumber, radioIndex);
+              }, field.questionNumber, radioIndex, this.platform.selectors);
               
                 if (result.found) {
                   logger.info(`Found specific CardBox for question ${field.questionNumber} with ${result.count} radio buttons`);
@@ -1123,7 +1092,7 @@ export class FormNavigator {
           // Strategy 2: Use cardBox + SliderTrack
           if (!sliderTrack && field.cardBoxSelector) {
             try {
-              const cardBoxSelector = `${field.cardBoxSelector} [class*="SliderTrack"]`;
+              const cardBoxSelector = `${field.cardBoxSelector} ${scopeSelector(this.platform.selectors.sliderTrack)}`;
               sliderTrack = await page.$(cardBoxSelector);
               if (sliderTrack) {
                 usedSelector = cardBoxSelector;
@@ -1134,16 +1103,17 @@ export class FormNavigator {
             }
           }
           
-          // Strategy 3: General SliderTrack search
-          if (!sliderTrack) {
+          // Strategy 3: General SliderTrack search, including the configured slider tracks
+          for (const selector of [this.platform.selectors.sliderTrack, ...this.settings.selectors.sliderTracks]) {
+            if (sliderTrack) break;
             try {
-              sliderTrack = await page.$('[class*="SliderTrack"]');
+              sliderTrack = await page.$(selector);
               if (sliderTrack) {
-                usedSelector = '[class*="SliderTrack"]';
-                logger.info(`Found VAS slider using general SliderTrack selector`);
+                usedSelector = selector;
+                logger.info(`Found VAS slider using general SliderTrack selector ${selector}`);
               }
             } catch (error) {
-              logger.debug(`General SliderTrack selector failed: ${error}`);
+              logger.debug(`General SliderTrack selector ${selector} failed: ${error}`);
             }
           }
           
@@ -1157,8 +1127,8 @@ export class FormNavigator {
               logger.info(`Clicking VAS slider at (${Math.round(clickX)}, ${Math.round(clickY)}) using selector: ${usedSelector}`);
               await page.mouse.click(clickX, clickY);
               
-              // Wait a bit for the slider to respond
-              await new Promise(resolve => setTimeout(resolve, 500));
+              // Wait for the slider to respond
+              await this.settle(page);
               
               logger.info(`Successfully clicked VAS slider for field ${field.questionNumber}`);
             } else {
@@ -1264,7 +1234,7 @@ export class FormNavigator {
           await page.click(field.selector, { clickCount: 3 });
           await page.keyboard.press('Backspace');
           await page.type(field.selector, String(testValue));
-          await new Promise(resolve => setTimeout(resolve, 1000));
+          await this.settle(page);
           
           // Try to select first dropdown option if it appears
           await page.evaluate(() => {
@@ -1299,94 +1269,7 @@ export class FormNavigator {
         
         // For regular dropdowns, select by index
         const dropdownIndex = typeof testValue === 'number' ? testValue : parseInt(String(testValue), 10) || 0;
-        
-        try {
-          // First try native select element
-          await page.select(field.selector, field.choices?.[dropdownIndex] || '');
-          logger.info(`Selected dropdown option ${dropdownIndex} using native select`);
-        } catch (error) {
-          // If that fails, it's likely a custom dropdown
-          logger.info(`Native select failed, trying custom dropdown approach for ${field.selector}`);
-          
-          try {
-            // Click the dropdown to open it
-            await page.click(field.selector);
-            await new Promise(resolve => setTimeout(resolve, 1000)); // Increased wait time
-            
-            // Look for dropdown options - they might be in a separate container
-            const optionSelected = await page.evaluate((dropdownIdx) => {
-              // Common patterns for dropdown options
-              const optionSelectors = [
-                '[role="option"]',
-                '[class*="option"]',
-                '[class*="Option"]',
-                '[class*="dropdown-item"]',
-                '[class*="dropdown-option"]',
-                '[class*="select-item"]',
-                '[class*="select-option"]',
-                '[class*="menu-item"]',
-                '[class*="list-item"]',
-                'li[role="option"]',
-                'div[role="option"]',
-                'ul[role="listbox"] li',
-                '.dropdown-menu li',
-                '.dropdown-menu div',
-                '[data-value]',
-                '[aria-selected]'
-              ];
-              
-              for (const selector of optionSelectors) {
-                const options = document.querySelectorAll(selector);
-                if (options.length > dropdownIdx) {
-                  const option = options[dropdownIdx] as HTMLElement;
-                  // Make sure the option is visible
-                  const style = window.getComputedStyle(option);
-                  if (style.display !== 'none' && style.visibility !== 'hidden') {
-                    option.click();
-                    return true;
-                  }
-                }
-              }
-              
-              return false;
-            }, dropdownIndex);
-            
-            if (!optionSelected) {
-              logger.warn(`Could not find dropdown options for ${field.selector}`);
-              
-              // Try keyboard navigation as a fallback
-              try {
-                logger.info(`Trying keyboard navigation for dropdown ${field.selector}`);
-                await page.focus(field.selector);
-                
-                // Press down arrow to open dropdown and navigate
-                await page.keyboard.press('ArrowDown');
-                await new Promise(resolve => setTimeout(resolve, 500));
-                
-                // Press down arrow to navigate to desired option
-                for (let i = 0; i < dropdownIndex; i++) {
-                  await page.keyboard.press('ArrowDown');
-                  await new Promise(resolve => setTimeout(resolve, 100));
-                }
-                
-                // Press Enter to select
-                await page.keyboard.press('Enter');
-                logger.info(`Selected option ${dropdownIndex} using keyboard navigation`);
-              } catch (keyboardError) {
-                logger.warn(`Keyboard navigation failed: ${keyboardError}`);
-                
-                // As a last resort, type the value if we have choices
-                if (field.choices && field.choices[dropdownIndex]) {
-                  await page.type(field.selector, field.choices[dropdownIndex]);
-                }
-              }
-            } else {
-              logger.info(`Selected dropdown option ${dropdownIndex} using custom dropdown`);
-            }
-          } catch (customError) {
-            logger.error(`Failed to handle custom dropdown: ${customError}`);
-          }
-        }
+        await this.selectDropdownOption(page, field, dropdownIndex);
         break;
         
       case 'autocomplete_dropdown':
@@ -1403,7 +1286,7 @@ export class FormNavigator {
           await page.type(field.selector, typedValue);
           
           // Wait for dropdown to appear
-          await new Promise(resolve => setTimeout(resolve, 1000));
+          await this.settle(page);
           
           // Select the first option that appears
           const optionSelected = await page.evaluate(() => {
@@ -1448,7 +1331,7 @@ export class FormNavigator {
           }
           
           // Wait for dropdown to close
-          await new Promise(resolve => setTimeout(resolve, 500));
+          await this.settle(page);
           
         } catch (error) {
           logger.error(`Failed to handle autocomplete dropdown field ${field.questionNumber}:`, error);
@@ -1475,22 +1358,157 @@ export class FormNavigator {
     });
   }
   
-  async detectValidationModal(page: Page): Promise<boolean> {
+  /**
+   * Selects a specific choice of a radio, dropdown or checkbox field by index. Throws if the
+   * choice could not be selected, so the caller does not record a branch that was never taken.
+   */
+  async selectChoice(page: Page, field: SurveyField, choiceIndex: number): Promise<void> {
+    const selected = field.inputType === 'dropdown'
+      ? await this.selectDropdownOption(page, field, choiceIndex)
+      : await this.checkChoiceInput(page, field, choiceIndex);
+    if (!selected) {
+      throw new Error(`Could not select choice ${choiceIndex} ("${field.choices?.[choiceIndex] ?? ''}") of question ${field.questionNumber}`);
+    }
+  }
+  
+  /**
+   * Checks the radio button or checkbox at a position within the question card and returns
+   * whether it ended up checked
+   */
+  private async checkChoiceInput(page: Page, field: SurveyField, choiceIndex: number): Promise<boolean> {
+    const inputType = field.inputType === 'checkbox' ? 'checkbox' : 'radio';
+    const inputs = await page.$$(`${field.cardBoxSelector} input[type="${inputType}"]`);
+    if (inputs.length <= choiceIndex) {
+      logger.warn(`Found ${inputs.length} ${inputType} inputs for field ${field.questionNumber}, cannot select choice ${choiceIndex}`);
+      return false;
+    }
+    
+    const input = inputs[choiceIndex];
+    if (await input.evaluate(element => (element as HTMLInputElement).checked)) {
+      return true;
+    }
+    await input.evaluate(element => element.scrollIntoView({ block: 'center' }));
     try {
-      // Common modal selectors
-      const modalSelectors = [
-        '[role="dialog"]',
-        '[role="alertdialog"]',
-        '.modal',
-        '[class*="modal"]',
-        '[class*="popup"]',
-        '[class*="alert"]',
-        '[class*="Dialog"]',
-        '[class*="Modal"]',
-        '[class*="Popup"]'
-      ];
+      await input.click();
+    } catch (error) {
+      // Styled choices often hide the native input, which still takes a DOM click
+      logger.debug(`Clicking ${inputType} ${choiceIndex} of field ${field.questionNumber} failed, clicking through the DOM: ${error}`);
+      await input.evaluate(element => (element as HTMLInputElement).click());
+    }
+    return input.evaluate(element => (element as HTMLInputElement).checked);
+  }
+  
+  /**
+   * Selects a dropdown option by index: natively, else by clicking the option of a custom
+   * dropdown, else with the arrow keys. Returns false if no option could be selected.
+   */
+  private async selectDropdownOption(page: Page, field: SurveyField, dropdownIndex: number): Promise<boolean> {
+    try {
+      // First try native select element, whose option values may differ from the choice labels
+      const choice = field.choices?.[dropdownIndex] || '';
+      const optionValue = await page.$eval(field.selector, (element, label) => {
+        const option = Array.from((element as HTMLSelectElement).options || []).find(option => option.textContent?.trim() === label);
+        return option ? option.value : label;
+      }, choice);
+      const selected = await page.select(field.selector, optionValue);
+      if (selected.length > 0) {
+        logger.info(`Selected dropdown option ${dropdownIndex} using native select`);
+        return true;
+      }
+      logger.warn(`Native select ${field.selector} has no option "${choice}"`);
+      return false;
+    } catch (error) {
+      // If that fails, it's likely a custom dropdown
+      logger.info(`Native select failed, trying custom dropdown approach for ${field.selector}`);
       
-      for (const selector of modalSelectors) {
+      try {
+        // Click the dropdown to open it
+        await page.click(field.selector);
+        await this.settle(page);
+        
+        // Look for dropdown options - they might be in a separate container
+        const optionSelected = await page.evaluate((dropdownIdx) => {
+          // Common patterns for dropdown options
+          const optionSelectors = [
+            '[role="option"]',
+            '[class*="option"]',
+            '[class*="Option"]',
+            '[class*="dropdown-item"]',
+            '[class*="dropdown-option"]',
+            '[class*="select-item"]',
+            '[class*="select-option"]',
+            '[class*="menu-item"]',
+            '[class*="list-item"]',
+            'li[role="option"]',
+            'div[role="option"]',
+            'ul[role="listbox"] li',
+            '.dropdown-menu li',
+            '.dropdown-menu div',
+            '[data-value]',
+            '[aria-selected]'
+          ];
+          
+          for (const selector of optionSelectors) {
+            const options = document.querySelectorAll(selector);
+            if (options.length > dropdownIdx) {
+              const option = options[dropdownIdx] as HTMLElement;
+              // Make sure the option is visible
+              const style = window.getComputedStyle(option);
+              if (style.display !== 'none' && style.visibility !== 'hidden') {
+                option.click();
+                return true;
+              }
+            }
+          }
+          
+          return false;
+        }, dropdownIndex);
+        
+        if (!optionSelected) {
+          logger.warn(`Could not find dropdown options for ${field.selector}`);
+          
+          // Try keyboard navigation as a fallback
+          try {
+            logger.info(`Trying keyboard navigation for dropdown ${field.selector}`);
+            await page.focus(field.selector);
+            
+            // Press down arrow to open dropdown and navigate
+            await page.keyboard.press('ArrowDown');
+            await this.settle(page);
+            
+            // Press down arrow to navigate to desired option
+            for (let i = 0; i < dropdownIndex; i++) {
+              await page.keyboard.press('ArrowDown');
+              await new Promise(resolve => setTimeout(resolve, 100));
+            }
+            
+            // Press Enter to select
+            await page.keyboard.press('Enter');
+            logger.info(`Selected option ${dropdownIndex} using keyboard navigation`);
+            return true;
+          } catch (keyboardError) {
+            logger.warn(`Keyboard navigation failed: ${keyboardError}`);
+            
+            // As a last resort, type the value if we have choices
+            if (field.choices && field.choices[dropdownIndex]) {
+              await page.type(field.selector, field.choices[dropdownIndex]);
+              return true;
+            }
+          }
+        } else {
+          logger.info(`Selected dropdown option ${dropdownIndex} using custom dropdown`);
+          return true;
+        }
+      } catch (customError) {
+        logger.error(`Failed to handle custom dropdown: ${customError}`);
+      }
+    }
+    return false;
+  }
+  
+  async detectValidationModal(page: Page): Promise<boolean> {
+    try {
+      for (const selector of this.settings.selectors.validationModals) {
         const modal = await page.$(selector);
         if (modal) {
           const isVisible = await page.evaluate((el) => {
@@ -1577,7 +1595,7 @@ export class FormNavigator {
           if (isVisible) {
             logger.info(`Clicking modal button with text: ${text}`);
             await button.click();
-            await new Promise(resolve => setTimeout(resolve, 500));
+            await this.settle(page);
             return;
           }
         }
@@ -1592,7 +1610,7 @@ export class FormNavigator {
         const closeButton = await page.$(selector);
         if (closeButton) {
           await closeButton.click();
-          await new Promise(resolve => setTimeout(resolve, 500));
+          await this.settle(page);
           return;
         }
       } catch (error) {
@@ -1602,7 +1620,7 @@ export class FormNavigator {
     
     // If no close button found, try pressing Escape
     await page.keyboard.press('Escape');
-    await new Promise(resolve => setTimeout(resolve, 500));
+    await this.settle(page);
   }
   
   async clickNavigationButton(page: Page, type: 'next' | 'previous' | 'finish', navDelay: number = 3000): Promise<void> {
@@ -1622,7 +1640,7 @@ export class FormNavigator {
     // Use Promise.all to wait for navigation while clicking the button
     const waitOptions = { 
       waitUntil: 'networkidle2' as const, 
-      timeout: 10000 
+      timeout: this.settings.timings.selectorTimeout 
     };
     
     try {
@@ -1640,9 +1658,9 @@ export class FormNavigator {
       try {
         const [response] = await Promise.all([
           page.waitForNavigation(waitOptions),
-          page.evaluate((text, type) => {
+          page.evaluate((text, type, containerSelector) => {
             // Find navigation area
-            const surveyBody = document.querySelector('#survey-body-container');
+            const surveyBody = document.querySelector(containerSelector);
             const navigationArea = surveyBody?.nextElementSibling;
             
             if (!navigationArea) {
@@ -1664,7 +1682,7 @@ export class FormNavigator {
             } else {
               throw new Error(`${type} button not found or disabled`);
             }
-          }, button.text, type)
+          }, button.text, type, this.platform.selectors.container)
         ]);
         
         logger.debug(`Fallback navigation completed with response status: ${response?.status() || 'unknown'}`);
@@ -1737,11 +1755,11 @@ export class FormNavigator {
       logger.info('Scanning for missing required fields (likely conditional fields)...');
       
       // Find all visible required fields that aren't filled
-      const missingFields = await page.evaluate(() => {
-        const container = document.querySelector('#survey-body-container');
+      const missingFields = await page.evaluate((selectors) => {
+        const container = document.querySelector(selectors.container);
         if (!container) return [];
         
-        const cardBoxes = container.querySelectorAll('[class*="CardBox"]');
+        const cardBoxes = container.querySelectorAll(selectors.questionCard);
         const missingRequired: Array<{questionNumber: string, selector: string, inputType: string, questionText: string}> = [];
         
         cardBoxes.forEach((cardBox, index) => {
@@ -1828,7 +1846,7 @@ export class FormNavigator {
         });
         
         return missingRequired;
-      });
+      }, this.platform.selectors);
       
       if (missingFields.length > 0) {
         logger.info(`Found ${missingFields.length} missing required fields: ${missingFields.map(f => `${f.questionNumber} ("${f.questionText?.substring(0, 30)}...")`).join(', ')}`);
@@ -1887,7 +1905,7 @@ export class FormNavigator {
             };
             
             await this.fillField(page, field as SurveyField);
-            await new Promise(resolve => setTimeout(resolve, 1000));
+            await this.settle(page);
           } catch (error) {
             logger.error(`Failed to fill missing field ${missingField.questionNumber}:`, error);
           }
@@ -1902,11 +1920,11 @@ export class FormNavigator {
 
   private async checkForNewFields(page: Page, knownQuestionNumbers: Set<string>): Promise<string[]> {
     try {
-      const newQuestionNumbers = await page.evaluate(() => {
-        const container = document.querySelector('#survey-body-container');
+      const newQuestionNumbers = await page.evaluate((selectors) => {
+        const container = document.querySelector(selectors.container);
         if (!container) return [];
         
-        const cardBoxes = container.querySelectorAll('[class*="CardBox"]');
+        const cardBoxes = container.querySelectorAll(selectors.questionCard);
         const questionNumbers: string[] = [];
         
         cardBoxes.forEach((cardBox) => {
@@ -1929,7 +1947,7 @@ export class FormNavigator {
         });
         
         return questionNumbers;
-      });
+      }, this.platform.selectors);
       
       // Filter out known question numbers
       const newFields = newQuestionNumbers.filter(qNum => !knownQuestionNumbers.has(qNum));
@@ -1942,11 +1960,11 @@ export class FormNavigator {
 
   private async scanForNewRequiredFields(page: Page, filledQuestions: Set<string>, knownQuestionNumbers: Set<string>): Promise<string[]> {
     try {
-      const requiredFields = await page.evaluate(() => {
-        const container = document.querySelector('#survey-body-container');
+      const requiredFields = await page.evaluate((selectors) => {
+        const container = document.querySelector(selectors.container);
         if (!container) return [];
         
-        const cardBoxes = container.querySelectorAll('[class*="CardBox"]');
+        const cardBoxes = container.querySelectorAll(selectors.questionCard);
         const requiredQuestions: string[] = [];
         
         cardBoxes.forEach((cardBox) => {
@@ -1979,7 +1997,7 @@ export class FormNavigator {
         });
         
         return requiredQuestions;
-      });
+      }, this.platform.selectors);
       
       // Filter out already filled questions
       return requiredFields.filter(qNum => !filledQuestions.has(qNum));
@@ -2002,7 +2020,7 @@ export class FormNavigator {
         }
         
         // Check if the field is now visible and required
-        const isNowVisible = await page.evaluate((selector) => {
+        const isNowVisible = await page.evaluate((selector, questionCardSelector) => {
           try {
             const element = document.querySelector(selector);
             if (!element) return false;
@@ -2016,7 +2034,7 @@ export class FormNavigator {
             if (!isVisible) return false;
             
             // Check if the containing CardBox is visible
-            const cardBox = element.closest('[class*="CardBox"]');
+            const cardBox = element.closest(questionCardSelector);
             if (cardBox) {
               const cardBoxStyle = window.getComputedStyle(cardBox);
               return cardBoxStyle.display !== 'none' && 
@@ -2027,7 +2045,7 @@ export class FormNavigator {
           } catch (e) {
             return false;
           }
-        }, field.selector);
+        }, field.selector, this.platform.selectors.questionCard);
         
         if (isNowVisible) {
           // Mark as required since it's now visible and needs to be filled
@@ -2037,11 +2055,11 @@ export class FormNavigator {
       }
       
       // Also check for completely new fields that weren't in the original scan
-      const newQuestionNumbers = await page.evaluate(() => {
-        const container = document.querySelector('#survey-body-container');
+      const newQuestionNumbers = await page.evaluate((selectors) => {
+        const container = document.querySelector(selectors.container);
         if (!container) return [];
         
-        const cardBoxes = container.querySelectorAll('[class*="CardBox"]');
+        const cardBoxes = container.querySelectorAll(selectors.questionCard);
         const questionNumbers: string[] = [];
         
         cardBoxes.forEach((cardBox) => {
@@ -2058,7 +2076,7 @@ export class FormNavigator {
         });
         
         return questionNumbers;
-      });
+      }, this.platform.selectors);
       
       // Log any question numbers that we haven't seen before
       for (const qNum of newQuestionNumbers) {
@@ -2087,41 +2105,22 @@ export class FormNavigator {
         // Wait a bit for DOM changes
         await new Promise(resolve => setTimeout(resolve, waitBetweenAttempts));
         
+        // Strategy 1 & 2: Check for different form title and short name
+        const titles = await this.platform.extractFormTitles(page);
+        const currentFormTitle = titles.longTitle !== 'Title not found' ? titles.longTitle : null;
+        const currentShortName = titles.shortName !== 'Title not found' ? titles.shortName : '';
+        
         // Check if we're on a new form using multiple strategies
-        const transitionResult = await page.evaluate((prevTitle) => {
-          const surveyBody = document.querySelector('#survey-body-container');
+        const transitionResult = await page.evaluate((selectors, sliderTracks, currentFormTitle, currentShortName) => {
+          const surveyBody = document.querySelector(selectors.container);
           if (!surveyBody) return { hasNewForm: false, reason: 'No survey body container' };
           
-          // Strategy 1: Check for different content in form titles
-          const allPs = surveyBody.querySelectorAll('p');
-          let currentFormTitle = null;
-          
-          for (const p of allPs) {
-            const parent = p.parentElement;
-            if (parent && parent.querySelector('h3')) {
-              currentFormTitle = p.textContent?.trim();
-              break;
-            }
-          }
-          
-          // Strategy 2: Check short name (h3) changes
-          const h3Elements = surveyBody.querySelectorAll('h3');
-          const currentShortName = h3Elements.length > 0 ? h3Elements[0].textContent?.trim() : '';
-          
           // Strategy 3: Check for different question content
-          const questions = surveyBody.querySelectorAll('[class*="CardBox"]');
+          const questions = surveyBody.querySelectorAll(selectors.questionCard);
           const questionTexts = Array.from(questions).map(q => q.textContent?.trim().substring(0, 50));
           
           // Strategy 4: Check if any questions contain different selectors or types
-          const sliderSelectors = [
-            '[class*="SliderTrack"]',
-            '[class*="slider"]',
-            '[class*="Slider"]',
-            '[class*="vas"]',
-            '[class*="VAS"]',
-            '[role="slider"]',
-            'input[type="range"]'
-          ];
+          const sliderSelectors = [selectors.sliderTrack, ...sliderTracks];
           
           let hasSliderTrack = false;
           for (const selector of sliderSelectors) {
@@ -2146,7 +2145,7 @@ export class FormNavigator {
             errorText: errorMessage?.textContent?.trim() || '',
             reason: 'Form content available'
           };
-        }, previousTitle);
+        }, this.platform.selectors, this.settings.selectors.sliderTracks, currentFormTitle, currentShortName);
         
         logger.info(`Form transition check ${attempts + 1}/${maxAttempts}: ${transitionResult.reason}`);
         logger.info(`Current form: "${transitionResult.currentFormTitle}", Short name: "${transitionResult.currentShortName}"`);
@@ -2162,12 +2161,7 @@ export class FormNavigator {
                              transitionResult.currentFormTitle !== 'Unknown';
         
         // For informational forms: if title changed and we have navigation buttons, that's a valid transition
-        const hasNavButtons = await page.evaluate(() => {
-          const surveyBody = document.querySelector('#survey-body-container');
-          const navigationArea = surveyBody?.nextElementSibling;
-          const buttons = navigationArea?.querySelectorAll('button') || [];
-          return buttons.length > 0;
-        });
+        const hasNavButtons = (await this.platform.detectNavigationButtons(page)).length > 0;
         
         // Success conditions:
         // 1. Form has questions (regular form)
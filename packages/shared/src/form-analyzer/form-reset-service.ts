@@ -1,8 +1,21 @@
 import { Page } from 'puppeteer';
 import { NavigationButton } from '../types/types.js';
-import { logger } from '../utils/logger.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import { SurveyPlatformAdapter } from './platforms/survey-platform-adapter.js';
+import { surveyPlatformRegistry } from './platforms/platform-registry.js';
+import { DEFAULT_SETTINGS, FormShotTimings } from '../services/config-service.js';
+import { waitForDomStable } from '../utils/dom-stability.js';
+
+const logger = rootLogger.child('form-reset-service');
 
 export class FormResetService {
+  private platform: SurveyPlatformAdapter;
+  private timings: FormShotTimings;
+
+  constructor(platform?: SurveyPlatformAdapter, timings: FormShotTimings = DEFAULT_SETTINGS.timings) {
+    this.platform = platform || surveyPlatformRegistry.get();
+    this.timings = timings;
+  }
   
   /**
    * Checks if the current form is the first form by examining navigation buttons
@@ -76,129 +89,10 @@ export class FormResetService {
   }
 
   /**
-   * Clear all field values on the current form using ActionMenu -> BaseButton
+   * Clear all field values on the current form using the platform adapter
    */
   async clearFormValues(page: Page): Promise<void> {
-    logger.info('Clearing form values...');
-    
-    try {
-      // Find all CardBox elements that contain fields for clearing
-      const cardBoxes = await page.$$('[class*="CardBox"]');
-      logger.info(`Found ${cardBoxes.length} CardBox elements to check for clearing`);
-      
-      for (let i = 0; i < cardBoxes.length; i++) {
-        try {
-          await this.clearFieldValue(page, i);
-          // Small delay between clearing fields
-          await new Promise(resolve => setTimeout(resolve, 300));
-        } catch (error) {
-          logger.debug(`Could not clear field ${i + 1}:`, error);
-          // Continue to next field even if this one fails
-        }
-      }
-      
-      logger.info('Completed form value clearing');
-    } catch (error) {
-      logger.error('Error clearing form values:', error);
-    }
-  }
-
-
-  /**
-   * Clear a specific field value using ActionMenu button
-   */
-  private async clearFieldValue(page: Page, fieldIndex: number): Promise<void> {
-    try {
-      // First, check what type of field this is for better logging
-      const fieldInfo = await page.evaluate((index) => {
-        const cardBoxes = document.querySelectorAll('[class*="CardBox"]');
-        if (index >= cardBoxes.length) return { type: 'unknown', hasVAS: false };
-        
-        const cardBox = cardBoxes[index];
-        const hasVAS = cardBox.querySelector('[class*="SliderTrack"]') !== null;
-        const hasRadio = cardBox.querySelector('input[type="radio"]') !== null;
-        const hasText = cardBox.querySelector('input[type="text"], textarea') !== null;
-        
-        let type = 'unknown';
-        if (hasVAS) type = 'VAS';
-        else if (hasRadio) type = 'radio';
-        else if (hasText) type = 'text';
-        
-        return { type, hasVAS, hasRadio, hasText };
-      }, fieldIndex);
-      
-      logger.debug(`Clearing field ${fieldIndex + 1} (type: ${fieldInfo.type})`);
-      
-      // Try to find ActionMenu button within this CardBox
-      const actionMenuSelector = `[class*="CardBox"]:nth-of-type(${fieldIndex + 1}) [class*="ActionMenu"]`;
-      
-      const actionMenuButton = await page.$(actionMenuSelector);
-      if (!actionMenuButton) {
-        logger.debug(`No ActionMenu found for field ${fieldIndex + 1} (${fieldInfo.type})`);
-        return;
-      }
-      
-      logger.info(`Clicking ActionMenu for field ${fieldIndex + 1} (${fieldInfo.type})`);
-      await actionMenuButton.click();
-      
-      // Wait for popup menu to appear with longer timeout for VAS
-      const waitTime = fieldInfo.type === 'VAS' ? 500 : 300;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-      
-      // Look for BaseButton in the popup menu
-      const baseButtonSelector = '[class*="BaseButton"]';
-      const baseButton = await page.$(baseButtonSelector);
-      
-      if (baseButton) {
-        logger.info(`Clicking BaseButton to clear field ${fieldIndex + 1} (${fieldInfo.type})`);
-        await baseButton.click();
-        
-        // Wait for action to complete with longer timeout for VAS
-        const completionWait = fieldInfo.type === 'VAS' ? 1000 : 200;
-        await new Promise(resolve => setTimeout(resolve, completionWait));
-        
-        // For VAS fields, verify if clearing worked
-        if (fieldInfo.type === 'VAS') {
-          const vasCleared = await page.evaluate((index) => {
-            const cardBoxes = document.querySelectorAll('[class*="CardBox"]');
-            if (index >= cardBoxes.length) return false;
-            
-            const cardBox = cardBoxes[index];
-            const slider = cardBox.querySelector('[class*="SliderTrack"]');
-            
-            // Check if there's any visual indication that the slider is set/filled
-            if (slider) {
-              const sliderElements = cardBox.querySelectorAll('[class*="Handle"], [class*="Thumb"], [class*="Fill"]');
-              for (const element of sliderElements) {
-                const style = window.getComputedStyle(element);
-                // Look for indicators that the slider has a value
-                if (style.left && style.left !== '0px' && style.left !== 'auto') {
-                  return false; // Still has value
-                }
-                if (style.width && parseFloat(style.width) > 10) {
-                  return false; // Fill width indicates value
-                }
-              }
-            }
-            return true; // Appears cleared
-          }, fieldIndex);
-          
-          logger.info(`VAS field ${fieldIndex + 1} clear verification: ${vasCleared ? 'SUCCESS' : 'FAILED'}`);
-        }
-        
-        logger.info(`Successfully cleared field ${fieldIndex + 1} (${fieldInfo.type})`);
-      } else {
-        logger.debug(`No BaseButton found in popup for field ${fieldIndex + 1} (${fieldInfo.type})`);
-        
-        // Try to close the menu by clicking elsewhere
-        await page.evaluate(() => {
-          document.body.click();
-        });
-      }
-      
-    } catch (error) {
-      logger.debug(`Error clearing field ${fieldIndex + 1}:`, error);
-    }
+    await this.platform.clearFormValues(page);
   }
 
   /**
@@ -206,40 +100,11 @@ export class FormResetService {
    */
   private async getCurrentFormInfo(page: Page): Promise<{title: string, shortName: string, buttons: string[]}> {
     try {
-      return await page.evaluate(() => {
-        const container = document.querySelector('#survey-body-container');
-        if (!container) return { title: 'No container', shortName: 'No container', buttons: [] };
-        
-        // Get title and short name using same logic as analysis
-        const allPs = container.querySelectorAll('p');
-        let formTitleP = null;
-        
-        for (const p of allPs) {
-          const parent = p.parentElement;
-          if (parent && parent.querySelector('h3')) {
-            formTitleP = p;
-            break;
-          }
-        }
-        
-        const title = formTitleP?.textContent?.trim() || 'Title not found';
-        const h3Elements = container.querySelectorAll('h3');
-        const shortName = h3Elements.length > 0 ? h3Elements[0].textContent?.trim() || 'Short name not found' : 'Short name not found';
-        
-        // Get navigation buttons
-        const navigationArea = container.nextElementSibling;
-        const buttons: string[] = [];
-        if (navigationArea) {
-          const buttonElements = navigationArea.querySelectorAll('button');
-          buttonElements.forEach(btn => {
-            const text = btn.textContent?.trim() || '';
-            const disabled = btn.disabled ? ' (disabled)' : '';
-            buttons.push(text + disabled);
-          });
-        }
-        
-        return { title, shortName, buttons };
-      });
+      const { longTitle, shortName } = await this.platform.extractFormTitles(page);
+      const navButtons = await this.detectNavigationButtons(page);
+      const buttons = navButtons.map(button => button.text + (button.isEnabled ? '' : ' (disabled)'));
+      
+      return { title: longTitle, shortName, buttons };
     } catch (error) {
       return { title: 'Error', shortName: 'Error', buttons: [] };
     }
@@ -276,8 +141,8 @@ export class FormResetService {
       
       // Strategy 2: Use evaluate to click
       try {
-        const clicked = await page.evaluate((buttonText) => {
-          const surveyBody = document.querySelector('#survey-body-container');
+        const clicked = await page.evaluate((buttonText, containerSelector) => {
+          const surveyBody = document.querySelector(containerSelector);
           const navigationArea = surveyBody?.nextElementSibling;
           
           if (!navigationArea) return false;
@@ -293,7 +158,7 @@ export class FormResetService {
             return true;
           }
           return false;
-        }, previousButton.text);
+        }, previousButton.text, this.platform.selectors.container);
         
         if (clicked) {
           logger.debug('Evaluate click succeeded');
@@ -326,7 +191,7 @@ export class FormResetService {
     // Use Promise.all to wait for navigation while clicking the button
     const waitOptions = { 
       waitUntil: 'networkidle2' as const, 
-      timeout: 10000 
+      timeout: this.timings.selectorTimeout 
     };
     
     try {
@@ -343,8 +208,8 @@ export class FormResetService {
       try {
         const [response] = await Promise.all([
           page.waitForNavigation(waitOptions),
-          page.evaluate((text) => {
-            const surveyBody = document.querySelector('#survey-body-container');
+          page.evaluate((text, containerSelector) => {
+            const surveyBody = document.querySelector(containerSelector);
             const navigationArea = surveyBody?.nextElementSibling;
             
             if (!navigationArea) {
@@ -362,7 +227,7 @@ export class FormResetService {
             } else {
               throw new Error('Previous button not found or disabled');
             }
-          }, previousButton.text)
+          }, previousButton.text, this.platform.selectors.container)
         ]);
         
         logger.debug(`Fallback previous navigation completed with response status: ${response?.status() || 'unknown'}`);
@@ -378,13 +243,16 @@ export class FormResetService {
   private async waitForFormTransition(page: Page): Promise<void> {
     try {
       // Wait for DOM changes
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await waitForDomStable(page, this.timings.interactionDelay, {
+        container: this.platform.selectors.container,
+        quietPeriod: this.timings.domQuietPeriod
+      });
       
       // Verify form content has loaded
-      const hasContent = await page.evaluate(() => {
-        const surveyBody = document.querySelector('#survey-body-container');
+      const hasContent = await page.evaluate((containerSelector) => {
+        const surveyBody = document.querySelector(containerSelector);
         return surveyBody && surveyBody.children.length > 0;
-      });
+      }, this.platform.selectors.container);
       
       if (!hasContent) {
         throw new Error('Form content not loaded after transition');
@@ -398,59 +266,9 @@ export class FormResetService {
   }
 
   /**
-   * Detect navigation buttons (copied from FormNavigator for independence)
+   * Detect navigation buttons using the platform adapter
    */
   private async detectNavigationButtons(page: Page): Promise<NavigationButton[]> {
-    return await page.evaluate(() => {
-      const surveyBodyContainer = document.querySelector('#survey-body-container');
-      if (!surveyBodyContainer) {
-        return [];
-      }
-      
-      const navigationArea = surveyBodyContainer.nextElementSibling;
-      if (!navigationArea) {
-        return [];
-      }
-      
-      const buttons: NavigationButton[] = [];
-      const buttonElements = navigationArea.querySelectorAll('button');
-      
-      buttonElements.forEach((button) => {
-        const text = button.textContent?.trim() || '';
-        const isEnabled = !button.disabled;
-        
-        let type: 'next' | 'previous' | 'finish' | undefined;
-        
-        if (text.toLowerCase().includes('next') || text.includes('→')) {
-          type = 'next';
-        } else if (text.toLowerCase().includes('prev') || text.toLowerCase().includes('back') || text.includes('←')) {
-          type = 'previous';
-        } else if (text.toLowerCase().includes('finish') || text.toLowerCase().includes('submit')) {
-          type = 'finish';
-        }
-        
-        if (type) {
-          let selector = '';
-          if (button.id) {
-            selector = `#${CSS.escape(button.id)}`;
-          } else if (button.className) {
-            selector = `button.${button.className.split(' ').join('.')}`;
-          } else {
-            const allButtons = Array.from(navigationArea.querySelectorAll('button'));
-            const index = allButtons.indexOf(button);
-            selector = `#survey-body-container + div button:nth-of-type(${index + 1})`;
-          }
-          
-          buttons.push({
-            type,
-            text,
-            selector,
-            isEnabled
-          });
-        }
-      });
-      
-      return buttons;
-    });
+    return this.platform.detectNavigationButtons(page);
   }
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { logger as rootLogger } from '../../utils/logger.js';
+import { CastorPlatformAdapter } from './castor-platform-adapter.js';
+import { SurveyPlatformAdapter } from './survey-platform-adapter.js';
+
+const logger = rootLogger.child('platform-registry');
+
+export const DEFAULT_PLATFORM = 'castor';
+
+export class SurveyPlatformRegistry {
+  private adapters: Map<string, SurveyPlatformAdapter> = new Map();
+
+  constructor() {
+    this.register(new CastorPlatformAdapter());
+  }
+
+  register(adapter: SurveyPlatformAdapter): void {
+    this.adapters.set(adapter.id, adapter);
+    logger.debug(`Registered survey platform: ${adapter.name} (${adapter.id})`);
+  }
+
+  get(id: string = DEFAULT_PLATFORM): SurveyPlatformAdapter {
+    const adapter = this.adapters.get(id.toLowerCase());
+    if (!adapter) {
+      throw new Error(`Unknown survey platform "${id}". Available platforms: ${this.list().join(', ')}`);
+    }
+    return adapter;
+  }
+
+  list(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
+
+// Export singleton instance
+export const surveyPlatformRegistry = new SurveyPlatformRegistry();
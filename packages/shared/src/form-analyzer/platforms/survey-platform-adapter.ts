@@ -0,0 +1,65 @@
+import { Page } from 'puppeteer';
+import { FieldConstraints, NavigationButton, SurveyField } from '../../types/types.js';
+
+export interface PlatformSelectors {
+  container: string;      // Element holding the questions of the current form
+  questionCard: string;   // One element per question inside the container
+  sliderTrack: string;    // Track element of VAS sliders
+  actionMenu: string;     // Menu button of a question card, scoped to the card
+  clearButton: string;    // Item of the opened action menu that clears the value
+  monthYearDropdown: string;  // Month and year dropdowns of the date picker
+}
+
+/**
+ * Wraps a platform selector, which may be a comma-separated list, so it can be
+ * combined with other selectors as a single compound selector
+ */
+export function scopeSelector(selector: string): string {
+  return `:is(${selector})`;
+}
+
+export interface FormTitles {
+  longTitle: string;
+  shortName: string;
+}
+
+/**
+ * Everything form-shot needs to know about the DOM of a survey front-end.
+ * Detection, navigation and reset logic go through the adapter so other
+ * EDC/ePRO platforms can be supported without touching the analyzers.
+ */
+export interface SurveyPlatformAdapter {
+  readonly id: string;
+  readonly name: string;
+  readonly selectors: PlatformSelectors;
+
+  /**
+   * Returns the selector of the container holding the current form
+   */
+  findContainer(page: Page): Promise<string>;
+
+  /**
+   * Extracts the long title and short name of the current form
+   */
+  extractFormTitles(page: Page): Promise<FormTitles>;
+
+  /**
+   * Enumerates the questions inside the container, without screenshots or test data
+   */
+  enumerateFields(page: Page, containerSelector: string): Promise<SurveyField[]>;
+
+  /**
+   * Reads the validation constraints of a question's input, undefined if it has none
+   */
+  detectFieldConstraints(page: Page, field: SurveyField): Promise<FieldConstraints | undefined>;
+
+  /**
+   * Detects next/previous/finish buttons of the current form
+   */
+  detectNavigationButtons(page: Page): Promise<NavigationButton[]>;
+
+  /**
+   * Clears any values already entered on the current form
+   */
+  clearFormValues(page: Page): Promise<void>;
+}
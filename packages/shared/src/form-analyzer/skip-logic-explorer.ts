@@ -0,0 +1,155 @@
+import { Page } from 'puppeteer';
+import { SkipLogicGraph, SkipLogicTrigger, SurveyField } from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import { waitForDomStable } from '../utils/dom-stability.js';
+import { FormNavigator } from './form-navigator.js';
+import { FormResetService } from './form-reset-service.js';
+
+const logger = rootLogger.child('skip-logic-explorer');
+
+export interface SkipLogicExplorerOptions {
+  maxDepth?: number;       // How many levels of nested triggers to follow (default: 3)
+  maxAttempts?: number;    // Upper bound on choices tried per form (default: 200)
+  settleDelay?: number;    // Max wait after selecting a choice before reading the form (default: 1000ms)
+  quietPeriod?: number;    // ms without DOM changes after which the form counts as settled (default: 500ms)
+}
+
+interface ExplorationItem {
+  field: SurveyField;
+  path: Array<{ field: SurveyField; choiceIndex: number }>;
+}
+
+const TRIGGER_TYPES: SurveyField['inputType'][] = ['radio', 'dropdown', 'checkbox'];
+
+export class SkipLogicExplorer {
+  private readonly maxDepth: number;
+  private readonly maxAttempts: number;
+  private readonly settleDelay: number;
+  private readonly quietPeriod?: number;
+
+  constructor(
+    private formNavigator: FormNavigator,
+    private formResetService: FormResetService,
+    options: SkipLogicExplorerOptions = {}
+  ) {
+    this.maxDepth = options.maxDepth ?? 3;
+    this.maxAttempts = options.maxAttempts ?? 200;
+    this.settleDelay = options.settleDelay ?? 1000;
+    this.quietPeriod = options.quietPeriod;
+  }
+
+  /**
+   * Tries every choice of every radio/dropdown/checkbox trigger on the current form,
+   * clearing the form between attempts, and records which questions each choice reveals.
+   * Returns the skip-logic graph and the conditional fields discovered along the way.
+   * `onFieldRevealed` runs while a newly discovered field is still visible (e.g. to screenshot it).
+   */
+  async explore(
+    page: Page,
+    fields: SurveyField[],
+    onFieldRevealed?: (field: SurveyField) => Promise<void>
+  ): Promise<{ graph: SkipLogicGraph; discoveredFields: SurveyField[] }> {
+    const knownQuestions = new Set(fields.map(f => f.questionNumber).filter(Boolean));
+    const discoveredFields: SurveyField[] = [];
+    const triggers: SkipLogicTrigger[] = [];
+    const queue: ExplorationItem[] = fields
+      .filter(field => this.isTrigger(field) && !field.conditionalInfo?.isConditional)
+      .map(field => ({ field, path: [] }));
+
+    let attempts = 0;
+    let complete = true;
+
+    logger.info(`Exploring skip logic for ${queue.length} trigger fields`);
+
+    while (queue.length > 0) {
+      const item = queue.shift()!;
+      const choices = item.field.choices || [];
+      const trigger: SkipLogicTrigger = {
+        questionNumber: item.field.questionNumber,
+        inputType: item.field.inputType,
+        path: item.path.map(step => ({
+          questionNumber: step.field.questionNumber,
+          value: step.field.choices?.[step.choiceIndex] || String(step.choiceIndex)
+        })),
+        branches: []
+      };
+
+      for (let choiceIndex = 0; choiceIndex < choices.length; choiceIndex++) {
+        if (attempts >= this.maxAttempts) {
+          logger.warn(`Skip-logic exploration stopped after ${attempts} attempts`);
+          complete = false;
+          break;
+        }
+        attempts++;
+
+        try {
+          await this.formResetService.clearFormValues(page);
+          for (const step of item.path) {
+            await this.formNavigator.selectChoice(page, step.field, step.choiceIndex);
+            await waitForDomStable(page, this.settleDelay, { quietPeriod: this.quietPeriod });
+          }
+
+          const before = new Set(await this.formNavigator.getVisibleQuestions(page));
+          await this.formNavigator.selectChoice(page, item.field, choiceIndex);
+          await waitForDomStable(page, this.settleDelay, { quietPeriod: this.quietPeriod });
+          const after = await this.formNavigator.getVisibleQuestions(page);
+
+          const revealed = after.filter(q => !before.has(q));
+          trigger.branches.push({ value: choices[choiceIndex], valueIndex: choiceIndex, revealedQuestions: revealed });
+
+          if (revealed.length > 0) {
+            logger.info(`${item.field.questionNumber} = "${choices[choiceIndex]}" reveals: ${revealed.join(', ')}`);
+          }
+
+          const unseen = revealed.filter(q => !knownQuestions.has(q));
+          if (unseen.length === 0) continue;
+
+          const newFields = await this.formNavigator.scanConditionalFields(page, unseen, item.field.questionNumber, choices[choiceIndex]);
+          for (const newField of newFields) {
+            knownQuestions.add(newField.questionNumber);
+            discoveredFields.push(newField);
+            if (onFieldRevealed) {
+              await onFieldRevealed(newField);
+            }
+
+            if (this.isTrigger(newField)) {
+              if (item.path.length + 1 < this.maxDepth) {
+                queue.push({ field: newField, path: [...item.path, { field: item.field, choiceIndex }] });
+              } else {
+                logger.warn(`Not exploring nested trigger ${newField.questionNumber}: depth limit ${this.maxDepth} reached`);
+                complete = false;
+              }
+            }
+          }
+        } catch (error) {
+          logger.warn(`Failed to explore ${item.field.questionNumber} = "${choices[choiceIndex]}":`, error);
+          complete = false;
+        }
+      }
+
+      triggers.push(trigger);
+    }
+
+    // Leave the form clean for the regular filling pass
+    if (attempts > 0) {
+      await this.formResetService.clearFormValues(page);
+    }
+
+    const branchCount = triggers.reduce((sum, t) => sum + t.branches.length, 0);
+    logger.info(`Skip-logic exploration finished: ${triggers.length} triggers, ${branchCount} branches, ${discoveredFields.length} conditional fields`);
+
+    return {
+      graph: {
+        triggers,
+        attempts,
+        complete,
+        exploredAt: new Date().toISOString()
+      },
+      discoveredFields
+    };
+  }
+
+  private isTrigger(field: SurveyField): boolean {
+    return TRIGGER_TYPES.includes(field.inputType) && !!field.choices && field.choices.length > 0;
+  }
+}
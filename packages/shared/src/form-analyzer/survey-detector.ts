@@ -1,14 +1,29 @@
 import { Page } from 'puppeteer';
 import { ScreenshotService } from '../services/screenshot-service.js';
-import { testDataGenerator } from '../test-generator/test-data-generator.js';
-import { logger } from '../utils/logger.js';
-import { SurveyField, SurveyForm, SurveyTuple } from '../types/types.js';
+import { TestDataOptions, testDataGenerator } from '../test-generator/test-data-generator.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import { LayoutIssue, SurveyField, SurveyForm, SurveyTuple } from '../types/types.js';
+import { SurveyPlatformAdapter } from './platforms/survey-platform-adapter.js';
+import { surveyPlatformRegistry } from './platforms/platform-registry.js';
+import { DEFAULT_SETTINGS, FormShotTimings } from '../services/config-service.js';
+import { waitForDomStable } from '../utils/dom-stability.js';
+
+const logger = rootLogger.child('survey-detector');
 
 export class SurveyFormDetector {
+  private platform: SurveyPlatformAdapter;
+  private timings: FormShotTimings;
+  private testDataOptions: TestDataOptions;  // E.g. the seed; the locale defaults to the tuple language
+
+  constructor(platform?: SurveyPlatformAdapter, timings: FormShotTimings = DEFAULT_SETTINGS.timings, testDataOptions: TestDataOptions = {}) {
+    this.platform = platform || surveyPlatformRegistry.get();
+    this.timings = timings;
+    this.testDataOptions = testDataOptions;
+  }
   
   async detectSurveyForm(page: Page, tuple: SurveyTuple, screenshotService: ScreenshotService, formIndex?: number): Promise<SurveyForm> {
     // Find right panel and get its dimensions
-    const rightPanel = await this.findRightPanel(page);
+    const rightPanel = await this.platform.findContainer(page);
     logger.info(`Using container selector: ${rightPanel}`);
     
     // Calculate viewport height needed for full form
@@ -27,17 +42,17 @@ export class SurveyFormDetector {
       }
     }, rightPanel);
     
-    // Wait longer for any animations/rendering and dynamic content
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    // Wait for any animations/rendering and dynamic content to settle
+    await waitForDomStable(page, this.timings.renderSettleDelay, { container: rightPanel, quietPeriod: this.timings.domQuietPeriod });
     
     // Check if any content has been dynamically loaded
-    const dynamicContent = await page.evaluate(() => {
-      const container = document.querySelector('#survey-body-container');
+    const dynamicContent = await page.evaluate((containerSelector, sliderTrackSelector) => {
+      const container = document.querySelector(containerSelector);
       if (!container) return { hasSlider: false, sliderInfo: '' };
       
       // Look for any slider elements
       const sliderSelectors = [
-        '[class*="SliderTrack"]',
+        sliderTrackSelector,
         '[class*="slider"]',
         '[class*="Slider"]',
         '[class*="vas"]',
@@ -65,12 +80,12 @@ export class SurveyFormDetector {
       }
       
       return { hasSlider: foundSlider, sliderInfo };
-    });
+    }, rightPanel, this.platform.selectors.sliderTrack);
     
     logger.info(`Dynamic content check: hasSlider=${dynamicContent.hasSlider}, info=${dynamicContent.sliderInfo}`);
     
     // Extract form title and short name
-    const { longTitle, shortName } = await this.extractFormTitles(page);
+    const { longTitle, shortName } = await this.platform.extractFormTitles(page);
     
     // Detect all form fields in right panel
     const fields = await this.detectFormFields(page, rightPanel, tuple, screenshotService, formIndex);
@@ -87,25 +102,6 @@ export class SurveyFormDetector {
     };
   }
 
-  private async findRightPanel(page: Page): Promise<string> {
-    // Look specifically for survey-body-container by ID as specified in requirements
-    const surveyBodyContainer = await page.$('#survey-body-container');
-    if (surveyBodyContainer) {
-      return '#survey-body-container';
-    }
-
-    // Fallback to class-based selector if ID not found
-    const surveyBodyContainerByClass = await page.$('.survey-body-container');
-    if (surveyBodyContainerByClass) {
-      return '.survey-body-container';
-    }
-
-    logger.warn('survey-body-container not found, analysis may include irrelevant fields');
-    
-    // Final fallback to body if no survey container found
-    return 'body';
-  }
-
   private async calculateRequiredViewportHeight(page: Page, rightPanelSelector: string): Promise<number> {
     return await page.evaluate((selector) => {
       const element = document.querySelector(selector);
@@ -119,10 +115,10 @@ export class SurveyFormDetector {
     await page.evaluate((selector) => {
       const element = document.querySelector(selector);
       if (element && element.scrollHeight > element.clientHeight) {
-        // Scroll the survey-body-container to bottom to reveal all form fields
+        // Scroll the survey container to bottom to reveal all form fields
         element.scrollTop = element.scrollHeight;
       } else {
-        // Only scroll page if survey-body-container wasn't found
+        // Only scroll page if no survey container was found
         if (selector === 'body') {
           window.scrollTo(0, document.body.scrollHeight);
         }
@@ -130,735 +126,183 @@ export class SurveyFormDetector {
     }, rightPanelSelector);
 
     // Wait for any lazy-loaded content to appear after scrolling
-    await new Promise(resolve => setTimeout(resolve, 3000));
-    logger.debug('Completed scrolling and waiting for lazy-loaded content');
-  }
-
-  private async extractFormTitles(page: Page): Promise<{ longTitle: string; shortName: string }> {
-    try {
-      // Find the correct p and h3 tags that are together (form titles)
-      const titles = await page.evaluate(() => {
-        const container = document.querySelector('#survey-body-container');
-        if (!container) {
-          return {
-            longTitle: 'Title not found',
-            shortName: 'Title not found'
-          };
-        }
-        
-        // Find all p tags in the container
-        const allPs = container.querySelectorAll('p');
-        let formTitleP = null;
-        let formTitleH3 = null;
-        
-        // Look for a p tag that has an h3 sibling in the same parent
-        for (const p of allPs) {
-          const parent = p.parentElement;
-          if (parent) {
-            const h3InParent = parent.querySelector('h3');
-            if (h3InParent) {
-              // Found the p and h3 that are together
-              formTitleP = p;
-              formTitleH3 = h3InParent;
-              break;
-            }
-          }
-        }
-        
-        const longTitle = formTitleP?.textContent?.trim() || 'Title not found';
-        const shortName = formTitleH3?.textContent?.trim() || 'Title not found';
-        
-        return {
-          longTitle,
-          shortName
-        };
-      });
-      
-      return {
-        longTitle: titles.longTitle,
-        shortName: titles.shortName
-      };
-    } catch (error) {
-      logger.error(`Error in extractFormTitles: ${error}`);
-      return {
-        longTitle: 'Title not found',
-        shortName: 'Title not found'
-      };
-    }
+    const { durationMs } = await waitForDomStable(page, this.timings.scrollSettleDelay, {
+      container: rightPanelSelector,
+      quietPeriod: this.timings.domQuietPeriod
+    });
+    logger.debug(`Completed scrolling, lazy-loaded content settled after ${durationMs}ms`);
   }
 
   private async detectFormFields(page: Page, rightPanelSelector: string, tuple: SurveyTuple, screenshotService: ScreenshotService, formIndex?: number): Promise<SurveyField[]> {
-    const fields = await page.evaluate((selector) => {
-      // Helper functions that run in browser context
-      function extractQuestionText(container: Element): string {
-        const textNodes: string[] = [];
-        const walker = document.createTreeWalker(
-          container,
-          NodeFilter.SHOW_TEXT,
-          {
-            acceptNode: (node) => {
-              const parent = node.parentElement;
-              if (!parent) return NodeFilter.FILTER_REJECT;
-              
-              // Skip input values and hidden content
-              if (parent.tagName === 'INPUT' || parent.tagName === 'OPTION' || 
-                  parent.style.display === 'none' || parent.style.visibility === 'hidden') {
-                return NodeFilter.FILTER_REJECT;
-              }
-              
-              // Don't skip button text - it might contain important labels or asterisks
-              // We'll handle button text removal later if needed
-              
-              return NodeFilter.FILTER_ACCEPT;
-            }
-          }
-        );
-
-        let node;
-        while (node = walker.nextNode()) {
-          const text = node.textContent?.trim();
-          if (text && text.length > 0) {
-            textNodes.push(text);
-          }
-        }
-
-        return textNodes.join(' ').replace(/\\s+/g, ' ').trim();
-      }
-
-      function extractQuestionNumber(text: string): string {
-        // Match patterns like "1.", "2.3", "4.5.6", etc. at the start of text
-        const match = text.match(/^(\d+(?:\.\d+)*\.?)\s*/);
-        return match ? match[1] : '';
-      }
-
-      function cleanQuestionText(text: string, choices: string[]): { cleanText: string; isRequired: boolean } {
-        let cleanText = text;
-        
-        // Remove question number from the beginning
-        cleanText = cleanText.replace(/^\d+(?:\.\d+)*\.?\s*/, '');
-        
-        // Check if question is required BEFORE removing choices
-        // Look for asterisk at the end of the text OR after common patterns like "Check all that apply *"
-        // Also check for asterisk in parentheses like "( MM/dd/yyyy )*"
-        const isRequired = text.includes('*');
-        
-        // Remove choice values from the end of question text
-        if (choices && choices.length > 0) {
-          // Remove choices from the end, trying longest matches first
-          const sortedChoices = [...choices].sort((a, b) => b.length - a.length);
-          for (const choice of sortedChoices) {
-            const escapedChoice = choice.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-            // Remove choice from anywhere in the text (not just end) with word boundaries
-            const regex = new RegExp('\\s*\\b' + escapedChoice + '\\b\\s*', 'gi');
-            cleanText = cleanText.replace(regex, ' ');
-          }
-          
-          // Clean up multiple spaces
-          cleanText = cleanText.replace(/\s+/g, ' ').trim();
-        }
-        
-        // For NRS fields, also clean up standalone numeric values but preserve asterisk
-        if (text.includes('0') && text.includes('10')) {
-          // This looks like an NRS scale, remove standalone numbers but keep asterisk
-          // Be careful not to remove asterisk that might be near numbers
-          cleanText = cleanText.replace(/\b(\d+)\b(?!\s*\*)/g, '').replace(/\s+/g, ' ').trim();
-        }
-        
-        // Remove any remaining asterisks from the cleaned text
-        cleanText = cleanText.replace(/\s*\*\s*/g, ' ').trim();
-        
-        return { cleanText: cleanText.trim(), isRequired };
-      }
-
-      function getInputType(input: Element): string {
-        if (input.tagName === 'SELECT') return 'dropdown';
-        if (input.tagName === 'TEXTAREA') return 'textarea';
-        
-        // Check for custom implementations
-        if (input.tagName === 'INPUT') {
-          const inputEl = input as HTMLInputElement;
-          
-          // Check inputmode attribute first for specific input hints
-          const inputMode = inputEl.getAttribute('inputmode')?.toLowerCase() || '';
-          const pattern = inputEl.getAttribute('pattern') || '';
-          
-          // Check for numeric fields based on inputmode or pattern
-          if (inputMode === 'numeric' || inputMode === 'decimal') {
-            console.log(`Field has inputmode="${inputMode}", treating as numeric text field`);
-            return inputMode === 'decimal' ? 'text_decimal' : 'text_numeric';
-          }
-          
-          // Check pattern attribute for numeric patterns
-          if (pattern && (pattern.includes('[0-9]') || pattern.includes('\\d'))) {
-            console.log(`Field has numeric pattern="${pattern}", treating as numeric text field`);
-            return 'text_numeric';
-          }
-          
-          // Check for tel inputmode
-          if (inputMode === 'tel') {
-            console.log(`Field has inputmode="tel", treating as phone field`);
-            return 'phone';
-          }
-          
-          // Check for email inputmode
-          if (inputMode === 'email') {
-            console.log(`Field has inputmode="email", treating as email field`);
-            return 'email';
-          }
-          
-          // Check for date field indicators
-          // Check for date patterns in various attributes
-          const placeholder = inputEl.placeholder?.toLowerCase() || '';
-          const value = inputEl.value?.toLowerCase() || '';
-          const id = inputEl.id?.toLowerCase() || '';
-          const className = inputEl.className?.toLowerCase() || '';
-          const ariaLabel = inputEl.getAttribute('aria-label')?.toLowerCase() || '';
-          const name = inputEl.name?.toLowerCase() || '';
-          
-          // Date field indicators - check even if not readonly as some date pickers work on regular text inputs
-          if (placeholder.includes('date') || placeholder.includes('dd/mm/yyyy') || 
-              placeholder.includes('mm/dd/yyyy') || placeholder.includes('yyyy-mm-dd') ||
-              placeholder.includes('dd-mm-yyyy') ||
-              value.includes('date') || 
-              id.includes('date') || 
-              name.includes('date') ||
-              className.includes('date') || className.includes('datepicker') ||
-              ariaLabel.includes('date')) {
-            return 'date';
-          }
-          
-          // Additional check for readonly inputs that might be other custom widgets
-          if (inputEl.readOnly || inputEl.getAttribute('readonly') === 'true') {
-            // Could be a date picker even without explicit date indicators
-            if (placeholder.includes('/') || placeholder.includes('-')) {
-              return 'date';
-            }
-          }
-          
-          // Check if ID contains "Dropdown" indicating a custom dropdown
-          if (input.id && input.id.toLowerCase().includes('dropdown')) {
-            return 'dropdown';
-          }
-          
-          // Check for common dropdown indicators in placeholder or value
-          if (inputEl.placeholder?.toLowerCase().includes('select') || 
-              inputEl.value?.toLowerCase() === 'select...') {
-            return 'dropdown';
-          }
-          
-          // Check for dropdown-related class names
-          const classNames = input.className?.toLowerCase() || '';
-          if (classNames.includes('dropdown') || classNames.includes('select')) {
-            return 'dropdown';
-          }
-          
-          // Check for autocomplete dropdown indicators (case-insensitive)
-          const hasAutocomplete = inputEl.hasAttribute('aria-autocomplete') || 
-                                 inputEl.getAttribute('autocomplete') === 'off' ||
-                                 inputEl.hasAttribute('list') ||
-                                 classNames.includes('autocomplete') ||
-                                 classNames.includes('typeahead') ||
-                                 placeholder.toLowerCase().includes('type to search') ||
-                                 placeholder.includes('search') ||
-                                 value.toLowerCase().includes('type to search');
-          
-          // Check if this might be a weight field with autocomplete
-          const isWeightField = placeholder.includes('weight') || 
-                               placeholder.includes('kg') || 
-                               placeholder.includes('lbs') ||
-                               placeholder.includes('pounds') ||
-                               ariaLabel.includes('weight') ||
-                               name.includes('weight') ||
-                               id.includes('weight');
-          
-          if (hasAutocomplete || isWeightField) {
-            return 'autocomplete_dropdown';
-          }
-        }
-        
-        const type = (input as HTMLInputElement).type?.toLowerCase();
-        return type || 'text';
-      }
+    const fields = await this.platform.enumerateFields(page, rightPanelSelector);
 
-      function detectVASSlider(container: Element): boolean {
-        // Check if this question contains a VAS slider (SliderTrack class)
-        const sliderTrack = container.querySelector('[class*="SliderTrack"]');
-        return !!sliderTrack;
-      }
-
-      function detectNRS(container: Element): boolean {
-        // Check if this question contains an NRS (Numeric Rating Scale)
-        // Look for multiple buttons with numeric labels (0-10, 0-11, etc.)
-        const buttons = container.querySelectorAll('button');
-        if (buttons.length < 2 || buttons.length > 12) return false;
-        
-        // Check if buttons have numeric labels
-        let numericCount = 0;
-        buttons.forEach(button => {
-          const text = button.textContent?.trim() || '';
-          if (/^\d+$/.test(text)) {
-            numericCount++;
-          }
-        });
-        
-        // If most buttons are numeric, it's likely an NRS
-        return numericCount >= buttons.length * 0.8;
-      }
+    if (fields.length === 0) {
+      logger.info('No survey questions found - this appears to be an informational form');
+    } else {
+      logger.info(`Found ${fields.length} survey questions`);
+    }
 
-      function getChoices(input: Element, container: Element): string[] {
-        if (input.tagName === 'SELECT') {
-          const options = Array.from(input.querySelectorAll('option'));
-          return options
-            .map(opt => opt.textContent?.trim())
-            .filter(text => text && text.length > 0) as string[];
+    // Take individual screenshots for each field, once per configured viewport
+    logger.info(`Taking screenshots for ${fields.length} questions`);
+    await screenshotService.forEachViewport(page, async (width) => {
+      for (let i = 0; i < fields.length; i++) {
+        const field = fields[i];
+        logger.setContext({ questionNumber: field.questionNumber });
+        const screenshotPath = await screenshotService.takeQuestionScreenshot(page, field, i, tuple, formIndex);
+        if (screenshotPath) {
+          field.screenshots = { ...field.screenshots, [String(width)]: screenshotPath };
         }
-        
-        if ((input as HTMLInputElement).type === 'radio') {
-          const name = (input as HTMLInputElement).name;
-          if (name) {
-            const radios = container.querySelectorAll(`input[type="radio"][name="${name}"]`);
-            const choices: string[] = [];
-            
-            radios.forEach(radio => {
-              const label = radio.nextElementSibling?.textContent?.trim() || 
-                           radio.closest('label')?.textContent?.trim() ||
-                           (radio as HTMLInputElement).value;
-              if (label) choices.push(label);
-            });
-            
-            return choices;
-          }
+        const layoutIssues = await this.detectLayoutIssues(page, field, rightPanelSelector, width);
+        if (layoutIssues.length > 0) {
+          field.layoutIssues = [...(field.layoutIssues || []), ...layoutIssues];
+          logger.warn(`Question ${field.questionNumber} has ${layoutIssues.length} layout issues at ${width}px: ` +
+            layoutIssues.map(issue => `${issue.kind} in ${issue.element}`).join(', '));
         }
-        
-        return [];
       }
+    });
+    for (const field of fields) {
+      field.screenshotPath = screenshotService.getPrimaryScreenshot(field.screenshots) || '';
+    }
+    logger.setContext({ questionNumber: undefined });
 
-      function generateSelector(input: Element, index: number): string {
-        if (input.id) {
-          // Use CSS.escape for IDs with special characters, fallback to attribute selector
-          try {
-            return `#${CSS.escape(input.id)}`;
-          } catch (e) {
-            return `[id="${input.id}"]`;
-          }
-        }
-        
-        const tagName = input.tagName.toLowerCase();
-        const type = (input as HTMLInputElement).type;
-        const name = (input as HTMLInputElement).name;
-        
-        if (name) return `${tagName}[name="${name}"]`;
-        if (type) return `${tagName}[type="${type}"]:nth-of-type(${index + 1})`;
-        
-        return `${tagName}:nth-of-type(${index + 1})`;
+    // Read the validation constraints the test data are derived from
+    for (const field of fields) {
+      const constraints = await this.platform.detectFieldConstraints(page, field);
+      if (constraints) {
+        field.constraints = constraints;
+        logger.debug(`Question ${field.questionNumber} has constraints ${JSON.stringify(constraints)}`);
       }
+    }
 
-      function generateSliderSelector(sliderTrack: Element, index: number): string {
-        if (sliderTrack.id) {
-          try {
-            return `#${CSS.escape(sliderTrack.id)}`;
-          } catch (e) {
-            return `[id="${sliderTrack.id}"]`;
-          }
-        }
-        
-        // Use class-based selector for SliderTrack
-        const className = Array.from(sliderTrack.classList).find(cls => cls.includes('SliderTrack'));
-        if (className) {
-          return `[class*="${className}"]`;
-        }
-        
-        return `[class*="SliderTrack"]:nth-of-type(${index + 1})`;
+    // Generate test data for each field
+    logger.info(`Generating test data for ${fields.length} questions`);
+    for (const field of fields) {
+      try {
+        field.testData = testDataGenerator.generateTestData(field, { locale: tuple.language, ...this.testDataOptions });
+        logger.debug(`Generated ${field.testData.testCases.length} test cases for question ${field.questionNumber}`);
+      } catch (error) {
+        logger.error(`Failed to generate test data for question ${field.questionNumber}:`, error);
+        // Continue processing other fields even if one fails
       }
+    }
 
-      function generateNRSSelector(button: Element, index: number): string {
-        if (button.id) {
-          try {
-            return `#${CSS.escape(button.id)}`;
-          } catch (e) {
-            return `[id="${button.id}"]`;
-          }
-        }
-        
-        // Get the button text to use in selector
-        const buttonText = button.textContent?.trim() || '';
-        if (/^\d+$/.test(buttonText)) {
-          // If it's a numeric button, use the number in the selector
-          return `button:contains("${buttonText}")`;
-        }
-        
-        // Fallback to nth-of-type
-        return `button:nth-of-type(${index + 1})`;
-      }
+    const totalTestCases = fields.reduce((sum, field) => sum + (field.testData?.testCases.length || 0), 0);
+    logger.info(`Generated ${totalTestCases} total test cases across all fields`);
 
-      const rightPanel = document.querySelector(selector);
-      if (!rightPanel) {
-        return [];
-      }
+    return fields;
+  }
 
-      // Find all CardBox question containers within the survey-body-container
-      const cardBoxElements = rightPanel.querySelectorAll('[class*="CardBox"]');
-      const fieldGroups: any[] = [];
+  /**
+   * Measures the rendered text inside a question's CardBox for content that does not fit
+   * its box, text cut off with an ellipsis and labels drawn on top of each other.
+   */
+  private async detectLayoutIssues(page: Page, field: SurveyField, containerSelector: string, viewportWidth: number): Promise<LayoutIssue[]> {
+    try {
+      const issues = await page.evaluate((cardSelector, formSelector) => {
+        const card = document.querySelector(cardSelector);
+        if (!card) return [];
+
+        const cardRect = card.getBoundingClientRect();
+        const container = document.querySelector(formSelector);
+        const containerRect = container ? container.getBoundingClientRect() : new DOMRect(-window.scrollX, -window.scrollY, 0, 0);
+        const containerScroll = container && container !== document.body ? { x: container.scrollLeft, y: container.scrollTop } : { x: 0, y: 0 };
+        const TOLERANCE = 1;  // Sub-pixel rounding is not clipping
+
+        const describe = (element: Element) => {
+          const className = typeof element.className === 'string' ? element.className.trim().split(/\s+/)[0] : '';
+          return element.tagName.toLowerCase() + (className ? `.${className}` : '');
+        };
+        const hasOwnText = (element: Element) => Array.from(element.childNodes)
+          .some(node => node.nodeType === Node.TEXT_NODE && (node.textContent || '').trim().length > 0);
+        const textBox = (element: Element) => {
+          const range = document.createRange();
+          range.selectNodeContents(element);
+          return range.getBoundingClientRect();
+        };
+        const toIssue = (kind: string, element: Element, rect: DOMRect, overflow: number) => ({
+          kind,
+          element: describe(element),
+          text: (element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 80),
+          overflow: Math.round(overflow),
+          rect: { x: Math.round(rect.left - cardRect.left), y: Math.round(rect.top - cardRect.top), width: Math.round(rect.width), height: Math.round(rect.height) },
+          formRect: {
+            x: Math.round(rect.left - containerRect.left + containerScroll.x),
+            y: Math.round(rect.top - containerRect.top + containerScroll.y),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height)
+          },
+          frame: { width: Math.round(cardRect.width), height: Math.round(cardRect.height) }
+        });
 
-      // Also check for standalone VAS sliders that might not be in CardBox
-      const standaloneSliders = rightPanel.querySelectorAll('[class*="SliderTrack"]');
-      console.log(`Found ${standaloneSliders.length} SliderTrack elements in form`);
-      
-      // Also try alternative selectors for VAS sliders
-      const alternativeSliders = rightPanel.querySelectorAll('[class*="slider"], [class*="Slider"], [class*="vas"], [class*="VAS"], [role="slider"]');
-      console.log(`Found ${alternativeSliders.length} alternative slider elements`);
-      
-      const sliderParents = new Set();
-      standaloneSliders.forEach(slider => {
-        // Find the nearest container that's not already a CardBox
-        let parent = slider.parentElement;
-        while (parent && parent !== rightPanel) {
-          if (parent.className && parent.className.includes('CardBox')) {
-            // This slider is already inside a CardBox, will be handled below
-            break;
-          }
-          parent = parent.parentElement;
-        }
-        if (parent && parent !== rightPanel && !parent.className?.includes('CardBox')) {
-          sliderParents.add(slider.parentElement);
-        }
-      });
+        // Visible text-bearing elements and the controls whose labels translations tend to overflow
+        const candidates = Array.from(card.querySelectorAll('*')).filter(element => {
+          if (element.matches('input, select, textarea, option, script, style, svg, svg *')) return false;
+          if (!hasOwnText(element) && !element.matches('button, label, a, [role="button"], [role="radio"], [role="checkbox"], [role="option"]')) return false;
+          const style = window.getComputedStyle(element);
+          const rect = element.getBoundingClientRect();
+          // Visually hidden text for screen readers is clipped on purpose
+          return style.visibility !== 'hidden' && rect.width > 1 && rect.height > 1 && style.clip === 'auto' && style.clipPath === 'none';
+        });
 
-      // Process CardBox elements first
-      console.log(`Found ${cardBoxElements.length} CardBox elements`);
-      cardBoxElements.forEach((cardBox, index) => {
-        // Extract question text and number from the CardBox
-        const rawQuestionText = extractQuestionText(cardBox);
-        const questionNumber = extractQuestionNumber(rawQuestionText);
-        
-        console.log(`CardBox ${index}: questionNumber="${questionNumber}", text="${rawQuestionText.substring(0, 50)}..."`);
-        
-        // Check if this is a VAS slider or NRS first
-        const isVASSlider = detectVASSlider(cardBox);
-        const isNRS = detectNRS(cardBox);
-        console.log(`CardBox ${index}: isVASSlider=${isVASSlider}, isNRS=${isNRS}`);
-        
-        // Find all inputs within this CardBox
-        const questionInputs = cardBox.querySelectorAll('input, select, textarea');
-        const nonHiddenInputs = Array.from(questionInputs).filter(inp => (inp as HTMLInputElement).type !== 'hidden');
-        
-        // For VAS sliders or NRS, we might not have traditional inputs, so don't skip
-        if (nonHiddenInputs.length === 0 && !isVASSlider && !isNRS) return; // Skip if no visible inputs and not a special component
-        
-        let inputType = 'text';
-        let choices: string[] = [];
-        let elementSelector = '';
+        const found: Array<{ element: Element; issue: ReturnType<typeof toIssue> }> = [];
+        for (const element of candidates) {
+          const style = window.getComputedStyle(element);
+          const rect = element.getBoundingClientRect();
+          const html = element as HTMLElement;
+          const clipsX = style.overflowX !== 'visible';
 
-        // Handle VAS slider
-        if (isVASSlider) {
-          inputType = 'VAS';
-          const sliderTrack = cardBox.querySelector('[class*="SliderTrack"]');
-          if (sliderTrack) {
-            elementSelector = generateSliderSelector(sliderTrack, index);
+          if (style.display !== 'inline' && html.scrollWidth > html.clientWidth + TOLERANCE) {
+            const kind = clipsX && style.textOverflow === 'ellipsis' ? 'ellipsis' : 'horizontal_overflow';
+            found.push({ element, issue: toIssue(kind, element, rect, html.scrollWidth - html.clientWidth) });
           }
-        } else if (isNRS) {
-          // Handle NRS (Numeric Rating Scale)
-          inputType = 'NRS';
-          const buttons = cardBox.querySelectorAll('button');
-          choices = [];
-          
-          // Collect numeric button values
-          buttons.forEach(button => {
-            const text = button.textContent?.trim() || '';
-            if (/^\d+$/.test(text)) {
-              choices.push(text);
-            }
-          });
-          
-          // Sort choices numerically
-          choices.sort((a, b) => parseInt(a) - parseInt(b));
-          
-          // Use the first button as selector base
-          if (buttons.length > 0) {
-            elementSelector = generateNRSSelector(buttons[0], index);
-          }
-        } else if (nonHiddenInputs.length === 1) {
-          // Single input - use its type and selector
-          const singleInput = nonHiddenInputs[0];
-          inputType = getInputType(singleInput);
-          choices = getChoices(singleInput, cardBox);
-          elementSelector = generateSelector(singleInput, index);
-        } else {
-          // Multiple inputs - check if they're radio buttons or similar grouped inputs
-          const radioInputs = nonHiddenInputs.filter(inp => (inp as HTMLInputElement).type === 'radio');
-          const checkboxInputs = nonHiddenInputs.filter(inp => (inp as HTMLInputElement).type === 'checkbox');
-          
-          if (radioInputs.length > 1) {
-            inputType = 'radio';
-            // Get choices from all radio buttons in this CardBox
-            choices = [];
-            radioInputs.forEach(radio => {
-              const label = radio.nextElementSibling?.textContent?.trim() || 
-                           radio.closest('label')?.textContent?.trim() ||
-                           (radio as HTMLInputElement).value;
-              if (label && !choices.includes(label)) choices.push(label);
-            });
-            elementSelector = generateSelector(radioInputs[0], index);
-          } else if (checkboxInputs.length > 1) {
-            inputType = 'checkbox';
-            choices = [];
-            checkboxInputs.forEach(checkbox => {
-              const label = checkbox.nextElementSibling?.textContent?.trim() || 
-                           checkbox.closest('label')?.textContent?.trim() ||
-                           (checkbox as HTMLInputElement).value;
-              if (label && !choices.includes(label)) choices.push(label);
-            });
-            elementSelector = generateSelector(checkboxInputs[0], index);
-          } else {
-            // Mixed input types - use the first non-hidden input
-            const firstInput = nonHiddenInputs[0];
-            inputType = getInputType(firstInput);
-            choices = getChoices(firstInput, cardBox);
-            elementSelector = generateSelector(firstInput, index);
+          if (style.display !== 'inline' && html.scrollHeight > html.clientHeight + TOLERANCE) {
+            const kind = style.getPropertyValue('-webkit-line-clamp') !== 'none' && style.getPropertyValue('-webkit-line-clamp') !== '' ? 'ellipsis' : 'vertical_overflow';
+            found.push({ element, issue: toIssue(kind, element, rect, html.scrollHeight - html.clientHeight) });
           }
-        }
 
-        // Clean the question text by removing number, choices, and handling required indicator
-        // For NRS fields, don't pass choices to cleanQuestionText to preserve asterisk detection
-        const { cleanText, isRequired } = cleanQuestionText(rawQuestionText, inputType === 'NRS' ? [] : choices);
-
-        // Only add if we have meaningful question text or a question number
-        if (cleanText.length > 3 || questionNumber.length > 0) {
-          // Additional check: if detected as text but question suggests date field
-          if (inputType === 'text' && nonHiddenInputs.length > 0) {
-            const questionLower = cleanText.toLowerCase();
-            const rawTextLower = rawQuestionText.toLowerCase();
-            const firstInput = nonHiddenInputs[0] as HTMLInputElement;
-            
-            // Check if this is likely a date field based on question text and input properties
-            // Also check the raw text for date format patterns
-            if ((questionLower.includes('date') || 
-                 questionLower.includes('when') || 
-                 questionLower.includes('birthday') || 
-                 questionLower.includes('birth') ||
-                 questionLower.includes('dob') ||
-                 rawTextLower.includes('mm/dd/yyyy') ||
-                 rawTextLower.includes('dd/mm/yyyy') ||
-                 rawTextLower.includes('yyyy-mm-dd')) ||
-                (firstInput.readOnly || 
-                 firstInput.getAttribute('readonly') === 'true' ||
-                 firstInput.placeholder?.toLowerCase().includes('date') ||
-                 firstInput.placeholder?.includes('dd') ||
-                 firstInput.placeholder?.includes('mm') ||
-                 firstInput.placeholder?.includes('yyyy'))) {
-              inputType = 'date';
-            }
-            
-            // Check if this is likely a weight field with autocomplete based on question text
-            if (questionLower.includes('weight') || 
-                questionLower.includes('weigh') ||
-                rawTextLower.includes('kg') ||
-                rawTextLower.includes('lbs') ||
-                rawTextLower.includes('pounds')) {
-              inputType = 'autocomplete_dropdown';
-            }
+          // Text spilling out of the card is cut off in the question screenshot
+          const text = textBox(element);
+          const outsideX = Math.max(cardRect.left - text.left, text.right - cardRect.right);
+          const outsideY = Math.max(cardRect.top - text.top, text.bottom - cardRect.bottom);
+          if (outsideX > TOLERANCE) {
+            found.push({ element, issue: toIssue('horizontal_overflow', element, text, outsideX) });
+          } else if (outsideY > TOLERANCE) {
+            found.push({ element, issue: toIssue('vertical_overflow', element, text, outsideY) });
           }
-          
-          const cardBoxSelector = generateCardBoxSelector(cardBox, index, questionNumber);
-          
-          fieldGroups.push({
-            questionNumber,
-            questionText: cleanText,
-            inputType,
-            isRequired,
-            choices: choices.length > 0 ? choices : undefined,
-            selector: elementSelector,
-            screenshotPath: '', // Will be filled when taking screenshots
-            cardBoxSelector: cardBoxSelector
-          });
         }
-      });
 
-      function generateCardBoxSelector(cardBox: Element, index: number, questionNumber: string): string {
-        // Always scope selectors to within #survey-body-container
-        const surveyContainer = document.querySelector('#survey-body-container');
-        if (!surveyContainer) {
-          throw new Error('survey-body-container not found');
-        }
-        
-        // Check if cardBox has an ID - if so, use it but scoped to survey container
-        if (cardBox.id) {
-          try {
-            return `#survey-body-container #${CSS.escape(cardBox.id)}`;
-          } catch (e) {
-            return `#survey-body-container [id="${cardBox.id}"]`;
-          }
-        }
-        
-        // Try to find existing identifying attributes within survey container
-        for (const attr of ['data-testid', 'data-id', 'data-question', 'aria-label']) {
-          const value = cardBox.getAttribute(attr);
-          if (value) {
-            return `#survey-body-container [${attr}="${value}"]`;
-          }
-        }
-        
-        // Calculate nth-of-type position among elements with CardBox class within the parent
-        const parent = cardBox.parentElement;
-        if (parent) {
-          // Get all CardBox siblings (including the current element) of the same tag type
-          const tagName = cardBox.tagName;
-          const sameTypeSiblings = Array.from(parent.children).filter(el => 
-            el.tagName === tagName && el.classList.toString().includes('CardBox')
-          );
-          const typePosition = sameTypeSiblings.indexOf(cardBox);
-          
-          if (typePosition >= 0) {
-            // Use a more specific selector that includes the parent structure
-            const parentSelector = parent === surveyContainer ? '#survey-body-container' : 
-                                  parent.id ? `#${CSS.escape(parent.id)}` : 
-                                  parent.className ? `.${parent.className.split(' ')[0]}` : '';
-            
-            if (parentSelector) {
-              return `${parentSelector} > ${tagName.toLowerCase()}[class*="CardBox"]:nth-of-type(${typePosition + 1})`;
-            }
-          }
-        }
-        
-        // Fallback: use position among all CardBox elements with a more specific query
-        const allCardBoxes = surveyContainer.querySelectorAll('[class*="CardBox"]');
-        const position = Array.from(allCardBoxes).indexOf(cardBox);
-        if (position >= 0) {
-          // Try to get a unique path based on the element's position in the DOM tree
-          const path = [];
-          let current = cardBox;
-          
-          while (current && current !== surveyContainer && current.parentElement) {
-            const parent = current.parentElement;
-            const siblings = Array.from(parent.children);
-            const index = siblings.indexOf(current);
-            
-            if (current.classList.toString().includes('CardBox')) {
-              // For CardBox elements, use the class selector
-              path.unshift(`[class*="CardBox"]:nth-child(${index + 1})`);
-              break;
-            } else if (current.tagName) {
-              // For other elements, use tag name
-              path.unshift(`${current.tagName.toLowerCase()}:nth-child(${index + 1})`);
+        // An ancestor reports the same problem as the element that actually overflows
+        const issues = found
+          .filter(({ element, issue }) => !found.some(other => other.element !== element && other.issue.kind === issue.kind && element.contains(other.element)))
+          .map(({ issue }) => issue);
+
+        // Overlapping text boxes, e.g. VAS anchors or choice labels that grew into each other
+        const texts = candidates.filter(hasOwnText);
+        for (let i = 0; i < texts.length; i++) {
+          for (let j = i + 1; j < texts.length; j++) {
+            if (texts[i].contains(texts[j]) || texts[j].contains(texts[i])) continue;
+            const a = textBox(texts[i]);
+            const b = textBox(texts[j]);
+            const left = Math.max(a.left, b.left);
+            const top = Math.max(a.top, b.top);
+            const width = Math.min(a.right, b.right) - left;
+            const height = Math.min(a.bottom, b.bottom) - top;
+            if (width > 2 * TOLERANCE && height > 2 * TOLERANCE) {
+              const overlap = toIssue('overlap', texts[i], new DOMRect(left, top, width, height), Math.min(width, height));
+              overlap.text = `${overlap.text} / ${(texts[j].textContent || '').replace(/\s+/g, ' ').trim().slice(0, 80)}`;
+              issues.push(overlap);
             }
-            
-            current = parent;
           }
-          
-          if (path.length > 0) {
-            return `#survey-body-container ${path.join(' > ')}`;
-          }
-        }
-        
-        // Very last fallback - use the question number if available
-        if (questionNumber) {
-          return `#survey-body-container [class*="CardBox"]:contains("${questionNumber}")`;
         }
-        
-        return `#survey-body-container [class*="CardBox"]`;
-      }
-
-      // Process standalone VAS sliders (not in CardBox)
-      // Check both original sliders and alternative selectors
-      const allSliders = [...standaloneSliders, ...alternativeSliders];
-      const uniqueSliders = Array.from(new Set(allSliders)); // Remove duplicates
-      
-      if (uniqueSliders.length > 0 && fieldGroups.length === 0) {
-        console.log(`Processing ${uniqueSliders.length} potential VAS sliders`);
-        // Check if there's a standalone VAS slider on this form
-        uniqueSliders.forEach((slider, index) => {
-          // Find the CardBox container for this slider
-          let cardBoxContainer = slider.parentElement;
-          while (cardBoxContainer && cardBoxContainer !== rightPanel) {
-            if (cardBoxContainer.className && cardBoxContainer.className.includes('CardBox')) {
-              break;
-            }
-            cardBoxContainer = cardBoxContainer.parentElement;
-          }
-          
-          // If no CardBox found, use the direct container with text content
-          let container = cardBoxContainer;
-          if (!container || container === rightPanel || !container.className?.includes('CardBox')) {
-            container = slider.parentElement;
-            while (container && !container.textContent?.trim() && container !== rightPanel) {
-              container = container.parentElement;
-            }
-          }
-          
-          if (container && container !== rightPanel) {
-            // Extract any question text near the slider
-            const questionText = extractQuestionText(container);
-            const questionNumber = extractQuestionNumber(questionText) || '';
-            
-            // Clean the question text
-            const { cleanText, isRequired } = cleanQuestionText(questionText, []);
-            
-            // Generate selector for the slider
-            const sliderSelector = generateSliderSelector(slider, index);
-            
-            // Generate CardBox selector - prioritize CardBox if found
-            let cardBoxSelector = '';
-            if (cardBoxContainer && cardBoxContainer !== rightPanel && cardBoxContainer.className?.includes('CardBox')) {
-              cardBoxSelector = generateCardBoxSelector(cardBoxContainer, index, questionNumber);
-            } else {
-              // Fallback to container selector if no CardBox found
-              if (container.id) {
-                cardBoxSelector = `#survey-body-container #${CSS.escape(container.id)}`;
-              } else if (container.className) {
-                const className = container.className.split(' ')[0];
-                cardBoxSelector = `#survey-body-container .${className}`;
-              } else {
-                cardBoxSelector = `#survey-body-container > *:nth-child(${Array.from(rightPanel.children).indexOf(container) + 1})`;
-              }
-            }
-            
-            fieldGroups.push({
-              questionNumber: questionNumber || 'VAS',
-              questionText: cleanText || 'Visual Analog Scale',
-              inputType: 'VAS',
-              isRequired: isRequired || true, // VAS sliders are typically required
-              choices: undefined,
-              selector: sliderSelector,
-              screenshotPath: '',
-              cardBoxSelector: cardBoxSelector
-            });
-          }
-        });
-      }
-
-      return fieldGroups;
-    }, rightPanelSelector);
-
-    if (fields.length === 0) {
-      logger.info('No survey questions found - this appears to be an informational form');
-    } else {
-      logger.info(`Found ${fields.length} survey questions`);
-    }
 
-    // Take individual screenshots for each field using new screenshot service
-    logger.info(`Taking screenshots for ${fields.length} questions`);
-    for (let i = 0; i < fields.length; i++) {
-      const field = fields[i];
-      const screenshotPath = await screenshotService.takeQuestionScreenshot(page, field, i, tuple, formIndex);
-      field.screenshotPath = screenshotPath || '';
-    }
+        return issues;
+      }, field.cardBoxSelector, containerSelector);
 
-    // Generate test data for each field
-    logger.info(`Generating test data for ${fields.length} questions`);
-    for (const field of fields) {
-      try {
-        field.testData = testDataGenerator.generateTestData(field);
-        logger.debug(`Generated ${field.testData.testCases.length} test cases for question ${field.questionNumber}`);
-      } catch (error) {
-        logger.error(`Failed to generate test data for question ${field.questionNumber}:`, error);
-        // Continue processing other fields even if one fails
-      }
+      return issues.map(issue => ({ ...issue, kind: issue.kind as LayoutIssue['kind'], viewportWidth }));
+    } catch (error) {
+      logger.warn(`Failed to measure layout of question ${field.questionNumber}:`, error);
+      return [];
     }
-
-    const totalTestCases = fields.reduce((sum, field) => sum + (field.testData?.testCases.length || 0), 0);
-    logger.info(`Generated ${totalTestCases} total test cases across all fields`);
-
-    return fields;
   }
 
 }
\ No newline at end of file
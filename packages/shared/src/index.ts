@@ -3,19 +3,41 @@ export * from './types/types.js';
 
 // Export utils
 export * from './utils/logger.js';
+export * from './utils/dom-stability.js';
 
 // Export form analyzer
 export * from './form-analyzer/form-navigator.js';
 export * from './form-analyzer/form-reset-service.js';
 export * from './form-analyzer/survey-detector.js';
+export * from './form-analyzer/skip-logic-explorer.js';
+export * from './form-analyzer/platforms/survey-platform-adapter.js';
+export * from './form-analyzer/platforms/castor-platform-adapter.js';
+export * from './form-analyzer/platforms/platform-registry.js';
 
 // Export test generator
+export * from './test-generator/constraint-cases.js';
 export * from './test-generator/field-type-registry.js';
+export * from './test-generator/generator-registry.js';
+export * from './test-generator/locale-formats.js';
 export * from './test-generator/test-data-generator.js';
 
 // Export services
 export * from './services/firestore.js';
 export * from './services/screenshot-service.js';
+export * from './services/checkpoint-service.js';
+export * from './services/snapshot-service.js';
+export * from './services/config-service.js';
+export * from './services/analysis-diff-service.js';
+export * from './services/visual-regression-service.js';
+export * from './services/translation-check-service.js';
+export * from './services/language-detection-service.js';
+export * from './services/rtl-audit-service.js';
+export * from './services/accessibility-audit-service.js';
+export * from './services/odm-export-service.js';
+export * from './services/codebook-export-service.js';
+export * from './services/pattern-store-service.js';
+export * from './services/unknown-field-service.js';
 
 // Export browser
-export * from './browser/puppeteer-manager.js';
\ No newline at end of file
+export * from './browser/puppeteer-manager.js';
+export * from './browser/browser-pool.js';
\ No newline at end of file
@@ -0,0 +1,150 @@
+import axe from 'axe-core';
+import { Page } from 'puppeteer';
+import {
+  AccessibilityAudit,
+  AccessibilityImpact,
+  AccessibilitySummary,
+  AccessibilityViolation,
+  Survey,
+  SurveyForm
+} from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('accessibility-audit');
+
+// Most severe first
+export const ACCESSIBILITY_IMPACTS: AccessibilityImpact[] = ['critical', 'serious', 'moderate', 'minor'];
+
+// WCAG 2.1 level A and AA, the usual obligation for patient-facing software
+const WCAG_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+// Keeps the form documents well below Firestore's size limit
+const MAX_HTML_LENGTH = 200;
+
+/**
+ * Runs the axe-core engine inside the page against the current form. The engine is
+ * evaluated from the local package, so audits need no network access, and violations
+ * inside a question's CardBox are linked to its question number.
+ */
+export class AccessibilityAuditService {
+  async auditForm(page: Page, form: SurveyForm): Promise<AccessibilityAudit> {
+    // Evaluating the source instead of adding a script tag is not subject to the page's CSP
+    const injected = await page.evaluate(() => typeof (window as any).axe !== 'undefined');
+    if (!injected) {
+      await page.evaluate(axe.source);
+    }
+
+    const fields = form.fields.map(field => ({ questionNumber: field.questionNumber, cardBoxSelector: field.cardBoxSelector }));
+    const results = await page.evaluate(async (tags, fieldInfos, maxHtmlLength) => {
+      const engine = (window as any).axe;
+      const outcome = await engine.run(document, { runOnly: { type: 'tag', values: tags }, resultTypes: ['violations'] });
+
+      // Frame and shadow DOM targets are arrays; the last selector is the element itself
+      const findElement = (target: any): Element | null => {
+        const selector = Array.isArray(target) ? target[target.length - 1] : target;
+        try {
+          return typeof selector === 'string' ? document.querySelector(selector) : null;
+        } catch {
+          return null;
+        }
+      };
+      const cards = fieldInfos.map(field => ({ questionNumber: field.questionNumber, card: document.querySelector(field.cardBoxSelector) }));
+
+      const violations = outcome.violations.flatMap((rule: any) => rule.nodes.map((node: any) => {
+        const element = findElement(node.target[node.target.length - 1]);
+        const owner = element ? cards.find(({ card }) => card && card.contains(element)) : undefined;
+        return {
+          rule: rule.id,
+          impact: node.impact || rule.impact || 'minor',
+          help: rule.help,
+          helpUrl: rule.helpUrl,
+          selector: node.target.map((target: any) => (Array.isArray(target) ? target.join(' ') : target)).join(' '),
+          html: node.html.length > maxHtmlLength ? `${node.html.slice(0, maxHtmlLength)}…` : node.html,
+          ...(owner ? { questionNumber: owner.questionNumber } : {})
+        };
+      }));
+
+      return { engine: `axe-core ${engine.version}`, violations, incomplete: outcome.incomplete.length };
+    }, WCAG_TAGS, fields, MAX_HTML_LENGTH);
+
+    const violations = results.violations as AccessibilityViolation[];
+    const audit: AccessibilityAudit = {
+      engine: results.engine,
+      standard: WCAG_TAGS,
+      violations,
+      incomplete: results.incomplete,
+      byImpact: countByImpact(violations),
+      checkedAt: new Date().toISOString()
+    };
+
+    const formNumber = (form.formIndex ?? 0) + 1;
+    if (violations.length > 0) {
+      const rules = Array.from(new Set(violations.map(violation => violation.rule)));
+      logger.warn(`Form ${formNumber} has ${violations.length} accessibility violations (${describeImpacts(audit.byImpact)}): ${rules.join(', ')}`);
+    } else {
+      logger.info(`Form ${formNumber} has no accessibility violations`);
+    }
+    return audit;
+  }
+
+  /**
+   * Aggregates the audited forms of a survey by rule
+   */
+  summarizeSurvey(survey: Survey): AccessibilitySummary | undefined {
+    const audited = survey.forms.filter(form => form.accessibility);
+    if (audited.length === 0) return undefined;
+
+    const rules = new Map<string, AccessibilitySummary['rules'][number]>();
+    survey.forms.forEach((form, index) => {
+      for (const violation of form.accessibility?.violations || []) {
+        const rule = rules.get(violation.rule) || {
+          rule: violation.rule,
+          impact: violation.impact,
+          help: violation.help,
+          helpUrl: violation.helpUrl,
+          occurrences: 0,
+          forms: []
+        };
+        rule.occurrences++;
+        if (ACCESSIBILITY_IMPACTS.indexOf(violation.impact) < ACCESSIBILITY_IMPACTS.indexOf(rule.impact)) {
+          rule.impact = violation.impact;
+        }
+        if (!rule.forms.includes(index)) {
+          rule.forms.push(index);
+        }
+        rules.set(violation.rule, rule);
+      }
+    });
+
+    const violations = audited.flatMap(form => form.accessibility!.violations);
+    const summary: AccessibilitySummary = {
+      auditedForms: audited.length,
+      violations: violations.length,
+      formsWithViolations: survey.forms
+        .map((form, index) => ((form.accessibility?.violations.length || 0) > 0 ? index : -1))
+        .filter(index => index >= 0),
+      byImpact: countByImpact(violations),
+      rules: Array.from(rules.values()).sort((a, b) =>
+        ACCESSIBILITY_IMPACTS.indexOf(a.impact) - ACCESSIBILITY_IMPACTS.indexOf(b.impact) || b.occurrences - a.occurrences)
+    };
+
+    survey.metadata.accessibility = summary;
+    if (summary.violations > 0) {
+      logger.warn(`${summary.violations} accessibility violations on ${summary.formsWithViolations.length} of ${summary.auditedForms} forms (${describeImpacts(summary.byImpact)})`);
+    }
+    return summary;
+  }
+}
+
+function countByImpact(violations: AccessibilityViolation[]): Record<AccessibilityImpact, number> {
+  const counts = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+  violations.forEach(violation => counts[violation.impact]++);
+  return counts;
+}
+
+function describeImpacts(byImpact: Record<AccessibilityImpact, number>): string {
+  return ACCESSIBILITY_IMPACTS.filter(impact => byImpact[impact] > 0).map(impact => `${byImpact[impact]} ${impact}`).join(', ');
+}
+
+// Export singleton instance
+export const accessibilityAuditService = new AccessibilityAuditService();
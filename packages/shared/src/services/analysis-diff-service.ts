@@ -0,0 +1,269 @@
+import { Survey, SurveyField, SurveyForm, SurveyTuple } from '../types/types.js';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export type FieldChange =
+  | { property: 'questionText'; before: string; after: string }
+  | { property: 'inputType'; before: SurveyField['inputType']; after: SurveyField['inputType'] }
+  | { property: 'isRequired'; before: boolean; after: boolean }
+  | { property: 'choices'; before: string[]; after: string[]; added: string[]; removed: string[]; reordered: boolean };
+
+export interface FieldDiff {
+  status: DiffStatus;
+  fieldIndexA?: number;
+  fieldIndexB?: number;
+  questionNumberA?: string;
+  questionNumberB?: string;
+  questionText: string;     // Text in B, or in A for removed questions
+  changes: FieldChange[];
+}
+
+export interface FormDiff {
+  status: DiffStatus;
+  formIndexA?: number;
+  formIndexB?: number;
+  shortName: string;
+  longTitle: string;
+  titleChanged?: { before: string; after: string };
+  fields: FieldDiff[];
+}
+
+export interface AnalysisDiffSide {
+  source: string;           // Firestore document ID or analysis.json path
+  tuple: SurveyTuple;
+  analysisDate: string;
+  totalForms: number;
+  totalFields: number;
+}
+
+export interface AnalysisDiffSummary {
+  formsAdded: number;
+  formsRemoved: number;
+  formsChanged: number;
+  questionsAdded: number;
+  questionsRemoved: number;
+  questionsChanged: number;
+  questionTextChanges: number;
+  choiceChanges: number;
+  inputTypeChanges: number;
+  requiredChanges: number;
+}
+
+export interface AnalysisDiff {
+  a: AnalysisDiffSide;
+  b: AnalysisDiffSide;
+  generatedAt: string;
+  identical: boolean;
+  summary: AnalysisDiffSummary;
+  forms: FormDiff[];
+}
+
+type AlignedPair<T> = [T | undefined, T | undefined];
+
+/**
+ * Compares two analyses of the same package, e.g. survey versions v1 and v2. Forms are
+ * aligned by short name and questions by text, so inserted questions don't shift every
+ * following comparison. Leftovers are paired by long title and question number, and
+ * questions edited in place by position.
+ */
+export class AnalysisDiffService {
+  diff(a: Survey, b: Survey, sourceA: string, sourceB: string): AnalysisDiff {
+    const forms = align(a.forms, b.forms, form => normalize(form.shortName || form.longTitle), form => normalize(form.longTitle))
+      .map(([formA, formB]) => this.diffForm(formA, formB, a.forms, b.forms));
+
+    const summary = summarize(forms);
+    return {
+      a: describe(a, sourceA),
+      b: describe(b, sourceB),
+      generatedAt: new Date().toISOString(),
+      identical: forms.every(form => form.status === 'unchanged'),
+      summary,
+      forms
+    };
+  }
+
+  private diffForm(formA: SurveyForm | undefined, formB: SurveyForm | undefined, formsA: SurveyForm[], formsB: SurveyForm[]): FormDiff {
+    const form = (formB || formA)!;
+    const fields = align(formA?.fields || [], formB?.fields || [], field => normalize(field.questionText), field => field.questionNumber || '', true)
+      .map(([fieldA, fieldB]) => this.diffField(fieldA, fieldB, formA?.fields || [], formB?.fields || []));
+
+    const titleBefore = formA ? formA.longTitle.trim() : '';
+    const titleAfter = formB ? formB.longTitle.trim() : '';
+    const titleChanged = formA && formB && titleBefore !== titleAfter ? { before: titleBefore, after: titleAfter } : undefined;
+
+    let status: DiffStatus = 'unchanged';
+    if (!formA) status = 'added';
+    else if (!formB) status = 'removed';
+    else if (titleChanged || fields.some(field => field.status !== 'unchanged')) status = 'changed';
+
+    return {
+      status,
+      formIndexA: formA ? formsA.indexOf(formA) : undefined,
+      formIndexB: formB ? formsB.indexOf(formB) : undefined,
+      shortName: form.shortName,
+      longTitle: form.longTitle,
+      titleChanged,
+      fields
+    };
+  }
+
+  private diffField(fieldA: SurveyField | undefined, fieldB: SurveyField | undefined, fieldsA: SurveyField[], fieldsB: SurveyField[]): FieldDiff {
+    const field = (fieldB || fieldA)!;
+    const changes: FieldChange[] = [];
+
+    if (fieldA && fieldB) {
+      const textBefore = fieldA.questionText.trim();
+      const textAfter = fieldB.questionText.trim();
+      if (textBefore !== textAfter) {
+        changes.push({ property: 'questionText', before: textBefore, after: textAfter });
+      }
+      if (fieldA.inputType !== fieldB.inputType) {
+        changes.push({ property: 'inputType', before: fieldA.inputType, after: fieldB.inputType });
+      }
+      if (Boolean(fieldA.isRequired) !== Boolean(fieldB.isRequired)) {
+        changes.push({ property: 'isRequired', before: Boolean(fieldA.isRequired), after: Boolean(fieldB.isRequired) });
+      }
+      const choiceChange = diffChoices(fieldA.choices || [], fieldB.choices || []);
+      if (choiceChange) changes.push(choiceChange);
+    }
+
+    let status: DiffStatus = changes.length > 0 ? 'changed' : 'unchanged';
+    if (!fieldA) status = 'added';
+    else if (!fieldB) status = 'removed';
+
+    return {
+      status,
+      fieldIndexA: fieldA ? fieldsA.indexOf(fieldA) : undefined,
+      fieldIndexB: fieldB ? fieldsB.indexOf(fieldB) : undefined,
+      questionNumberA: fieldA?.questionNumber,
+      questionNumberB: fieldB?.questionNumber,
+      questionText: field.questionText.trim(),
+      changes
+    };
+  }
+}
+
+function diffChoices(before: string[], after: string[]): FieldChange | null {
+  const choicesBefore = before.map(choice => choice.trim());
+  const choicesAfter = after.map(choice => choice.trim());
+  if (choicesBefore.length === choicesAfter.length && choicesBefore.every((choice, index) => choice === choicesAfter[index])) {
+    return null;
+  }
+
+  const added = choicesAfter.filter(choice => !choicesBefore.includes(choice));
+  const removed = choicesBefore.filter(choice => !choicesAfter.includes(choice));
+  const keptBefore = choicesBefore.filter(choice => choicesAfter.includes(choice));
+  const keptAfter = choicesAfter.filter(choice => choicesBefore.includes(choice));
+  const reordered = keptAfter.some((choice, index) => choice !== keptBefore[index]);
+
+  return { property: 'choices', before: choicesBefore, after: choicesAfter, added, removed, reordered };
+}
+
+/**
+ * Aligns two sequences on the longest common subsequence of their keys. Between two
+ * aligned items, leftovers with the same fallback key are paired, then with `pairInPlace`
+ * the remaining leftovers by position if both sides have the same number. The rest are
+ * reported as removed (only in `a`) or added (only in `b`).
+ */
+function align<T>(a: T[], b: T[], key: (item: T) => string, fallbackKey: (item: T) => string, pairInPlace: boolean = false): AlignedPair<T>[] {
+  const keysA = a.map(key);
+  const keysB = b.map(key);
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = keysA[i] === keysB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: AlignedPair<T>[] = [];
+  let gapA: T[] = [];
+  let gapB: T[] = [];
+  const flushGap = () => {
+    const unmatchedB = [...gapB];
+    const gapPairs = gapA.map((itemA): AlignedPair<T> => {
+      const fallback = fallbackKey(itemA);
+      const matchIndex = fallback ? unmatchedB.findIndex(itemB => fallbackKey(itemB) === fallback) : -1;
+      return [itemA, matchIndex >= 0 ? unmatchedB.splice(matchIndex, 1)[0] : undefined];
+    });
+    // As many leftovers on both sides means they were edited in place, e.g. renumbered and reworded
+    const unmatchedA = gapPairs.filter(([, itemB]) => !itemB);
+    if (pairInPlace && unmatchedA.length === unmatchedB.length) {
+      unmatchedA.forEach(pair => pair[1] = unmatchedB.shift());
+    }
+    pairs.push(...gapPairs);
+    unmatchedB.forEach(itemB => pairs.push([undefined, itemB]));
+    gapA = [];
+    gapB = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (keysA[i] === keysB[j]) {
+      flushGap();
+      pairs.push([a[i++], b[j++]]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      gapA.push(a[i++]);
+    } else {
+      gapB.push(b[j++]);
+    }
+  }
+  gapA.push(...a.slice(i));
+  gapB.push(...b.slice(j));
+  flushGap();
+
+  return pairs;
+}
+
+function normalize(text: string): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function describe(survey: Survey, source: string): AnalysisDiffSide {
+  return {
+    source,
+    tuple: survey.metadata.tuple,
+    analysisDate: survey.metadata.analysisDate,
+    totalForms: survey.forms.length,
+    totalFields: survey.forms.reduce((sum, form) => sum + form.fields.length, 0)
+  };
+}
+
+function summarize(forms: FormDiff[]): AnalysisDiffSummary {
+  const summary: AnalysisDiffSummary = {
+    formsAdded: 0,
+    formsRemoved: 0,
+    formsChanged: 0,
+    questionsAdded: 0,
+    questionsRemoved: 0,
+    questionsChanged: 0,
+    questionTextChanges: 0,
+    choiceChanges: 0,
+    inputTypeChanges: 0,
+    requiredChanges: 0
+  };
+
+  for (const form of forms) {
+    if (form.status === 'added') summary.formsAdded++;
+    else if (form.status === 'removed') summary.formsRemoved++;
+    else if (form.status === 'changed') summary.formsChanged++;
+
+    for (const field of form.fields) {
+      if (field.status === 'added') summary.questionsAdded++;
+      else if (field.status === 'removed') summary.questionsRemoved++;
+      else if (field.status === 'changed') summary.questionsChanged++;
+
+      for (const change of field.changes) {
+        if (change.property === 'questionText') summary.questionTextChanges++;
+        else if (change.property === 'choices') summary.choiceChanges++;
+        else if (change.property === 'inputType') summary.inputTypeChanges++;
+        else summary.requiredChanges++;
+      }
+    }
+  }
+
+  return summary;
+}
+
+// Export singleton instance
+export const analysisDiffService = new AnalysisDiffService();
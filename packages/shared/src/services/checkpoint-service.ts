@@ -0,0 +1,105 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { SurveyForm, SurveyTuple } from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('checkpoint-service');
+
+export interface AnalysisCheckpoint {
+  url: string;
+  tuple: SurveyTuple;
+  startedAt: string;
+  updatedAt: string;
+  seed?: string;  // Seed of the test data, reused when the analysis is resumed
+  forms: SurveyForm[];
+}
+
+export class CheckpointService {
+  private readonly outputDir: string;
+  private readonly checkpointPath: string;
+
+  constructor(tuple: SurveyTuple, baseDir: string = '/app/output') {
+    this.outputDir = join(baseDir, tuple.customerId, tuple.studyId, tuple.packageName, tuple.language, tuple.version);
+    this.checkpointPath = join(this.outputDir, 'checkpoint.json');
+  }
+
+  /**
+   * Loads the forms captured by a previous run of the same survey.
+   * Forms are only kept up to the first one whose screenshots are missing on disk,
+   * so a resumed run re-captures anything that was not fully written.
+   */
+  load(url: string): AnalysisCheckpoint | null {
+    if (!existsSync(this.checkpointPath)) {
+      logger.info(`No checkpoint found at ${this.checkpointPath}`);
+      return null;
+    }
+
+    try {
+      const checkpoint: AnalysisCheckpoint = JSON.parse(readFileSync(this.checkpointPath, 'utf-8'));
+
+      if (checkpoint.url !== url) {
+        logger.warn(`Checkpoint was created for ${checkpoint.url}, not ${url}. Ignoring checkpoint.`);
+        return null;
+      }
+
+      const forms: SurveyForm[] = [];
+      for (const form of checkpoint.forms.sort((a, b) => (a.formIndex ?? 0) - (b.formIndex ?? 0))) {
+        if (form.formIndex !== forms.length) {
+          logger.warn(`Checkpoint is missing form ${forms.length + 1}, discarding later forms`);
+          break;
+        }
+        const missing = this.getScreenshotPaths(form).filter(file => !existsSync(join(this.outputDir, file)));
+        if (missing.length > 0) {
+          logger.warn(`Form ${forms.length + 1} has ${missing.length} missing screenshots, it will be re-captured`);
+          break;
+        }
+        forms.push(form);
+      }
+
+      logger.info(`Loaded checkpoint with ${forms.length} completed forms`);
+      return { ...checkpoint, forms };
+    } catch (error) {
+      logger.warn('Failed to read checkpoint, starting from the first form:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Writes the completed forms to disk. The file is written next to the
+   * screenshots and then renamed so a crash mid-write never corrupts it.
+   */
+  save(checkpoint: AnalysisCheckpoint): void {
+    try {
+      mkdirSync(this.outputDir, { recursive: true, mode: 0o777 });
+      const tempPath = `${this.checkpointPath}.tmp`;
+      writeFileSync(tempPath, JSON.stringify({ ...checkpoint, updatedAt: new Date().toISOString() }, null, 2));
+      renameSync(tempPath, this.checkpointPath);
+      logger.debug(`Checkpoint saved with ${checkpoint.forms.length} forms`);
+    } catch (error) {
+      logger.warn('Failed to save checkpoint:', error);
+    }
+  }
+
+  clear(): void {
+    if (existsSync(this.checkpointPath)) {
+      rmSync(this.checkpointPath, { force: true });
+      logger.debug(`Removed checkpoint ${this.checkpointPath}`);
+    }
+  }
+
+  getCheckpointPath(): string {
+    return this.checkpointPath;
+  }
+
+  private getScreenshotPaths(form: SurveyForm): string[] {
+    const paths: string[] = [];
+    if (form.onEntryScreenshot) paths.push(form.onEntryScreenshot);
+    if (form.onExitScreenshot) paths.push(form.onExitScreenshot);
+    paths.push(...Object.values(form.onEntryScreenshots || {}), ...Object.values(form.onExitScreenshots || {}));
+    form.fields.forEach(field => {
+      if (field.screenshotPath) paths.push(field.screenshotPath);
+      paths.push(...Object.values(field.screenshots || {}));
+    });
+    return Array.from(new Set(paths));
+  }
+}
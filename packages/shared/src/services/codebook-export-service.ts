@@ -0,0 +1,357 @@
+import { strToU8, zipSync } from 'fflate';
+import { Survey, SurveyField } from '../types/types.js';
+import { escapeXml } from './odm-export-service.js';
+
+// Columns of a REDCap data dictionary, in the order REDCap expects them on upload
+export const REDCAP_COLUMNS = [
+  'Variable / Field Name',
+  'Form Name',
+  'Section Header',
+  'Field Type',
+  'Field Label',
+  'Choices, Calculations, OR Slider Labels',
+  'Field Note',
+  'Text Validation Type OR Show Slider Number',
+  'Text Validation Min',
+  'Text Validation Max',
+  'Identifier?',
+  'Branching Logic (Show field only if...)',
+  'Required Field?',
+  'Custom Alignment',
+  'Question Number (surveys only)',
+  'Matrix Group Name',
+  'Matrix Ranking?',
+  'Field Annotation'
+];
+
+// REDCap field type and text validation of each input type
+const REDCAP_TYPES: Record<SurveyField['inputType'], { fieldType: string; validation?: string }> = {
+  text: { fieldType: 'text' },
+  textarea: { fieldType: 'notes' },
+  email: { fieldType: 'text', validation: 'email' },
+  phone: { fieldType: 'text', validation: 'phone' },
+  url: { fieldType: 'text' },
+  autocomplete_dropdown: { fieldType: 'dropdown' },
+  radio: { fieldType: 'radio' },
+  dropdown: { fieldType: 'dropdown' },
+  checkbox: { fieldType: 'checkbox' },
+  number: { fieldType: 'text', validation: 'integer' },
+  text_numeric: { fieldType: 'text', validation: 'integer' },
+  text_decimal: { fieldType: 'text', validation: 'number' },
+  NRS: { fieldType: 'radio' },
+  VAS: { fieldType: 'slider', validation: 'number' },
+  date: { fieldType: 'text', validation: 'date_ymd' }
+};
+
+// REDCap variable names are limited to lowercase letters, digits and underscores
+const MAX_VARIABLE_LENGTH = 26;
+
+// Excel refuses sheet names longer than 31 characters
+const MAX_SHEET_NAME_LENGTH = 31;
+
+export interface CodebookChoice {
+  position: number;   // 1-based position on the form
+  code: string;       // Numeric scales keep their own values, other choices are numbered
+  label: string;
+}
+
+export interface CodebookRow {
+  language: string;
+  formNumber: number;
+  formName: string;     // REDCap instrument name derived from the form's short name
+  formTitle: string;
+  questionNumber: string;
+  variable: string;
+  label: string;
+  inputType: SurveyField['inputType'];
+  fieldType: string;    // REDCap field type
+  validation?: string;  // REDCap text validation, or the slider number display for VAS
+  choices: CodebookChoice[];
+  required: boolean;
+  branchingLogic: string;  // REDCap syntax, e.g. [q3] = '1'
+  shownWhen: string;       // The same condition with choice labels, e.g. Q3 = "Yes"
+  screenshotPath: string;
+}
+
+/**
+ * Flattens an analysis into a codebook with one row per question: a REDCap data
+ * dictionary CSV for a single language and a generic XLSX workbook for one or more
+ * languages. Branching logic comes from each field's conditionalInfo. The service
+ * has no Node.js dependencies, so the UI builds the same files in the browser.
+ */
+export class CodebookExportService {
+  toRows(survey: Survey): CodebookRow[] {
+    const language = survey.metadata.tuple.language;
+    const formNames = new Set<string>();
+    const variables = new Set<string>();
+    const rows: CodebookRow[] = [];
+
+    survey.forms.forEach((form, formIndex) => {
+      const formName = uniqueName(toRedcapName(form.shortName || form.longTitle) || `form_${formIndex + 1}`, formNames);
+      const variablesByQuestion = new Map<string, string>();
+
+      const formRows = form.fields.map((field, fieldIndex): CodebookRow => {
+        const base = field.questionNumber ? `q${field.questionNumber}` : `${formName}_item${fieldIndex + 1}`;
+        const variable = uniqueName(toRedcapName(base), variables);
+        if (field.questionNumber) {
+          variablesByQuestion.set(field.questionNumber, variable);
+        }
+        const { fieldType, validation } = this.redcapType(field);
+
+        return {
+          language,
+          formNumber: formIndex + 1,
+          formName,
+          formTitle: form.longTitle,
+          questionNumber: field.questionNumber,
+          variable,
+          label: normalizeText(field.questionText),
+          inputType: field.inputType,
+          fieldType,
+          validation,
+          choices: this.choicesOf(field),
+          required: field.isRequired,
+          branchingLogic: '',
+          shownWhen: '',
+          screenshotPath: field.screenshotPath
+        };
+      });
+
+      // Conditions are resolved once the variables and codes of every question of the form are known
+      form.fields.forEach((field, fieldIndex) => {
+        const info = field.conditionalInfo;
+        if (!info?.isConditional) return;
+        const parent = form.fields.find(candidate => candidate.questionNumber === info.parentQuestion);
+        const parentRow = formRows.find(row => row.questionNumber === info.parentQuestion);
+        const value = String(info.parentValue);
+        const code = parentRow?.choices.find(choice => choice.label === value || choice.code === value)?.code || value;
+        const variable = variablesByQuestion.get(info.parentQuestion) || toRedcapName(`q${info.parentQuestion}`);
+
+        formRows[fieldIndex].branchingLogic = parent?.inputType === 'checkbox' && (parent.choices?.length || 0) > 0
+          ? `[${variable}(${code})] = '1'`
+          : `[${variable}] = '${code.replace(/'/g, '')}'`;
+        formRows[fieldIndex].shownWhen = `Q${info.parentQuestion} = "${value}"`;
+      });
+
+      rows.push(...formRows);
+    });
+
+    return rows;
+  }
+
+  /**
+   * REDCap data dictionary of one language, ready for Project Setup > Data Dictionary upload
+   */
+  toRedcapCsv(survey: Survey): string {
+    const lines = [REDCAP_COLUMNS.map(toCsvCell).join(',')];
+    let previousForm = '';
+
+    for (const row of this.toRows(survey)) {
+      const cells = [
+        row.variable,
+        row.formName,
+        row.formName !== previousForm ? row.formTitle : '',
+        row.fieldType,
+        row.label,
+        this.redcapChoices(row),
+        '',
+        row.validation || '',
+        '',
+        '',
+        '',
+        row.branchingLogic,
+        row.required ? 'y' : '',
+        '',
+        row.questionNumber,
+        '',
+        '',
+        [row.inputType === 'autocomplete_dropdown' ? '@AUTOCOMPLETE' : '', row.screenshotPath ? `Screenshot: ${row.screenshotPath}` : '']
+          .filter(Boolean)
+          .join(' ')
+      ];
+      previousForm = row.formName;
+      lines.push(cells.map(toCsvCell).join(','));
+    }
+
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * Generic codebook workbook: a Codebook sheet with one row per question and a Choices
+   * sheet with one row per choice, covering every given language
+   */
+  toXlsx(surveys: Survey[]): Uint8Array {
+    const rows = surveys.flatMap(survey => this.toRows(survey));
+
+    const codebook: SheetCell[][] = [
+      ['Language', 'Form #', 'Form', 'Form Title', 'Question #', 'Variable', 'Label', 'Input Type', 'REDCap Field Type', 'Required', 'Choices', 'Shown When', 'Branching Logic', 'Screenshot'],
+      ...rows.map(row => [
+        row.language,
+        row.formNumber,
+        row.formName,
+        row.formTitle,
+        row.questionNumber,
+        row.variable,
+        row.label,
+        row.inputType,
+        row.fieldType,
+        row.required ? 'Yes' : 'No',
+        row.choices.map(choice => `${choice.code} = ${choice.label}`).join('; '),
+        row.shownWhen,
+        row.branchingLogic,
+        row.screenshotPath
+      ])
+    ];
+
+    const choices: SheetCell[][] = [
+      ['Language', 'Form #', 'Form', 'Question #', 'Variable', 'Position', 'Code', 'Label'],
+      ...rows.flatMap(row => row.choices.map(choice => [
+        row.language,
+        row.formNumber,
+        row.formName,
+        row.questionNumber,
+        row.variable,
+        choice.position,
+        choice.code,
+        choice.label
+      ]))
+    ];
+
+    return buildWorkbook([
+      { name: 'Codebook', rows: codebook },
+      { name: 'Choices', rows: choices }
+    ]);
+  }
+
+  private redcapType(field: SurveyField): { fieldType: string; validation?: string } {
+    const type = REDCAP_TYPES[field.inputType] || { fieldType: 'text' };
+    // Choice types without detected choices cannot be described as such
+    if (['radio', 'dropdown', 'checkbox'].includes(type.fieldType) && !(field.choices?.length)) {
+      return field.inputType === 'checkbox' ? { fieldType: 'yesno' } : { fieldType: 'text' };
+    }
+    return type;
+  }
+
+  private choicesOf(field: SurveyField): CodebookChoice[] {
+    const choices = (field.choices || []).map(choice => normalizeText(choice));
+    const numeric = field.inputType !== 'autocomplete_dropdown' && choices.every(choice => /^-?\d+$/.test(choice));
+    return choices.map((label, index) => ({
+      position: index + 1,
+      code: numeric ? label : String(index + 1),
+      label
+    }));
+  }
+
+  // Sliders take up to three labels for the left, middle and right; other types take code, label pairs
+  private redcapChoices(row: CodebookRow): string {
+    if (row.fieldType === 'slider') {
+      return row.choices.slice(0, 3).map(choice => choice.label.replace(/\|/g, '/')).join(' | ');
+    }
+    if (!['radio', 'dropdown', 'checkbox'].includes(row.fieldType)) return '';
+    return row.choices.map(choice => `${choice.code}, ${choice.label.replace(/\|/g, '/')}`).join(' | ');
+  }
+}
+
+function normalizeText(value: string): string {
+  return (value || '').replace(/\s+/g, ' ').trim();
+}
+
+function toRedcapName(value: string): string {
+  const name = normalizeText(value).toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  const prefixed = /^[a-z]/.test(name) ? name : name ? `v_${name}` : '';
+  return prefixed.slice(0, MAX_VARIABLE_LENGTH).replace(/_+$/, '');
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let suffix = 2; used.has(candidate); suffix++) {
+    candidate = `${name.slice(0, MAX_VARIABLE_LENGTH - String(suffix).length - 1)}_${suffix}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+function toCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+type SheetCell = string | number;
+
+interface Sheet {
+  name: string;
+  rows: SheetCell[][];
+}
+
+// A1-style column letters: 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = '';
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    name = String.fromCharCode(65 + ((remaining - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(rows: SheetCell[][]): string {
+  const sheetRows = rows.map((cells, rowIndex) => {
+    const xmlCells = cells.map((cell, columnIndex) => {
+      const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+      // The header row uses the bold cell style
+      const style = rowIndex === 0 ? ' s="1"' : '';
+      return typeof cell === 'number'
+        ? `<c r="${reference}"${style}><v>${cell}</v></c>`
+        : `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${xmlCells.join('')}</row>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${sheetRows.join('')}</sheetData>` +
+    (rows.length > 1 ? `<autoFilter ref="A1:${columnName(rows[0].length - 1)}${rows.length}"/>` : '') +
+    '</worksheet>';
+}
+
+// Minimal Office Open XML package with inline strings, so no shared string table is needed
+function buildWorkbook(sheets: Sheet[]): Uint8Array {
+  const names = sheets.map(sheet => sheet.name.replace(/[\\/?*[\]:]/g, ' ').slice(0, MAX_SHEET_NAME_LENGTH));
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      names.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+      '</Types>'),
+    '_rels/.rels': strToU8('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'),
+    'xl/workbook.xml': strToU8('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>` +
+      '</workbook>'),
+    'xl/_rels/workbook.xml.rels': strToU8('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      names.map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('') +
+      `<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>'),
+    'xl/styles.xml': strToU8('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>')
+  };
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(sheetXml(sheet.rows));
+  });
+
+  return zipSync(files);
+}
+
+// Export singleton instance
+export const codebookExportService = new CodebookExportService();
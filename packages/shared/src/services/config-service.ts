@@ -0,0 +1,326 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { PlatformSelectors, SurveyPlatformAdapter } from '../form-analyzer/platforms/survey-platform-adapter.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('config-service');
+
+export const CONFIG_FILENAMES = ['.formshotrc', '.formshotrc.json', 'form-shot.config.json'];
+
+export interface FormShotDefaults {
+  navDelay: number;      // Seconds to pause before clicking navigation buttons
+  screenWidth: number;
+  screenHeight: number;
+  viewports: number[];   // Empty captures only screenWidth
+  platform: string;
+}
+
+// The delays are ceilings: waits end as soon as the survey DOM and network have settled
+export interface FormShotTimings {
+  navigationTimeout: number;  // ms for the initial page load
+  pageLoadDelay: number;      // Max ms for dynamic content to render after the page loaded
+  scrollSettleDelay: number;  // Max ms for lazy-loaded fields to appear after scrolling the form
+  renderSettleDelay: number;  // Max ms for rendering to settle before fields are detected or captured
+  interactionDelay: number;   // Max ms for the survey to react after a field was filled or clicked
+  selectorTimeout: number;    // ms to wait for survey elements to appear
+  domQuietPeriod: number;     // ms without DOM mutations or requests that counts as settled
+}
+
+export interface FormShotSelectors {
+  platform: Partial<PlatformSelectors>;  // Overrides of the platform adapter's selectors
+  validationMessages: string[];          // Scoped to the question card when checking validation
+  validationModals: string[];
+  sliderTracks: string[];                // Tried in addition to the platform's slider track
+}
+
+export interface FormShotSettings {
+  defaults: FormShotDefaults;
+  timings: FormShotTimings;
+  selectors: FormShotSelectors;
+}
+
+export type FormShotOverrides = {
+  [K in keyof FormShotSettings]?: Partial<FormShotSettings[K]>;
+};
+
+// Field type patterns are shared by every customer, so they are configured project-wide only
+export interface FormShotPatternSettings {
+  files: string[];     // JSON pattern files or directories of them, loaded on top of the built-in patterns
+  firestore: boolean;  // Also load patterns from and record usage in the field-type-patterns collection
+  usageFile: string;   // Cumulative usage statistics of the patterns
+  overridesFile: string;  // Field types assigned by people with import-classifications
+}
+
+/**
+ * Contents of a `.formshotrc` / `form-shot.config.json` file: project-wide overrides,
+ * plus overrides per customer ID that are applied on top of them.
+ */
+export interface FormShotConfig extends FormShotOverrides {
+  $schema?: string;
+  patterns?: Partial<FormShotPatternSettings>;
+  customers?: Record<string, FormShotOverrides>;
+}
+
+export const DEFAULT_SETTINGS: FormShotSettings = {
+  defaults: {
+    navDelay: 3,
+    screenWidth: 767,
+    screenHeight: 1024,
+    viewports: [],
+    platform: 'castor'
+  },
+  timings: {
+    navigationTimeout: 30000,
+    pageLoadDelay: 3000,
+    scrollSettleDelay: 3000,
+    renderSettleDelay: 2000,
+    interactionDelay: 1000,
+    selectorTimeout: 10000,
+    domQuietPeriod: 500
+  },
+  selectors: {
+    platform: {},
+    validationMessages: [
+      '.error',
+      '.validation-error',
+      '.field-error',
+      '.invalid-feedback',
+      '[class*="error"]',
+      '[role="alert"]'
+    ],
+    validationModals: [
+      '[role="dialog"]',
+      '[role="alertdialog"]',
+      '.modal',
+      '[class*="modal"]',
+      '[class*="popup"]',
+      '[class*="alert"]',
+      '[class*="Dialog"]',
+      '[class*="Modal"]',
+      '[class*="Popup"]'
+    ],
+    sliderTracks: [
+      '[class*="slider"]',
+      '[class*="Slider"]',
+      '[class*="vas"]',
+      '[class*="VAS"]',
+      '[role="slider"]',
+      'input[type="range"]'
+    ]
+  }
+};
+
+export const DEFAULT_PATTERN_SETTINGS: FormShotPatternSettings = {
+  files: [],
+  firestore: false,
+  usageFile: '/app/output/pattern-usage.json',
+  overridesFile: '/app/output/field-type-overrides.json'
+};
+
+type FieldKind = 'integer' | 'positiveIntegers' | 'string' | 'strings' | 'boolean';
+
+// Schema of FormShotSettings, mirrored by form-shot.config.schema.json
+const SETTINGS_SCHEMA: { [S in keyof FormShotSettings]: Record<string, FieldKind | Record<string, FieldKind>> } = {
+  defaults: {
+    navDelay: 'integer',
+    screenWidth: 'integer',
+    screenHeight: 'integer',
+    viewports: 'positiveIntegers',
+    platform: 'string'
+  },
+  timings: {
+    navigationTimeout: 'integer',
+    pageLoadDelay: 'integer',
+    scrollSettleDelay: 'integer',
+    renderSettleDelay: 'integer',
+    interactionDelay: 'integer',
+    selectorTimeout: 'integer',
+    domQuietPeriod: 'integer'
+  },
+  selectors: {
+    platform: { container: 'string', questionCard: 'string', sliderTrack: 'string', actionMenu: 'string', clearButton: 'string', monthYearDropdown: 'string' },
+    validationMessages: 'strings',
+    validationModals: 'strings',
+    sliderTracks: 'strings'
+  }
+};
+
+const PATTERN_SETTINGS_SCHEMA: Record<keyof FormShotPatternSettings, FieldKind> = {
+  files: 'strings',
+  firestore: 'boolean',
+  usageFile: 'string',
+  overridesFile: 'string'
+};
+
+/**
+ * Validates parsed config file contents, collecting every problem so a broken file
+ * can be fixed in one go. Unknown keys are rejected to catch typos.
+ */
+export function validateConfig(raw: unknown, source: string = 'config'): FormShotConfig {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    throw new Error(`Invalid configuration in ${source}: expected a JSON object`);
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === '$schema') {
+      if (typeof value !== 'string') errors.push('$schema: expected a string');
+    } else if (key === 'customers') {
+      if (!isObject(value)) {
+        errors.push('customers: expected an object keyed by customer ID');
+        continue;
+      }
+      for (const [customerId, overrides] of Object.entries(value)) {
+        validateOverrides(overrides, `customers.${customerId}`, errors);
+      }
+    } else if (key === 'patterns') {
+      validateSection(value, PATTERN_SETTINGS_SCHEMA, key, errors);
+    } else if (key in SETTINGS_SCHEMA) {
+      validateSection(value, SETTINGS_SCHEMA[key as keyof FormShotSettings], key, errors);
+    } else {
+      errors.push(`${key}: unknown setting`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration in ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return raw as FormShotConfig;
+}
+
+function validateOverrides(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  for (const [key, section] of Object.entries(value)) {
+    if (key in SETTINGS_SCHEMA) {
+      validateSection(section, SETTINGS_SCHEMA[key as keyof FormShotSettings], `${path}.${key}`, errors);
+    } else {
+      errors.push(`${path}.${key}: unknown setting`);
+    }
+  }
+}
+
+function validateSection(value: unknown, schema: Record<string, FieldKind | Record<string, FieldKind>>, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const kind = schema[key];
+    if (!kind) {
+      errors.push(`${path}.${key}: unknown setting`);
+    } else if (typeof kind === 'object') {
+      validateSection(fieldValue, kind, `${path}.${key}`, errors);
+    } else {
+      const problem = checkField(fieldValue, kind);
+      if (problem) errors.push(`${path}.${key}: ${problem}`);
+    }
+  }
+}
+
+function checkField(value: unknown, kind: FieldKind): string | null {
+  switch (kind) {
+    case 'integer':
+      return Number.isInteger(value) && (value as number) >= 0 ? null : 'expected a non-negative integer';
+    case 'positiveIntegers':
+      return Array.isArray(value) && value.every(item => Number.isInteger(item) && item > 0)
+        ? null
+        : 'expected an array of positive integers';
+    case 'string':
+      return typeof value === 'string' && value.trim().length > 0 ? null : 'expected a non-empty string';
+    case 'strings':
+      return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0)
+        ? null
+        : 'expected an array of non-empty strings';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'expected true or false';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeSettings(base: FormShotSettings, overrides?: FormShotOverrides): FormShotSettings {
+  if (!overrides) return base;
+  return {
+    defaults: { ...base.defaults, ...overrides.defaults },
+    timings: { ...base.timings, ...overrides.timings },
+    selectors: {
+      ...base.selectors,
+      ...overrides.selectors,
+      platform: { ...base.selectors.platform, ...overrides.selectors?.platform }
+    }
+  };
+}
+
+/**
+ * Loads the project configuration file and resolves the settings for a customer:
+ * built-in defaults, then the file's top-level settings, then the customer's overrides.
+ */
+export class ConfigService {
+  private config: FormShotConfig = {};
+  private source: string | null = null;
+
+  /**
+   * Loads `configPath`, or the first of CONFIG_FILENAMES found in the working directory.
+   * Without either, the built-in defaults are used.
+   */
+  load(configPath?: string): void {
+    const path = configPath
+      ? resolve(configPath)
+      : CONFIG_FILENAMES.map(filename => join(process.cwd(), filename)).find(candidate => existsSync(candidate));
+
+    if (!path) {
+      this.config = {};
+      this.source = null;
+      return;
+    }
+    if (!existsSync(path)) {
+      throw new Error(`Config file not found: ${path}`);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to parse config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.config = validateConfig(raw, path);
+    this.source = path;
+    const customers = Object.keys(this.config.customers || {});
+    logger.info(`Loaded configuration from ${path}${customers.length > 0 ? ` (customer overrides: ${customers.join(', ')})` : ''}`);
+  }
+
+  getSource(): string | null {
+    return this.source;
+  }
+
+  getSettings(customerId?: string): FormShotSettings {
+    const projectSettings = mergeSettings(DEFAULT_SETTINGS, this.config);
+    return customerId ? mergeSettings(projectSettings, this.config.customers?.[customerId]) : projectSettings;
+  }
+
+  getPatternSettings(): FormShotPatternSettings {
+    return { ...DEFAULT_PATTERN_SETTINGS, ...this.config.patterns };
+  }
+}
+
+/**
+ * Returns the adapter with its selectors replaced by the configured overrides. The adapter
+ * methods read `this.selectors`, so the shared registry instance stays untouched.
+ */
+export function applySelectorOverrides(platform: SurveyPlatformAdapter, overrides: Partial<PlatformSelectors>): SurveyPlatformAdapter {
+  if (Object.keys(overrides).length === 0) return platform;
+  return Object.create(platform, {
+    selectors: { value: { ...platform.selectors, ...overrides }, enumerable: true }
+  });
+}
+
+// Export singleton instance
+export const configService = new ConfigService();
@@ -1,8 +1,24 @@
 import admin from 'firebase-admin';
+import { createHash } from 'crypto';
 import { readFileSync, existsSync, readdirSync } from 'fs';
 import { join } from 'path';
-import { logger } from '../utils/logger.js';
-import { AnalysisOutput, Survey, SurveyField, SurveyForm, TestRunResult } from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import {
+  AnalysisOutput,
+  FieldTypeOverride,
+  PatternUsageDelta,
+  StoredFieldTypePattern,
+  Survey,
+  SurveyField,
+  SurveyForm,
+  TestRunResult,
+  UnknownField,
+  ViewportScreenshots
+} from '../types/types.js';
+import { compareVersions } from '../test-generator/field-type-registry.js';
+import { VisualRegressionReport } from './visual-regression-service.js';
+
+const logger = rootLogger.child('firestore');
 
 export class FirestoreService {
   private db!: admin.firestore.Firestore;
@@ -153,6 +169,26 @@ export class FirestoreService {
         
         // Cloud Storage references
         screenshotsPath: screenshotsPath,
+        viewports: metadata.viewports || [],
+        runId: metadata.runId || null,
+        
+        // Forms whose detected language differs from the tuple language
+        languageMismatchForms: metadata.languageMismatchForms || [],
+        hasLanguageMismatch: (metadata.languageMismatchForms || []).length > 0,
+
+        // Forms failing the right-to-left audit, only for audited analyses
+        rtlFailedForms: metadata.rtlFailedForms || null,
+        hasRtlFailure: (metadata.rtlFailedForms || []).length > 0,
+        
+        // Accessibility violations aggregated by rule, only for audited analyses
+        accessibility: metadata.accessibility || null,
+        accessibilityViolationCount: metadata.accessibility?.violations || 0,
+        
+        // Clipped, truncated or overlapping text across all forms
+        layoutIssueCount: this.countLayoutIssues(forms.flatMap(f => f.fields)),
+        
+        // Fields waiting for a person to classify their type
+        unknownFieldCount: (survey.unknownFields || []).length,
         
         // Status and tracking
         status: 'completed',
@@ -193,7 +229,15 @@ export class FirestoreService {
           onEntryScreenshot: form.onEntryScreenshot || '',
           onExitScreenshot: form.onExitScreenshot || '',
           onEntryScreenshotUrl: uploadedScreenshots[form.onEntryScreenshot || ''] || '',
-          onExitScreenshotUrl: uploadedScreenshots[form.onExitScreenshot || ''] || ''
+          onExitScreenshotUrl: uploadedScreenshots[form.onExitScreenshot || ''] || '',
+          viewports: form.viewports || [],
+          onEntryScreenshotUrls: this.getViewportScreenshotUrls(form.onEntryScreenshots, uploadedScreenshots),
+          onExitScreenshotUrls: this.getViewportScreenshotUrls(form.onExitScreenshots, uploadedScreenshots),
+          skipLogic: form.skipLogic || null,
+          languageCheck: form.languageCheck || null,
+          rtlAudit: form.rtlAudit || null,
+          accessibility: form.accessibility || null,
+          layoutIssueCount: this.countLayoutIssues(form.fields)
         };
         
         batch.set(formRef, formDoc);
@@ -217,6 +261,10 @@ export class FirestoreService {
             cardBoxSelector: field.cardBoxSelector,
             screenshotFilename: field.screenshotPath,
             screenshotUrl: uploadedScreenshots[field.screenshotPath] || '',
+            screenshotUrls: this.getViewportScreenshotUrls(field.screenshots, uploadedScreenshots),
+            constraints: field.constraints || null,
+            layoutIssues: field.layoutIssues || [],
+            conditionalInfo: field.conditionalInfo || null,
             order: fieldIndex + 1,
             formIndex: formIndex,
             // Store only test data metadata, not the test cases themselves
@@ -262,6 +310,9 @@ export class FirestoreService {
               if (testCase.position !== undefined) {
                 testCaseDoc.position = testCase.position;
               }
+              if (testCase.expected) {
+                testCaseDoc.expected = testCase.expected;
+              }
               
               batch.set(testCaseRef, testCaseDoc);
             });
@@ -269,6 +320,22 @@ export class FirestoreService {
         }
       }
 
+      // Add unknown fields, keeping the classification of fields classified after an earlier upload
+      if (survey.unknownFields && survey.unknownFields.length > 0) {
+        const unknownFieldsCollection = surveyRef.collection('unknown-fields');
+        const existing = await unknownFieldsCollection.get();
+        const classifiedIds = new Set(existing.docs.filter(doc => doc.data().classification).map(doc => doc.id));
+
+        for (const unknownField of survey.unknownFields) {
+          const { classification: _classification, needsClassification, ...unknownFieldDoc } = this.toUnknownFieldDoc(unknownField);
+          batch.set(unknownFieldsCollection.doc(unknownField.id), {
+            ...unknownFieldDoc,
+            ...(!classifiedIds.has(unknownField.id) && { needsClassification }),
+            createdAt: admin.firestore.FieldValue.serverTimestamp()
+          }, { merge: true });
+        }
+      }
+
       // Update customer metadata
       await this.updateCustomerMetadata(tuple.customerId, tuple.studyId);
       
@@ -366,6 +433,9 @@ export class FirestoreService {
           cardBoxSelector: field.cardBoxSelector,
           screenshotFilename: field.screenshotPath,
           screenshotUrl: uploadedScreenshots[field.screenshotPath] || '',
+          constraints: field.constraints || null,
+          layoutIssues: field.layoutIssues || [],
+          conditionalInfo: field.conditionalInfo || null,
           order: index + 1,
           // Store only test data metadata, not the test cases themselves
           testData: field.testData ? {
@@ -408,6 +478,9 @@ export class FirestoreService {
             if (testCase.position !== undefined) {
               testCaseDoc.position = testCase.position;
             }
+            if (testCase.expected) {
+              testCaseDoc.expected = testCase.expected;
+            }
             
             batch.set(testCaseRef, testCaseDoc);
           });
@@ -437,51 +510,29 @@ export class FirestoreService {
 
     logger.info(`Uploading form-level screenshots for form: ${form.shortName}`);
 
-    // Upload on-entry screenshot
-    if (form.onEntryScreenshot) {
-      try {
-        const localPath = join(screenshotsDir, form.onEntryScreenshot);
-        if (!existsSync(localPath)) {
-          logger.warn(`On-entry screenshot not found: ${localPath}`);
-        } else {
-          const cloudPath = `${basePath}/${form.onEntryScreenshot}`;
-          const file = bucket.file(cloudPath);
-          
-          await file.save(readFileSync(localPath), {
-            metadata: {
-              contentType: 'image/png',
-              metadata: {
-                type: 'on-entry',
-                formTitle: form.longTitle,
-                formShortName: form.shortName
-              }
-            }
-          });
+    const screenshotsByType = {
+      'on-entry': this.getScreenshotFilenames(form.onEntryScreenshot, form.onEntryScreenshots),
+      'on-exit': this.getScreenshotFilenames(form.onExitScreenshot, form.onExitScreenshots)
+    };
 
-          await file.makePublic();
-          uploadedScreenshots[form.onEntryScreenshot] = await this.getStorageUrl(bucket.name, cloudPath);
-          logger.debug(`Uploaded on-entry screenshot: ${form.onEntryScreenshot}`);
-        }
-      } catch (error) {
-        logger.error(`Failed to upload on-entry screenshot ${form.onEntryScreenshot}:`, error);
-      }
-    }
+    // Upload on-entry and on-exit screenshots for every captured viewport
+    for (const [type, filenames] of Object.entries(screenshotsByType)) {
+      for (const filename of filenames) {
+        try {
+          const localPath = join(screenshotsDir, filename);
+          if (!existsSync(localPath)) {
+            logger.warn(`${type} screenshot not found: ${localPath}`);
+            continue;
+          }
 
-    // Upload on-exit screenshot
-    if (form.onExitScreenshot) {
-      try {
-        const localPath = join(screenshotsDir, form.onExitScreenshot);
-        if (!existsSync(localPath)) {
-          logger.warn(`On-exit screenshot not found: ${localPath}`);
-        } else {
-          const cloudPath = `${basePath}/${form.onExitScreenshot}`;
+          const cloudPath = `${basePath}/${filename}`;
           const file = bucket.file(cloudPath);
           
           await file.save(readFileSync(localPath), {
             metadata: {
               contentType: 'image/png',
               metadata: {
-                type: 'on-exit',
+                type,
                 formTitle: form.longTitle,
                 formShortName: form.shortName
               }
@@ -489,11 +540,11 @@ export class FirestoreService {
           });
 
           await file.makePublic();
-          uploadedScreenshots[form.onExitScreenshot] = await this.getStorageUrl(bucket.name, cloudPath);
-          logger.debug(`Uploaded on-exit screenshot: ${form.onExitScreenshot}`);
+          uploadedScreenshots[filename] = await this.getStorageUrl(bucket.name, cloudPath);
+          logger.debug(`Uploaded ${type} screenshot: ${filename}`);
+        } catch (error) {
+          logger.error(`Failed to upload ${type} screenshot ${filename}:`, error);
         }
-      } catch (error) {
-        logger.error(`Failed to upload on-exit screenshot ${form.onExitScreenshot}:`, error);
       }
     }
 
@@ -507,38 +558,38 @@ export class FirestoreService {
     logger.info(`Uploading ${fields.length} screenshots to Cloud Storage`);
 
     for (const field of fields) {
-      if (!field.screenshotPath) continue;
-
-      try {
-        const localPath = join(screenshotsDir, field.screenshotPath);
-        if (!existsSync(localPath)) {
-          logger.warn(`Screenshot not found: ${localPath}`);
-          continue;
-        }
+      for (const filename of this.getScreenshotFilenames(field.screenshotPath, field.screenshots)) {
+        try {
+          const localPath = join(screenshotsDir, filename);
+          if (!existsSync(localPath)) {
+            logger.warn(`Screenshot not found: ${localPath}`);
+            continue;
+          }
 
-        const cloudPath = `${basePath}/${field.screenshotPath}`;
-        const file = bucket.file(cloudPath);
+          const cloudPath = `${basePath}/${filename}`;
+          const file = bucket.file(cloudPath);
         
-        await file.save(readFileSync(localPath), {
-          metadata: {
-            contentType: 'image/png',
+          await file.save(readFileSync(localPath), {
             metadata: {
-              questionNumber: field.questionNumber,
-              questionText: field.questionText
+              contentType: 'image/png',
+              metadata: {
+                questionNumber: field.questionNumber,
+                questionText: field.questionText
+              }
             }
-          }
-        });
+          });
 
-        // Make file publicly readable (optional - adjust based on security requirements)
-        await file.makePublic();
+          // Make file publicly readable (optional - adjust based on security requirements)
+          await file.makePublic();
         
-        // Get public URL
-        uploadedScreenshots[field.screenshotPath] = await this.getStorageUrl(bucket.name, cloudPath);
+          // Get public URL
+          uploadedScreenshots[filename] = await this.getStorageUrl(bucket.name, cloudPath);
         
-        logger.debug(`Uploaded screenshot: ${field.screenshotPath}`);
+          logger.debug(`Uploaded screenshot: ${filename}`);
         
-      } catch (error) {
-        logger.error(`Failed to upload screenshot ${field.screenshotPath}:`, error);
+        } catch (error) {
+          logger.error(`Failed to upload screenshot ${filename}:`, error);
+        }
       }
     }
 
@@ -546,6 +597,27 @@ export class FirestoreService {
     return uploadedScreenshots;
   }
 
+  /**
+   * Primary screenshot plus any per-viewport captures, without duplicates
+   */
+  private getScreenshotFilenames(primary: string | undefined, screenshots: ViewportScreenshots | undefined): string[] {
+    const filenames = [primary, ...Object.values(screenshots || {})].filter((f): f is string => !!f);
+    return Array.from(new Set(filenames));
+  }
+
+  /**
+   * Maps per-viewport screenshot filenames to their uploaded URLs, keyed by viewport width
+   */
+  private getViewportScreenshotUrls(screenshots: ViewportScreenshots | undefined, uploadedScreenshots: Record<string, string>): Record<string, string> {
+    const urls: Record<string, string> = {};
+    for (const [width, filename] of Object.entries(screenshots || {})) {
+      if (uploadedScreenshots[filename]) {
+        urls[width] = uploadedScreenshots[filename];
+      }
+    }
+    return urls;
+  }
+
   private async updateCustomerMetadata(customerId: string, studyId: string): Promise<void> {
     const customerRef = this.db.collection('customers').doc(customerId);
     
@@ -680,6 +752,122 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Reads an uploaded analysis back into the Survey structure of analysis.json, without
+   * test cases. Single-form analyses store their fields directly on the analysis document.
+   */
+  async getSurvey(analysisId: string): Promise<Survey> {
+    if (!this.initialized) {
+      throw new Error('Firestore service not initialized');
+    }
+
+    try {
+      const analysisDoc = await this.db.collection('survey-analyses').doc(analysisId).get();
+      if (!analysisDoc.exists) {
+        throw new Error(`Analysis not found: ${analysisId}`);
+      }
+
+      const data: any = analysisDoc.data();
+      const formsSnapshot = await analysisDoc.ref.collection('forms').orderBy('order').get();
+      const forms: SurveyForm[] = [];
+
+      if (formsSnapshot.empty) {
+        const fieldsSnapshot = await analysisDoc.ref.collection('fields').orderBy('order').get();
+        forms.push(this.toSurveyForm(data, fieldsSnapshot.docs.map(doc => doc.data()), data.url));
+      } else {
+        for (const formDoc of formsSnapshot.docs) {
+          const fieldsSnapshot = await formDoc.ref.collection('fields').orderBy('order').get();
+          forms.push(this.toSurveyForm(formDoc.data(), fieldsSnapshot.docs.map(doc => doc.data()), data.url));
+        }
+      }
+
+      return {
+        metadata: {
+          tuple: {
+            customerId: data.customerId,
+            studyId: data.studyId,
+            packageName: data.packageName,
+            language: data.language,
+            version: data.version
+          },
+          analysisDate: this.toIsoString(data.analysisDate),
+          url: data.url,
+          totalForms: forms.length,
+          viewports: data.viewports || [],
+          runId: data.runId || undefined,
+          languageMismatchForms: data.languageMismatchForms || undefined,
+          rtlFailedForms: data.rtlFailedForms || undefined,
+          accessibility: data.accessibility || undefined
+        },
+        forms
+      };
+    } catch (error) {
+      logger.error('Failed to get survey:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the analyses of every language of a package version, keyed by language
+   */
+  async getPackageSurveys(customerId: string, studyId: string, packageName: string, version: string): Promise<Record<string, Survey>> {
+    if (!this.initialized) {
+      throw new Error('Firestore service not initialized');
+    }
+
+    try {
+      const snapshot = await this.db.collection('survey-analyses')
+        .where('customerId', '==', customerId)
+        .where('studyId', '==', studyId)
+        .where('packageName', '==', packageName)
+        .where('version', '==', version)
+        .get();
+
+      const surveys: Record<string, Survey> = {};
+      for (const doc of snapshot.docs) {
+        surveys[doc.data().language] = await this.getSurvey(doc.id);
+      }
+      return surveys;
+    } catch (error) {
+      logger.error('Failed to get package surveys:', error);
+      throw error;
+    }
+  }
+
+  private toSurveyForm(formData: any, fieldsData: any[], url: string): SurveyForm {
+    return {
+      longTitle: formData.longTitle || '',
+      shortName: formData.shortName || '',
+      viewportHeight: formData.viewportHeight || 0,
+      url,
+      timestamp: this.toIsoString(formData.timestamp),
+      navigationButtons: formData.navigationButtons || [],
+      formIndex: formData.formIndex,
+      onEntryScreenshot: formData.onEntryScreenshot || undefined,
+      onExitScreenshot: formData.onExitScreenshot || undefined,
+      skipLogic: formData.skipLogic || undefined,
+      languageCheck: formData.languageCheck || undefined,
+      rtlAudit: formData.rtlAudit || undefined,
+      accessibility: formData.accessibility || undefined,
+      fields: fieldsData.map(field => ({
+        questionNumber: field.questionNumber,
+        questionText: field.questionText,
+        inputType: field.inputType,
+        isRequired: field.isRequired,
+        choices: field.choices && field.choices.length > 0 ? field.choices : undefined,
+        screenshotPath: field.screenshotFilename || '',
+        selector: field.selector,
+        cardBoxSelector: field.cardBoxSelector,
+        layoutIssues: field.layoutIssues && field.layoutIssues.length > 0 ? field.layoutIssues : undefined,
+        conditionalInfo: field.conditionalInfo || undefined
+      }))
+    };
+  }
+
+  private toIsoString(value: any): string {
+    return value && typeof value.toDate === 'function' ? value.toDate().toISOString() : value || '';
+  }
+
   async queryTestCases(filters: {
     analysisId?: string;
     customerId?: string;
@@ -802,6 +990,10 @@ export class FirestoreService {
     };
   }
 
+  private countLayoutIssues(fields: SurveyField[]): number {
+    return fields.reduce((sum, field) => sum + (field.layoutIssues?.length || 0), 0);
+  }
+
   async clearAllData(): Promise<void> {
     if (!this.initialized) {
       throw new Error('Firestore service not initialized');
@@ -902,6 +1094,295 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Stores a visual regression report under the current analysis, with its diff images
+   * in Cloud Storage, so the UI can show what visually changed against the baseline.
+   */
+  async uploadVisualDiff(report: VisualRegressionReport, reportDir: string): Promise<string> {
+    if (!this.initialized) {
+      throw new Error('Firestore service not initialized');
+    }
+
+    const docIdOf = (tuple: VisualRegressionReport['current']['tuple']) =>
+      `${tuple.customerId}_${tuple.studyId}_${tuple.packageName}_${tuple.language}_${tuple.version}`;
+    const analysisId = docIdOf(report.current.tuple);
+    const baselineId = docIdOf(report.baseline.tuple);
+
+    try {
+      logger.info(`Uploading visual diff of ${analysisId} against ${baselineId}`);
+
+      const { tuple } = report.current;
+      const diffImagesPath = `visual-diffs/${tuple.customerId}/${tuple.studyId}/${tuple.packageName}/${tuple.language}/${tuple.version}/${baselineId}`;
+      const bucket = this.storage.bucket();
+      const diffImageUrls: Record<string, string> = {};
+
+      for (const screenshot of report.forms.flatMap(form => form.screenshots)) {
+        if (!screenshot.diffImage || screenshot.status !== 'changed') continue;
+        try {
+          const cloudPath = `${diffImagesPath}/${screenshot.diffImage}`;
+          const file = bucket.file(cloudPath);
+          await file.save(readFileSync(join(reportDir, screenshot.diffImage)), {
+            metadata: {
+              contentType: 'image/png',
+              metadata: {
+                baseline: screenshot.baseline || '',
+                current: screenshot.current || ''
+              }
+            }
+          });
+          await file.makePublic();
+          diffImageUrls[screenshot.diffImage] = await this.getStorageUrl(bucket.name, cloudPath);
+        } catch (error) {
+          logger.error(`Failed to upload diff image ${screenshot.diffImage}:`, error);
+        }
+      }
+
+      const analysisRef = this.db.collection('survey-analyses').doc(analysisId);
+      await analysisRef.collection('visual-diffs').doc(baselineId).set({
+        baselineAnalysisId: baselineId,
+        baselineAnalysisDate: report.baseline.analysisDate,
+        generatedAt: admin.firestore.Timestamp.fromDate(new Date(report.generatedAt)),
+        // Firestore rejects the undefined question numbers, viewports and form indexes of the comparisons
+        options: JSON.parse(JSON.stringify(report.options)),
+        summary: report.summary,
+        diffImagesPath,
+        forms: JSON.parse(JSON.stringify(report.forms.map(form => ({
+          ...form,
+          screenshots: form.screenshots.map(screenshot => ({
+            ...screenshot,
+            diffImageUrl: screenshot.diffImage ? diffImageUrls[screenshot.diffImage] || '' : ''
+          }))
+        })))),
+        createdAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      await analysisRef.update({
+        lastVisualDiffAt: admin.firestore.FieldValue.serverTimestamp(),
+        lastVisualDiffBaselineId: baselineId,
+        lastVisualDiffMaxScore: report.summary.maxChangeScore
+      });
+
+      logger.info(`Uploaded visual diff with ${Object.keys(diffImageUrls).length} diff images`);
+      return analysisId;
+    } catch (error) {
+      logger.error('Failed to upload visual diff to Firestore:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Field type patterns of the `field-type-patterns` collection, including the usage-only
+   * documents of built-in patterns
+   */
+  async getFieldTypePatterns(): Promise<StoredFieldTypePattern[]> {
+    if (!this.initialized) {
+      throw new Error('Firestore service not initialized');
+    }
+
+    try {
+      const snapshot = await this.db.collection('field-type-patterns').get();
+      return snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          createdAt: this.toIsoString(data.createdAt),
+          updatedAt: this.toIsoString(data.updatedAt) || undefined
+        } as StoredFieldTypePattern;
+      });
+    } catch (error) {
+      logger.error('Failed to get field type patterns:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publishes a pattern definition. Only a newer version replaces the stored one, which is
+   * then kept under `versions/{version}`; the cumulative usage is left untouched.
+   */
+  async saveFieldTypePattern(pattern: StoredFieldTypePattern): Promise<boolean> {
+    if (!this.initialized) {
+      throw new Error('Firestore service not initialized');
+    }
+
+    try {
+      const patternRef = this.db.collection('field-type-patterns').doc(pattern.id);
+      const existing = await patternRef.get();
+      const existingData = existing.exists ? existing.data()! : undefined;
+
+      if (existingData?.patterns && compareVersions(pattern.version, existingData.version) <= 0) {
+        logger.info(`Skipped pattern ${pattern.id} v${pattern.version}: Firestore already has v${existingData.version}`);
+        return false;
+      }
+
+      const batch = this.db.batch();
+      if (existingData?.patterns) {
+        const { usage: _usage, ...previousVersion } = existingData;
+        batch.set(patternRef.collection('versions').doc(existingData.version), previousVersion);
+      }
+
+      const { usage: _usage, ...definition } = pattern;
+      batch.set(patternRef, {
+        ...definition,
+        createdAt: existingData?.createdAt || admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      }, { merge: true });
+      await batch.commit();
+
+      logger.info(`Saved pattern ${pattern.id} v${pattern.version}${existingData?.patterns ? ` (previous: v${existingData.version})` : ''}`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to save field type pattern ${pattern.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds the matches of a run to the cumulative usage of each pattern. Built-in patterns
+   * get a usage-only document.
+   */
+  async recordFieldTypePatternUsage(deltas: PatternUsageDelta[]): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('Firestore service not initialized');
+    }
+    if (deltas.length === 0) return;
+
+    try {
+      const batch = this.db.batch();
+      for (const delta of deltas) {
+        batch.set(this.db.collection('field-type-patterns').doc(delta.patternId), {
+          id: delta.patternId,
+          name: delta.name,
+          usage: {
+            totalMatches: admin.firestore.FieldValue.increment(delta.matches),
+            lastUsed: delta.lastUsed
+          }
+        }, { merge: true });
+      }
+      await batch.commit();
+      logger.info(`Recorded usage of ${deltas.length} field type patterns`);
+    } catch (error) {
+      logger.error('Failed to record field type pattern usage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unknown fields of one analysis, or of all analyses matching the customer and study.
+   * Classified fields are left out unless requested.
+   */
+  async getUnknownFields(filters: {
+    analysisId?: string;
+    customerId?: string;
+    studyId?: string;
+    includeClassified?: boolean;
+  } = {}): Promise<UnknownField[]> {
+    if (!this.initialized) {
+      throw new Error('Firestore service not initialized');
+    }
+
+    try {
+      // Filtered in memory, so the collection group query needs no index
+      const snapshot = filters.analysisId
+        ? await this.db.collection('survey-analyses').doc(filters.analysisId).collection('unknown-fields').get()
+        : await this.db.collectionGroup('unknown-fields').get();
+
+      return snapshot.docs
+        .map(doc => {
+          const { createdAt: _createdAt, updatedAt: _updatedAt, ...data } = doc.data();
+          return { ...data, id: doc.id } as UnknownField;
+        })
+        .filter(field => !filters.customerId || field.analysisMetadata?.customerId === filters.customerId)
+        .filter(field => !filters.studyId || field.analysisMetadata?.studyId === filters.studyId)
+        .filter(field => filters.includeClassified || field.needsClassification);
+    } catch (error) {
+      logger.error('Failed to get unknown fields:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the classification of an unknown field and updates the count of fields waiting
+   * for classification on its analysis
+   */
+  async saveUnknownFieldClassification(field: UnknownField): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('Firestore service not initialized');
+    }
+    const analysisId = field.analysisMetadata.analysisId;
+    if (!analysisId || !field.classification) {
+      throw new Error(`Unknown field ${field.id} has no analysis ID or classification`);
+    }
+
+    try {
+      const analysisRef = this.db.collection('survey-analyses').doc(analysisId);
+      const fieldRef = analysisRef.collection('unknown-fields').doc(field.id);
+      const existing = await fieldRef.get();
+
+      const batch = this.db.batch();
+      batch.set(fieldRef, {
+        ...this.toUnknownFieldDoc(field),
+        needsClassification: false,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      }, { merge: true });
+      if (existing.exists && existing.data()!.needsClassification) {
+        batch.update(analysisRef, { unknownFieldCount: admin.firestore.FieldValue.increment(-1) });
+      }
+      await batch.commit();
+    } catch (error) {
+      logger.error(`Failed to save classification of unknown field ${field.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Field types assigned by people, applied to matching questions in later analyses
+   */
+  async getFieldTypeOverrides(): Promise<FieldTypeOverride[]> {
+    if (!this.initialized) {
+      throw new Error('Firestore service not initialized');
+    }
+
+    try {
+      const snapshot = await this.db.collection('field-type-overrides').get();
+      return snapshot.docs.map(doc => {
+        const { updatedAt: _updatedAt, ...data } = doc.data();
+        return data as FieldTypeOverride;
+      });
+    } catch (error) {
+      logger.error('Failed to get field type overrides:', error);
+      throw error;
+    }
+  }
+
+  async saveFieldTypeOverrides(overrides: FieldTypeOverride[]): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('Firestore service not initialized');
+    }
+    if (overrides.length === 0) return;
+
+    try {
+      const batch = this.db.batch();
+      for (const override of overrides) {
+        // Override IDs hold question texts, which may contain slashes
+        const docId = createHash('sha1').update(override.id).digest('hex');
+        batch.set(this.db.collection('field-type-overrides').doc(docId), {
+          ...JSON.parse(JSON.stringify(override)),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+      }
+      await batch.commit();
+      logger.info(`Saved ${overrides.length} field type overrides to Firestore`);
+    } catch (error) {
+      logger.error('Failed to save field type overrides:', error);
+      throw error;
+    }
+  }
+
+  // Firestore rejects undefined values
+  private toUnknownFieldDoc(field: UnknownField): Record<string, any> {
+    return JSON.parse(JSON.stringify(field));
+  }
+
   async uploadTestRunResults(testRunResult: TestRunResult, outputDir: string): Promise<void> {
     if (!this.initialized) {
       throw new Error('Firestore service not initialized');
@@ -928,6 +1409,7 @@ export class FirestoreService {
         successfulTestCases: testRunResult.successfulTestCases,
         failedTestCases: testRunResult.failedTestCases,
         validationErrorsFound: testRunResult.validationErrorsFound,
+        unexpectedOutcomes: testRunResult.unexpectedOutcomes ?? 0,
         screenshotsPath,
         status: testRunResult.failedTestCases > 0 ? 'completed_with_failures' : 'completed',
         createdAt: admin.firestore.FieldValue.serverTimestamp()
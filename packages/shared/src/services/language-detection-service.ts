@@ -0,0 +1,146 @@
+import { francAll } from 'franc-min';
+import { data } from 'franc-min/data.js';
+import { expressions } from 'franc-min/expressions.js';
+import { iso6393To1 } from 'iso-639-3';
+import { LanguageCheck, Survey, SurveyForm } from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('language-detection');
+
+// Shorter samples are too ambiguous to classify: trigram profiles confuse short English
+// questions with French or Portuguese
+export const MIN_SAMPLE_LENGTH = 150;
+
+// The expected language must score this much below the top-scoring one to count as a
+// mismatch. franc scores relative to the longest possible distance, so related languages
+// stay close: English text scores French about 0.05 to 0.08 below English, while short
+// English samples misread as French have English only about 0.02 below the top.
+const MIN_MISMATCH_GAP = 0.04;
+
+// Choices with fewer words, like Yes/No, scale numbers or Male/Female, say little about the language
+const MIN_CHOICE_WORDS = 3;
+
+// Individual languages the detector reports whose ISO 639-1 code belongs to the macrolanguage
+const MACROLANGUAGE_CODES: Record<string, string> = {
+  arb: 'ar',
+  azj: 'az',
+  cmn: 'zh',
+  ckb: 'ku',
+  npi: 'ne',
+  pbu: 'ps',
+  pes: 'fa',
+  plt: 'mg',
+  swh: 'sw',
+  uzn: 'uz',
+  zlm: 'ms'
+};
+
+// Languages the detector knows: one per single-language script, plus the trigram profiles
+const SUPPORTED_LANGUAGES = new Set([
+  ...Object.keys(expressions).filter(code => /^[a-z]{3}$/.test(code)),
+  ...Object.values(data).flatMap(languages => Object.keys(languages))
+]);
+
+/**
+ * Offline identification of the language a form was rendered in, to catch surveys that
+ * silently fell back to another language than the tuple declares. Uses trigram profiles
+ * of the most widely spoken languages, so rare languages are reported as unsupported.
+ */
+export class LanguageDetectionService {
+  /**
+   * Classifies the form's title, question texts and longer choices as one sample. Short
+   * samples, and samples whose top language only narrowly beats the expected one, cannot
+   * be verified: they neither match nor count as a mismatch.
+   */
+  checkForm(form: SurveyForm, expectedLanguage: string): LanguageCheck {
+    const expected = toPrimaryLanguage(expectedLanguage);
+    const expectedCodes = toDetectorCodes(expected);
+    const sample = [
+      form.longTitle,
+      ...form.fields.flatMap(field => [
+        field.questionText,
+        ...(field.choices || []).filter(choice => choice.trim().split(/\s+/).length >= MIN_CHOICE_WORDS)
+      ])
+    ].filter(Boolean).join('\n').replace(/\d+/g, '');
+
+    const check: LanguageCheck = {
+      expected,
+      detected: 'und',
+      confidence: 0,
+      supported: expectedCodes.some(code => SUPPORTED_LANGUAGES.has(code)),
+      verified: false,
+      matches: false,
+      sampleLength: sample.length,
+      checkedAt: new Date().toISOString()
+    };
+
+    const scores = francAll(sample, { minLength: MIN_SAMPLE_LENGTH });
+    if (scores.length === 0 || scores[0][0] === 'und') {
+      return check;
+    }
+
+    if (!check.supported) {
+      return check;
+    }
+
+    // Scripts the expected language is not written in score 0
+    const top = toIso6391(scores[0][0]);
+    const gap = 1 - (scores.find(([code]) => expectedCodes.includes(code))?.[1] ?? 0);
+    if (top === expected) {
+      check.confidence = round(1 - (scores[1]?.[1] ?? 0));
+      check.detected = top;
+      check.verified = true;
+      check.matches = true;
+    } else if (gap >= MIN_MISMATCH_GAP) {
+      check.confidence = round(gap);
+      check.detected = top;
+      check.verified = true;
+    }
+    return check;
+  }
+
+  /**
+   * Checks every form and records the forms whose language disagrees with the tuple
+   */
+  checkSurvey(survey: Survey): number[] {
+    const { language } = survey.metadata.tuple;
+    const mismatchedForms: number[] = [];
+
+    survey.forms.forEach((form, index) => {
+      form.languageCheck = this.checkForm(form, language);
+      if (form.languageCheck.verified && !form.languageCheck.matches) {
+        mismatchedForms.push(index);
+        logger.warn(`Form ${index + 1} ("${form.longTitle}") looks like ${form.languageCheck.detected}, expected ${form.languageCheck.expected}`);
+      }
+    });
+
+    if (survey.forms.length > 0 && !survey.forms[0].languageCheck!.supported) {
+      logger.warn(`Language "${language}" is not supported by the language detector; forms were not verified`);
+    }
+
+    survey.metadata.languageMismatchForms = mismatchedForms;
+    return mismatchedForms;
+  }
+}
+
+// "fr-CA", "fr_CA", "FR" and "fra" all declare French
+function toPrimaryLanguage(language: string): string {
+  const primary = language.toLowerCase().split(/[-_]/)[0];
+  return primary.length === 3 ? toIso6391(primary) : primary;
+}
+
+function toIso6391(code: string): string {
+  return iso6393To1[code] || MACROLANGUAGE_CODES[code] || code;
+}
+
+function toDetectorCodes(language: string): string[] {
+  if (language.length === 3) return [language];
+  return Array.from(SUPPORTED_LANGUAGES).filter(code => toIso6391(code) === language);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Export singleton instance
+export const languageDetectionService = new LanguageDetectionService();
@@ -0,0 +1,311 @@
+import { Survey, SurveyField, SurveyForm } from '../types/types.js';
+
+export const ODM_VERSION = '1.3.2';
+const ODM_NAMESPACE = 'http://www.cdisc.org/ns/odm/v1.3';
+
+// ODM data types of each input type; coded choice fields store the code
+const DATA_TYPES: Record<SurveyField['inputType'], string> = {
+  text: 'text',
+  textarea: 'text',
+  email: 'text',
+  phone: 'text',
+  url: 'text',
+  autocomplete_dropdown: 'text',
+  radio: 'integer',
+  dropdown: 'integer',
+  checkbox: 'integer',
+  number: 'integer',
+  text_numeric: 'integer',
+  NRS: 'integer',
+  text_decimal: 'float',
+  VAS: 'float',
+  date: 'date'
+};
+
+// Input types whose choices are the possible answers rather than labels, like VAS anchors
+const CODED_INPUT_TYPES: Array<SurveyField['inputType']> = ['radio', 'dropdown', 'checkbox', 'autocomplete_dropdown', 'NRS'];
+
+interface ItemEntry {
+  oid: string;
+  field: SurveyField;
+  translations: Array<{ language: string; field: SurveyField }>;
+  codeListOid?: string;
+  conditionOid?: string;
+  conditions: Array<{ questionNumber: string; value: string }>;
+}
+
+interface FormEntry {
+  oid: string;
+  itemGroupOid: string;
+  form: SurveyForm;
+  translations: Array<{ language: string; form: SurveyForm }>;
+  items: ItemEntry[];
+}
+
+/**
+ * Maps an analysis onto CDISC ODM 1.3.2 study metadata: the package becomes a
+ * StudyEventDef, each form a FormDef with one ItemGroupDef, each question an ItemDef
+ * and its choices a CodeList. Analyses of other languages of the same package add
+ * TranslatedText elements; their questions are matched by question number.
+ */
+export class OdmExportService {
+  toOdm(survey: Survey, translations: Survey[] = []): string {
+    const { tuple } = survey.metadata;
+    const languages = [survey, ...translations].map(analysis => toXmlLanguage(analysis.metadata.tuple.language));
+    const forms = this.collectForms(survey, translations);
+    const studyEventOid = `SE.${toOid(tuple.packageName)}`;
+    const creationDateTime = new Date().toISOString();
+
+    const xml = new XmlWriter();
+    xml.raw('<?xml version="1.0" encoding="UTF-8"?>');
+    xml.open('ODM', {
+      xmlns: ODM_NAMESPACE,
+      FileType: 'Snapshot',
+      FileOID: `form-shot.${toOid(tuple.customerId)}.${toOid(tuple.studyId)}.${toOid(tuple.packageName)}.${toOid(tuple.version)}`,
+      CreationDateTime: creationDateTime,
+      ODMVersion: ODM_VERSION,
+      Originator: 'form-shot',
+      SourceSystem: 'form-shot',
+      Description: `Structure detected on ${survey.metadata.url} in ${languages.join(', ')}`
+    });
+    xml.open('Study', { OID: `ST.${toOid(tuple.studyId)}` });
+
+    xml.open('GlobalVariables');
+    xml.element('StudyName', {}, tuple.studyId);
+    xml.element('StudyDescription', {}, `${tuple.customerId} ${tuple.studyId}`);
+    xml.element('ProtocolName', {}, tuple.studyId);
+    xml.close('GlobalVariables');
+
+    xml.open('MetaDataVersion', {
+      OID: `MDV.${toOid(tuple.packageName)}.${toOid(tuple.version)}`,
+      Name: `${tuple.packageName} ${tuple.version}`,
+      Description: `Analyzed ${survey.metadata.analysisDate}`
+    });
+
+    xml.open('Protocol');
+    xml.element('StudyEventRef', { StudyEventOID: studyEventOid, OrderNumber: 1, Mandatory: 'Yes' });
+    xml.close('Protocol');
+
+    xml.open('StudyEventDef', { OID: studyEventOid, Name: tuple.packageName, Repeating: 'No', Type: 'Scheduled' });
+    forms.forEach((entry, index) => xml.element('FormRef', { FormOID: entry.oid, OrderNumber: index + 1, Mandatory: 'Yes' }));
+    xml.close('StudyEventDef');
+
+    for (const entry of forms) {
+      xml.open('FormDef', { OID: entry.oid, Name: entry.form.shortName || entry.form.longTitle, Repeating: 'No' });
+      this.translatedText(xml, 'Description', [
+        { language: languages[0], text: entry.form.longTitle },
+        ...entry.translations.map(translation => ({ language: translation.language, text: translation.form.longTitle }))
+      ]);
+      xml.element('ItemGroupRef', { ItemGroupOID: entry.itemGroupOid, OrderNumber: 1, Mandatory: 'Yes' });
+      xml.close('FormDef');
+    }
+
+    for (const entry of forms) {
+      xml.open('ItemGroupDef', { OID: entry.itemGroupOid, Name: entry.form.shortName || entry.form.longTitle, Repeating: 'No' });
+      entry.items.forEach((item, index) => xml.element('ItemRef', {
+        ItemOID: item.oid,
+        OrderNumber: index + 1,
+        Mandatory: item.field.isRequired ? 'Yes' : 'No',
+        CollectionExceptionConditionOID: item.conditionOid
+      }));
+      xml.close('ItemGroupDef');
+    }
+
+    const items = forms.flatMap(entry => entry.items);
+    for (const item of items) {
+      xml.open('ItemDef', {
+        OID: item.oid,
+        Name: item.field.questionNumber ? `Q${item.field.questionNumber}` : item.oid,
+        DataType: this.dataType(item.field)
+      });
+      this.translatedText(xml, 'Question', [
+        { language: languages[0], text: item.field.questionText },
+        ...item.translations.map(translation => ({ language: translation.language, text: translation.field.questionText }))
+      ]);
+      if (item.codeListOid) {
+        xml.element('CodeListRef', { CodeListOID: item.codeListOid });
+      }
+      xml.element('Alias', { Context: 'form-shot:inputType', Name: item.field.inputType });
+      if (item.field.inputType === 'checkbox' && (item.field.choices?.length || 0) > 1) {
+        xml.element('Alias', { Context: 'form-shot:multipleChoice', Name: 'Yes' });
+      }
+      xml.close('ItemDef');
+    }
+
+    for (const item of items.filter(candidate => candidate.codeListOid)) {
+      const coded = usesChoicesAsCodes(item.field);
+      xml.open('CodeList', { OID: item.codeListOid, Name: `${item.field.questionNumber ? `Q${item.field.questionNumber}` : item.oid} choices`, DataType: this.dataType(item.field) });
+      item.field.choices!.forEach((choice, index) => {
+        xml.open('CodeListItem', { CodedValue: coded ? choice.trim() : index + 1, OrderNumber: index + 1 });
+        this.translatedText(xml, 'Decode', [
+          { language: languages[0], text: choice },
+          ...item.translations
+            .filter(translation => translation.field.choices && index < translation.field.choices.length)
+            .map(translation => ({ language: translation.language, text: translation.field.choices![index] }))
+        ]);
+        xml.close('CodeListItem');
+      });
+      xml.close('CodeList');
+    }
+
+    // ODM only describes when an item is not collected, so the conditions are negated
+    for (const item of items.filter(candidate => candidate.conditionOid)) {
+      const shownWhen = item.conditions.map(condition => `Q${condition.questionNumber} = "${condition.value}"`).join(' or ');
+      xml.open('ConditionDef', { OID: item.conditionOid, Name: `Q${item.field.questionNumber} shown` });
+      this.translatedText(xml, 'Description', [{ language: languages[0], text: `Asked only when ${shownWhen}` }]);
+      xml.element('FormalExpression', { Context: 'form-shot' }, `not (${shownWhen})`);
+      xml.close('ConditionDef');
+    }
+
+    xml.close('MetaDataVersion');
+    xml.close('Study');
+    xml.close('ODM');
+    return xml.toString();
+  }
+
+  private collectForms(survey: Survey, translations: Survey[]): FormEntry[] {
+    const formOids = new Set<string>();
+
+    return survey.forms.map((form, formIndex) => {
+      const formKey = uniqueOid(toOid(form.shortName) || `FORM${formIndex + 1}`, formOids);
+      const translatedForms = translations
+        .filter(translation => formIndex < translation.forms.length)
+        .map(translation => ({ language: toXmlLanguage(translation.metadata.tuple.language), form: translation.forms[formIndex] }));
+      const itemOids = new Set<string>();
+
+      const items = form.fields.map((field, fieldIndex): ItemEntry => {
+        const oid = `I.${formKey}.${uniqueOid(field.questionNumber ? `Q${toOid(field.questionNumber)}` : `ITEM${fieldIndex + 1}`, itemOids)}`;
+        const conditions = this.conditionsOf(form, field);
+        return {
+          oid,
+          field,
+          translations: translatedForms
+            .map(translated => ({ language: translated.language, field: findTranslatedField(field, fieldIndex, form, translated.form) }))
+            .filter((translation): translation is { language: string; field: SurveyField } => !!translation.field),
+          codeListOid: this.hasCodeList(field) ? oid.replace(/^I\./, 'CL.') : undefined,
+          conditionOid: conditions.length > 0 ? oid.replace(/^I\./, 'COND.') : undefined,
+          conditions
+        };
+      });
+
+      return {
+        oid: `F.${formKey}`,
+        itemGroupOid: `IG.${formKey}`,
+        form,
+        translations: translatedForms,
+        items
+      };
+    });
+  }
+
+  // The skip logic graph lists every answer revealing the question; conditionalInfo only the first one seen
+  private conditionsOf(form: SurveyForm, field: SurveyField): Array<{ questionNumber: string; value: string }> {
+    const fromGraph = (form.skipLogic?.triggers || []).flatMap(trigger => trigger.branches
+      .filter(branch => branch.revealedQuestions.includes(field.questionNumber))
+      .map(branch => ({ questionNumber: trigger.questionNumber, value: branch.value })));
+    if (fromGraph.length > 0) return fromGraph;
+
+    const info = field.conditionalInfo;
+    return info?.isConditional ? [{ questionNumber: info.parentQuestion, value: String(info.parentValue) }] : [];
+  }
+
+  private hasCodeList(field: SurveyField): boolean {
+    return CODED_INPUT_TYPES.includes(field.inputType) && (field.choices?.length || 0) > 0 && this.dataType(field) !== 'boolean';
+  }
+
+  private dataType(field: SurveyField): string {
+    if (field.inputType === 'checkbox' && (field.choices?.length || 0) <= 1) return 'boolean';
+    return DATA_TYPES[field.inputType] || 'text';
+  }
+
+  private translatedText(xml: XmlWriter, element: string, texts: Array<{ language: string; text: string }>): void {
+    xml.open(element);
+    texts.forEach(({ language, text }) => xml.element('TranslatedText', { 'xml:lang': language }, text.replace(/\s+/g, ' ').trim()));
+    xml.close(element);
+  }
+}
+
+// Numeric scales such as NRS 0-10 keep their own values as codes, other choices are numbered
+function usesChoicesAsCodes(field: SurveyField): boolean {
+  return field.inputType !== 'autocomplete_dropdown' && (field.choices || []).every(choice => /^-?\d+$/.test(choice.trim()));
+}
+
+function findTranslatedField(field: SurveyField, fieldIndex: number, form: SurveyForm, translatedForm: SurveyForm): SurveyField | undefined {
+  const numbered = form.fields.every(candidate => candidate.questionNumber) && translatedForm.fields.every(candidate => candidate.questionNumber);
+  return numbered
+    ? translatedForm.fields.find(candidate => candidate.questionNumber === field.questionNumber)
+    : translatedForm.fields[fieldIndex];
+}
+
+function toOid(value: string): string {
+  return (value || '').trim().replace(/[^A-Za-z0-9_.-]+/g, '_').replace(/^_+|_+$/g, '').toUpperCase();
+}
+
+function uniqueOid(oid: string, used: Set<string>): string {
+  let candidate = oid;
+  for (let suffix = 2; used.has(candidate); suffix++) {
+    candidate = `${oid}_${suffix}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+// xml:lang takes BCP 47 tags, which separate subtags with hyphens
+function toXmlLanguage(language: string): string {
+  return language.replace(/_/g, '-');
+}
+
+/**
+ * Escapes text and attribute values and drops the control characters XML 1.0 does not allow
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+class XmlWriter {
+  private lines: string[] = [];
+  private depth = 0;
+
+  raw(line: string): void {
+    this.lines.push(line);
+  }
+
+  open(name: string, attributes: Record<string, string | number | undefined> = {}): void {
+    this.lines.push(`${this.indent()}<${name}${this.attributes(attributes)}>`);
+    this.depth++;
+  }
+
+  close(name: string): void {
+    this.depth--;
+    this.lines.push(`${this.indent()}</${name}>`);
+  }
+
+  element(name: string, attributes: Record<string, string | number | undefined> = {}, text?: string): void {
+    this.lines.push(text === undefined
+      ? `${this.indent()}<${name}${this.attributes(attributes)}/>`
+      : `${this.indent()}<${name}${this.attributes(attributes)}>${escapeXml(text)}</${name}>`);
+  }
+
+  toString(): string {
+    return `${this.lines.join('\n')}\n`;
+  }
+
+  private indent(): string {
+    return '  '.repeat(this.depth);
+  }
+
+  private attributes(attributes: Record<string, string | number | undefined>): string {
+    return Object.entries(attributes)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+      .join('');
+  }
+}
+
+// Export singleton instance
+export const odmExportService = new OdmExportService();
@@ -0,0 +1,206 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import { FieldTypeRegistry, fieldTypeRegistry, fromStoredPattern } from '../test-generator/field-type-registry.js';
+import { FieldTypeOverride, PatternUsageDelta, StoredFieldTypePattern } from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import { FormShotPatternSettings } from './config-service.js';
+import { FirestoreService } from './firestore.js';
+
+const logger = rootLogger.child('pattern-store');
+
+export const FIRESTORE_PATTERN_SOURCE = 'firestore:field-type-patterns';
+
+// Contents of the usage file, keyed by pattern ID
+interface PatternUsageFile {
+  updatedAt: string;
+  patterns: Record<string, { name: string; totalMatches: number; lastUsed: string }>;
+}
+
+// Contents of the overrides file
+interface FieldTypeOverridesFile {
+  updatedAt: string;
+  overrides: FieldTypeOverride[];
+}
+
+/**
+ * Persists field type patterns outside the code: definitions come from JSON files and the
+ * Firestore `field-type-patterns` collection, and the matches of every run are added to the
+ * cumulative usage in the usage file and, when enabled, in Firestore. Firestore's totals
+ * take precedence over the file's, as they cover every machine. Human-assigned field types
+ * are kept the same way in the overrides file and the `field-type-overrides` collection.
+ */
+export class PatternStoreService {
+  private firestoreService: FirestoreService | null = null;
+
+  async load(settings: FormShotPatternSettings, registry: FieldTypeRegistry = fieldTypeRegistry): Promise<void> {
+    for (const file of settings.files) {
+      for (const { path, patterns } of this.readPatternFiles(file)) {
+        registry.loadPatterns(patterns, path);
+      }
+    }
+
+    const usage = this.readUsageFile(settings.usageFile);
+    Object.entries(usage.patterns).forEach(([patternId, { totalMatches, lastUsed }]) =>
+      registry.applyUsage(patternId, { totalMatches, successRate: 1.0, lastUsed }));
+    this.readOverridesFile(settings.overridesFile).overrides.forEach(override => registry.registerOverride(override));
+
+    const firestore = this.getFirestore(settings);
+    if (firestore) {
+      try {
+        registry.loadPatterns(await firestore.getFieldTypePatterns(), FIRESTORE_PATTERN_SOURCE);
+        (await firestore.getFieldTypeOverrides()).forEach(override => registry.registerOverride(override));
+      } catch (error) {
+        logger.warn('Continuing without the Firestore field type patterns:', error);
+      }
+    }
+
+    const overrides = registry.getOverrides().length;
+    if (overrides > 0) {
+      logger.info(`Applying ${overrides} field type overrides`);
+    }
+  }
+
+  /**
+   * Stores human-assigned field types so later analyses apply them. An explicitly given
+   * Firestore service is used even if Firestore is not enabled in the settings.
+   */
+  async saveOverrides(
+    settings: FormShotPatternSettings,
+    overrides: FieldTypeOverride[],
+    firestoreService?: FirestoreService,
+    registry: FieldTypeRegistry = fieldTypeRegistry
+  ): Promise<void> {
+    if (overrides.length === 0) return;
+
+    const path = resolve(settings.overridesFile);
+    const stored = new Map(this.readOverridesFile(path).overrides.map(override => [override.id, override]));
+    overrides.forEach(override => {
+      stored.set(override.id, override);
+      registry.registerOverride(override);
+    });
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify({ updatedAt: new Date().toISOString(), overrides: Array.from(stored.values()) }, null, 2));
+    logger.info(`Saved ${overrides.length} field type overrides to ${path}`);
+
+    const firestore = firestoreService || this.getFirestore(settings);
+    if (firestore) {
+      await firestore.saveFieldTypeOverrides(overrides);
+    }
+  }
+
+  /**
+   * Adds the matches recorded since the last call to the cumulative usage
+   */
+  async saveUsage(settings: FormShotPatternSettings, registry: FieldTypeRegistry = fieldTypeRegistry): Promise<PatternUsageDelta[]> {
+    const deltas = registry.takeUsageDeltas();
+    if (deltas.length === 0) return deltas;
+
+    const path = resolve(settings.usageFile);
+    const usage = this.readUsageFile(path);
+    for (const delta of deltas) {
+      const entry = usage.patterns[delta.patternId] || { name: delta.name, totalMatches: 0, lastUsed: '' };
+      entry.name = delta.name;
+      entry.totalMatches += delta.matches;
+      entry.lastUsed = delta.lastUsed;
+      usage.patterns[delta.patternId] = entry;
+    }
+    usage.updatedAt = new Date().toISOString();
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(usage, null, 2));
+      logger.info(`Recorded ${deltas.reduce((sum, delta) => sum + delta.matches, 0)} pattern matches in ${path}`);
+    } catch (error) {
+      logger.warn(`Failed to write pattern usage to ${path}:`, error);
+    }
+
+    const firestore = this.getFirestore(settings);
+    if (firestore) {
+      try {
+        await firestore.recordFieldTypePatternUsage(deltas);
+      } catch (error) {
+        logger.warn('Failed to record pattern usage in Firestore:', error);
+      }
+    }
+    return deltas;
+  }
+
+  /**
+   * Reads a pattern file, or every .json file of a directory in name order. A file holds
+   * one pattern, an array of patterns or an object with a `patterns` array; each pattern
+   * is validated so a broken file stops the command with the offending path.
+   */
+  readPatternFiles(path: string): Array<{ path: string; patterns: StoredFieldTypePattern[] }> {
+    const fullPath = resolve(path);
+    if (!existsSync(fullPath)) {
+      throw new Error(`Pattern file not found: ${fullPath}`);
+    }
+
+    const files = statSync(fullPath).isDirectory()
+      ? readdirSync(fullPath).filter(name => extname(name) === '.json').sort().map(name => join(fullPath, name))
+      : [fullPath];
+
+    return files.map(file => {
+      let raw: any;
+      try {
+        raw = JSON.parse(readFileSync(file, 'utf8'));
+      } catch (error) {
+        throw new Error(`Failed to parse pattern file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const patterns: StoredFieldTypePattern[] = Array.isArray(raw) ? raw : Array.isArray(raw?.patterns) ? raw.patterns : [raw];
+      patterns.forEach(pattern => {
+        try {
+          fromStoredPattern(pattern);
+        } catch (error) {
+          throw new Error(`${error instanceof Error ? error.message : String(error)} in ${file}`);
+        }
+      });
+      return { path: file, patterns: patterns.map(pattern => ({ ...pattern, source: file })) };
+    });
+  }
+
+  private readOverridesFile(path: string): FieldTypeOverridesFile {
+    const fullPath = resolve(path);
+    if (!existsSync(fullPath)) {
+      return { updatedAt: '', overrides: [] };
+    }
+    try {
+      const file = JSON.parse(readFileSync(fullPath, 'utf8')) as FieldTypeOverridesFile;
+      return { updatedAt: file.updatedAt || '', overrides: file.overrides || [] };
+    } catch (error) {
+      logger.warn(`Ignoring unreadable field type overrides file ${fullPath}:`, error);
+      return { updatedAt: '', overrides: [] };
+    }
+  }
+
+  private readUsageFile(path: string): PatternUsageFile {
+    const fullPath = resolve(path);
+    if (!existsSync(fullPath)) {
+      return { updatedAt: '', patterns: {} };
+    }
+    try {
+      const usage = JSON.parse(readFileSync(fullPath, 'utf8')) as PatternUsageFile;
+      return { updatedAt: usage.updatedAt || '', patterns: usage.patterns || {} };
+    } catch (error) {
+      logger.warn(`Ignoring unreadable pattern usage file ${fullPath}:`, error);
+      return { updatedAt: '', patterns: {} };
+    }
+  }
+
+  // Created on first use; without credentials the patterns stay local
+  private getFirestore(settings: FormShotPatternSettings): FirestoreService | null {
+    if (!settings.firestore) return null;
+    if (!this.firestoreService) {
+      try {
+        this.firestoreService = new FirestoreService();
+      } catch (error) {
+        logger.warn('Firestore is unavailable, field type patterns stay local:', error);
+        return null;
+      }
+    }
+    return this.firestoreService;
+  }
+}
+
+// Export singleton instance
+export const patternStoreService = new PatternStoreService();
@@ -12,7 +12,9 @@ import {
   BatchOperationResult,
   ConfigurationExport,
 } from '../types/report-types.js';
-import { logger } from '../utils/logger.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('report-configuration-service');
 
 type Timestamp = admin.firestore.Timestamp;
 type DocumentData = admin.firestore.DocumentData;
@@ -43,6 +45,7 @@ export class ReportConfigurationService {
       const configData = {
         ...input,
         includeMetadata: input.includeMetadata ?? true,
+        includeAccessibility: input.includeAccessibility ?? false,
         pageOrientation: input.pageOrientation ?? 'portrait',
         pageSize: input.pageSize ?? 'A4',
         screenshotType: input.screenshotType ?? 'on-exit',
@@ -223,6 +226,7 @@ export class ReportConfigurationService {
         formOrder: [...original.formOrder],
         selectedLanguages: [...original.selectedLanguages],
         includeMetadata: original.includeMetadata,
+        includeAccessibility: original.includeAccessibility ?? false,
         pageOrientation: original.pageOrientation,
         pageSize: original.pageSize,
         screenshotType: original.screenshotType,
@@ -0,0 +1,198 @@
+import { Page } from 'puppeteer';
+import { RtlAudit, RtlFinding, Survey, SurveyForm } from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('rtl-audit');
+
+// Primary language subtags of scripts written right to left
+export const RTL_LANGUAGES = ['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'iw', 'ks', 'ku', 'ps', 'sd', 'syr', 'ug', 'ur', 'yi'];
+
+/**
+ * Verifies on the live page that a right-to-left form is mirrored: the document direction,
+ * right-aligned question text, choices running from right to left, sliders starting at the
+ * right and the next button on the left. Every check is measured on the rendered layout,
+ * so a form that sets dir="rtl" but overrides it with CSS still fails.
+ */
+export class RtlAuditService {
+  isRtlLanguage(language: string): boolean {
+    return RTL_LANGUAGES.includes(language.toLowerCase().split(/[-_]/)[0]);
+  }
+
+  async auditForm(page: Page, form: SurveyForm, containerSelector: string, language: string): Promise<RtlAudit> {
+    const fields = form.fields.map(field => ({
+      questionNumber: field.questionNumber,
+      cardBoxSelector: field.cardBoxSelector,
+      isScale: field.inputType === 'VAS' || field.inputType === 'NRS'
+    }));
+    const buttons = form.navigationButtons.map(button => ({ type: button.type, selector: button.selector }));
+
+    const findings: RtlFinding[] = await page.evaluate((formSelector, fieldInfos, navigationButtons) => {
+      const results: RtlFinding[] = [];
+      const container = document.querySelector(formSelector) || document.body;
+      const TOLERANCE = 4;
+
+      const hasOwnText = (element: Element) => Array.from(element.childNodes)
+        .some(node => node.nodeType === Node.TEXT_NODE && (node.textContent || '').trim().length > 0);
+      const textBox = (element: Element) => {
+        const range = document.createRange();
+        range.selectNodeContents(element);
+        return range.getBoundingClientRect();
+      };
+      const isVisible = (element: Element) => {
+        const rect = element.getBoundingClientRect();
+        return rect.width > 0 && rect.height > 0 && window.getComputedStyle(element).visibility !== 'hidden';
+      };
+      const sameRow = (a: DOMRect, b: DOMRect) => Math.abs((a.top + a.bottom) / 2 - (b.top + b.bottom) / 2) < Math.min(a.height, b.height) / 2;
+      const runsRightToLeft = (rects: DOMRect[]) => rects.every((rect, index) => index === 0 || rect.left < rects[index - 1].left);
+
+      // 1. The direction must be declared and must survive the page's CSS
+      const declared = container.closest('[dir]')?.getAttribute('dir') || document.documentElement.getAttribute('dir') || '';
+      const computed = window.getComputedStyle(container).direction;
+      results.push({
+        check: 'direction',
+        passed: declared.toLowerCase() === 'rtl' && computed === 'rtl',
+        message: `dir="${declared || '(none)'}", computed direction ${computed}`
+      });
+
+      for (const field of fieldInfos) {
+        const card = document.querySelector(field.cardBoxSelector);
+        if (!card || !isVisible(card)) continue;
+        const cardRect = card.getBoundingClientRect();
+
+        // 2. Question text hugs the right edge of its card; full-width lines prove nothing either way
+        const questionElement = Array.from(card.querySelectorAll('*'))
+          .find(element => hasOwnText(element) && isVisible(element) && !element.closest('label, button, [role="radio"], [role="option"]'));
+        if (questionElement) {
+          const box = textBox(questionElement);
+          const leftGap = box.left - cardRect.left;
+          const rightGap = cardRect.right - box.right;
+          if (leftGap > TOLERANCE || rightGap > TOLERANCE) {
+            results.push({
+              check: 'question_alignment',
+              passed: rightGap <= leftGap,
+              questionNumber: field.questionNumber,
+              message: `Question text is ${rightGap <= leftGap ? 'right' : 'left'}-aligned (${Math.round(leftGap)}px from the left, ${Math.round(rightGap)}px from the right)`
+            });
+          }
+        }
+
+        // 3. Choices in a row start at the right; stacked choices have their control right of the label
+        const inputs = Array.from(card.querySelectorAll('input[type="radio"], input[type="checkbox"]'))
+          .map(input => (isVisible(input) ? input : input.closest('label') || input.parentElement))
+          .filter((element): element is Element => !!element && isVisible(element));
+        if (!field.isScale && inputs.length >= 2) {
+          const rects = inputs.map(input => input.getBoundingClientRect());
+          if (rects.every(rect => sameRow(rect, rects[0]))) {
+            results.push({
+              check: 'choice_order',
+              passed: runsRightToLeft(rects),
+              questionNumber: field.questionNumber,
+              message: runsRightToLeft(rects) ? `${rects.length} choices run from right to left` : `${rects.length} choices in a row do not run from right to left`
+            });
+          } else {
+            const misplaced = inputs.filter(input => {
+              const label = input.closest('label') || input.parentElement;
+              if (!label || label === input || !label.textContent?.trim()) return false;
+              const labelBox = textBox(label);
+              const inputRect = input.getBoundingClientRect();
+              return (inputRect.left + inputRect.right) / 2 < (labelBox.left + labelBox.right) / 2 - TOLERANCE;
+            }).length;
+            results.push({
+              check: 'choice_order',
+              passed: misplaced === 0,
+              questionNumber: field.questionNumber,
+              message: misplaced === 0 ? `${inputs.length} stacked choices have their control on the right` : `${misplaced} of ${inputs.length} choices have their control left of the label`
+            });
+          }
+        }
+
+        // 4. Scales run from the lowest value on the right to the highest on the left
+        if (field.isScale) {
+          const labels = Array.from(card.querySelectorAll('*'))
+            .filter(element => hasOwnText(element) && isVisible(element) && /^-?\d+$/.test((element.textContent || '').trim()))
+            .map(element => ({ value: parseInt((element.textContent || '').trim(), 10), rect: textBox(element) }))
+            .sort((a, b) => a.value - b.value);
+          const slider = card.querySelector('[role="slider"], input[type="range"]');
+          if (labels.length >= 2 && labels.every(label => sameRow(label.rect, labels[0].rect))) {
+            const mirrored = labels[0].rect.left > labels[labels.length - 1].rect.left;
+            results.push({
+              check: 'slider_direction',
+              passed: mirrored,
+              questionNumber: field.questionNumber,
+              message: `${labels[0].value} is ${mirrored ? 'right' : 'left'} of ${labels[labels.length - 1].value}`
+            });
+          } else if (slider) {
+            const direction = window.getComputedStyle(slider).direction;
+            results.push({
+              check: 'slider_direction',
+              passed: direction === 'rtl',
+              questionNumber: field.questionNumber,
+              message: `Slider has computed direction ${direction}`
+            });
+          }
+        }
+      }
+
+      // 5. Next belongs on the left and previous on the right
+      const buttonRect = (type: string) => {
+        const button = navigationButtons.find(candidate => candidate.type === type);
+        const element = button ? document.querySelector(button.selector) : null;
+        return element && isVisible(element) ? element.getBoundingClientRect() : null;
+      };
+      const next = buttonRect('next') || buttonRect('finish');
+      const previous = buttonRect('previous');
+      if (next && previous) {
+        results.push({
+          check: 'navigation_placement',
+          passed: next.left < previous.left,
+          message: `Next button is ${next.left < previous.left ? 'left' : 'right'} of the previous button`
+        });
+      } else if (next) {
+        const center = document.documentElement.clientWidth / 2;
+        results.push({
+          check: 'navigation_placement',
+          passed: (next.left + next.right) / 2 < center,
+          message: `Next button is in the ${(next.left + next.right) / 2 < center ? 'left' : 'right'} half of the page`
+        });
+      }
+
+      return results;
+    }, containerSelector, fields, buttons);
+
+    const audit: RtlAudit = {
+      language,
+      passed: findings.every(finding => finding.passed),
+      findings,
+      checkedAt: new Date().toISOString()
+    };
+
+    const failed = findings.filter(finding => !finding.passed);
+    if (failed.length > 0) {
+      logger.warn(`RTL audit of form ${(form.formIndex ?? 0) + 1} failed ${failed.length} of ${findings.length} checks: ` +
+        failed.map(finding => `${finding.check}${finding.questionNumber ? ` (Q${finding.questionNumber})` : ''}`).join(', '));
+    } else {
+      logger.info(`RTL audit of form ${(form.formIndex ?? 0) + 1} passed ${findings.length} checks`);
+    }
+    return audit;
+  }
+
+  /**
+   * Records the audited forms that failed at least one check
+   */
+  summarizeSurvey(survey: Survey): number[] {
+    const failedForms = survey.forms
+      .map((form, index) => (form.rtlAudit && !form.rtlAudit.passed ? index : -1))
+      .filter(index => index >= 0);
+
+    if (survey.forms.some(form => form.rtlAudit)) {
+      survey.metadata.rtlFailedForms = failedForms;
+      if (failedForms.length > 0) {
+        logger.warn(`RTL audit failed on forms ${failedForms.map(index => index + 1).join(', ')}`);
+      }
+    }
+    return failedForms;
+  }
+}
+
+// Export singleton instance
+export const rtlAuditService = new RtlAuditService();
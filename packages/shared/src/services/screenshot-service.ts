@@ -1,9 +1,15 @@
 import { Page } from 'puppeteer';
-import { SurveyTuple, SurveyForm, SurveyField } from '../types/types.js';
-import { logger } from '../utils/logger.js';
+import { SurveyTuple, SurveyForm, SurveyField, ViewportScreenshots } from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import { PlatformSelectors } from '../form-analyzer/platforms/survey-platform-adapter.js';
+import { surveyPlatformRegistry } from '../form-analyzer/platforms/platform-registry.js';
+import { DEFAULT_SETTINGS, FormShotTimings } from './config-service.js';
+import { waitForDomStable } from '../utils/dom-stability.js';
 import { join, dirname } from 'path';
 import { mkdirSync } from 'fs';
 
+const logger = rootLogger.child('screenshot-service');
+
 export interface ViewportConfig {
   width: number;
   height: number;
@@ -15,10 +21,26 @@ export class ScreenshotService {
     height: 1024
   };
 
-  constructor(customViewport?: ViewportConfig) {
+  private platformSelectors: PlatformSelectors;
+
+  private outputDirectory?: string;
+
+  // Extra viewport widths every screenshot is also captured at
+  private additionalWidths: number[] = [];
+
+  constructor(customViewport?: ViewportConfig, platformSelectors?: PlatformSelectors, private timings: FormShotTimings = DEFAULT_SETTINGS.timings) {
     if (customViewport) {
       this.defaultViewport = customViewport;
     }
+    this.platformSelectors = platformSelectors || surveyPlatformRegistry.get().selectors;
+  }
+
+  // Lets layout and lazy content settle after a resize or scroll, at most renderSettleDelay
+  private async settle(page: Page): Promise<void> {
+    await waitForDomStable(page, this.timings.renderSettleDelay, {
+      container: this.platformSelectors.container,
+      quietPeriod: this.timings.domQuietPeriod
+    });
   }
 
   private async moveMouseToSafePosition(page: Page): Promise<void> {
@@ -45,8 +67,8 @@ export class ScreenshotService {
   }
 
   async calculateFormHeight(page: Page): Promise<number> {
-    return await page.evaluate(() => {
-      const surveyBody = document.querySelector('#survey-body-container');
+    return await page.evaluate((selectors) => {
+      const surveyBody = document.querySelector(selectors.container);
       if (!surveyBody) return 0;
       
       // Get the full scrollable height of the container
@@ -55,7 +77,7 @@ export class ScreenshotService {
       const offsetHeight = (surveyBody as HTMLElement).offsetHeight;
       
       // Also check the height needed to show all questions
-      const questions = surveyBody.querySelectorAll('[class*="CardBox"]');
+      const questions = surveyBody.querySelectorAll(selectors.questionCard);
       let totalQuestionHeight = 0;
       
       questions.forEach(question => {
@@ -92,7 +114,7 @@ export class ScreenshotService {
       
       // Return integer value to avoid float precision issues with Puppeteer
       return Math.floor(requiredHeight);
-    });
+    }, this.platformSelectors);
   }
 
   async takeOnEntryScreenshot(page: Page, form: SurveyForm, formIndex: number, tuple: SurveyTuple): Promise<string | undefined> {
@@ -143,15 +165,15 @@ export class ScreenshotService {
         });
       }
 
-      await new Promise(resolve => setTimeout(resolve, 500)); // Allow viewport to adjust
+      await this.settle(page); // Allow viewport to adjust
 
       // Take screenshot
-      const filename = `form${this.padNumber(formIndex + 1)}_entry_${tuple.customerId}_${tuple.studyId}_${tuple.language}_${currentViewport.width}.png`;
-      const screenshotPath = await this.saveScreenshot(page, filename, tuple, '#survey-body-container');
+      const filename = this.viewportFilename(currentViewport.width, `form${this.padNumber(formIndex + 1)}_entry_${tuple.customerId}_${tuple.studyId}_${tuple.language}_${currentViewport.width}.png`);
+      const screenshotPath = await this.saveScreenshot(page, filename, tuple, this.platformSelectors.container);
 
       // Restore original viewport
       await page.setViewport(currentViewport);
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await this.settle(page);
 
       logger.info(`On-entry screenshot saved: ${filename}`);
       return filename;
@@ -208,15 +230,15 @@ export class ScreenshotService {
         });
       }
 
-      await new Promise(resolve => setTimeout(resolve, 500)); // Allow viewport to adjust
+      await this.settle(page); // Allow viewport to adjust
 
       // Take screenshot
-      const filename = `form${this.padNumber(formIndex + 1)}_exit_${tuple.customerId}_${tuple.studyId}_${tuple.language}_${currentViewport.width}.png`;
-      const screenshotPath = await this.saveScreenshot(page, filename, tuple, '#survey-body-container');
+      const filename = this.viewportFilename(currentViewport.width, `form${this.padNumber(formIndex + 1)}_exit_${tuple.customerId}_${tuple.studyId}_${tuple.language}_${currentViewport.width}.png`);
+      const screenshotPath = await this.saveScreenshot(page, filename, tuple, this.platformSelectors.container);
 
       // Restore original viewport
       await page.setViewport(currentViewport);
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await this.settle(page);
 
       logger.info(`On-exit screenshot saved: ${filename}`);
       return filename;
@@ -256,11 +278,11 @@ export class ScreenshotService {
       await page.evaluate((selector) => {
         const element = document.querySelector(selector);
         if (element) {
-          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+          element.scrollIntoView({ behavior: 'instant', block: 'center' });
         }
       }, field.cardBoxSelector);
 
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await this.settle(page);
 
       // Wait for element to be visible with shorter timeout and better error handling
       try {
@@ -304,7 +326,7 @@ export class ScreenshotService {
       const formNum = formIndex !== undefined ? formIndex + 1 : 1;
       const currentViewport = page.viewport();
       const width = currentViewport?.width || this.defaultViewport.width;
-      const filename = `form${this.padNumber(formNum)}_question${questionNumPadded}_${tuple.customerId}_${tuple.studyId}_${tuple.language}_${width}.png`;
+      const filename = this.viewportFilename(width, `form${this.padNumber(formNum)}_question${questionNumPadded}_${tuple.customerId}_${tuple.studyId}_${tuple.language}_${width}.png`);
       const screenshotPath = await this.saveScreenshot(page, filename, tuple, field.cardBoxSelector);
 
       logger.debug(`Question screenshot saved: ${filename}`);
@@ -318,15 +340,14 @@ export class ScreenshotService {
 
   private async saveScreenshot(page: Page, filename: string, tuple: SurveyTuple, selector?: string): Promise<string> {
     // Create output directory
-    const outputDir = join('/app/output', tuple.customerId, tuple.studyId, tuple.packageName, tuple.language, tuple.version);
+    const outputDir = this.outputDirectory || join('/app/output', tuple.customerId, tuple.studyId, tuple.packageName, tuple.language, tuple.version);
+    const screenshotPath = join(outputDir, filename);
     try {
-      mkdirSync(outputDir, { recursive: true });
+      mkdirSync(dirname(screenshotPath), { recursive: true });
     } catch (error) {
       logger.warn('Failed to create screenshot directory:', error);
     }
 
-    const screenshotPath = join(outputDir, filename);
-
     if (selector) {
       // Take screenshot of specific element
       const element = await page.$(selector);
@@ -347,7 +368,90 @@ export class ScreenshotService {
     return filename;
   }
 
+  /**
+   * Overrides the tuple-based output directory, e.g. to keep re-analysis screenshots apart
+   */
+  setOutputDirectory(outputDirectory: string): void {
+    this.outputDirectory = outputDirectory;
+  }
+
   getDefaultViewport(): ViewportConfig {
     return { ...this.defaultViewport };
   }
+
+  /**
+   * Sets the viewport widths to capture. The first width becomes the primary viewport,
+   * whose screenshots keep the regular filenames; the others go to viewport-<width>/.
+   */
+  setViewportWidths(widths: number[]): void {
+    const unique = widths.filter((width, index) => widths.indexOf(width) === index);
+    if (unique.length === 0) {
+      throw new Error('At least one viewport width is required');
+    }
+    this.defaultViewport = { ...this.defaultViewport, width: unique[0] };
+    this.additionalWidths = unique.slice(1);
+  }
+
+  getViewportWidths(): number[] {
+    return [this.defaultViewport.width, ...this.additionalWidths];
+  }
+
+  /**
+   * Runs a capture once per viewport width, resizing the page in between and
+   * restoring the primary viewport afterwards. The primary width always runs first.
+   */
+  async forEachViewport(page: Page, capture: (width: number) => Promise<void>): Promise<void> {
+    for (const width of this.getViewportWidths()) {
+      await this.resizeViewport(page, width);
+      await capture(width);
+    }
+    await this.resizeViewport(page, this.defaultViewport.width);
+  }
+
+  async takeOnEntryScreenshots(page: Page, form: SurveyForm, formIndex: number, tuple: SurveyTuple): Promise<ViewportScreenshots> {
+    return this.captureAtViewports(page, () => this.takeOnEntryScreenshot(page, form, formIndex, tuple));
+  }
+
+  async takeOnExitScreenshots(page: Page, form: SurveyForm, formIndex: number, tuple: SurveyTuple): Promise<ViewportScreenshots> {
+    return this.captureAtViewports(page, () => this.takeOnExitScreenshot(page, form, formIndex, tuple));
+  }
+
+  async takeFieldScreenshots(page: Page, field: SurveyField, questionIndex: number, tuple: SurveyTuple, formIndex?: number): Promise<ViewportScreenshots> {
+    return this.captureAtViewports(page, () => this.takeQuestionScreenshot(page, field, questionIndex, tuple, formIndex));
+  }
+
+  /**
+   * Returns the primary viewport's filename from a set of per-viewport screenshots
+   */
+  getPrimaryScreenshot(screenshots: ViewportScreenshots | undefined): string | undefined {
+    return screenshots?.[String(this.defaultViewport.width)];
+  }
+
+  private async captureAtViewports(page: Page, capture: () => Promise<string | undefined>): Promise<ViewportScreenshots> {
+    const screenshots: ViewportScreenshots = {};
+    await this.forEachViewport(page, async (width) => {
+      const filename = await capture();
+      if (filename) {
+        screenshots[String(width)] = filename;
+      }
+    });
+    return screenshots;
+  }
+
+  private async resizeViewport(page: Page, width: number): Promise<void> {
+    const currentViewport = page.viewport();
+    if (currentViewport?.width === width) return;
+
+    await page.setViewport({
+      width,
+      height: currentViewport?.height || this.defaultViewport.height,
+      deviceScaleFactor: currentViewport?.deviceScaleFactor || 1
+    });
+    logger.debug(`Resized viewport to ${width}px wide`);
+    await this.settle(page); // Allow layout to reflow
+  }
+
+  private viewportFilename(width: number, filename: string): string {
+    return width === this.defaultViewport.width ? filename : `viewport-${width}/${filename}`;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { Page } from 'puppeteer';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { SurveyTuple } from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('snapshot-service');
+
+export interface FormSnapshotEntry {
+  formIndex: number;
+  file: string;
+  url: string;
+  title: string;
+  viewport: { width: number; height: number };
+  capturedAt: string;
+  warnings?: string[];  // Stylesheets and images that could not be inlined, so the snapshot may render incompletely
+}
+
+export interface SnapshotManifest {
+  tuple: SurveyTuple;
+  url: string;
+  platform: string;
+  createdAt: string;
+  forms: FormSnapshotEntry[];
+}
+
+export class SnapshotService {
+  private readonly bundleDir: string;
+  private manifest: SnapshotManifest | null = null;
+
+  constructor(bundleDir: string) {
+    this.bundleDir = bundleDir;
+  }
+
+  /**
+   * Starts recording into the bundle. An existing manifest for the same survey
+   * is kept so a resumed analysis adds to the bundle instead of replacing it.
+   */
+  initialize(tuple: SurveyTuple, url: string, platform: string): void {
+    mkdirSync(this.bundleDir, { recursive: true, mode: 0o777 });
+
+    const existing = this.tryLoadManifest();
+    if (existing && existing.url === url && existing.platform === platform) {
+      this.manifest = existing;
+      logger.info(`Recording snapshots into existing bundle ${this.bundleDir} (${existing.forms.length} forms)`);
+      return;
+    }
+
+    this.manifest = {
+      tuple,
+      url,
+      platform,
+      createdAt: new Date().toISOString(),
+      forms: []
+    };
+    this.writeManifest();
+    logger.info(`Recording snapshots into ${this.bundleDir}`);
+  }
+
+  /**
+   * Serializes the current DOM into a self-contained HTML file: stylesheet rules
+   * (including rules injected through the CSSOM), live input state and images are
+   * inlined, and scripts are removed so the snapshot renders without the survey app.
+   */
+  async captureForm(page: Page, formIndex: number): Promise<FormSnapshotEntry | undefined> {
+    if (!this.manifest) {
+      throw new Error('Snapshot bundle not initialized');
+    }
+
+    try {
+      const snapshot = await page.evaluate(async () => {
+        const clone = document.documentElement.cloneNode(true) as HTMLElement;
+        const warnings: string[] = [];
+
+        // Collect CSS rules from all stylesheets
+        const cssTexts: string[] = [];
+        for (const sheet of Array.from(document.styleSheets)) {
+          try {
+            cssTexts.push(Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n'));
+          } catch (error) {
+            warnings.push(`Could not read stylesheet ${sheet.href ?? '(inline)'}: ${error}`);
+          }
+        }
+
+        // Copy live form state into attributes so it survives serialization
+        const liveInputs = Array.from(document.querySelectorAll('input'));
+        const clonedInputs = Array.from(clone.querySelectorAll('input'));
+        liveInputs.forEach((input, index) => {
+          const cloned = clonedInputs[index];
+          if (!cloned) return;
+          if (input.type === 'checkbox' || input.type === 'radio') {
+            if (input.checked) {
+              cloned.setAttribute('checked', '');
+            } else {
+              cloned.removeAttribute('checked');
+            }
+          } else {
+            cloned.setAttribute('value', input.value);
+          }
+        });
+
+        const liveTextareas = Array.from(document.querySelectorAll('textarea'));
+        const clonedTextareas = Array.from(clone.querySelectorAll('textarea'));
+        liveTextareas.forEach((textarea, index) => {
+          if (clonedTextareas[index]) {
+            clonedTextareas[index].textContent = textarea.value;
+          }
+        });
+
+        const liveSelects = Array.from(document.querySelectorAll('select'));
+        const clonedSelects = Array.from(clone.querySelectorAll('select'));
+        liveSelects.forEach((select, index) => {
+          const clonedOptions = clonedSelects[index] ? Array.from(clonedSelects[index].options) : [];
+          Array.from(select.options).forEach((option, optionIndex) => {
+            const clonedOption = clonedOptions[optionIndex];
+            if (!clonedOption) return;
+            if (option.selected) {
+              clonedOption.setAttribute('selected', '');
+            } else {
+              clonedOption.removeAttribute('selected');
+            }
+          });
+        });
+
+        // Inline images as data URLs
+        const liveImages = Array.from(document.querySelectorAll('img'));
+        const clonedImages = Array.from(clone.querySelectorAll('img'));
+        for (let i = 0; i < liveImages.length; i++) {
+          const source = liveImages[i].currentSrc || liveImages[i].src;
+          if (!source || source.startsWith('data:') || !clonedImages[i]) continue;
+          try {
+            const response = await fetch(source);
+            const blob = await response.blob();
+            const dataUrl = await new Promise<string>((resolve, reject) => {
+              const reader = new FileReader();
+              reader.onload = () => resolve(reader.result as string);
+              reader.onerror = () => reject(reader.error);
+              reader.readAsDataURL(blob);
+            });
+            clonedImages[i].setAttribute('src', dataUrl);
+            clonedImages[i].removeAttribute('srcset');
+          } catch (error) {
+            warnings.push(`Could not inline image ${source}: ${error}`);
+          }
+        }
+
+        // Replace scripts and external styles with the collected rules
+        clone.querySelectorAll('script, noscript, link[rel="stylesheet"], link[rel="preload"], style').forEach(el => el.remove());
+        const head = clone.querySelector('head') || clone;
+        const style = document.createElement('style');
+        style.setAttribute('data-form-shot-snapshot', 'true');
+        style.textContent = cssTexts.join('\n');
+        head.appendChild(style);
+
+        return {
+          html: `<!DOCTYPE html>\n${clone.outerHTML}`,
+          title: document.title,
+          cssRuleCount: cssTexts.length,
+          warnings
+        };
+      });
+
+      const viewport = page.viewport();
+      const file = `form${String(formIndex + 1).padStart(3, '0')}.html`;
+      writeFileSync(join(this.bundleDir, file), snapshot.html);
+
+      const entry: FormSnapshotEntry = {
+        formIndex,
+        file,
+        url: page.url(),
+        title: snapshot.title,
+        viewport: { width: viewport?.width || 767, height: viewport?.height || 1024 },
+        capturedAt: new Date().toISOString(),
+        ...(snapshot.warnings.length > 0 && { warnings: snapshot.warnings })
+      };
+
+      this.manifest.forms = this.manifest.forms.filter(f => f.formIndex !== formIndex);
+      this.manifest.forms.push(entry);
+      this.manifest.forms.sort((a, b) => a.formIndex - b.formIndex);
+      this.writeManifest();
+
+      for (const warning of snapshot.warnings) {
+        logger.warn(`Snapshot of form ${formIndex + 1}: ${warning}`);
+      }
+      logger.info(`Snapshot saved for form ${formIndex + 1}: ${file} (${snapshot.cssRuleCount} stylesheets)`);
+      return entry;
+    } catch (error) {
+      logger.error(`Failed to capture snapshot for form ${formIndex + 1}:`, error);
+      return undefined;
+    }
+  }
+
+  loadManifest(): SnapshotManifest {
+    const manifest = this.tryLoadManifest();
+    if (!manifest) {
+      throw new Error(`No snapshot bundle found at ${this.bundleDir} (missing manifest.json)`);
+    }
+    return manifest;
+  }
+
+  getFormPath(entry: FormSnapshotEntry): string {
+    return join(this.bundleDir, entry.file);
+  }
+
+  private tryLoadManifest(): SnapshotManifest | null {
+    const manifestPath = join(this.bundleDir, 'manifest.json');
+    if (!existsSync(manifestPath)) {
+      return null;
+    }
+    return JSON.parse(readFileSync(manifestPath, 'utf-8')) as SnapshotManifest;
+  }
+
+  private writeManifest(): void {
+    writeFileSync(join(this.bundleDir, 'manifest.json'), JSON.stringify(this.manifest, null, 2));
+  }
+}
@@ -0,0 +1,227 @@
+import { Survey, SurveyField } from '../types/types.js';
+
+export interface PackageRef {
+  customerId: string;
+  studyId: string;
+  packageName: string;
+  version: string;
+}
+
+export type TranslationIssueKind =
+  | 'form_count'
+  | 'field_count'
+  | 'missing_question'
+  | 'extra_question'
+  | 'question_numbering'
+  | 'choice_count'
+  | 'required_flag'
+  | 'input_type'
+  | 'untranslated_title'
+  | 'untranslated_question'
+  | 'untranslated_choice';
+
+export interface TranslationIssue {
+  language: string;
+  kind: TranslationIssueKind;
+  severity: 'error' | 'warning';  // Structural mismatches are errors, suspected untranslated text warnings
+  formIndex?: number;
+  questionNumber?: string;
+  message: string;
+  sourceValue?: string | number | boolean;
+  targetValue?: string | number | boolean;
+}
+
+export interface LanguageCoverage {
+  language: string;
+  totalForms: number;
+  totalFields: number;
+  errors: number;
+  warnings: number;
+  translatableStrings: number;   // Titles, question texts and choices containing words
+  untranslatedStrings: number;   // Of those, identical to the source language
+  complete: boolean;             // No structural mismatches and nothing left untranslated
+}
+
+export interface TranslationCheckReport {
+  package: PackageRef;
+  sourceLanguage: string;
+  generatedAt: string;
+  languages: LanguageCoverage[];
+  issues: TranslationIssue[];
+}
+
+/**
+ * Compares every language analysis of a package with the source language: the
+ * structure must match exactly, and text identical to the source suggests a string
+ * that was never translated. Questions are matched by question number, as
+ * translations keep the numbering while the text differs.
+ */
+export class TranslationCheckService {
+  check(packageRef: PackageRef, analyses: Record<string, Survey>, sourceLanguage: string): TranslationCheckReport {
+    const source = analyses[sourceLanguage];
+    if (!source) {
+      throw new Error(`No analysis for source language "${sourceLanguage}". Available languages: ${Object.keys(analyses).sort().join(', ') || 'none'}`);
+    }
+
+    const issues: TranslationIssue[] = [];
+    const languages: LanguageCoverage[] = [];
+
+    for (const language of Object.keys(analyses).sort()) {
+      const target = analyses[language];
+      const languageIssues = language === sourceLanguage ? [] : this.compare(source, target, language);
+      const errors = languageIssues.filter(issue => issue.severity === 'error').length;
+
+      issues.push(...languageIssues);
+      languages.push({
+        language,
+        totalForms: target.forms.length,
+        totalFields: target.forms.reduce((sum, form) => sum + form.fields.length, 0),
+        errors,
+        warnings: languageIssues.length - errors,
+        translatableStrings: countTranslatable(target),
+        untranslatedStrings: languageIssues.filter(issue => issue.kind.startsWith('untranslated_')).length,
+        complete: languageIssues.length === 0
+      });
+    }
+
+    return {
+      package: packageRef,
+      sourceLanguage,
+      generatedAt: new Date().toISOString(),
+      languages,
+      issues
+    };
+  }
+
+  private compare(source: Survey, target: Survey, language: string): TranslationIssue[] {
+    const issues: TranslationIssue[] = [];
+
+    if (source.forms.length !== target.forms.length) {
+      issues.push({
+        language,
+        kind: 'form_count',
+        severity: 'error',
+        message: `${target.forms.length} forms instead of ${source.forms.length}`,
+        sourceValue: source.forms.length,
+        targetValue: target.forms.length
+      });
+    }
+
+    const formCount = Math.min(source.forms.length, target.forms.length);
+    for (let formIndex = 0; formIndex < formCount; formIndex++) {
+      const sourceForm = source.forms[formIndex];
+      const targetForm = target.forms[formIndex];
+      const where = { language, formIndex };
+
+      if (isTranslatable(sourceForm.longTitle) && sameText(sourceForm.longTitle, targetForm.longTitle)) {
+        issues.push({ ...where, kind: 'untranslated_title', severity: 'warning', message: `Form title "${sourceForm.longTitle.trim()}" is identical to the source`, sourceValue: sourceForm.longTitle.trim() });
+      }
+
+      if (sourceForm.fields.length !== targetForm.fields.length) {
+        issues.push({
+          ...where,
+          kind: 'field_count',
+          severity: 'error',
+          message: `Form ${formIndex + 1} has ${targetForm.fields.length} questions instead of ${sourceForm.fields.length}`,
+          sourceValue: sourceForm.fields.length,
+          targetValue: targetForm.fields.length
+        });
+      }
+
+      issues.push(...this.compareFields(sourceForm.fields, targetForm.fields, language, formIndex));
+    }
+
+    return issues;
+  }
+
+  private compareFields(sourceFields: SurveyField[], targetFields: SurveyField[], language: string, formIndex: number): TranslationIssue[] {
+    const issues: TranslationIssue[] = [];
+    const numbered = sourceFields.every(field => field.questionNumber) && targetFields.every(field => field.questionNumber);
+
+    // Without question numbers on both sides, questions can only be paired by position
+    const pairs: Array<[SurveyField | undefined, SurveyField | undefined]> = numbered
+      ? [
+          ...sourceFields.map((field): [SurveyField, SurveyField | undefined] => [field, targetFields.find(target => target.questionNumber === field.questionNumber)]),
+          ...targetFields
+            .filter(target => !sourceFields.some(field => field.questionNumber === target.questionNumber))
+            .map((target): [undefined, SurveyField] => [undefined, target])
+        ]
+      : Array.from({ length: Math.max(sourceFields.length, targetFields.length) }, (_, index) => [sourceFields[index], targetFields[index]]);
+
+    if (numbered) {
+      const sourceOrder = sourceFields.map(field => field.questionNumber).join(' ');
+      const targetOrder = targetFields.map(field => field.questionNumber).join(' ');
+      const sameSet = sourceFields.length === targetFields.length && pairs.every(([sourceField, targetField]) => sourceField && targetField);
+      if (sameSet && sourceOrder !== targetOrder) {
+        issues.push({
+          language,
+          formIndex,
+          kind: 'question_numbering',
+          severity: 'error',
+          message: `Form ${formIndex + 1} orders its questions ${targetOrder} instead of ${sourceOrder}`,
+          sourceValue: sourceOrder,
+          targetValue: targetOrder
+        });
+      }
+    }
+
+    for (const [sourceField, targetField] of pairs) {
+      if (!targetField) {
+        issues.push({ language, formIndex, questionNumber: sourceField!.questionNumber, kind: 'missing_question', severity: 'error', message: `Q${sourceField!.questionNumber || '?'} is missing`, sourceValue: sourceField!.questionText.trim() });
+        continue;
+      }
+      if (!sourceField) {
+        issues.push({ language, formIndex, questionNumber: targetField.questionNumber, kind: 'extra_question', severity: 'error', message: `Q${targetField.questionNumber || '?'} does not exist in the source`, targetValue: targetField.questionText.trim() });
+        continue;
+      }
+
+      const where = { language, formIndex, questionNumber: sourceField.questionNumber };
+      const label = `Q${sourceField.questionNumber || '?'}`;
+
+      if (!numbered && sourceField.questionNumber !== targetField.questionNumber) {
+        issues.push({ ...where, kind: 'question_numbering', severity: 'error', message: `${label} is numbered ${targetField.questionNumber || '(none)'}`, sourceValue: sourceField.questionNumber, targetValue: targetField.questionNumber });
+      }
+      if (sourceField.inputType !== targetField.inputType) {
+        issues.push({ ...where, kind: 'input_type', severity: 'error', message: `${label} is ${targetField.inputType} instead of ${sourceField.inputType}`, sourceValue: sourceField.inputType, targetValue: targetField.inputType });
+      }
+      if (Boolean(sourceField.isRequired) !== Boolean(targetField.isRequired)) {
+        issues.push({ ...where, kind: 'required_flag', severity: 'error', message: `${label} is ${targetField.isRequired ? 'required' : 'optional'} but ${sourceField.isRequired ? 'required' : 'optional'} in the source`, sourceValue: Boolean(sourceField.isRequired), targetValue: Boolean(targetField.isRequired) });
+      }
+
+      const sourceChoices = sourceField.choices || [];
+      const targetChoices = targetField.choices || [];
+      if (sourceChoices.length !== targetChoices.length) {
+        issues.push({ ...where, kind: 'choice_count', severity: 'error', message: `${label} has ${targetChoices.length} choices instead of ${sourceChoices.length}`, sourceValue: sourceChoices.length, targetValue: targetChoices.length });
+      }
+
+      if (isTranslatable(sourceField.questionText) && sameText(sourceField.questionText, targetField.questionText)) {
+        issues.push({ ...where, kind: 'untranslated_question', severity: 'warning', message: `${label} text is identical to the source`, sourceValue: sourceField.questionText.trim() });
+      }
+      sourceChoices.forEach((choice, index) => {
+        if (index < targetChoices.length && isTranslatable(choice) && sameText(choice, targetChoices[index])) {
+          issues.push({ ...where, kind: 'untranslated_choice', severity: 'warning', message: `${label} choice ${index + 1} "${choice.trim()}" is identical to the source`, sourceValue: choice.trim() });
+        }
+      });
+    }
+
+    return issues;
+  }
+}
+
+// Numbers, scale anchors like "0" and single letters are the same in every language
+function isTranslatable(text: string | undefined): boolean {
+  return !!text && /\p{L}{2,}/u.test(text);
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.replace(/\s+/g, ' ').trim() === (b || '').replace(/\s+/g, ' ').trim();
+}
+
+function countTranslatable(survey: Survey): number {
+  return survey.forms.reduce((sum, form) =>
+    sum + (isTranslatable(form.longTitle) ? 1 : 0) + form.fields.reduce((fieldSum, field) =>
+      fieldSum + (isTranslatable(field.questionText) ? 1 : 0) + (field.choices || []).filter(isTranslatable).length, 0), 0);
+}
+
+// Export singleton instance
+export const translationCheckService = new TranslationCheckService();
@@ -0,0 +1,187 @@
+import { existsSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { fieldTypeRegistry, overrideKey } from '../test-generator/field-type-registry.js';
+import { testDataGenerator } from '../test-generator/test-data-generator.js';
+import {
+  FieldTypeClassification,
+  FieldTypeOverride,
+  StoredFieldTypePattern,
+  Survey,
+  SurveyField,
+  UnknownField
+} from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('unknown-fields');
+
+// Detections below this confidence are queued for classification like fallbacks
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+// Questions shown before and after an unknown field as context for the classifier
+const CONTEXT_QUESTIONS = 2;
+
+// Input types whose test data do not depend on the detected field type
+const TYPE_INDEPENDENT_INPUTS: Array<SurveyField['inputType']> = ['autocomplete_dropdown', 'VAS', 'NRS', 'text_numeric', 'text_decimal'];
+
+// Output directories that hold copies of analyses rather than analyses
+const SKIPPED_DIRECTORIES = ['snapshots', 'reanalysis', 'logs', 'node_modules'];
+
+/**
+ * Queues the fields of an analysis whose type was guessed from the input type or detected
+ * with low confidence, so a person can classify them. Classifications become overrides
+ * that apply to the same question in later analyses, and pattern candidates for review.
+ */
+export class UnknownFieldService {
+  collect(survey: Survey): UnknownField[] {
+    const { tuple } = survey.metadata;
+    const analysisId = `${tuple.customerId}_${tuple.studyId}_${tuple.packageName}_${tuple.language}_${tuple.version}`;
+    const unknownFields: UnknownField[] = [];
+
+    survey.forms.forEach((form, formIndex) => {
+      form.fields.forEach((field, fieldIndex) => {
+        const reason = this.reasonOf(field);
+        if (!reason) return;
+
+        const fieldId = field.questionNumber ? `q${field.questionNumber.replace(/\./g, '_')}` : `field_${fieldIndex + 1}`;
+        unknownFields.push({
+          id: `${analysisId}_form_${formIndex + 1}_${fieldId}`,
+          questionText: field.questionText,
+          inputType: field.inputType,
+          choices: field.choices,
+          context: {
+            surveyTitle: form.longTitle,
+            previousQuestions: form.fields.slice(Math.max(0, fieldIndex - CONTEXT_QUESTIONS), fieldIndex).map(other => other.questionText),
+            nextQuestions: form.fields.slice(fieldIndex + 1, fieldIndex + 1 + CONTEXT_QUESTIONS).map(other => other.questionText)
+          },
+          analysisMetadata: {
+            customerId: tuple.customerId,
+            studyId: tuple.studyId,
+            packageName: tuple.packageName,
+            language: tuple.language,
+            version: tuple.version,
+            analysisId,
+            formIndex,
+            questionNumber: field.questionNumber,
+            timestamp: survey.metadata.analysisDate
+          },
+          reason,
+          confidence: field.testData!.confidence,
+          suggestedType: field.testData!.detectedType,  // The type the test data were generated for
+          needsClassification: true
+        });
+      });
+    });
+
+    survey.unknownFields = unknownFields;
+    unknownFields.forEach(field => fieldTypeRegistry.recordUnknownField(field));
+    if (unknownFields.length > 0) {
+      logger.warn(`${unknownFields.length} fields need classification (fallback or confidence below ${LOW_CONFIDENCE_THRESHOLD})`);
+    }
+    return unknownFields;
+  }
+
+  /**
+   * analysis.json files below an output directory, e.g. /app/output
+   */
+  findLocalAnalyses(outputRoot: string): string[] {
+    if (!existsSync(outputRoot)) return [];
+
+    const analyses: string[] = [];
+    for (const name of readdirSync(outputRoot).sort()) {
+      const path = join(outputRoot, name);
+      if (name === 'analysis.json') {
+        analyses.push(path);
+      } else if (!SKIPPED_DIRECTORIES.includes(name) && statSync(path).isDirectory()) {
+        analyses.push(...this.findLocalAnalyses(path));
+      }
+    }
+    return analyses;
+  }
+
+  classify(field: UnknownField, fieldType: string, options: { classifiedBy?: string; notes?: string } = {}): UnknownField {
+    const template = testDataGenerator.getTemplateIdForFieldType(fieldType);
+    if (!template) {
+      logger.warn(`No test data template for field type "${fieldType}" (${field.id}), general text test data will be used`);
+    }
+
+    const classification: FieldTypeClassification = {
+      fieldType,
+      ...(template && { template }),
+      ...(options.classifiedBy && { classifiedBy: options.classifiedBy }),
+      ...(options.notes && { notes: options.notes }),
+      classifiedAt: new Date().toISOString()
+    };
+    return { ...field, classification, needsClassification: false };
+  }
+
+  toOverride(field: UnknownField): FieldTypeOverride {
+    if (!field.classification) {
+      throw new Error(`Unknown field ${field.id} has not been classified`);
+    }
+    return {
+      id: overrideKey(field.questionText, field.inputType),
+      questionText: field.questionText,
+      inputType: field.inputType,
+      fieldType: field.classification.fieldType,
+      ...(field.classification.template && { template: field.classification.template }),
+      ...(field.classification.classifiedBy && { classifiedBy: field.classification.classifiedBy }),
+      classifiedAt: field.classification.classifiedAt,
+      sourceFieldId: field.id
+    };
+  }
+
+  /**
+   * One draft pattern per assigned field type, matching the classified question texts.
+   * Candidates have version 0.1.0 and a low priority, to be generalized before they are
+   * added to the pattern files.
+   */
+  toPatternCandidates(fields: UnknownField[]): StoredFieldTypePattern[] {
+    const byType = new Map<string, UnknownField[]>();
+    fields.filter(field => field.classification).forEach(field => {
+      const fieldType = field.classification!.fieldType;
+      byType.set(fieldType, [...(byType.get(fieldType) || []), field]);
+    });
+
+    return Array.from(byType.entries()).map(([fieldType, classified]) => {
+      const questionTexts = Array.from(new Set(classified.map(field => normalizeQuestion(field.questionText)).filter(Boolean)));
+      const inputTypes = Array.from(new Set(classified.map(field => field.inputType)));
+      const template = classified.find(field => field.classification!.template)?.classification!.template;
+      return {
+        id: `${fieldType}_candidate_v1`,
+        name: `${fieldType} candidate from ${classified.length} classified ${classified.length === 1 ? 'field' : 'fields'}`,
+        priority: 60,
+        patterns: {
+          questionText: questionTexts.map(text => ({ source: `\\b${escapeRegExp(text)}`, flags: 'i' })),
+          inputAttributes: { type: { source: `^(${inputTypes.map(escapeRegExp).join('|')})$`, flags: 'i' } }
+        },
+        testDataTemplate: template || `${fieldType}_validation_v1`,
+        confidence: 70,
+        version: '0.1.0',
+        createdAt: new Date().toISOString(),
+        source: 'classification'
+      };
+    });
+  }
+
+  private reasonOf(field: SurveyField): UnknownField['reason'] | undefined {
+    if (!field.testData || field.testData.detectionMethod === 'override') return undefined;
+    // Their test cases come from the choices or the input type alone
+    if (TYPE_INDEPENDENT_INPUTS.includes(field.inputType) || ((field.inputType === 'radio' || field.inputType === 'dropdown') && field.choices?.length)) {
+      return undefined;
+    }
+    if (field.testData.detectionMethod === 'fallback') return 'fallback';
+    return field.testData.confidence < LOW_CONFIDENCE_THRESHOLD ? 'low_confidence' : undefined;
+  }
+}
+
+// Drops question numbers and trailing punctuation, which vary between surveys
+function normalizeQuestion(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().replace(/^\d+[.)]\s*/, '').replace(/[\s?:.*]+$/, '');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Export singleton instance
+export const unknownFieldService = new UnknownFieldService();
@@ -0,0 +1,431 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+import { Survey, SurveyTuple, ViewportScreenshots } from '../types/types.js';
+import { analysisDiffService } from './analysis-diff-service.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('visual-regression');
+
+export const VISUAL_DIFF_DIRNAME = 'visual-diff';
+export const VISUAL_DIFF_REPORT = 'visual-diff.json';
+
+/** Region excluded from comparison, e.g. a timestamp or a rotating banner */
+export interface VisualMask {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  screenshots?: string;   // Regular expression matched against screenshot filenames (default: all)
+  reason?: string;
+}
+
+export interface VisualRegressionOptions {
+  threshold?: number;        // Per-pixel color distance (0-1) that counts as a visible change (default: 0.1)
+  changeThreshold?: number;  // Share of visibly changed pixels above which a screenshot counts as changed (default: 0.001)
+  masks?: VisualMask[];
+}
+
+export interface ScreenshotComparison {
+  kind: 'entry' | 'exit' | 'field';
+  questionNumber?: string;
+  viewport?: number;         // Set when both analyses captured several viewports
+  baseline?: string;         // Screenshot filename in the baseline analysis
+  current?: string;          // Screenshot filename in the current analysis
+  status: 'unchanged' | 'changed' | 'added' | 'removed' | 'missing';
+  width?: number;
+  height?: number;
+  sizeChanged?: boolean;
+  pixelDiffRatio?: number;       // Share of pixels that differ at all
+  perceptualDiffRatio?: number;  // Share of pixels that differ visibly, ignoring anti-aliasing
+  ssim?: number;                 // Structural similarity, 1 for identical images
+  diffImage?: string;            // Relative to the report directory
+  score: number;                 // 0 (identical) to 1 (entirely different, added or removed)
+}
+
+export interface FormVisualDiff {
+  formIndexA?: number;
+  formIndexB?: number;
+  shortName: string;
+  longTitle: string;
+  changeScore: number;       // Mean score of the form's screenshots
+  changed: boolean;
+  screenshots: ScreenshotComparison[];
+}
+
+export interface VisualRegressionSide {
+  analysisPath: string;
+  tuple: SurveyTuple;
+  analysisDate: string;
+}
+
+export interface VisualRegressionReport {
+  baseline: VisualRegressionSide;
+  current: VisualRegressionSide;
+  generatedAt: string;
+  options: Required<VisualRegressionOptions>;
+  summary: {
+    screenshotsCompared: number;
+    changed: number;
+    added: number;
+    removed: number;
+    missing: number;
+    formsChanged: number;
+    maxChangeScore: number;
+  };
+  forms: FormVisualDiff[];
+}
+
+export interface ImageComparison {
+  width: number;
+  height: number;
+  sizeChanged: boolean;
+  pixelDiffRatio: number;
+  perceptualDiffRatio: number;
+  ssim: number;
+}
+
+interface ScreenshotPair {
+  kind: ScreenshotComparison['kind'];
+  questionNumber?: string;
+  viewport?: number;
+  baseline?: string;
+  current?: string;
+}
+
+const DEFAULT_OPTIONS: Required<VisualRegressionOptions> = {
+  threshold: 0.1,
+  changeThreshold: 0.001,
+  masks: []
+};
+
+const MASK_TINT: [number, number, number] = [80, 120, 255];
+const BASELINE_PADDING: [number, number, number] = [255, 0, 255];
+const CURRENT_PADDING: [number, number, number] = [0, 255, 255];
+
+/**
+ * Pixel and perceptual comparison of the screenshots of two analyses, e.g. two builds
+ * of a survey or two runs of the same build. Screenshots are paired through the
+ * structural diff, so an inserted question is reported as added instead of shifting
+ * every following comparison.
+ */
+export class VisualRegressionService {
+  /**
+   * Compares the screenshots of `current` against `baseline` and writes highlighted diff
+   * images and `visual-diff.json` to `outputDir`.
+   */
+  compareAnalyses(
+    baseline: Survey,
+    baselineDir: string,
+    current: Survey,
+    currentDir: string,
+    outputDir: string,
+    options: VisualRegressionOptions = {}
+  ): VisualRegressionReport {
+    const resolvedOptions: Required<VisualRegressionOptions> = { ...DEFAULT_OPTIONS, ...options, masks: options.masks || [] };
+    const diff = analysisDiffService.diff(baseline, current, baselineDir, currentDir);
+    mkdirSync(outputDir, { recursive: true });
+
+    const forms = diff.forms.map(formDiff => {
+      const formA = formDiff.formIndexA !== undefined ? baseline.forms[formDiff.formIndexA] : undefined;
+      const formB = formDiff.formIndexB !== undefined ? current.forms[formDiff.formIndexB] : undefined;
+
+      const pairs: ScreenshotPair[] = [
+        ...pairScreenshots('entry', undefined, formA?.onEntryScreenshot, formA?.onEntryScreenshots, formB?.onEntryScreenshot, formB?.onEntryScreenshots),
+        ...formDiff.fields.flatMap(fieldDiff => {
+          const fieldA = fieldDiff.fieldIndexA !== undefined ? formA?.fields[fieldDiff.fieldIndexA] : undefined;
+          const fieldB = fieldDiff.fieldIndexB !== undefined ? formB?.fields[fieldDiff.fieldIndexB] : undefined;
+          const questionNumber = fieldDiff.questionNumberB || fieldDiff.questionNumberA;
+          return pairScreenshots('field', questionNumber, fieldA?.screenshotPath, fieldA?.screenshots, fieldB?.screenshotPath, fieldB?.screenshots);
+        }),
+        ...pairScreenshots('exit', undefined, formA?.onExitScreenshot, formA?.onExitScreenshots, formB?.onExitScreenshot, formB?.onExitScreenshots)
+      ];
+
+      const screenshots = pairs.map(pair => this.compareScreenshotPair(pair, baselineDir, currentDir, outputDir, resolvedOptions));
+      const changeScore = screenshots.length > 0
+        ? round(screenshots.reduce((sum, screenshot) => sum + screenshot.score, 0) / screenshots.length)
+        : 0;
+
+      logger.info(`Form "${formDiff.shortName || formDiff.longTitle}": change score ${changeScore} over ${screenshots.length} screenshots`);
+      return {
+        formIndexA: formDiff.formIndexA,
+        formIndexB: formDiff.formIndexB,
+        shortName: formDiff.shortName,
+        longTitle: formDiff.longTitle,
+        changeScore,
+        changed: screenshots.some(screenshot => screenshot.status !== 'unchanged' && screenshot.status !== 'missing'),
+        screenshots
+      };
+    });
+
+    const allScreenshots = forms.flatMap(form => form.screenshots);
+    const count = (status: ScreenshotComparison['status']) => allScreenshots.filter(screenshot => screenshot.status === status).length;
+    const report: VisualRegressionReport = {
+      baseline: { analysisPath: baselineDir, tuple: baseline.metadata.tuple, analysisDate: baseline.metadata.analysisDate },
+      current: { analysisPath: currentDir, tuple: current.metadata.tuple, analysisDate: current.metadata.analysisDate },
+      generatedAt: new Date().toISOString(),
+      options: resolvedOptions,
+      summary: {
+        screenshotsCompared: allScreenshots.filter(screenshot => screenshot.baseline && screenshot.current).length,
+        changed: count('changed'),
+        added: count('added'),
+        removed: count('removed'),
+        missing: count('missing'),
+        formsChanged: forms.filter(form => form.changed).length,
+        maxChangeScore: forms.reduce((max, form) => Math.max(max, form.changeScore), 0)
+      },
+      forms
+    };
+
+    writeFileSync(join(outputDir, VISUAL_DIFF_REPORT), JSON.stringify(report, null, 2));
+    return report;
+  }
+
+  /**
+   * Compares two PNG files. Images of different sizes are padded with contrasting colors,
+   * so the area only one of them covers counts as changed. When `diffPath` is given, the changed pixels are
+   * drawn in red over a faded copy of the current image, with masked regions tinted blue.
+   */
+  compareImages(baselinePath: string, currentPath: string, diffPath?: string, options: VisualRegressionOptions = {}): ImageComparison {
+    const threshold = options.threshold ?? DEFAULT_OPTIONS.threshold;
+    const baselineImage = PNG.sync.read(readFileSync(baselinePath));
+    const currentImage = PNG.sync.read(readFileSync(currentPath));
+    const width = Math.max(baselineImage.width, currentImage.width);
+    const height = Math.max(baselineImage.height, currentImage.height);
+    const sizeChanged = baselineImage.width !== currentImage.width || baselineImage.height !== currentImage.height;
+
+    const baselinePixels = padImage(baselineImage, width, height, BASELINE_PADDING);
+    const currentPixels = padImage(currentImage, width, height, CURRENT_PADDING);
+    const masks = options.masks || [];
+    masks.forEach(mask => {
+      blankRegion(baselinePixels, width, height, mask);
+      blankRegion(currentPixels, width, height, mask);
+    });
+
+    const totalPixels = width * height;
+    const output = diffPath ? new PNG({ width, height }) : undefined;
+    const perceptualDiffPixels = pixelmatch(currentPixels, baselinePixels, output?.data, width, height, { threshold });
+
+    if (output && diffPath) {
+      masks.forEach(mask => tintRegion(output.data, width, height, mask));
+      mkdirSync(dirname(diffPath), { recursive: true });
+      writeFileSync(diffPath, PNG.sync.write(output));
+    }
+
+    return {
+      width,
+      height,
+      sizeChanged,
+      pixelDiffRatio: round(countDifferentPixels(baselinePixels, currentPixels) / totalPixels),
+      perceptualDiffRatio: round(perceptualDiffPixels / totalPixels),
+      ssim: round(structuralSimilarity(baselinePixels, currentPixels, width, height))
+    };
+  }
+
+  /**
+   * Reads a JSON file holding an array of masks, or an object with a `masks` array.
+   */
+  loadMasks(path: string): VisualMask[] {
+    if (!existsSync(path)) {
+      throw new Error(`Mask file not found: ${path}`);
+    }
+
+    let raw: any;
+    try {
+      raw = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to parse mask file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const masks = Array.isArray(raw) ? raw : raw?.masks;
+    if (!Array.isArray(masks)) {
+      throw new Error(`Invalid mask file ${path}: expected an array of masks or an object with a "masks" array`);
+    }
+
+    const errors: string[] = [];
+    masks.forEach((mask: any, index: number) => {
+      for (const key of ['x', 'y', 'width', 'height']) {
+        if (!Number.isInteger(mask?.[key]) || mask[key] < 0) errors.push(`masks[${index}].${key}: expected a non-negative integer`);
+      }
+      if (mask?.screenshots !== undefined) {
+        try {
+          new RegExp(mask.screenshots);
+        } catch {
+          errors.push(`masks[${index}].screenshots: invalid regular expression`);
+        }
+      }
+    });
+    if (errors.length > 0) {
+      throw new Error(`Invalid mask file ${path}:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    return masks as VisualMask[];
+  }
+
+  private compareScreenshotPair(
+    pair: ScreenshotPair,
+    baselineDir: string,
+    currentDir: string,
+    outputDir: string,
+    options: Required<VisualRegressionOptions>
+  ): ScreenshotComparison {
+    const comparison = { kind: pair.kind, questionNumber: pair.questionNumber, viewport: pair.viewport, baseline: pair.baseline, current: pair.current };
+    if (!pair.baseline) return { ...comparison, status: 'added', score: 1 };
+    if (!pair.current) return { ...comparison, status: 'removed', score: 1 };
+
+    const baselinePath = join(baselineDir, pair.baseline);
+    const currentPath = join(currentDir, pair.current);
+    if (!existsSync(baselinePath) || !existsSync(currentPath)) {
+      logger.warn(`Screenshot not found: ${!existsSync(baselinePath) ? baselinePath : currentPath}`);
+      return { ...comparison, status: 'missing', score: 0 };
+    }
+
+    const masks = options.masks.filter(mask => !mask.screenshots || new RegExp(mask.screenshots).test(pair.current!));
+    const diffImage = pair.current.replace(/\.png$/i, '') + '_diff.png';
+    try {
+      const result = this.compareImages(baselinePath, currentPath, join(outputDir, diffImage), { threshold: options.threshold, masks });
+      const changed = result.sizeChanged || result.perceptualDiffRatio > options.changeThreshold;
+      return {
+        ...comparison,
+        ...result,
+        status: changed ? 'changed' : 'unchanged',
+        diffImage,
+        score: result.perceptualDiffRatio
+      };
+    } catch (error) {
+      logger.warn(`Failed to compare ${pair.baseline} with ${pair.current}:`, error);
+      return { ...comparison, status: 'missing', score: 0 };
+    }
+  }
+}
+
+/**
+ * Pairs the captures of one screenshot slot. With per-viewport captures on both sides
+ * they are paired by width, otherwise the primary screenshots are compared.
+ */
+function pairScreenshots(
+  kind: ScreenshotPair['kind'],
+  questionNumber: string | undefined,
+  baseline: string | undefined,
+  baselineViewports: ViewportScreenshots | undefined,
+  current: string | undefined,
+  currentViewports: ViewportScreenshots | undefined
+): ScreenshotPair[] {
+  if (hasEntries(baselineViewports) && hasEntries(currentViewports)) {
+    const widths = Array.from(new Set([...Object.keys(baselineViewports!), ...Object.keys(currentViewports!)]))
+      .sort((a, b) => parseInt(a) - parseInt(b));
+    return widths.map(width => ({
+      kind,
+      questionNumber,
+      viewport: parseInt(width),
+      baseline: baselineViewports![width],
+      current: currentViewports![width]
+    }));
+  }
+  return baseline || current ? [{ kind, questionNumber, baseline, current }] : [];
+}
+
+function hasEntries(screenshots: ViewportScreenshots | undefined): boolean {
+  return !!screenshots && Object.keys(screenshots).length > 0;
+}
+
+function padImage(image: PNG, width: number, height: number, padding: [number, number, number]): Uint8Array {
+  if (image.width === width && image.height === height) {
+    return new Uint8Array(image.data);
+  }
+  const pixels = new Uint8Array(width * height * 4);
+  for (let offset = 0; offset < pixels.length; offset += 4) {
+    pixels.set([...padding, 255], offset);
+  }
+  for (let y = 0; y < image.height; y++) {
+    const row = image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4);
+    pixels.set(row, y * width * 4);
+  }
+  return pixels;
+}
+
+function forEachMaskedPixel(width: number, height: number, mask: VisualMask, callback: (offset: number) => void): void {
+  const right = Math.min(mask.x + mask.width, width);
+  const bottom = Math.min(mask.y + mask.height, height);
+  for (let y = mask.y; y < bottom; y++) {
+    for (let x = mask.x; x < right; x++) {
+      callback((y * width + x) * 4);
+    }
+  }
+}
+
+function blankRegion(pixels: Uint8Array, width: number, height: number, mask: VisualMask): void {
+  forEachMaskedPixel(width, height, mask, offset => pixels.fill(255, offset, offset + 4));
+}
+
+function tintRegion(pixels: Uint8Array, width: number, height: number, mask: VisualMask): void {
+  forEachMaskedPixel(width, height, mask, offset => {
+    for (let channel = 0; channel < 3; channel++) {
+      pixels[offset + channel] = Math.round((pixels[offset + channel] + MASK_TINT[channel]) / 2);
+    }
+    pixels[offset + 3] = 255;
+  });
+}
+
+function countDifferentPixels(a: Uint8Array, b: Uint8Array): number {
+  let count = 0;
+  for (let offset = 0; offset < a.length; offset += 4) {
+    if (a[offset] !== b[offset] || a[offset + 1] !== b[offset + 1] || a[offset + 2] !== b[offset + 2] || a[offset + 3] !== b[offset + 3]) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Mean SSIM of the luminance over non-overlapping 8x8 windows
+ */
+function structuralSimilarity(a: Uint8Array, b: Uint8Array, width: number, height: number): number {
+  const windowSize = 8;
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  const luminance = (pixels: Uint8Array, offset: number) => 0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2];
+
+  let total = 0;
+  let windows = 0;
+  for (let top = 0; top < height; top += windowSize) {
+    for (let left = 0; left < width; left += windowSize) {
+      const bottom = Math.min(top + windowSize, height);
+      const right = Math.min(left + windowSize, width);
+      const count = (bottom - top) * (right - left);
+
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          const offset = (y * width + x) * 4;
+          const valueA = luminance(a, offset);
+          const valueB = luminance(b, offset);
+          sumA += valueA;
+          sumB += valueB;
+          sumAA += valueA * valueA;
+          sumBB += valueB * valueB;
+          sumAB += valueA * valueB;
+        }
+      }
+
+      const meanA = sumA / count;
+      const meanB = sumB / count;
+      const varianceA = sumAA / count - meanA * meanA;
+      const varianceB = sumBB / count - meanB * meanB;
+      const covariance = sumAB / count - meanA * meanB;
+      total += ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varianceA + varianceB + c2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 1;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// Export singleton instance
+export const visualRegressionService = new VisualRegressionService();
@@ -0,0 +1,140 @@
+import { FieldConstraints, SurveyField, TestCase } from '../types/types.js';
+import { formatLocalizedDecimal } from './locale-formats.js';
+
+/**
+ * A test case derived from a field constraint. The key names the constraint it probes and
+ * keeps test case ids stable, e.g. below_min or over_max_length.
+ */
+export interface ConstraintCase {
+  key: string;
+  type: TestCase['type'];
+  value: string | number;
+  description: string;
+  metadata?: Record<string, any>;
+}
+
+// Longer maxlength values are not worth typing out, e.g. the 524288 browsers report as default
+const MAX_GENERATED_LENGTH = 5000;
+
+// Tried in order for a value that does not match a field's pattern
+const PATTERN_VIOLATIONS = ['!@#$%', 'abc', '12345', 'ABC 123', 'éè'];
+
+// Characters repeated to a length, in order of preference
+const TEXT_FILLERS = ['x', 'X', '1', 'a', 'A', '0'];
+const NUMERIC_FILLERS = ['1', '0', '9'];
+
+// Inputs that only take numbers even without min or max
+const NUMERIC_INPUT_TYPES: Array<SurveyField['inputType']> = ['number', 'text_numeric', 'text_decimal'];
+
+/**
+ * Cases at and just beyond each constraint of a text or number field: min-1, min, a value
+ * in between, max and max+1 (in steps of the step attribute), a value between two steps,
+ * minlength-1, minlength, maxlength, maxlength+1 (expected to be truncated) and a value
+ * violating the pattern
+ */
+export function getConstraintCases(field: SurveyField, locale?: string): ConstraintCase[] {
+  const constraints = field.constraints || {};
+  const { min, max, minLength, maxLength, pattern } = constraints;
+  const cases: ConstraintCase[] = [];
+
+  const step = constraints.step && constraints.step > 0 ? constraints.step : field.inputType === 'text_decimal' ? 0.1 : 1;
+  const decimals = decimalsOf(step);
+  const format = (value: number, digits: number = decimals) => {
+    const text = String(parseFloat(value.toFixed(digits)));
+    return field.inputType === 'text_decimal' ? formatLocalizedDecimal(text, locale) : text;
+  };
+
+  if (min !== undefined) {
+    cases.push({ key: 'below_min', type: 'invalid', value: format(min - step), description: `Just below the minimum of ${min}` });
+    cases.push({ key: 'min', type: 'boundary', value: format(min), description: `Minimum of ${min}` });
+  }
+  if (min !== undefined && max !== undefined && max - min >= 2 * step) {
+    const middle = min + Math.floor((max - min) / 2 / step) * step;
+    cases.push({ key: 'in_range', type: 'valid', value: format(middle), description: `Between ${min} and ${max}` });
+  }
+  if (max !== undefined) {
+    cases.push({ key: 'max', type: 'boundary', value: format(max), description: `Maximum of ${max}` });
+    cases.push({ key: 'above_max', type: 'invalid', value: format(max + step), description: `Just above the maximum of ${max}` });
+  }
+  if (constraints.step && min !== undefined && (max === undefined || min + step / 2 < max)) {
+    cases.push({ key: 'off_step', type: 'invalid', value: format(min + step / 2, decimals + 1), description: `Between two steps of ${step}` });
+  }
+
+  // Repeats a character the pattern accepts, so length cases only probe the length; a value
+  // over maxlength is checked as the browser truncates it
+  const regex = pattern ? patternRegExp(pattern) : undefined;
+  const fillers = min !== undefined || max !== undefined || NUMERIC_INPUT_TYPES.includes(field.inputType) ? NUMERIC_FILLERS : TEXT_FILLERS;
+  const fill = (length: number, checkedLength: number = length) => {
+    const filler = fillers.find(candidate => !regex || regex.test(candidate.repeat(checkedLength))) || fillers[0];
+    return filler.repeat(length);
+  };
+  if (minLength !== undefined && minLength > 1 && minLength <= MAX_GENERATED_LENGTH) {
+    cases.push({ key: 'under_min_length', type: 'invalid', value: fill(minLength - 1), description: `One character shorter than the minimum length of ${minLength}` });
+    cases.push({ key: 'min_length', type: 'boundary', value: fill(minLength), description: `Minimum length of ${minLength} characters` });
+  }
+  if (maxLength !== undefined && maxLength <= MAX_GENERATED_LENGTH) {
+    cases.push({ key: 'max_length', type: 'boundary', value: fill(maxLength), description: `Maximum length of ${maxLength} characters` });
+    cases.push({ key: 'over_max_length', type: 'boundary', value: fill(maxLength + 1, maxLength), description: `One character over the maximum length of ${maxLength} (the browser truncates it)` });
+  }
+
+  const violation = regex && PATTERN_VIOLATIONS.find(value => !regex.test(value));
+  if (violation) {
+    cases.push({ key: 'pattern_violation', type: 'invalid', value: violation, description: `Does not match the pattern ${pattern}` });
+  }
+
+  return cases;
+}
+
+/**
+ * Cases at both ends of a slider's value range. VAS test values are positions in percent,
+ * so the range is kept in the metadata.
+ */
+export function getSliderRangeCases(field: SurveyField): ConstraintCase[] {
+  const { min, max } = field.constraints || {};
+  if (min === undefined || max === undefined) return [];
+  return [
+    { key: 'range_min', type: 'boundary', value: 0, description: `Slider minimum of ${min}`, metadata: { sliderValue: min } },
+    { key: 'range_max', type: 'boundary', value: 100, description: `Slider maximum of ${max}`, metadata: { sliderValue: max } }
+  ];
+}
+
+/**
+ * Whether the constraints let a value through. Undefined for empty values, whose outcome
+ * depends on whether the field is required.
+ */
+export function expectedOutcome(value: string | number, constraints: FieldConstraints): 'accept' | 'reject' | undefined {
+  // Typing stops at maxlength (counted in UTF-16 code units, like slice), so only the
+  // characters before it reach validation
+  const text = constraints.maxLength !== undefined ? String(value).slice(0, constraints.maxLength) : String(value);
+  if (text.trim() === '') return undefined;
+
+  if (constraints.minLength !== undefined && text.length < constraints.minLength) return 'reject';
+  const regex = constraints.pattern ? patternRegExp(constraints.pattern) : undefined;
+  if (regex && !regex.test(text)) return 'reject';
+
+  if (constraints.min !== undefined || constraints.max !== undefined) {
+    const number = Number(text.trim().replace(',', '.'));
+    if (!isFinite(number)) return 'reject';
+    if (constraints.min !== undefined && number < constraints.min) return 'reject';
+    if (constraints.max !== undefined && number > constraints.max) return 'reject';
+    if (constraints.step && constraints.step > 0) {
+      const steps = (number - (constraints.min ?? 0)) / constraints.step;
+      if (Math.abs(steps - Math.round(steps)) > 1e-9) return 'reject';
+    }
+  }
+  return 'accept';
+}
+
+// Browsers match the pattern attribute against the whole value; invalid patterns are ignored
+function patternRegExp(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(`^(?:${pattern})$`, 'u');
+  } catch {
+    return undefined;
+  }
+}
+
+function decimalsOf(value: number): number {
+  const [, fraction = ''] = String(value).split('.');
+  return fraction.length;
+}
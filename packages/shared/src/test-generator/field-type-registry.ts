@@ -1,8 +1,23 @@
-import { FieldTypePattern, DetectionResult, UnknownField } from '../types/types.js';
-import { logger } from '../utils/logger.js';
+import {
+  FieldTypePattern,
+  DetectionResult,
+  FieldTypeOverride,
+  UnknownField,
+  PatternUsageDelta,
+  SerializedRegExp,
+  StoredFieldTypePattern
+} from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('field-type-registry');
+
+export const BUILT_IN_PATTERN_SOURCE = 'built-in';
 
 export class FieldTypeRegistry {
   private patterns: Map<string, FieldTypePattern> = new Map();
+  private sources: Map<string, string> = new Map();
+  private pendingUsage: Map<string, PatternUsageDelta> = new Map();
+  private overrides: Map<string, FieldTypeOverride> = new Map();
   private unknownFields: UnknownField[] = [];
 
   constructor() {
@@ -166,6 +181,28 @@ export class FieldTypeRegistry {
           successRate: 1.0
         }
       },
+      {
+        id: 'postcode_detection_v1',
+        name: 'Postcode Detection',
+        priority: 80,
+        patterns: {
+          questionText: [
+            /\b(zip\s*code|postal\s*code|post\s*code|code\s+postal|postleitzahl|plz|c[oó]digo\s+postal|codice\s+postale|c[oó]digo\s+de\s+endere[cç]amento|postnummer|kod\s+pocztowy)\b/i,
+            /(郵便番号|邮政编码|邮编|الرمز البريدي)/
+          ],
+          inputAttributes: {
+            type: /^(text|text_numeric)$/i
+          }
+        },
+        testDataTemplate: 'postcode_validation_v1',
+        confidence: 90,
+        version: '1.0.0',
+        createdAt: new Date().toISOString(),
+        usage: {
+          totalMatches: 0,
+          successRate: 1.0
+        }
+      },
       {
         id: 'rating_scale_detection_v1',
         name: 'Rating Scale Detection',
@@ -239,14 +276,92 @@ export class FieldTypeRegistry {
 
     builtInPatterns.forEach(pattern => {
       this.patterns.set(pattern.id, pattern);
+      this.sources.set(pattern.id, BUILT_IN_PATTERN_SOURCE);
     });
 
     logger.info(`Initialized ${builtInPatterns.length} built-in field type patterns`);
   }
 
-  registerPattern(pattern: FieldTypePattern): void {
-    this.patterns.set(pattern.id, pattern);
-    logger.debug(`Registered pattern: ${pattern.name} (${pattern.id})`);
+  /**
+   * Adds or replaces a pattern. A pattern with the same ID is only replaced by a newer or
+   * equal version, and its usage statistics carry over to the replacement.
+   */
+  registerPattern(pattern: FieldTypePattern, source: string = 'runtime'): boolean {
+    const existing = this.patterns.get(pattern.id);
+    if (existing && compareVersions(pattern.version, existing.version) < 0) {
+      logger.debug(`Kept pattern ${pattern.id} v${existing.version} from ${this.sources.get(pattern.id)} over v${pattern.version} from ${source}`);
+      return false;
+    }
+
+    this.patterns.set(pattern.id, { ...pattern, usage: existing?.usage || pattern.usage });
+    this.sources.set(pattern.id, source);
+    logger.debug(`Registered pattern: ${pattern.name} (${pattern.id} v${pattern.version}) from ${source}`);
+    return true;
+  }
+
+  /**
+   * Registers stored patterns and applies their usage statistics. Usage-only entries
+   * update the statistics of an already registered pattern.
+   */
+  loadPatterns(storedPatterns: StoredFieldTypePattern[], source: string): number {
+    let registered = 0;
+    for (const stored of storedPatterns) {
+      if (stored.patterns && this.registerPattern(fromStoredPattern(stored), source)) {
+        registered++;
+      }
+      if (stored.usage) {
+        this.applyUsage(stored.id, stored.usage);
+      }
+    }
+    logger.info(`Loaded ${registered} of ${storedPatterns.filter(stored => stored.patterns).length} field type patterns from ${source}`);
+    return registered;
+  }
+
+  /**
+   * Sets the cumulative usage of a pattern from persisted statistics; matches that were
+   * not written back yet are added on top
+   */
+  applyUsage(patternId: string, usage: NonNullable<FieldTypePattern['usage']>): void {
+    const pattern = this.patterns.get(patternId);
+    if (!pattern) return;
+
+    const pending = this.pendingUsage.get(patternId);
+    pattern.usage = {
+      totalMatches: usage.totalMatches + (pending?.matches || 0),
+      successRate: usage.successRate ?? pattern.usage?.successRate ?? 1.0,
+      lastUsed: pending?.lastUsed || usage.lastUsed
+    };
+  }
+
+  /**
+   * Adds a human-assigned field type, replacing an older one for the same question
+   */
+  registerOverride(override: FieldTypeOverride): void {
+    const existing = this.overrides.get(override.id);
+    if (!existing || existing.classifiedAt <= override.classifiedAt) {
+      this.overrides.set(override.id, override);
+    }
+  }
+
+  getOverrides(): FieldTypeOverride[] {
+    return Array.from(this.overrides.values());
+  }
+
+  getPatterns(): FieldTypePattern[] {
+    return Array.from(this.patterns.values());
+  }
+
+  getPatternSource(patternId: string): string | undefined {
+    return this.sources.get(patternId);
+  }
+
+  /**
+   * Returns the matches recorded since the previous call, for writing back
+   */
+  takeUsageDeltas(): PatternUsageDelta[] {
+    const deltas = Array.from(this.pendingUsage.values());
+    this.pendingUsage.clear();
+    return deltas;
   }
 
   detectFieldType(
@@ -255,6 +370,18 @@ export class FieldTypeRegistry {
     choices?: string[],
     context?: any
   ): DetectionResult {
+    // Questions classified by a person keep their assigned type
+    const override = this.overrides.get(overrideKey(questionText, inputType));
+    if (override) {
+      return {
+        fieldType: override.fieldType,
+        confidence: 100,
+        method: 'override',
+        matchedPatterns: [`override: ${override.classifiedBy || 'manual'} ${override.classifiedAt}`],
+        template: override.template
+      };
+    }
+
     const results: Array<{ pattern: FieldTypePattern; confidence: number; matches: string[] }> = [];
 
     // Sort patterns by priority (higher first)
@@ -305,6 +432,11 @@ export class FieldTypeRegistry {
         pattern.usage = pattern.usage || { totalMatches: 0, successRate: 1.0 };
         pattern.usage.totalMatches++;
         pattern.usage.lastUsed = new Date().toISOString();
+
+        const pending = this.pendingUsage.get(pattern.id) || { patternId: pattern.id, name: pattern.name, matches: 0, lastUsed: '' };
+        pending.matches++;
+        pending.lastUsed = pattern.usage.lastUsed;
+        this.pendingUsage.set(pattern.id, pending);
       }
     }
 
@@ -390,6 +522,8 @@ export class FieldTypeRegistry {
     this.patterns.forEach((pattern, id) => {
       stats[id] = {
         name: pattern.name,
+        version: pattern.version,
+        source: this.sources.get(id),
         priority: pattern.priority,
         confidence: pattern.confidence,
         usage: pattern.usage
@@ -409,5 +543,89 @@ export class FieldTypeRegistry {
   }
 }
 
+/**
+ * Key of an override: the question text without case and whitespace differences, and the input type
+ */
+export function overrideKey(questionText: string, inputType: string): string {
+  return `${inputType.toLowerCase()}:${questionText.replace(/\s+/g, ' ').trim().toLowerCase()}`;
+}
+
+/**
+ * Converts a pattern to its JSON form, with every RegExp as its source and flags
+ */
+export function toStoredPattern(pattern: FieldTypePattern): StoredFieldTypePattern {
+  const serialize = (regex: RegExp): SerializedRegExp => ({ source: regex.source, flags: regex.flags });
+  return {
+    ...pattern,
+    patterns: {
+      questionText: pattern.patterns.questionText.map(serialize),
+      ...(pattern.patterns.inputAttributes && {
+        inputAttributes: Object.fromEntries(Object.entries(pattern.patterns.inputAttributes).map(([attr, regex]) => [attr, serialize(regex)]))
+      }),
+      ...(pattern.patterns.contextClues && { contextClues: pattern.patterns.contextClues.map(serialize) })
+    }
+  };
+}
+
+/**
+ * Rebuilds a pattern from its JSON form. Regular expressions may also be given as
+ * plain strings, which are matched case-insensitively.
+ */
+export function fromStoredPattern(stored: StoredFieldTypePattern): FieldTypePattern {
+  const label = stored.id ? `field type pattern ${stored.id}` : 'field type pattern';
+  for (const key of ['id', 'name', 'testDataTemplate', 'version'] as const) {
+    if (typeof stored[key] !== 'string' || !stored[key]) {
+      throw new Error(`Invalid ${label}: ${key} must be a non-empty string`);
+    }
+  }
+  for (const key of ['priority', 'confidence'] as const) {
+    if (typeof stored[key] !== 'number') {
+      throw new Error(`Invalid ${label}: ${key} must be a number`);
+    }
+  }
+  if (!stored.patterns || !Array.isArray(stored.patterns.questionText)) {
+    throw new Error(`Invalid ${label}: patterns.questionText must be an array`);
+  }
+
+  const deserialize = (value: SerializedRegExp | string, path: string): RegExp => {
+    try {
+      return typeof value === 'string' ? new RegExp(value, 'i') : new RegExp(value.source, value.flags || '');
+    } catch (error) {
+      throw new Error(`Invalid ${label}: ${path} is not a valid regular expression (${error instanceof Error ? error.message : String(error)})`);
+    }
+  };
+  const { patterns, source: _source, updatedAt: _updatedAt, ...rest } = stored;
+
+  return {
+    ...rest,
+    createdAt: stored.createdAt || new Date().toISOString(),
+    patterns: {
+      questionText: patterns.questionText.map((value, index) => deserialize(value, `patterns.questionText[${index}]`)),
+      ...(patterns.inputAttributes && {
+        inputAttributes: Object.fromEntries(Object.entries(patterns.inputAttributes)
+          .map(([attr, value]) => [attr, deserialize(value, `patterns.inputAttributes.${attr}`)]))
+      }),
+      ...(patterns.contextClues && {
+        contextClues: patterns.contextClues.map((value, index) => deserialize(value, `patterns.contextClues[${index}]`))
+      })
+    },
+    usage: stored.usage || { totalMatches: 0, successRate: 1.0 }
+  };
+}
+
+/**
+ * Compares dotted version numbers such as 1.2.0, ignoring a leading v
+ */
+export function compareVersions(a: string, b: string): number {
+  const parts = (version: string) => version.replace(/^v/i, '').split('.').map(part => parseInt(part, 10) || 0);
+  const left = parts(a);
+  const right = parts(b);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const difference = (left[index] || 0) - (right[index] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
 // Export singleton instance
 export const fieldTypeRegistry = new FieldTypeRegistry();
\ No newline at end of file
@@ -0,0 +1,293 @@
+import { GeneratorFunction, SurveyField } from '../types/types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import { DEFAULT_LOCALE, formatLocalizedDate, formatLocalizedDecimal, getLocaleFormat } from './locale-formats.js';
+
+const logger = rootLogger.child('generator-registry');
+
+/**
+ * What a generator knows about the field it generates a value for. Attributes hold the
+ * input type, required flag and constraints of the field, as strings like HTML attributes.
+ */
+export interface GeneratorContext {
+  field: SurveyField;
+  choices: string[];
+  attributes: Record<string, string>;
+  locale?: string;
+  random: () => number;  // Uniform in [0, 1)
+  now: Date;             // Reference for relative dates like -1y
+}
+
+export type GeneratorImplementation = (params: Record<string, any>, context: GeneratorContext) => string | number;
+
+// Names per language; the ASCII lists of English also build email addresses
+const NAMES: Record<string, { first: string[]; last: string[]; separator?: string; familyFirst?: boolean }> = {
+  en: { first: ['James', 'Mary', 'Robert', 'Patricia', 'Michael', 'Linda', 'David', 'Susan', 'Olivia', 'Noah'], last: ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Miller', 'Davis', 'Wilson', "O'Brien", 'Taylor-Reed'] },
+  es: { first: ['María', 'José', 'Lucía', 'Javier', 'Carmen', 'Álvaro', 'Sofía', 'Íñigo'], last: ['García', 'Fernández', 'González', 'Rodríguez', 'López', 'Martínez', 'Sánchez', 'Pérez-Núñez'] },
+  de: { first: ['Jürgen', 'Anna', 'Lukas', 'Käthe', 'Maximilian', 'Sophie', 'Björn', 'Lea'], last: ['Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weiß', 'Größer', 'Becker', 'von Bülow'] },
+  fr: { first: ['Jean-Luc', 'Élodie', 'François', 'Chloé', 'Hélène', 'Benoît', 'Amélie', 'Léa'], last: ['Martin', 'Bernard', 'Dubois', 'Lefèvre', "D'Arcy", 'Moreau', 'Girard', 'Faure'] },
+  zh: { first: ['伟', '芳', '娜', '秀英', '敏', '静', '小明', '建国'], last: ['王', '李', '张', '刘', '陈', '杨', '欧阳', '司马'], separator: '', familyFirst: true },
+  ja: { first: ['太郎', '花子', '翔', '陽菜', '蓮', '結衣', '大輔', 'さくら'], last: ['佐藤', '鈴木', '高橋', '田中', '伊藤', '渡辺', '山本', '中村'], separator: ' ', familyFirst: true },
+  it: { first: ['Niccolò', 'Lucia', 'Giuseppe', 'Chiara', 'Nicolò', 'Francesca', 'Andrea', 'Giulia'], last: ['Rossi', 'Russo', "D'Angelo", 'Esposito', 'Bianchi', 'Romano', 'Colombo', 'De Luca'] },
+  nl: { first: ['Daniël', 'Sanne', 'Joëlle', 'Ruud', 'Femke', 'Sjoerd', 'Noor', 'Bram'], last: ['de Vries', 'van der Berg', 'Jansen', "'t Hart", 'Bakker', 'van Dijk', 'Smit', 'Visser'] },
+  pl: { first: ['Łukasz', 'Zofia', 'Małgorzata', 'Wojciech', 'Agnieszka', 'Paweł', 'Katarzyna', 'Jędrzej'], last: ['Nowak', 'Kowalczyk-Żak', 'Wróblewski', 'Wiśniewska', 'Dąbrowski', 'Łęcka', 'Zieliński', 'Szymańska'] },
+  pt: { first: ['João', 'Ana Sofia', 'Conceição', 'Gonçalo', 'Inês', 'Tomás', 'Beatriz', 'Sebastião'], last: ['Silva', 'Gonçalves', 'Conceição', 'Magalhães', 'Araújo', 'Pereira', 'Simões', 'Brandão'] },
+  ar: { first: ['محمد', 'فاطمة', 'أحمد', 'مريم', 'علي', 'نور', 'يوسف', 'ليلى'], last: ['العلي', 'حداد', 'الخطيب', 'منصور', 'النجار', 'الحسيني', 'سليمان', 'عيسى'] }
+};
+
+// Phone numbers per country; # is a random digit
+const PHONE_FORMATS: Record<string, { national: string; international: string }> = {
+  US: { national: '(###) 555-####', international: '+1 ###-555-####' },
+  GB: { national: '07700 900###', international: '+44 7700 900###' },
+  DE: { national: '0151 ########', international: '+49 151 ########' },
+  FR: { national: '06 ## ## ## ##', international: '+33 6 ## ## ## ##' },
+  ES: { national: '6## ### ###', international: '+34 6## ### ###' },
+  CN: { national: '138 #### ####', international: '+86 138 #### ####' },
+  JP: { national: '090-####-####', international: '+81 90-####-####' },
+  SA: { national: '05# ### ####', international: '+966 5# ### ####' },
+  IT: { national: '3## ### ####', international: '+39 3## ### ####' },
+  NL: { national: '06 ########', international: '+31 6 ########' },
+  PL: { national: '5## ### ###', international: '+48 5## ### ###' },
+  PT: { national: '91# ### ###', international: '+351 91# ### ###' },
+  BR: { national: '(11) 9####-####', international: '+55 11 9####-####' }
+};
+
+// Default country of a language for locales without a region
+const LANGUAGE_COUNTRIES: Record<string, string> = { en: 'US', es: 'ES', de: 'DE', fr: 'FR', zh: 'CN', ja: 'JP', ar: 'SA', it: 'IT', nl: 'NL', pl: 'PL', pt: 'PT' };
+
+// Invisible and combining characters are escaped
+const UNICODE_SETS: Record<string, string[]> = {
+  emoji: ['😀', '👍🏽', '🇯🇵', '❤\uFE0F', '\u{1F469}\u200D\u{1F469}\u200D\u{1F467}\u200D\u{1F466}', '\u{1F9D1}\u{1F3FF}\u200D\u{1F680}', '\u{1F937}\u200D♀\uFE0F'],
+  combining: ['e\u0301', 'a\u0308', 'n\u0303', 'o\u0332', 'Z\u0351\u0357\u0300', 'i\u0307\u0301'],
+  rtl: ['שלום', 'مرحبا', '\u202Eabc', 'עברית 123', 'العربية'],
+  cjk: ['漢字', 'かな', 'カタカナ', '한국어', '\u{2070E}\u{20779}'],
+  zero_width: ['a\u200Bb', 'c\u200Cd', 'e\u200Df', '\uFEFFg', 'h\u2060i'],
+  symbols: ['™', '∑', '≠', '€', '§', '¶', '«»', '<>&"\'']
+};
+
+const ALPHABET = 'abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Named functions producing the values of `generated` test case templates. A template
+ * declares `{ type: 'function', name, params }`; the generator reads the params and the
+ * field context, and draws randomness only from `context.random`.
+ */
+export class GeneratorRegistry {
+  private generators: Map<string, GeneratorImplementation> = new Map();
+
+  constructor() {
+    this.initializeBuiltInGenerators();
+  }
+
+  private initializeBuiltInGenerators(): void {
+    // params: locale, part ('full' | 'first' | 'last')
+    this.register('random_name', (params, context) => {
+      const names = NAMES[resolveLanguage(params.locale || context.locale, Object.keys(NAMES))];
+      const first = pick(names.first, context.random);
+      const last = pick(names.last, context.random);
+      if (params.part === 'first') return first;
+      if (params.part === 'last') return last;
+      const separator = names.separator ?? ' ';
+      return names.familyFirst ? `${last}${separator}${first}` : `${first}${separator}${last}`;
+    });
+
+    // params: domain
+    this.register('random_email', (params, context) => {
+      const first = pick(NAMES.en.first, context.random).toLowerCase();
+      const last = pick(NAMES.en.last, context.random).toLowerCase().replace(/[^a-z]/g, '');
+      const domain = params.domain || pick(['example.com', 'example.org', 'mail.example.net'], context.random);
+      return `${first}.${last}${randomInt(1, 99, context.random)}@${domain}`;
+    });
+
+    // params: locale or country, format ('national' | 'international')
+    this.register('random_phone', (params, context) => {
+      const country = resolveCountry(params.country, params.locale || context.locale);
+      const format = PHONE_FORMATS[country][params.format === 'national' ? 'national' : 'international'];
+      return format.replace(/#/g, () => String(randomInt(0, 9, context.random)));
+    });
+
+    // params: from, to (ISO dates, 'today' or offsets like '-30d', '+1y'), format ('iso' | 'us' | 'eu' | 'locale')
+    this.register('date_in_range', (params, context) => {
+      const from = resolveDate(params.from ?? '-1y', context.now);
+      const to = resolveDate(params.to ?? 'today', context.now);
+      if (from > to) {
+        throw new Error(`date_in_range: from (${params.from}) is after to (${params.to})`);
+      }
+      const days = Math.round((to.getTime() - from.getTime()) / 86400000);
+      const date = new Date(from.getTime() + randomInt(0, days, context.random) * 86400000);
+      return params.format === 'locale' ? formatLocalizedDate(date, context.locale) : formatDate(date, params.format || 'iso');
+    });
+
+    // params: length (default: maxlength attribute, else 255), text (repeated to the length)
+    this.register('string_of_length', (params, context) => {
+      const length = Number(params.length ?? context.attributes.maxlength ?? 255);
+      if (!Number.isInteger(length) || length < 0) {
+        throw new Error(`string_of_length: invalid length ${params.length}`);
+      }
+      const text: string = params.text || ALPHABET;
+      return text.repeat(Math.ceil(length / text.length)).slice(0, length);
+    });
+
+    // params: set (emoji, combining, rtl, cjk, zero_width, symbols or mixed), count
+    this.register('unicode_stress', (params, context) => {
+      const set = params.set || 'mixed';
+      const values = set === 'mixed' ? Object.values(UNICODE_SETS).flat() : UNICODE_SETS[set];
+      if (!values) {
+        throw new Error(`unicode_stress: unknown set "${set}". Use ${[...Object.keys(UNICODE_SETS), 'mixed'].join(', ')}`);
+      }
+      return Array.from({ length: Number(params.count ?? 8) }, () => pick(values, context.random)).join(params.separator ?? ' ');
+    });
+
+    // params: min, max (default: min and max attributes, else 0 and 100), decimals, localized (decimal separator of the locale)
+    this.register('number_in_range', (params, context) => {
+      const min = Number(params.min ?? context.attributes.min ?? 0);
+      const max = Number(params.max ?? context.attributes.max ?? 100);
+      const decimals = Number(params.decimals ?? 0);
+      if (!(min <= max)) {
+        throw new Error(`number_in_range: invalid range ${min}..${max}`);
+      }
+      const factor = Math.pow(10, decimals);
+      const value = randomInt(Math.ceil(min * factor), Math.floor(max * factor), context.random) / factor;
+      return params.localized ? formatLocalizedDecimal(value.toFixed(decimals), context.locale) : value.toFixed(decimals);
+    });
+
+    // params: locale
+    this.register('random_postcode', (params, context) =>
+      pick(getLocaleFormat(params.locale || context.locale).postcodes, context.random));
+
+    // params: exclude (positions never picked)
+    this.register('random_choice', (params, context) => {
+      const exclude: number[] = params.exclude || [];
+      const choices = context.choices.filter((_, position) => !exclude.includes(position));
+      if (choices.length === 0) {
+        throw new Error(`random_choice: question ${context.field.questionNumber} has no choices to pick from`);
+      }
+      return pick(choices, context.random);
+    });
+
+    logger.debug(`Initialized ${this.generators.size} built-in generators`);
+  }
+
+  register(name: string, generator: GeneratorImplementation): void {
+    this.generators.set(name, generator);
+    logger.debug(`Registered generator: ${name}`);
+  }
+
+  has(name: string): boolean {
+    return this.generators.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.generators.keys()).sort();
+  }
+
+  execute(generator: GeneratorFunction, context: GeneratorContext): string | number {
+    const implementation = this.generators.get(generator.name);
+    if (!implementation) {
+      throw new Error(`Unknown generator "${generator.name}". Available: ${this.getNames().join(', ')}`);
+    }
+    return implementation(generator.params || {}, context);
+  }
+}
+
+/**
+ * Context of a field, with its choices and attributes
+ */
+export function createGeneratorContext(
+  field: SurveyField,
+  options: { locale?: string; random?: () => number; now?: Date } = {}
+): GeneratorContext {
+  return {
+    field,
+    choices: field.choices || [],
+    attributes: { type: field.inputType, required: String(field.isRequired), ...constraintAttributes(field) },
+    locale: options.locale,
+    random: options.random || Math.random,
+    now: options.now || new Date()
+  };
+}
+
+/**
+ * A new random seed, recorded with generated test data so they can be reproduced
+ */
+export function createSeed(): string {
+  return Math.floor(Math.random() * 0x100000000).toString(16).padStart(8, '0');
+}
+
+/**
+ * Deterministic random numbers in [0, 1) for a seed: the same seed always yields the same
+ * sequence (FNV-1a hash of the seed feeding mulberry32)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The field's constraints under their HTML attribute names, e.g. maxlength
+function constraintAttributes(field: SurveyField): Record<string, string> {
+  const { min, max, step, minLength, maxLength, pattern } = field.constraints || {};
+  const attributes: Record<string, string | number | undefined> = { min, max, step, minlength: minLength, maxlength: maxLength, pattern };
+  return Object.fromEntries(Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => [name, String(value)]));
+}
+
+function randomInt(min: number, max: number, random: () => number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(values: T[], random: () => number): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+// Language of a locale like pt-BR or zh_Hant, if supported, else the default locale's
+function resolveLanguage(locale: string | undefined, supported: string[]): string {
+  const language = (locale || DEFAULT_LOCALE).split(/[-_]/)[0].toLowerCase();
+  return supported.includes(language) ? language : DEFAULT_LOCALE.split('-')[0];
+}
+
+function resolveCountry(country: string | undefined, locale: string | undefined): string {
+  if (country && PHONE_FORMATS[country.toUpperCase()]) return country.toUpperCase();
+  const [language, region] = (locale || DEFAULT_LOCALE).split(/[-_]/);
+  if (region && PHONE_FORMATS[region.toUpperCase()]) return region.toUpperCase();
+  return LANGUAGE_COUNTRIES[language.toLowerCase()] || 'US';
+}
+
+function resolveDate(value: string, now: Date): Date {
+  const today = new Date(now.getTime());
+  today.setUTCHours(0, 0, 0, 0);
+  if (value === 'today') return today;
+
+  const offset = /^([+-]\d+)([dmy])$/.exec(value);
+  if (offset) {
+    const amount = parseInt(offset[1], 10);
+    if (offset[2] === 'd') today.setUTCDate(today.getUTCDate() + amount);
+    if (offset[2] === 'm') today.setUTCMonth(today.getUTCMonth() + amount);
+    if (offset[2] === 'y') today.setUTCFullYear(today.getUTCFullYear() + amount);
+    return today;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}". Use an ISO date, 'today' or an offset like -30d`);
+  }
+  return date;
+}
+
+function formatDate(date: Date, format: string): string {
+  const iso = date.toISOString().slice(0, 10);
+  const [year, month, day] = iso.split('-');
+  if (format === 'us') return `${month}/${day}/${year}`;
+  if (format === 'eu') return `${day}/${month}/${year}`;
+  return iso;
+}
+
+// Export singleton instance
+export const generatorRegistry = new GeneratorRegistry();
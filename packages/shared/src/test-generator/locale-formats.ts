@@ -0,0 +1,95 @@
+/**
+ * How people in a locale type dates, decimals and postcodes. Locales are matched on the
+ * full tag first (en-GB), then on the language (fr for fr-CA).
+ */
+export interface LocaleFormat {
+  dateOrder: 'mdy' | 'dmy' | 'ymd';
+  dateSeparator: string;
+  decimalSeparator: '.' | ',';
+  postcodes: string[];  // Valid examples; the first is the most common shape
+}
+
+const LOCALE_FORMATS: Record<string, LocaleFormat> = {
+  'en': { dateOrder: 'mdy', dateSeparator: '/', decimalSeparator: '.', postcodes: ['90210', '10001-1234'] },
+  'en-GB': { dateOrder: 'dmy', dateSeparator: '/', decimalSeparator: '.', postcodes: ['SW1A 1AA', 'M1 1AE', 'EC1A 1BB'] },
+  'en-AU': { dateOrder: 'dmy', dateSeparator: '/', decimalSeparator: '.', postcodes: ['2000', '3000'] },
+  'en-CA': { dateOrder: 'ymd', dateSeparator: '-', decimalSeparator: '.', postcodes: ['K1A 0B1', 'M5V 3L9'] },
+  'fr': { dateOrder: 'dmy', dateSeparator: '/', decimalSeparator: ',', postcodes: ['75008', '13001', '2A004'] },
+  'fr-CA': { dateOrder: 'ymd', dateSeparator: '-', decimalSeparator: ',', postcodes: ['H2X 1Y4', 'G1R 4P5'] },
+  'fr-BE': { dateOrder: 'dmy', dateSeparator: '/', decimalSeparator: ',', postcodes: ['1000', '4000'] },
+  'de': { dateOrder: 'dmy', dateSeparator: '.', decimalSeparator: ',', postcodes: ['10115', '80331', '01067'] },
+  'de-CH': { dateOrder: 'dmy', dateSeparator: '.', decimalSeparator: '.', postcodes: ['8001', '3011'] },
+  'es': { dateOrder: 'dmy', dateSeparator: '/', decimalSeparator: ',', postcodes: ['28013', '08001', '01001'] },
+  'it': { dateOrder: 'dmy', dateSeparator: '/', decimalSeparator: ',', postcodes: ['00184', '20121'] },
+  'nl': { dateOrder: 'dmy', dateSeparator: '-', decimalSeparator: ',', postcodes: ['1012 JS', '3011AD'] },
+  'pt': { dateOrder: 'dmy', dateSeparator: '/', decimalSeparator: ',', postcodes: ['1100-148', '4000-322'] },
+  'pt-BR': { dateOrder: 'dmy', dateSeparator: '/', decimalSeparator: ',', postcodes: ['01310-100', '20040-020'] },
+  'pl': { dateOrder: 'dmy', dateSeparator: '.', decimalSeparator: ',', postcodes: ['00-950', '31-001'] },
+  'sv': { dateOrder: 'ymd', dateSeparator: '-', decimalSeparator: ',', postcodes: ['111 52', '41101'] },
+  'ja': { dateOrder: 'ymd', dateSeparator: '/', decimalSeparator: '.', postcodes: ['100-0001', '530-0001'] },
+  'zh': { dateOrder: 'ymd', dateSeparator: '-', decimalSeparator: '.', postcodes: ['100000', '200001'] },
+  'ar': { dateOrder: 'dmy', dateSeparator: '/', decimalSeparator: '.', postcodes: ['11564', '12271'] }
+};
+
+export const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * Normalizes a tuple language like fr_FR or EN to a BCP 47 tag (fr-FR, en)
+ */
+export function normalizeLocale(locale: string | undefined): string {
+  const [language, ...rest] = (locale || DEFAULT_LOCALE).trim().split(/[-_]/);
+  return [language.toLowerCase(), ...rest.map(part => part.length === 2 ? part.toUpperCase() : part)].join('-');
+}
+
+/**
+ * The candidate keys of a locale from most to least specific, e.g. fr-CA, fr
+ */
+export function localeFallbacks(locale: string | undefined): string[] {
+  const normalized = normalizeLocale(locale);
+  const language = normalized.split('-')[0];
+  return normalized === language ? [language] : [normalized, language];
+}
+
+export function getLocaleFormat(locale: string | undefined): LocaleFormat {
+  const key = localeFallbacks(locale).find(candidate => LOCALE_FORMATS[candidate]);
+  return LOCALE_FORMATS[key || 'en'];
+}
+
+export function formatLocalizedDate(date: Date, locale: string | undefined): string {
+  const { dateOrder, dateSeparator } = getLocaleFormat(locale);
+  const [year, month, day] = date.toISOString().slice(0, 10).split('-');
+  const parts = dateOrder === 'mdy' ? [month, day, year] : dateOrder === 'dmy' ? [day, month, year] : [year, month, day];
+  return parts.join(dateSeparator);
+}
+
+/**
+ * Reads a date typed in the locale's order, or an ISO date. Returns undefined for other text.
+ */
+export function parseLocalizedDate(value: string, locale: string | undefined): Date | undefined {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T00:00:00`);
+  }
+  const parts = value.split(/[./-]/);
+  if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) {
+    return undefined;
+  }
+
+  const { dateOrder } = getLocaleFormat(locale);
+  const [year, month, day] = dateOrder === 'mdy' ? [parts[2], parts[0], parts[1]]
+    : dateOrder === 'dmy' ? [parts[2], parts[1], parts[0]]
+    : parts;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  return date.getMonth() === Number(month) - 1 ? date : undefined;
+}
+
+export function formatLocalizedDecimal(value: number | string, locale: string | undefined): string {
+  const text = String(value);
+  return getLocaleFormat(locale).decimalSeparator === ',' ? text.replace('.', ',') : text;
+}
+
+/**
+ * Locales with their own formats, for building template variations
+ */
+export function getFormattedLocales(): string[] {
+  return Object.keys(LOCALE_FORMATS);
+}
@@ -6,10 +6,206 @@ import {
   SurveyField, 
   DetectionResult,
   TestDataSummary,
-  GeneratorFunction 
+  GeneratorFunction,
+  VariationSet
 } from '../types/types.js';
+import { ConstraintCase, expectedOutcome, getConstraintCases, getSliderRangeCases } from './constraint-cases.js';
 import { fieldTypeRegistry } from './field-type-registry.js';
-import { logger } from '../utils/logger.js';
+import { createGeneratorContext, createSeededRandom, generatorRegistry } from './generator-registry.js';
+import {
+  formatLocalizedDate,
+  formatLocalizedDecimal,
+  getFormattedLocales,
+  getLocaleFormat,
+  localeFallbacks,
+  normalizeLocale
+} from './locale-formats.js';
+import { logger as rootLogger } from '../utils/logger.js';
+
+const logger = rootLogger.child('test-data-generator');
+
+export interface TestDataOptions {
+  locale?: string;       // Language of the survey tuple, e.g. fr or pt-BR
+  seed?: string;         // Makes generated values reproducible; recorded in the test data
+  generatedAt?: string;  // Time of generation, also the reference of relative dates (default: now)
+}
+
+// Settings shared by the test cases of a field
+interface GenerationContext {
+  locale?: string;
+  seed?: string;
+  generatedAt: string;
+}
+
+function staticCase(type: TestCaseTemplate['type'], value: string, description: string, weight: number): TestCaseTemplate {
+  return { type, valueType: 'static', value, description, weight };
+}
+
+function generatedCase(type: TestCaseTemplate['type'], name: string, params: Record<string, any>, description: string, weight: number): TestCaseTemplate {
+  return { type, valueType: 'generated', value: { type: 'function', name, params }, description, weight };
+}
+
+// Names as people in each language write them, with their diacritics and particles
+const NAME_VARIATIONS: VariationSet[] = [
+  { id: 'name_fr', name: 'French names', locale: 'fr', culture: 'French', testCases: [
+    staticCase('valid', 'Élodie Lefèvre', 'Name with acute and grave accents', 10),
+    staticCase('valid', 'Jean-François Dubois', 'Hyphenated first name with cedilla', 9),
+    staticCase('edge', 'Hélène D\'Arcy', 'Surname with apostrophe', 7),
+    staticCase('edge', 'Maëlys Bérénice de La Tour-Châteaux', 'Diaeresis, circumflex and particle', 6),
+    staticCase('boundary', 'A', 'Single character name', 4),
+    generatedCase('valid', 'random_name', {}, 'Random French name', 6)
+  ] },
+  { id: 'name_de', name: 'German names', locale: 'de', culture: 'German', testCases: [
+    staticCase('valid', 'Jürgen Müller', 'Name with umlauts', 10),
+    staticCase('valid', 'Käthe Weiß', 'Name with sharp s', 9),
+    staticCase('edge', 'Hans-Peter von Bülow', 'Hyphenated first name with nobiliary particle', 7),
+    staticCase('edge', 'Jürgen Mueller', 'Umlaut transcribed as ue', 6),
+    staticCase('boundary', 'A', 'Single character name', 4),
+    generatedCase('valid', 'random_name', {}, 'Random German name', 6)
+  ] },
+  { id: 'name_es', name: 'Spanish names', locale: 'es', culture: 'Spanish', testCases: [
+    staticCase('valid', 'María José García-López', 'Two surnames with accents and hyphen', 10),
+    staticCase('valid', 'Íñigo Núñez', 'Name with tilde', 9),
+    staticCase('edge', 'José Luis de la Fuente Peña', 'Compound name with particles', 7),
+    staticCase('boundary', 'A', 'Single character name', 4),
+    generatedCase('valid', 'random_name', {}, 'Random Spanish name', 6)
+  ] },
+  { id: 'name_it', name: 'Italian names', locale: 'it', culture: 'Italian', testCases: [
+    staticCase('valid', 'Niccolò Rossi', 'Name with grave accent', 10),
+    staticCase('edge', 'Lucia D\'Angelo', 'Surname with apostrophe', 7),
+    staticCase('boundary', 'A', 'Single character name', 4),
+    generatedCase('valid', 'random_name', {}, 'Random Italian name', 6)
+  ] },
+  { id: 'name_nl', name: 'Dutch names', locale: 'nl', culture: 'Dutch', testCases: [
+    staticCase('valid', 'Sanne van der Berg', 'Surname with tussenvoegsel', 10),
+    staticCase('valid', 'Daniël de Vries', 'Name with diaeresis', 9),
+    staticCase('edge', 'Ruud \'t Hart', 'Surname starting with an apostrophe', 7),
+    staticCase('boundary', 'A', 'Single character name', 4),
+    generatedCase('valid', 'random_name', {}, 'Random Dutch name', 6)
+  ] },
+  { id: 'name_pl', name: 'Polish names', locale: 'pl', culture: 'Polish', testCases: [
+    staticCase('valid', 'Łukasz Wróblewski', 'Name with stroke and acute accent', 10),
+    staticCase('edge', 'Zofia Kowalczyk-Żak', 'Double surname with dot above', 7),
+    staticCase('boundary', 'A', 'Single character name', 4),
+    generatedCase('valid', 'random_name', {}, 'Random Polish name', 6)
+  ] },
+  { id: 'name_pt', name: 'Portuguese names', locale: 'pt', culture: 'Portuguese', testCases: [
+    staticCase('valid', 'João Gonçalves', 'Name with tilde and cedilla', 10),
+    staticCase('edge', 'Ana Sofia da Conceição Magalhães', 'Compound name with particle', 7),
+    staticCase('boundary', 'A', 'Single character name', 4),
+    generatedCase('valid', 'random_name', {}, 'Random Portuguese name', 6)
+  ] }
+];
+
+// National and international numbers of each country
+const PHONE_VARIATIONS: VariationSet[] = [
+  { id: 'phone_en_gb', name: 'UK phone numbers', locale: 'en-GB', culture: 'British', testCases: [
+    staticCase('valid', '07700 900123', 'UK mobile number', 10),
+    staticCase('valid', '+44 7700 900123', 'UK mobile with country code', 9),
+    staticCase('valid', '020 7946 0958', 'London landline', 8),
+    staticCase('edge', '(020) 7946 0958', 'Landline with parentheses', 6),
+    generatedCase('valid', 'random_phone', { format: 'national' }, 'Random UK number', 6)
+  ] },
+  { id: 'phone_fr', name: 'French phone numbers', locale: 'fr', culture: 'French', testCases: [
+    staticCase('valid', '06 12 34 56 78', 'Mobile number in pairs', 10),
+    staticCase('valid', '+33 6 12 34 56 78', 'Mobile with country code', 9),
+    staticCase('valid', '01 23 45 67 89', 'Paris landline', 8),
+    staticCase('edge', '06.12.34.56.78', 'Pairs separated by dots', 6),
+    staticCase('edge', '0612345678', 'Mobile without separators', 6),
+    generatedCase('valid', 'random_phone', { format: 'national' }, 'Random French number', 6)
+  ] },
+  { id: 'phone_de', name: 'German phone numbers', locale: 'de', culture: 'German', testCases: [
+    staticCase('valid', '0151 23456789', 'Mobile number', 10),
+    staticCase('valid', '+49 151 23456789', 'Mobile with country code', 9),
+    staticCase('valid', '030 1234567', 'Berlin landline', 8),
+    staticCase('edge', '(030) 123 45 67', 'Area code in parentheses', 6),
+    staticCase('edge', '030/1234567', 'Area code with slash', 6),
+    generatedCase('valid', 'random_phone', { format: 'national' }, 'Random German number', 6)
+  ] },
+  { id: 'phone_es', name: 'Spanish phone numbers', locale: 'es', culture: 'Spanish', testCases: [
+    staticCase('valid', '612 345 678', 'Mobile number', 10),
+    staticCase('valid', '+34 612 345 678', 'Mobile with country code', 9),
+    staticCase('valid', '912 345 678', 'Madrid landline', 8),
+    staticCase('edge', '612345678', 'Mobile without separators', 6),
+    generatedCase('valid', 'random_phone', { format: 'national' }, 'Random Spanish number', 6)
+  ] },
+  { id: 'phone_it', name: 'Italian phone numbers', locale: 'it', culture: 'Italian', testCases: [
+    staticCase('valid', '312 345 6789', 'Mobile number', 10),
+    staticCase('valid', '+39 312 345 6789', 'Mobile with country code', 9),
+    staticCase('valid', '06 1234 5678', 'Rome landline with leading zero', 8),
+    generatedCase('valid', 'random_phone', { format: 'national' }, 'Random Italian number', 6)
+  ] },
+  { id: 'phone_nl', name: 'Dutch phone numbers', locale: 'nl', culture: 'Dutch', testCases: [
+    staticCase('valid', '06 12345678', 'Mobile number', 10),
+    staticCase('valid', '+31 6 12345678', 'Mobile with country code', 9),
+    staticCase('valid', '020-1234567', 'Amsterdam landline', 8),
+    generatedCase('valid', 'random_phone', { format: 'national' }, 'Random Dutch number', 6)
+  ] }
+];
+
+const US_DATE = 'mdy';
+
+// Typed dates in the order and separator of each locale that differs from the US format
+const DATE_VARIATIONS: VariationSet[] = getFormattedLocales()
+  .filter(locale => {
+    const { dateOrder, dateSeparator } = getLocaleFormat(locale);
+    return dateOrder !== US_DATE || dateSeparator !== '/';
+  })
+  .map(locale => ({
+    id: `date_${locale.replace('-', '_').toLowerCase()}`,
+    name: `${locale} dates`,
+    locale,
+    testCases: [
+      { type: 'valid', valueType: 'pattern', value: 'yesterday', description: 'Yesterday\'s date (default for required fields)', weight: 10 },
+      { type: 'valid', valueType: 'pattern', value: 'today', description: 'Today\'s date', weight: 9 },
+      staticCase('valid', formatLocalizedDate(new Date('2024-01-15'), locale), `Date in ${locale} format`, 8),
+      staticCase('edge', formatLocalizedDate(new Date('2024-02-29'), locale), 'Leap year date', 7),
+      staticCase('boundary', formatLocalizedDate(new Date('2023-12-31'), locale), 'Year end date', 6),
+      ...(getLocaleFormat(locale).dateOrder === 'dmy'
+        ? [staticCase('invalid', '12/31/2023', 'Month-first date in a day-first locale', 5)]
+        : []),
+      generatedCase('valid', 'date_in_range', { from: '-1y', to: 'today', format: 'locale' }, 'Random date within the past year', 6)
+    ] as TestCaseTemplate[]
+  }));
+
+// Decimal commas where people type them, and decimal points in locales whose language
+// otherwise uses commas (de-CH). The first value has no separator, so filling required
+// fields during analysis works whichever separator the form accepts.
+const DECIMAL_VARIATIONS: VariationSet[] = getFormattedLocales()
+  .filter(locale => getLocaleFormat(locale).decimalSeparator === ',' || getLocaleFormat(locale.split('-')[0]).decimalSeparator === ',')
+  .map(locale => {
+    const separator = getLocaleFormat(locale).decimalSeparator;
+    const name = separator === ',' ? 'decimal comma' : 'decimal point';
+    return {
+      id: `decimal_${locale.replace('-', '_').toLowerCase()}`,
+      name: `${locale} ${name}`,
+      locale,
+      testCases: [
+        staticCase('valid', '5', 'Whole number', 10),
+        staticCase('valid', formatLocalizedDecimal('1.5', locale), `Simple decimal with ${name}`, 10),
+        staticCase('valid', formatLocalizedDecimal('10.25', locale), `Two decimal places with ${name}`, 10),
+        staticCase('boundary', formatLocalizedDecimal('0.1', locale), `Small decimal with ${name}`, 8),
+        staticCase('edge', formatLocalizedDecimal('999.99', locale), `Large decimal with ${name}`, 6),
+        staticCase('edge', separator === ',' ? '1.5' : '1,5', `${separator === ',' ? 'Decimal point' : 'Decimal comma'} in a ${name} locale`, 7),
+        generatedCase('valid', 'number_in_range', { min: 0, max: 100, decimals: 1, localized: true }, `Random decimal with ${name}`, 5)
+      ]
+    };
+  });
+
+// Postcodes of every locale with known formats; the base template holds US ZIP codes
+const POSTCODE_VARIATIONS: VariationSet[] = getFormattedLocales()
+  .filter(locale => locale !== 'en')
+  .map(locale => ({
+    id: `postcode_${locale.replace('-', '_').toLowerCase()}`,
+    name: `${locale} postcodes`,
+    locale,
+    testCases: [
+      ...getLocaleFormat(locale).postcodes.map((postcode, index) =>
+        staticCase('valid', postcode, index === 0 ? 'Common postcode' : 'Postcode variant', 10 - index)),
+      staticCase('invalid', 'ABC', 'Too short', 5),
+      generatedCase('valid', 'random_postcode', {}, 'Random postcode', 6)
+    ]
+  }));
 
 export class TestDataGenerator {
   private templates: Map<string, TestDataTemplate> = new Map();
@@ -60,6 +256,13 @@ export class TestDataGenerator {
             value: 'user@subdomain.example.co.uk',
             description: 'Multi-level domain email',
             weight: 7
+          },
+          {
+            type: 'valid',
+            valueType: 'generated',
+            value: { type: 'function', name: 'random_email', params: {} },
+            description: 'Random email address',
+            weight: 7
           }
         ],
         metadata: {
@@ -109,8 +312,16 @@ export class TestDataGenerator {
             value: '555.123.4567',
             description: 'Phone with dots',
             weight: 7
+          },
+          {
+            type: 'valid',
+            valueType: 'generated',
+            value: { type: 'function', name: 'random_phone', params: { format: 'international' } },
+            description: 'Random international number of the survey locale',
+            weight: 6
           }
         ],
+        variations: PHONE_VARIATIONS,
         metadata: {
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -118,6 +329,49 @@ export class TestDataGenerator {
           tags: ['phone', 'contact', 'international']
         }
       },
+      {
+        id: 'postcode_validation_v1',
+        fieldType: 'postcode',
+        version: '1.0.0',
+        description: 'Postcode test cases, with the formats of each locale as variations',
+        testCases: [
+          {
+            type: 'valid',
+            valueType: 'static',
+            value: '90210',
+            description: 'US ZIP code',
+            weight: 10
+          },
+          {
+            type: 'valid',
+            valueType: 'static',
+            value: '10001-1234',
+            description: 'ZIP+4 code',
+            weight: 8
+          },
+          {
+            type: 'invalid',
+            valueType: 'static',
+            value: '1234',
+            description: 'Too few digits',
+            weight: 6
+          },
+          {
+            type: 'invalid',
+            valueType: 'static',
+            value: 'ABCDE',
+            description: 'Letters instead of digits',
+            weight: 5
+          }
+        ],
+        variations: POSTCODE_VARIATIONS,
+        metadata: {
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          author: 'system',
+          tags: ['postcode', 'address', 'locale']
+        }
+      },
       {
         id: 'name_validation_v1',
         fieldType: 'name',
@@ -158,8 +412,16 @@ export class TestDataGenerator {
             value: 'A',
             description: 'Single character name',
             weight: 4
+          },
+          {
+            type: 'valid',
+            valueType: 'generated',
+            value: { type: 'function', name: 'random_name', params: {} },
+            description: 'Random full name',
+            weight: 6
           }
         ],
+        variations: NAME_VARIATIONS,
         metadata: {
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -270,6 +532,13 @@ export class TestDataGenerator {
             value: '999',
             description: 'Large number',
             weight: 6
+          },
+          {
+            type: 'valid',
+            valueType: 'generated',
+            value: { type: 'function', name: 'number_in_range', params: { min: 0, max: 100 } },
+            description: 'Random whole number from 0 to 100',
+            weight: 5
           }
         ],
         metadata: {
@@ -328,6 +597,7 @@ export class TestDataGenerator {
             weight: 6
           }
         ],
+        variations: DECIMAL_VARIATIONS,
         metadata: {
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -382,8 +652,16 @@ export class TestDataGenerator {
             value: '12/31/2023',
             description: 'Year end date',
             weight: 6
+          },
+          {
+            type: 'valid',
+            valueType: 'generated',
+            value: { type: 'function', name: 'date_in_range', params: { from: '-1y', to: 'today', format: 'iso' } },
+            description: 'Random date within the past year',
+            weight: 6
           }
         ],
+        variations: DATE_VARIATIONS,
         metadata: {
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -500,6 +778,20 @@ export class TestDataGenerator {
             value: 'A',
             description: 'Single character',
             weight: 5
+          },
+          {
+            type: 'edge',
+            valueType: 'generated',
+            value: { type: 'function', name: 'unicode_stress', params: { set: 'mixed', count: 6 } },
+            description: 'Emoji, combining, right-to-left and zero-width characters',
+            weight: 4
+          },
+          {
+            type: 'boundary',
+            valueType: 'generated',
+            value: { type: 'function', name: 'string_of_length', params: { length: 255 } },
+            description: '255 characters',
+            weight: 4
           }
         ],
         metadata: {
@@ -535,6 +827,13 @@ export class TestDataGenerator {
             value: 'This is an extended response that includes multiple paragraphs.\\n\\nIt demonstrates how users might structure their answers with line breaks and provide comprehensive feedback.\\n\\nThis type of input is common in survey forms that ask for detailed explanations or comments.',
             description: 'Multi-paragraph response',
             weight: 7
+          },
+          {
+            type: 'boundary',
+            valueType: 'generated',
+            value: { type: 'function', name: 'string_of_length', params: { length: 2000 } },
+            description: '2000 characters',
+            weight: 3
           }
         ],
         metadata: {
@@ -704,7 +1003,12 @@ export class TestDataGenerator {
     logger.info(`Initialized ${builtInTemplates.length} built-in test data templates`);
   }
 
-  generateTestData(field: SurveyField): TestData {
+  generateTestData(field: SurveyField, options: TestDataOptions = {}): TestData {
+    const context: GenerationContext = {
+      locale: options.locale ? normalizeLocale(options.locale) : undefined,
+      seed: options.seed,
+      generatedAt: options.generatedAt || new Date().toISOString()
+    };
     const detectionResult = fieldTypeRegistry.detectFieldType(
       field.questionText,
       field.inputType,
@@ -713,7 +1017,7 @@ export class TestDataGenerator {
 
     logger.debug(`Detected field type: ${detectionResult.fieldType} (confidence: ${detectionResult.confidence})`);
 
-    const testCases = this.generateTestCases(field, detectionResult);
+    const testCases = this.applyConstraints(field, this.generateTestCases(field, detectionResult, context), detectionResult, context);
     const summary = this.calculateSummary(testCases);
 
     return {
@@ -721,45 +1025,48 @@ export class TestDataGenerator {
       confidence: detectionResult.confidence,
       detectionMethod: detectionResult.method,
       fallbackType: detectionResult.fallback,
-      generatedAt: new Date().toISOString(),
+      generatedAt: context.generatedAt,
       testCases,
       summary,
       metadata: {
         patterns: detectionResult.matchedPatterns,
-        templateUsed: detectionResult.template
+        templateUsed: detectionResult.template,
+        ...(context.locale && { locale: context.locale }),
+        ...(context.seed && { seed: context.seed })
       }
     };
   }
 
-  private generateTestCases(field: SurveyField, detection: DetectionResult): TestCase[] {
+  private generateTestCases(field: SurveyField, detection: DetectionResult, context: GenerationContext): TestCase[] {
     const testCases: TestCase[] = [];
 
     // Handle radio buttons and dropdowns with position-based selection
     if ((field.inputType === 'radio' || field.inputType === 'dropdown') && field.choices) {
-      return this.generateChoiceBasedTestCases(field, detection);
+      return this.generateChoiceBasedTestCases(field, detection, context);
     }
     
     // Handle autocomplete dropdowns (weight fields)
     if (field.inputType === 'autocomplete_dropdown') {
-      return this.generateAutocompleteTestCases(field, detection);
+      return this.generateAutocompleteTestCases(field, detection, context);
     }
 
     // Handle VAS sliders specifically
     if (field.inputType === 'VAS') {
-      return this.generateVASTestCases(field, detection);
+      return this.generateVASTestCases(field, detection, context);
     }
 
     // Handle NRS (Numeric Rating Scale) specifically
     if (field.inputType === 'NRS') {
-      return this.generateNRSTestCases(field, detection);
+      return this.generateNRSTestCases(field, detection, context);
     }
     
     // Handle numeric text fields specifically
     if (field.inputType === 'text_numeric') {
       const numericTemplate = this.templates.get('numeric_validation_v1');
       if (numericTemplate) {
-        return numericTemplate.testCases.map((templateCase, index) => 
-          this.createTestCaseFromTemplate(templateCase, field, index)
+        const { testCases: templateCases, variation } = this.selectTestCases(numericTemplate, context.locale);
+        return templateCases.map((templateCase, index) => 
+          this.createTestCaseFromTemplate(templateCase, field, index, context, variation)
         );
       }
     }
@@ -768,8 +1075,9 @@ export class TestDataGenerator {
     if (field.inputType === 'text_decimal') {
       const decimalTemplate = this.templates.get('decimal_validation_v1');
       if (decimalTemplate) {
-        return decimalTemplate.testCases.map((templateCase, index) => 
-          this.createTestCaseFromTemplate(templateCase, field, index)
+        const { testCases: templateCases, variation } = this.selectTestCases(decimalTemplate, context.locale);
+        return templateCases.map((templateCase, index) => 
+          this.createTestCaseFromTemplate(templateCase, field, index, context, variation)
         );
       }
     }
@@ -777,10 +1085,11 @@ export class TestDataGenerator {
     // Use template-based generation for other field types
     const templateId = detection.template || `${detection.fieldType}_validation_v1`;
     const template = this.templates.get(templateId) || this.templates.get('general_text_v1')!;
+    const { testCases: templateCases, variation } = this.selectTestCases(template, context.locale);
 
-    template.testCases.forEach((templateCase, index) => {
+    templateCases.forEach((templateCase, index) => {
       if (this.shouldIncludeTestCase(templateCase, field)) {
-        const testCase = this.createTestCaseFromTemplate(templateCase, field, index);
+        const testCase = this.createTestCaseFromTemplate(templateCase, field, index, context, variation);
         testCases.push(testCase);
       }
     });
@@ -788,21 +1097,97 @@ export class TestDataGenerator {
     return testCases;
   }
 
-  private generateVASTestCases(field: SurveyField, detection: DetectionResult): TestCase[] {
+  /**
+   * Uses the constraints read from the field's input: the generic boundary cases of fields
+   * with a min or max are replaced by cases at and beyond the real bounds, valid cases the
+   * constraints reject are dropped, length and pattern cases are added, and every case is
+   * marked with the outcome the constraints imply. Sliders get cases at both ends of their range.
+   */
+  private applyConstraints(field: SurveyField, testCases: TestCase[], detection: DetectionResult, context: GenerationContext): TestCase[] {
+    const constraints = field.constraints;
+    if (!constraints || Object.keys(constraints).length === 0) {
+      return testCases;
+    }
+
+    if (field.inputType === 'VAS') {
+      return [
+        ...testCases,
+        ...getSliderRangeCases(field).map(constraintCase => ({ ...this.createConstraintTestCase(constraintCase, field, detection, context), expected: 'accept' as const }))
+      ];
+    }
+
+    // Template values the constraints reject are not valid for this field
+    const hasBounds = constraints.min !== undefined || constraints.max !== undefined;
+    const templateCases = testCases.filter(testCase =>
+      !(hasBounds && testCase.type === 'boundary') && !(testCase.type === 'valid' && expectedOutcome(testCase.value, constraints) === 'reject'));
+    const constrained = [
+      ...templateCases,
+      ...getConstraintCases(field, context.locale).map(constraintCase => this.createConstraintTestCase(constraintCase, field, detection, context))
+    ].map(testCase => {
+      const expected = expectedOutcome(testCase.value, constraints);
+      return expected ? { ...testCase, expected } : testCase;
+    });
+
+    // Required fields are filled with the first case during analysis, so it has to be
+    // accepted: preferably a valid case, else one that fits without truncation, e.g. the maximum length
+    const fits = (testCase: TestCase) => constraints.maxLength === undefined || String(testCase.value).length <= constraints.maxLength;
+    const preferences = [
+      (testCase: TestCase) => testCase.type === 'valid' && fits(testCase),
+      fits,
+      () => true
+    ];
+    const accepted = preferences
+      .map(preferred => constrained.findIndex(testCase => testCase.expected === 'accept' && preferred(testCase)))
+      .find(index => index >= 0) ?? -1;
+    if (accepted > 0) {
+      constrained.unshift(...constrained.splice(accepted, 1));
+    }
+    return constrained;
+  }
+
+  private createConstraintTestCase(constraintCase: ConstraintCase, field: SurveyField, detection: DetectionResult, context: GenerationContext): TestCase {
+    return {
+      id: `constraint_${field.questionNumber.replace('.', '_')}_${constraintCase.key}`,
+      type: constraintCase.type,
+      value: constraintCase.value,
+      description: constraintCase.description,
+      source: 'generated',
+      provenance: {
+        createdBy: 'system',
+        createdAt: context.generatedAt,
+        generator: {
+          algorithm: 'constraint_boundary_generator',
+          version: '1.0.0',
+          template: 'field_constraints',
+          confidence: detection.confidence
+        },
+        modifications: []
+      },
+      status: 'draft',
+      quality: {
+        confidence: detection.confidence,
+        reviewCount: 0
+      },
+      metadata: { constraint: constraintCase.key, ...constraintCase.metadata }
+    };
+  }
+
+  private generateVASTestCases(field: SurveyField, detection: DetectionResult, context: GenerationContext): TestCase[] {
     const testCases: TestCase[] = [];
     
     // Use VAS-specific template
     const template = this.templates.get('vas_slider_v1')!;
+    const { testCases: templateCases, variation } = this.selectTestCases(template, context.locale);
     
-    template.testCases.forEach((templateCase, index) => {
-      const testCase = this.createTestCaseFromTemplate(templateCase, field, index);
+    templateCases.forEach((templateCase, index) => {
+      const testCase = this.createTestCaseFromTemplate(templateCase, field, index, context, variation);
       testCases.push(testCase);
     });
 
     return testCases;
   }
 
-  private generateNRSTestCases(field: SurveyField, detection: DetectionResult): TestCase[] {
+  private generateNRSTestCases(field: SurveyField, detection: DetectionResult, context: GenerationContext): TestCase[] {
     const testCases: TestCase[] = [];
     
     // For NRS, generate test cases based on the actual choices (numeric buttons)
@@ -818,7 +1203,7 @@ export class TestDataGenerator {
           source: 'generated',
           provenance: {
             createdBy: 'system',
-            createdAt: new Date().toISOString(),
+            createdAt: context.generatedAt,
             generator: {
               algorithm: 'nrs_position_generator',
               version: '1.0.0',
@@ -837,8 +1222,9 @@ export class TestDataGenerator {
     } else {
       // Fallback to template if no choices detected
       const template = this.templates.get('nrs_scale_v1')!;
-      template.testCases.forEach((templateCase, index) => {
-        const testCase = this.createTestCaseFromTemplate(templateCase, field, index);
+      const { testCases: templateCases, variation } = this.selectTestCases(template, context.locale);
+      templateCases.forEach((templateCase, index) => {
+        const testCase = this.createTestCaseFromTemplate(templateCase, field, index, context, variation);
         testCases.push(testCase);
       });
     }
@@ -846,17 +1232,19 @@ export class TestDataGenerator {
     return testCases;
   }
 
-  private generateAutocompleteTestCases(field: SurveyField, detection: DetectionResult): TestCase[] {
+  private generateAutocompleteTestCases(field: SurveyField, detection: DetectionResult, context: GenerationContext): TestCase[] {
     const testCases: TestCase[] = [];
     
     // Use weight-specific template for autocomplete dropdowns
     const templateId = detection.template || 'weight_validation_v1';
     const template = this.templates.get(templateId) || this.templates.get('weight_validation_v1')!;
+    const { testCases: templateCases, variation } = this.selectTestCases(template, context.locale);
     
-    template.testCases.forEach((templateCase, index) => {
-      const testCase = this.createTestCaseFromTemplate(templateCase, field, index);
+    templateCases.forEach((templateCase, index) => {
+      const testCase = this.createTestCaseFromTemplate(templateCase, field, index, context, variation);
       // Add metadata for autocomplete behavior
       testCase.metadata = {
+        ...testCase.metadata,
         requiresTyping: true,
         dropdownSelectionIndex: 0, // Always select first option after typing
         inputType: 'autocomplete_dropdown'
@@ -867,7 +1255,7 @@ export class TestDataGenerator {
     return testCases;
   }
 
-  private generateChoiceBasedTestCases(field: SurveyField, detection: DetectionResult): TestCase[] {
+  private generateChoiceBasedTestCases(field: SurveyField, detection: DetectionResult, context: GenerationContext): TestCase[] {
     if (!field.choices || field.choices.length === 0) {
       return [];
     }
@@ -886,7 +1274,7 @@ export class TestDataGenerator {
         source: 'generated',
         provenance: {
           createdBy: 'system',
-          createdAt: new Date().toISOString(),
+          createdAt: context.generatedAt,
           generator: {
             algorithm: 'choice_position_generator',
             version: '1.0.0',
@@ -906,6 +1294,22 @@ export class TestDataGenerator {
     return testCases;
   }
 
+  /**
+   * The test cases of the template's variation for the locale, trying the full locale
+   * before its language, or else the template's own test cases
+   */
+  private selectTestCases(template: TestDataTemplate, locale?: string): { testCases: TestCaseTemplate[]; variation?: VariationSet } {
+    if (locale && template.variations) {
+      for (const candidate of localeFallbacks(locale)) {
+        const variation = template.variations.find(set => set.locale && normalizeLocale(set.locale) === candidate);
+        if (variation) {
+          return { testCases: variation.testCases, variation };
+        }
+      }
+    }
+    return { testCases: template.testCases };
+  }
+
   private shouldIncludeTestCase(template: TestCaseTemplate, field: SurveyField): boolean {
     if (!template.conditions) {
       return true;
@@ -940,15 +1344,16 @@ export class TestDataGenerator {
   private createTestCaseFromTemplate(
     template: TestCaseTemplate,
     field: SurveyField,
-    index: number
+    index: number,
+    context: GenerationContext,
+    variation?: VariationSet
   ): TestCase {
     let value: string | number;
 
     if (template.valueType === 'static') {
       value = template.value as string | number;
     } else if (template.valueType === 'generated') {
-      // Handle generator functions (future enhancement)
-      value = this.executeGenerator(template.value as GeneratorFunction, field);
+      value = this.executeGenerator(template.value as GeneratorFunction, field, index, context);
     } else {
       // Pattern-based generation (future enhancement)
       value = template.value as string | number;
@@ -963,7 +1368,7 @@ export class TestDataGenerator {
       source: 'generated',
       provenance: {
         createdBy: 'system',
-        createdAt: new Date().toISOString(),
+        createdAt: context.generatedAt,
         generator: {
           algorithm: 'template_based_generator',
           version: '1.0.0',
@@ -976,14 +1381,22 @@ export class TestDataGenerator {
       quality: {
         confidence: template.weight * 10,
         reviewCount: 0
-      }
+      },
+      ...(variation && { metadata: { variation: variation.id, locale: variation.locale } })
     };
   }
 
-  private executeGenerator(generator: GeneratorFunction, field: SurveyField): string {
-    // Placeholder for future generator function implementation
+  /**
+   * With a seed, each test case draws from its own sequence, keyed by the field and its
+   * position, so a value does not change when other fields or test cases do
+   */
+  private executeGenerator(generator: GeneratorFunction, field: SurveyField, index: number, context: GenerationContext): string | number {
     logger.debug(`Executing generator: ${generator.name}`);
-    return 'Generated value';
+    return generatorRegistry.execute(generator, createGeneratorContext(field, {
+      locale: context.locale,
+      random: context.seed ? createSeededRandom(`${context.seed}|${field.questionNumber}|${field.questionText}|${index}`) : undefined,
+      now: new Date(context.generatedAt)
+    }));
   }
 
   private calculateSummary(testCases: TestCase[]): TestDataSummary {
@@ -998,10 +1411,30 @@ export class TestDataGenerator {
   }
 
   registerTemplate(template: TestDataTemplate): void {
+    // Fail on registration rather than while generating the test data of an analysis
+    [...template.testCases, ...(template.variations || []).flatMap(variation => variation.testCases)]
+      .filter(testCase => testCase.valueType === 'generated')
+      .forEach(testCase => {
+        const generator = testCase.value as GeneratorFunction;
+        if (typeof generator !== 'object' || generator.type !== 'function' || !generatorRegistry.has(generator.name)) {
+          throw new Error(`Template ${template.id} uses unknown generator ${JSON.stringify(generator)}. Available: ${generatorRegistry.getNames().join(', ')}`);
+        }
+      });
     this.templates.set(template.id, template);
     logger.debug(`Registered test data template: ${template.id}`);
   }
 
+  /**
+   * ID of the first template generating test data for a field type
+   */
+  getTemplateIdForFieldType(fieldType: string): string | undefined {
+    return Array.from(this.templates.values()).find(template => template.fieldType === fieldType)?.id;
+  }
+
+  getFieldTypes(): string[] {
+    return Array.from(new Set(Array.from(this.templates.values()).map(template => template.fieldType))).sort();
+  }
+
   getTemplateStats(): Record<string, any> {
     const stats: Record<string, any> = {};
     
@@ -20,6 +20,7 @@ export interface ReportConfiguration {
   formOrder: string[];                  // Ordered array of form IDs/indices
   selectedLanguages: string[];          // Languages to generate PDFs for
   includeMetadata: boolean;             // Include form titles and metadata
+  includeAccessibility?: boolean;       // Add the accessibility summary page (unset in older configurations)
   pageOrientation: 'portrait' | 'landscape';
   pageSize: 'A4' | 'Letter' | 'Legal';
   
@@ -55,6 +56,7 @@ export interface CreateReportConfigurationInput {
   formOrder: string[];
   selectedLanguages: string[];
   includeMetadata?: boolean;
+  includeAccessibility?: boolean;
   pageOrientation?: 'portrait' | 'landscape';
   pageSize?: 'A4' | 'Letter' | 'Legal';
   screenshotType?: 'on-exit' | 'on-entry' | 'both';
@@ -74,6 +76,7 @@ export interface UpdateReportConfigurationInput {
   formOrder?: string[];
   selectedLanguages?: string[];
   includeMetadata?: boolean;
+  includeAccessibility?: boolean;
   pageOrientation?: 'portrait' | 'landscape';
   pageSize?: 'A4' | 'Letter' | 'Legal';
   screenshotType?: 'on-exit' | 'on-entry' | 'both';
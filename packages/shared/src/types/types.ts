@@ -17,6 +17,125 @@ export interface SurveyForm {
   formIndex?: number;
   onEntryScreenshot?: string;
   onExitScreenshot?: string;
+  // Per-viewport captures when analyzing with several viewports; the single fields hold the primary one
+  viewports?: number[];
+  onEntryScreenshots?: ViewportScreenshots;
+  onExitScreenshots?: ViewportScreenshots;
+  skipLogic?: SkipLogicGraph;
+  languageCheck?: LanguageCheck;
+  rtlAudit?: RtlAudit;
+  accessibility?: AccessibilityAudit;
+}
+
+/** Offline language identification of a form's title, question texts and choices */
+export interface LanguageCheck {
+  expected: string;     // Primary language of SurveyTuple.language, e.g. "fr" for "fr-CA"
+  detected: string;     // ISO 639-1 code where one exists, "und" when it could not be verified
+  confidence: number;   // Lead of the detected language over the runner-up, or over the expected language on a mismatch (0-1)
+  supported: boolean;   // false when the detector has no profile for the expected language
+  verified: boolean;    // false when the sample was too short or ambiguous, or the language is unsupported
+  matches: boolean;     // Only meaningful when verified
+  sampleLength: number;
+  checkedAt: string;
+}
+
+export type RtlCheck = 'direction' | 'question_alignment' | 'choice_order' | 'slider_direction' | 'navigation_placement';
+
+export interface RtlFinding {
+  check: RtlCheck;
+  passed: boolean;
+  questionNumber?: string;  // Unset for form-wide checks
+  message: string;
+}
+
+/** Mirroring checks of a form in a right-to-left language, measured on the rendered page */
+export interface RtlAudit {
+  language: string;
+  passed: boolean;
+  findings: RtlFinding[];
+  checkedAt: string;
+}
+
+export type AccessibilityImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export interface AccessibilityViolation {
+  rule: string;             // axe-core rule ID, e.g. "label"
+  impact: AccessibilityImpact;
+  help: string;
+  helpUrl: string;
+  selector: string;         // CSS selector of the offending element
+  html: string;             // Start of the element's markup
+  questionNumber?: string;  // Question whose CardBox contains the element
+}
+
+/** Accessibility engine results for one form, one entry per offending element */
+export interface AccessibilityAudit {
+  engine: string;           // e.g. "axe-core 4.10.3"
+  standard: string[];       // Rule tags checked, e.g. ["wcag2a", "wcag2aa"]
+  violations: AccessibilityViolation[];
+  incomplete: number;       // Rules the engine could not decide and that need manual review
+  byImpact: Record<AccessibilityImpact, number>;
+  checkedAt: string;
+}
+
+export interface AccessibilitySummary {
+  auditedForms: number;
+  violations: number;
+  formsWithViolations: number[];
+  byImpact: Record<AccessibilityImpact, number>;
+  rules: Array<{
+    rule: string;
+    impact: AccessibilityImpact;  // Most severe impact seen for the rule
+    help: string;
+    helpUrl: string;
+    occurrences: number;
+    forms: number[];
+  }>;
+}
+
+export type LayoutIssueKind = 'horizontal_overflow' | 'vertical_overflow' | 'ellipsis' | 'overlap';
+
+export interface LayoutRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Rendered text that does not fit its box, measured in CSS pixels at one viewport width */
+export interface LayoutIssue {
+  kind: LayoutIssueKind;
+  viewportWidth: number;
+  element: string;       // Tag and first class, e.g. "label.choice-label"
+  text: string;          // Start of the affected text
+  overflow: number;      // Pixels that do not fit; for overlaps, the overlapping area's shorter side
+  rect: LayoutRect;      // Relative to the CardBox, as captured by the question screenshot
+  formRect: LayoutRect;  // Relative to the form container, as captured by the on-exit screenshot
+  frame: { width: number; height: number };  // CardBox size the rect refers to
+}
+
+/** Screenshot filenames keyed by viewport width, e.g. { "375": "viewport-375/form001_entry_..._375.png" } */
+export type ViewportScreenshots = Record<string, string>;
+
+export interface SkipLogicBranch {
+  value: string;
+  valueIndex: number;
+  revealedQuestions: string[];
+}
+
+export interface SkipLogicTrigger {
+  questionNumber: string;
+  inputType: SurveyField['inputType'];
+  // Answers set on parent triggers before this trigger became visible
+  path: Array<{ questionNumber: string; value: string }>;
+  branches: SkipLogicBranch[];
+}
+
+export interface SkipLogicGraph {
+  triggers: SkipLogicTrigger[];
+  attempts: number;
+  complete: boolean; // false when exploration hit the attempt or depth limit
+  exploredAt: string;
 }
 
 export interface SurveyField {
@@ -26,8 +145,11 @@ export interface SurveyField {
   isRequired: boolean;
   choices?: string[];
   screenshotPath: string;
+  screenshots?: ViewportScreenshots;
   selector: string;
   cardBoxSelector: string;
+  constraints?: FieldConstraints;
+  layoutIssues?: LayoutIssue[];
   testData?: TestData;
   conditionalInfo?: {
     isConditional: boolean;
@@ -37,10 +159,23 @@ export interface SurveyField {
   };
 }
 
+/**
+ * Validation constraints of a field's input, read from its min, max, step, minlength,
+ * maxlength and pattern attributes or, for sliders, from their value range
+ */
+export interface FieldConstraints {
+  min?: number;
+  max?: number;
+  step?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;  // HTML pattern, matched against the whole value
+}
+
 export interface TestData {
   detectedType: string;
   confidence: number;
-  detectionMethod: 'pattern_match' | 'input_type' | 'fallback';
+  detectionMethod: 'pattern_match' | 'input_type' | 'fallback' | 'override';
   fallbackType?: string;
   generatedAt: string;
   testCases: TestCase[];
@@ -49,6 +184,8 @@ export interface TestData {
     patterns: string[];
     templateUsed?: string;
     customRules?: string[];
+    locale?: string;  // Locale whose template variations were applied
+    seed?: string;    // Seed of the generated values, to reproduce them
   };
 }
 
@@ -66,6 +203,7 @@ export interface TestCase {
     reviewCount: number;
     lastReviewed?: string;
   };
+  expected?: 'accept' | 'reject';  // Outcome implied by the field's constraints, if it has any
   metadata?: any; // For field-specific test case metadata
 }
 
@@ -124,6 +262,34 @@ export interface FieldTypePattern {
   };
 }
 
+// JSON form of a RegExp, as stored in pattern files and Firestore
+export interface SerializedRegExp {
+  source: string;
+  flags: string;
+}
+
+/**
+ * FieldTypePattern as stored in JSON pattern files and the Firestore `field-type-patterns`
+ * collection. Usage-only documents, written for built-in patterns, have no `patterns`.
+ */
+export interface StoredFieldTypePattern extends Omit<FieldTypePattern, 'patterns'> {
+  patterns?: {
+    questionText: SerializedRegExp[];
+    inputAttributes?: Record<string, SerializedRegExp>;
+    contextClues?: SerializedRegExp[];
+  };
+  source?: string;      // Where the pattern was loaded from, e.g. built-in or a file path
+  updatedAt?: string;
+}
+
+// Matches recorded since the usage statistics were last written back
+export interface PatternUsageDelta {
+  patternId: string;
+  name: string;
+  matches: number;
+  lastUsed: string;
+}
+
 export interface TestDataTemplate {
   id: string;
   fieldType: string;
@@ -170,7 +336,7 @@ export interface GeneratorFunction {
 export interface DetectionResult {
   fieldType: string;
   confidence: number;
-  method: 'pattern_match' | 'input_type' | 'fallback';
+  method: 'pattern_match' | 'input_type' | 'fallback' | 'override';
   matchedPatterns: string[];
   template?: string;
   fallback?: string;
@@ -190,9 +356,42 @@ export interface UnknownField {
     customerId: string;
     studyId: string;
     timestamp: string;
+    packageName?: string;
+    language?: string;
+    version?: string;
+    analysisId?: string;   // Firestore document ID of the analysis
+    formIndex?: number;
+    questionNumber?: string;
   };
+  reason?: 'fallback' | 'low_confidence';
+  confidence?: number;
   suggestedType?: string;
   needsClassification: boolean;
+  classification?: FieldTypeClassification;
+}
+
+// Field type assigned by a person to an unknown field
+export interface FieldTypeClassification {
+  fieldType: string;
+  template?: string;
+  classifiedBy?: string;
+  classifiedAt: string;
+  notes?: string;
+}
+
+/**
+ * Human-assigned field type for a question text and input type, applied before any
+ * pattern when detecting field types
+ */
+export interface FieldTypeOverride {
+  id: string;
+  questionText: string;
+  inputType: string;
+  fieldType: string;
+  template?: string;
+  classifiedBy?: string;
+  classifiedAt: string;
+  sourceFieldId?: string;  // UnknownField the override was classified from
 }
 
 export interface NavigationButton {
@@ -208,8 +407,14 @@ export interface Survey {
     analysisDate: string;
     url: string;
     totalForms: number;
+    viewports?: number[];
+    runId?: string; // Correlates the analysis with its NDJSON run log
+    languageMismatchForms?: number[]; // Indexes of forms whose detected language differs from tuple.language
+    rtlFailedForms?: number[];        // Indexes of forms failing the right-to-left audit; unset when not audited
+    accessibility?: AccessibilitySummary;
   };
   forms: SurveyForm[];
+  unknownFields?: UnknownField[];  // Fields whose type was guessed or detected with low confidence
 }
 
 export interface AnalysisOutput {
@@ -236,6 +441,9 @@ export interface TestCaseResult {
   timestamp?: string;
   triggeredFields?: SurveyField[];
   validationErrors?: string[];
+  expected?: 'accept' | 'reject';
+  outcomeMatched?: boolean;  // Whether validation triggered exactly when the value was expected to be rejected
+  enteredLength?: number;    // Characters the input held after typing a value longer than its maxlength
 }
 
 export interface TestRunResult {
@@ -249,5 +457,6 @@ export interface TestRunResult {
   successfulTestCases: number;
   failedTestCases: number;
   validationErrorsFound: number;
+  unexpectedOutcomes?: number;  // Test cases with an expected outcome that did not match
   results: TestCaseResult[];
 }
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { Page } from 'puppeteer';
+import { logger as rootLogger } from './logger.js';
+
+const logger = rootLogger.child('dom-stability');
+
+export const DEFAULT_QUIET_PERIOD = 500;
+
+export interface DomStabilityOptions {
+  container?: string;     // Element whose subtree must stop mutating (default: document body)
+  quietPeriod?: number;   // ms without DOM mutations or requests that counts as settled (default: 500)
+  networkIdle?: boolean;  // Also wait for the network to go idle (default: true)
+}
+
+export interface DomStabilityResult {
+  stable: boolean;        // false when the ceiling was reached first
+  durationMs: number;
+}
+
+/**
+ * Waits until the container's DOM has stopped mutating, its images and the page fonts
+ * have loaded and the network is idle. Resolves after `timeout` ms at the latest and
+ * never rejects, so it can replace a fixed sleep of that length.
+ */
+export async function waitForDomStable(page: Page, timeout: number, options: DomStabilityOptions = {}): Promise<DomStabilityResult> {
+  const startedAt = Date.now();
+  const quietPeriod = Math.min(options.quietPeriod ?? DEFAULT_QUIET_PERIOD, timeout);
+
+  const domSettled = page.evaluate((containerSelector, quietPeriod, timeout) => new Promise<boolean>(resolve => {
+    const target = (containerSelector && document.querySelector(containerSelector)) || document.body;
+    if (!target) {
+      resolve(false);
+      return;
+    }
+
+    let quietTimer: ReturnType<typeof setTimeout> | undefined;
+    let ceilingTimer: ReturnType<typeof setTimeout> | undefined;
+    let observer: MutationObserver | undefined;
+    const finish = (stable: boolean) => {
+      observer?.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(ceilingTimer);
+      resolve(stable);
+    };
+
+    // Lazy images outside the viewport never complete, so only eager ones are awaited
+    const assetsPending = () =>
+      document.fonts?.status === 'loading' ||
+      Array.from(target.querySelectorAll('img')).some(img => !img.complete && img.loading !== 'lazy');
+
+    const restartQuietTimer = () => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(() => assetsPending() ? restartQuietTimer() : finish(true), quietPeriod);
+    };
+
+    observer = new MutationObserver(restartQuietTimer);
+    observer.observe(target, { childList: true, subtree: true, attributes: true, characterData: true });
+    ceilingTimer = setTimeout(() => finish(false), timeout);
+    restartQuietTimer();
+  }), options.container || null, quietPeriod, timeout)
+    // The context is destroyed when the wait spans a navigation
+    .catch(() => false);
+
+  const networkSettled = options.networkIdle === false
+    ? Promise.resolve(true)
+    : page.waitForNetworkIdle({ idleTime: quietPeriod, timeout }).then(() => true, () => false);
+
+  const [domStable, networkIdle] = await Promise.all([domSettled, networkSettled]);
+  const result = { stable: domStable && networkIdle, durationMs: Date.now() - startedAt };
+
+  if (!result.stable) {
+    logger.debug(`Page did not settle within ${timeout}ms (DOM stable: ${domStable}, network idle: ${networkIdle})`);
+  }
+  return result;
+}
@@ -1,3 +1,8 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { appendFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+
 export enum LogLevel {
   ERROR = 0,
   WARN = 1,
@@ -5,15 +10,109 @@ export enum LogLevel {
   DEBUG = 3
 }
 
-class Logger {
-  private logLevel: LogLevel;
+export type LogFormat = 'text' | 'json';
+
+export type LogPhase = 'detect' | 'fill' | 'navigate' | 'screenshot' | 'upload' | 'test';
+
+/**
+ * Correlation fields attached to every log record written inside a run.
+ * `logFile` is the per-run NDJSON sink and is not emitted as a field.
+ */
+export interface LogContext {
+  runId?: string;
+  tuple?: string;
+  formIndex?: number;
+  questionNumber?: string;
+  phase?: LogPhase;
+  logFile?: string;
+}
+
+export interface LoggerConfig {
+  level?: LogLevel;
+  moduleLevels?: Record<string, LogLevel>;
+  format?: LogFormat;
+  file?: string;
+}
+
+const LEVEL_NAMES: Record<LogLevel, string> = {
+  [LogLevel.ERROR]: 'ERROR',
+  [LogLevel.WARN]: 'WARN',
+  [LogLevel.INFO]: 'INFO',
+  [LogLevel.DEBUG]: 'DEBUG'
+};
+
+export function parseLogLevel(value: string): LogLevel {
+  switch (value.trim().toLowerCase()) {
+    case 'error': return LogLevel.ERROR;
+    case 'warn': return LogLevel.WARN;
+    case 'info': return LogLevel.INFO;
+    case 'debug': return LogLevel.DEBUG;
+    default:
+      throw new Error(`Invalid log level '${value}'. Expected error, warn, info or debug`);
+  }
+}
+
+/**
+ * Parses per-module levels such as `form-navigator=debug,screenshot-service=warn`.
+ */
+export function parseModuleLevels(value: string): Record<string, LogLevel> {
+  const levels: Record<string, LogLevel> = {};
+  value.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [module, level] = entry.split('=').map(part => part?.trim());
+    if (!module || !level) {
+      throw new Error(`Invalid module log level '${entry}'. Expected <module>=<level>`);
+    }
+    levels[module] = parseLogLevel(level);
+  });
+  return levels;
+}
+
+export function createRunId(): string {
+  return randomUUID();
+}
+
+// Shared by the root logger and every child so configure() applies everywhere
+const config: Required<Omit<LoggerConfig, 'file'>> & { file?: string } = {
+  level: process.env.LOG_LEVEL ? safeParse(() => parseLogLevel(process.env.LOG_LEVEL!), LogLevel.INFO) : LogLevel.INFO,
+  moduleLevels: process.env.LOG_LEVELS ? safeParse(() => parseModuleLevels(process.env.LOG_LEVELS!), {}) : {},
+  format: process.env.LOG_FORMAT === 'json' ? 'json' : 'text',
+  file: process.env.LOG_FILE || undefined
+};
 
-  constructor(logLevel: LogLevel = LogLevel.INFO) {
-    this.logLevel = logLevel;
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+function safeParse<T>(parse: () => T, fallback: T): T {
+  try {
+    return parse();
+  } catch {
+    return fallback;
   }
+}
+
+function serializeArg(arg: unknown): unknown {
+  if (arg instanceof Error) {
+    return { name: arg.name, message: arg.message, stack: arg.stack };
+  }
+  return arg;
+}
+
+function appendRecord(file: string, line: string): void {
+  try {
+    mkdirSync(dirname(file), { recursive: true });
+    appendFileSync(file, line + '\n');
+  } catch {
+    // A broken log sink must never fail the analysis itself
+  }
+}
+
+class Logger {
+  constructor(private readonly module?: string) {}
 
   private shouldLog(level: LogLevel): boolean {
-    return level <= this.logLevel;
+    const threshold = this.module && this.module in config.moduleLevels
+      ? config.moduleLevels[this.module]
+      : config.level;
+    return level <= threshold;
   }
 
   private formatMessage(level: string, message: string): string {
@@ -21,39 +120,99 @@ class Logger {
     return `[${timestamp}] ${level}: ${message}`;
   }
 
-  error(message: string, ...args: any[]): void {
-    if (this.shouldLog(LogLevel.ERROR)) {
-      console.error(this.formatMessage('ERROR', message), ...args);
+  private buildRecord(level: LogLevel, message: string, args: any[]): string {
+    const { logFile, ...context } = contextStorage.getStore() || {};
+    const record: Record<string, unknown> = {
+      timestamp: new Date().toISOString(),
+      level: LEVEL_NAMES[level].toLowerCase(),
+      module: this.module,
+      message,
+      ...context
+    };
+    if (args.length > 0) {
+      record.args = args.map(serializeArg);
     }
+    return JSON.stringify(record);
   }
 
-  warn(message: string, ...args: any[]): void {
-    if (this.shouldLog(LogLevel.WARN)) {
-      console.warn(this.formatMessage('WARN', message), ...args);
+  private write(level: LogLevel, message: string, args: any[]): void {
+    if (!this.shouldLog(level)) return;
+
+    const logFile = contextStorage.getStore()?.logFile;
+    const record = config.format === 'json' || config.file || logFile
+      ? this.buildRecord(level, message, args)
+      : null;
+
+    const print = level === LogLevel.ERROR ? console.error : level === LogLevel.WARN ? console.warn : console.log;
+    if (config.format === 'json') {
+      print(record);
+    } else {
+      print(this.formatMessage(LEVEL_NAMES[level], message), ...args);
     }
+
+    // File sinks always receive NDJSON, whatever the console format
+    if (config.file) appendRecord(config.file, record!);
+    if (logFile && logFile !== config.file) appendRecord(logFile, record!);
+  }
+
+  error(message: string, ...args: any[]): void {
+    this.write(LogLevel.ERROR, message, args);
+  }
+
+  warn(message: string, ...args: any[]): void {
+    this.write(LogLevel.WARN, message, args);
   }
 
   info(message: string, ...args: any[]): void {
-    if (this.shouldLog(LogLevel.INFO)) {
-      console.log(this.formatMessage('INFO', message), ...args);
-    }
+    this.write(LogLevel.INFO, message, args);
   }
 
   debug(message: string, ...args: any[]): void {
-    if (this.shouldLog(LogLevel.DEBUG)) {
-      console.log(this.formatMessage('DEBUG', message), ...args);
-    }
+    this.write(LogLevel.DEBUG, message, args);
   }
 
   setLogLevel(level: LogLevel): void {
-    this.logLevel = level;
+    config.level = level;
+  }
+
+  configure(options: LoggerConfig): void {
+    if (options.level !== undefined) config.level = options.level;
+    if (options.moduleLevels) config.moduleLevels = { ...config.moduleLevels, ...options.moduleLevels };
+    if (options.format) config.format = options.format;
+    if (options.file !== undefined) config.file = options.file || undefined;
+  }
+
+  /**
+   * Returns a logger tagged with `module`, whose level can be set separately
+   * through `moduleLevels` / LOG_LEVELS.
+   */
+  child(module: string): Logger {
+    return new Logger(module);
+  }
+
+  /**
+   * Runs `fn` with correlation fields that every log record inside it picks up,
+   * including records from nested async calls. Nested runs inherit the outer context.
+   */
+  runWithContext<T>(context: LogContext, fn: () => T): T {
+    return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+  }
+
+  /**
+   * Updates the context of the current run, e.g. when moving to the next form or phase.
+   * Has no effect outside runWithContext().
+   */
+  setContext(context: Partial<LogContext>): void {
+    const store = contextStorage.getStore();
+    if (store) Object.assign(store, context);
+  }
+
+  getContext(): LogContext {
+    return { ...contextStorage.getStore() };
   }
 }
 
+export type { Logger };
+
 // Create and export a default logger instance
-export const logger = new Logger(
-  process.env.LOG_LEVEL === 'debug' ? LogLevel.DEBUG :
-  process.env.LOG_LEVEL === 'warn' ? LogLevel.WARN :
-  process.env.LOG_LEVEL === 'error' ? LogLevel.ERROR :
-  LogLevel.INFO
-);
\ No newline at end of file
+export const logger = new Logger();
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { languageDetectionService } from '../dist/index.js';
+
+const ENGLISH = [
+  'Health questionnaire',
+  'In general, would you say your health is excellent, very good, good, fair or poor?',
+  'Compared to one year ago, how would you rate your health in general now?',
+  'The following questions are about activities you might do during a typical day. Does your health now limit you in these activities? If so, how much?',
+  'During the past four weeks, have you had any of the following problems with your work or other regular daily activities as a result of your physical health?',
+  'Please answer every question by selecting the answer that comes closest to the way you have been feeling.'
+];
+
+const FRENCH = [
+  'Questionnaire de santé',
+  "Dans l'ensemble, pensez-vous que votre santé est excellente, très bonne, bonne, médiocre ou mauvaise ?",
+  "Par rapport à l'année dernière, comment trouvez-vous votre état de santé en ce moment ?",
+  "Voici une liste d'activités que vous pouvez avoir à faire dans votre vie de tous les jours. Pour chacune d'entre elles, indiquez si vous êtes limité en raison de votre état de santé actuel.",
+  'Au cours des quatre dernières semaines, avez-vous eu des difficultés dans votre travail ou vos activités habituelles à cause de votre état physique ?'
+];
+
+function form(texts, choices = []) {
+  const [longTitle, ...questions] = texts;
+  return {
+    longTitle,
+    shortName: '',
+    viewportHeight: 0,
+    url: '',
+    timestamp: '',
+    navigationButtons: [],
+    fields: questions.map((questionText, index) => ({
+      questionNumber: String(index + 1),
+      questionText,
+      inputType: 'radio',
+      isRequired: true,
+      choices,
+      screenshotPath: '',
+      selector: '',
+      cardBoxSelector: ''
+    }))
+  };
+}
+
+test('flags an fr form that fell back to English', () => {
+  const check = languageDetectionService.checkForm(form(ENGLISH), 'fr');
+  assert.equal(check.verified, true);
+  assert.equal(check.matches, false);
+  assert.equal(check.detected, 'en');
+});
+
+test('flags English text declared in another script', () => {
+  for (const language of ['ar', 'zh']) {
+    const check = languageDetectionService.checkForm(form(ENGLISH), language);
+    assert.equal(check.verified, true, language);
+    assert.equal(check.matches, false, language);
+  }
+});
+
+test('matches forms in their declared language', () => {
+  assert.equal(languageDetectionService.checkForm(form(ENGLISH), 'en').matches, true);
+  assert.equal(languageDetectionService.checkForm(form(FRENCH), 'fr-CA').matches, true);
+});
+
+test('cannot verify short forms', () => {
+  const check = languageDetectionService.checkForm(form(['About you', 'Date of birth', 'Sex'], ['Yes', 'No']), 'fr');
+  assert.equal(check.verified, false);
+  assert.equal(check.detected, 'und');
+});
+
+test('cannot verify English misread as the closely related French', () => {
+  const visit = form([
+    'Visit information', 'Visit date', 'Initials', 'Participant number', 'Consent obtained', 'Date of consent',
+    'Inclusion criteria met', 'Exclusion criteria met', 'Randomisation number', 'Comments'
+  ]);
+  assert.equal(languageDetectionService.checkForm(visit, 'en').verified, false);
+  assert.deepEqual(languageDetectionService.checkSurvey({ metadata: { tuple: { language: 'en' } }, forms: [visit] }), []);
+});
@@ -0,0 +1,119 @@
+import {
+  Box,
+  Chip,
+  Link,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { AccessibilityImpact, SurveyAnalysis } from '../../store/services/firestoreApi';
+
+interface AccessibilitySummaryProps {
+  analyses: SurveyAnalysis[];
+}
+
+const IMPACTS: AccessibilityImpact[] = ['critical', 'serious', 'moderate', 'minor'];
+
+const IMPACT_COLORS: Record<AccessibilityImpact, 'error' | 'warning' | 'info' | 'default'> = {
+  critical: 'error',
+  serious: 'warning',
+  moderate: 'info',
+  minor: 'default',
+};
+
+interface RuleRow {
+  rule: string;
+  impact: AccessibilityImpact;
+  help: string;
+  helpUrl: string;
+  occurrences: number;
+  languages: string[];
+}
+
+// Accessibility violations of every language of a package, aggregated by rule
+const AccessibilitySummary: React.FC<AccessibilitySummaryProps> = ({ analyses }) => {
+  const audited = analyses.filter(analysis => analysis.accessibility);
+  if (audited.length === 0) return null;
+
+  const totals = IMPACTS.reduce((counts, impact) => ({
+    ...counts,
+    [impact]: audited.reduce((sum, analysis) => sum + (analysis.accessibility?.byImpact[impact] || 0), 0),
+  }), {} as Record<AccessibilityImpact, number>);
+
+  const rows = new Map<string, RuleRow>();
+  audited.forEach(analysis => {
+    analysis.accessibility!.rules.forEach(rule => {
+      const row = rows.get(rule.rule) || { ...rule, occurrences: 0, languages: [] };
+      row.occurrences += rule.occurrences;
+      if (IMPACTS.indexOf(rule.impact) < IMPACTS.indexOf(row.impact)) row.impact = rule.impact;
+      if (!row.languages.includes(analysis.language)) row.languages.push(analysis.language);
+      rows.set(rule.rule, row);
+    });
+  });
+  const sortedRows = Array.from(rows.values()).sort((a, b) =>
+    IMPACTS.indexOf(a.impact) - IMPACTS.indexOf(b.impact) || b.occurrences - a.occurrences);
+
+  return (
+    <Paper sx={{ p: 2, mb: 2 }}>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1, flexWrap: 'wrap' }}>
+        <Typography variant="h6" sx={{ mr: 1 }}>
+          Accessibility
+        </Typography>
+        {IMPACTS.map(impact => (
+          <Chip
+            key={impact}
+            size="small"
+            label={`${totals[impact]} ${impact}`}
+            color={totals[impact] > 0 ? IMPACT_COLORS[impact] : 'default'}
+            variant={totals[impact] > 0 ? 'filled' : 'outlined'}
+          />
+        ))}
+      </Stack>
+
+      {sortedRows.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No WCAG 2.1 A/AA violations found in {audited.length} audited {audited.length === 1 ? 'language' : 'languages'}.
+        </Typography>
+      ) : (
+        <Box sx={{ overflowX: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Rule</TableCell>
+                <TableCell>Impact</TableCell>
+                <TableCell align="right">Occurrences</TableCell>
+                <TableCell>Languages</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {sortedRows.map(row => (
+                <TableRow key={row.rule}>
+                  <TableCell>
+                    <Link href={row.helpUrl} target="_blank" rel="noopener noreferrer">
+                      {row.rule}
+                    </Link>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {row.help}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Chip size="small" label={row.impact} color={IMPACT_COLORS[row.impact]} />
+                  </TableCell>
+                  <TableCell align="right">{row.occurrences}</TableCell>
+                  <TableCell>{row.languages.sort().map(language => language.toUpperCase()).join(', ')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default AccessibilitySummary;
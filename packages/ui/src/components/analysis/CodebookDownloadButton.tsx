@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import {
+  Button,
+  CircularProgress,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+} from '@mui/material';
+import {
+  MenuBook as MenuBookIcon,
+  TableChart as TableChartIcon,
+  Description as DescriptionIcon,
+} from '@mui/icons-material';
+import { codebookExportService } from '@form-shot/shared/src/services/codebook-export-service';
+import type { Survey, SurveyField as SharedSurveyField } from '@form-shot/shared/src/types/types';
+import { useAppDispatch } from '../../hooks/redux';
+import { firestoreApi, SurveyAnalysis } from '../../store/services/firestoreApi';
+
+interface CodebookDownloadButtonProps {
+  analysis: SurveyAnalysis;     // Language of the REDCap data dictionary
+  analyses: SurveyAnalysis[];   // Languages of the XLSX codebook
+}
+
+const saveFile = (data: BlobPart, type: string, fileName: string) => {
+  const url = window.URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+// Builds the codebook files in the browser from the same Firestore documents the package page shows
+const CodebookDownloadButton: React.FC<CodebookDownloadButtonProps> = ({ analysis, analyses }) => {
+  const dispatch = useAppDispatch();
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const loadSurvey = async (source: SurveyAnalysis): Promise<Survey> => {
+    const { forms } = await dispatch(firestoreApi.endpoints.getAnalysisWithForms.initiate(source.id)).unwrap();
+    const surveyForms = await Promise.all(forms.map(async form => {
+      const fields = await dispatch(firestoreApi.endpoints.getFormFields.initiate({ analysisId: source.id, formId: form.id })).unwrap();
+      return {
+        longTitle: form.longTitle,
+        shortName: form.shortName,
+        viewportHeight: form.viewportHeight,
+        url: source.url,
+        timestamp: form.timestamp?.toDate ? form.timestamp.toDate().toISOString() : '',
+        navigationButtons: [],
+        formIndex: form.formIndex,
+        fields: fields.map(field => ({
+          questionNumber: field.questionNumber,
+          questionText: field.questionText,
+          inputType: field.inputType as SharedSurveyField['inputType'],
+          isRequired: field.isRequired,
+          choices: field.choices && field.choices.length > 0 ? field.choices : undefined,
+          screenshotPath: field.screenshotFilename || '',
+          selector: field.selector,
+          cardBoxSelector: field.cardBoxSelector,
+          conditionalInfo: field.conditionalInfo || undefined,
+        })),
+      };
+    }));
+
+    return {
+      metadata: {
+        tuple: {
+          customerId: source.customerId,
+          studyId: source.studyId,
+          packageName: source.packageName,
+          language: source.language,
+          version: source.version,
+        },
+        analysisDate: source.analysisDate?.toDate ? source.analysisDate.toDate().toISOString() : '',
+        url: source.url,
+        totalForms: surveyForms.length,
+      },
+      forms: surveyForms,
+    };
+  };
+
+  const handleExport = async (format: 'redcap' | 'xlsx') => {
+    setAnchorEl(null);
+    setIsExporting(true);
+    setError(undefined);
+    try {
+      const baseName = `${analysis.customerId}_${analysis.studyId}_${analysis.packageName}_${analysis.version}`;
+      if (format === 'redcap') {
+        const survey = await loadSurvey(analysis);
+        saveFile(codebookExportService.toRedcapCsv(survey), 'text/csv;charset=utf-8', `${baseName}_${analysis.language}_redcap.csv`);
+      } else {
+        const sorted = [analysis, ...analyses.filter(other => other.id !== analysis.id).sort((a, b) => a.language.localeCompare(b.language))];
+        const surveys = await Promise.all(sorted.map(loadSurvey));
+        saveFile(
+          codebookExportService.toXlsx(surveys),
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          `${baseName}_codebook.xlsx`
+        );
+      }
+    } catch (exportError) {
+      console.error('Codebook export failed:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Codebook export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        color={error ? 'error' : 'primary'}
+        startIcon={isExporting ? <CircularProgress size={16} /> : <MenuBookIcon />}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        disabled={isExporting}
+        title={error}
+      >
+        Codebook
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={() => handleExport('redcap')}>
+          <ListItemIcon>
+            <DescriptionIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText
+            primary="REDCap Data Dictionary"
+            secondary={`CSV, ${analysis.language.toUpperCase()}`}
+          />
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('xlsx')}>
+          <ListItemIcon>
+            <TableChartIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText
+            primary="XLSX Codebook"
+            secondary={analyses.length > 1 ? `${analyses.length} languages` : analysis.language.toUpperCase()}
+          />
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
+
+export default CodebookDownloadButton;
@@ -21,8 +21,9 @@ import {
   Description as DescriptionIcon,
   Preview as PreviewIcon,
   Download as DownloadIcon,
+  WarningAmber as WarningIcon,
 } from '@mui/icons-material';
-import { useGetAnalysesQuery } from '../../store/services/firestoreApi';
+import { useGetAnalysesQuery, SurveyAnalysis } from '../../store/services/firestoreApi';
 import { useAppDispatch } from '../../hooks/redux';
 import { addToRecentlyViewed } from '../../store/slices/navigationSlice';
 import DownloadButton from './DownloadButton';
@@ -32,6 +33,18 @@ interface PackageGridProps {
   studyId?: string;
 }
 
+// Language problems found during analysis, shown on the language chip
+const getLanguageWarnings = (analysis: SurveyAnalysis): string[] => {
+  const warnings: string[] = [];
+  if (analysis.hasLanguageMismatch) {
+    warnings.push(`Forms ${(analysis.languageMismatchForms || []).map(index => index + 1).join(', ')} did not render in ${analysis.language.toUpperCase()}`);
+  }
+  if (analysis.hasRtlFailure) {
+    warnings.push(`Forms ${(analysis.rtlFailedForms || []).map(index => index + 1).join(', ')} are not mirrored correctly for right-to-left reading`);
+  }
+  return warnings;
+};
+
 const PackageGrid: React.FC<PackageGridProps> = ({ customerId, studyId }) => {
   const navigate = useNavigate();
   const dispatch = useAppDispatch();
@@ -319,19 +332,26 @@ const PackageGrid: React.FC<PackageGridProps> = ({ customerId, studyId }) => {
                   >
                     {packageGroup.analyses
                       .sort((a, b) => a.language.localeCompare(b.language))
-                      .map((analysis) => (
-                        <Chip
+                      .map((analysis) => {
+                        const warnings = getLanguageWarnings(analysis);
+                        return (
+                        <Tooltip
                           key={analysis.language}
-                          label={analysis.language.toUpperCase()}
-                          size="small"
-                          color="primary"
-                          icon={<LanguageIcon />}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handlePackageClick(packageGroup, analysis.language);
-                          }}
-                        />
-                      ))}
+                          title={warnings.join('. ')}
+                        >
+                          <Chip
+                            label={analysis.language.toUpperCase()}
+                            size="small"
+                            color={warnings.length > 0 ? 'warning' : 'primary'}
+                            icon={warnings.length > 0 ? <WarningIcon /> : <LanguageIcon />}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handlePackageClick(packageGroup, analysis.language);
+                            }}
+                          />
+                        </Tooltip>
+                        );
+                      })}
                   </Box>
                 </Box>
 
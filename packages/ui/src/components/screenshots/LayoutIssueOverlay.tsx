@@ -0,0 +1,58 @@
+import { Box } from '@mui/material';
+import { LayoutIssue } from '../../store/services/firestoreApi';
+
+interface LayoutIssueOverlayProps {
+  issues: LayoutIssue[];
+}
+
+const KIND_COLORS: Record<LayoutIssue['kind'], string> = {
+  horizontal_overflow: '#d32f2f',
+  vertical_overflow: '#d32f2f',
+  ellipsis: '#ed6c02',
+  overlap: '#9c27b0',
+};
+
+const KIND_LABELS: Record<LayoutIssue['kind'], string> = {
+  horizontal_overflow: 'Text overflows horizontally',
+  vertical_overflow: 'Text overflows vertically',
+  ellipsis: 'Text truncated with an ellipsis',
+  overlap: 'Overlapping text',
+};
+
+export const describeLayoutIssue = (issue: LayoutIssue) =>
+  `${KIND_LABELS[issue.kind]} (${issue.overflow}px) in ${issue.element}: "${issue.text}"`;
+
+// Outlines the issue regions on top of a field screenshot. The SVG scales like an
+// object-fit: contain image, so it must cover exactly the same box as the <img>.
+const LayoutIssueOverlay: React.FC<LayoutIssueOverlayProps> = ({ issues }) => {
+  if (issues.length === 0) return null;
+  const { width, height } = issues[0].frame;
+
+  return (
+    <Box
+      component="svg"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      sx={{ position: 'absolute', inset: 0, width: '100%', height: '100%' }}
+    >
+      {issues.map((issue, index) => (
+        <rect
+          key={index}
+          x={issue.rect.x}
+          y={issue.rect.y}
+          width={issue.rect.width}
+          height={issue.rect.height}
+          fill={KIND_COLORS[issue.kind]}
+          fillOpacity={0.15}
+          stroke={KIND_COLORS[issue.kind]}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        >
+          <title>{describeLayoutIssue(issue)}</title>
+        </rect>
+      ))}
+    </Box>
+  );
+};
+
+export default LayoutIssueOverlay;
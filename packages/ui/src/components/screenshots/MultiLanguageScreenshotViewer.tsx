@@ -25,6 +25,7 @@ import {
 } from '@mui/icons-material';
 import { useGetAnalysisWithFormsQuery, useGetFormFieldsQuery } from '../../store/services/firestoreApi';
 import { SurveyAnalysis } from '../../store/services/firestoreApi';
+import ViewportSelector, { getFormScreenshotUrls, getFieldScreenshotUrl } from './ViewportSelector';
 
 interface MultiLanguageScreenshotViewerProps {
   analysesMap: Map<string, SurveyAnalysis>;
@@ -45,6 +46,7 @@ const MultiLanguageScreenshotViewer: React.FC<MultiLanguageScreenshotViewerProps
   const [selectedSecondaryLanguage, setSelectedSecondaryLanguage] = useState<string>('');
   const [selectedImage, setSelectedImage] = useState<{ url: string; language: string } | null>(null);
   const [imageZoom, setImageZoom] = useState(1);
+  const [selectedViewport, setSelectedViewport] = useState<number | null>(null);
 
   // Get non-primary languages for the tab panel
   const secondaryLanguages = availableLanguages.filter(lang => lang !== primaryLanguage);
@@ -158,12 +160,13 @@ const MultiLanguageScreenshotViewer: React.FC<MultiLanguageScreenshotViewerProps
     isRightColumn: boolean = false
   ) => {
     if (!form) return null;
+    const formScreenshotUrls = getFormScreenshotUrls(form, selectedViewport);
 
     return (
       <Box sx={{ width: '100%', overflow: 'hidden' }}>
         
         {/* On-Entry/On-Exit Screenshots */}
-        {(form.onEntryScreenshotUrl || form.onExitScreenshotUrl) && (
+        {(formScreenshotUrls.onEntry || formScreenshotUrls.onExit) && (
           <Box sx={{ mb: 3 }}>
             <Carousel
               autoPlay={false}
@@ -177,20 +180,20 @@ const MultiLanguageScreenshotViewer: React.FC<MultiLanguageScreenshotViewerProps
                 mx: 'auto',
               }}
             >
-              {form.onEntryScreenshotUrl && (
+              {formScreenshotUrls.onEntry && (
                 <Paper
                   sx={{
                     p: 1,
                     cursor: 'pointer',
                   }}
-                  onClick={() => handleImageClick(form.onEntryScreenshotUrl, language)}
+                  onClick={() => handleImageClick(formScreenshotUrls.onEntry, language)}
                 >
                   <Typography variant="subtitle2" gutterBottom align="center">
                     On-Entry Screenshot
                   </Typography>
                   <Box
                     component="img"
-                    src={form.onEntryScreenshotUrl}
+                    src={formScreenshotUrls.onEntry}
                     alt="On-Entry"
                     sx={{
                       width: '100%',
@@ -202,20 +205,20 @@ const MultiLanguageScreenshotViewer: React.FC<MultiLanguageScreenshotViewerProps
                 </Paper>
               )}
               
-              {form.onExitScreenshotUrl && (
+              {formScreenshotUrls.onExit && (
                 <Paper
                   sx={{
                     p: 1,
                     cursor: 'pointer',
                   }}
-                  onClick={() => handleImageClick(form.onExitScreenshotUrl, language)}
+                  onClick={() => handleImageClick(formScreenshotUrls.onExit, language)}
                 >
                   <Typography variant="subtitle2" gutterBottom align="center">
                     On-Exit Screenshot
                   </Typography>
                   <Box
                     component="img"
-                    src={form.onExitScreenshotUrl}
+                    src={formScreenshotUrls.onExit}
                     alt="On-Exit"
                     sx={{
                       width: '100%',
@@ -256,7 +259,7 @@ const MultiLanguageScreenshotViewer: React.FC<MultiLanguageScreenshotViewerProps
                     transform: 'translateY(-2px)',
                   },
                 }}
-                onClick={() => handleImageClick(field.screenshotUrl, language)}
+                onClick={() => handleImageClick(getFieldScreenshotUrl(field, selectedViewport), language)}
               >
                 <Stack spacing={1}>
                   <Box sx={{ p: 1 }}>
@@ -273,7 +276,7 @@ const MultiLanguageScreenshotViewer: React.FC<MultiLanguageScreenshotViewerProps
                         size="small"
                         onClick={(e) => {
                           e.stopPropagation();
-                          handleDownload(field.screenshotUrl, field.screenshotFilename);
+                          handleDownload(getFieldScreenshotUrl(field, selectedViewport), field.screenshotFilename);
                         }}
                         sx={{ ml: 1 }}
                       >
@@ -283,7 +286,7 @@ const MultiLanguageScreenshotViewer: React.FC<MultiLanguageScreenshotViewerProps
                   </Box>
                   <Box
                     component="img"
-                    src={field.screenshotUrl}
+                    src={getFieldScreenshotUrl(field, selectedViewport)}
                     alt={field.questionText}
                     loading="lazy"
                     sx={{
@@ -336,6 +339,12 @@ const MultiLanguageScreenshotViewer: React.FC<MultiLanguageScreenshotViewerProps
         </Tabs>
       </Paper>
 
+      <ViewportSelector
+        viewports={primaryForm?.viewports || []}
+        value={selectedViewport}
+        onChange={setSelectedViewport}
+      />
+
       {isMobile ? (
         // Mobile Layout - All languages in tabs
         <Box>
@@ -14,6 +14,7 @@ import {
   useMediaQuery,
   Tooltip,
   Stack,
+  Alert,
 } from '@mui/material';
 import Carousel from 'react-material-ui-carousel';
 import {
@@ -23,7 +24,9 @@ import {
   Close as CloseIcon,
   Download as DownloadIcon,
 } from '@mui/icons-material';
-import { useGetAnalysisWithFormsQuery, useGetFormFieldsQuery } from '../../store/services/firestoreApi';
+import { useGetAnalysisWithFormsQuery, useGetFormFieldsQuery, LayoutIssue, SurveyField } from '../../store/services/firestoreApi';
+import ViewportSelector, { getFormScreenshotUrls, getFieldScreenshotUrl } from './ViewportSelector';
+import LayoutIssueOverlay, { describeLayoutIssue } from './LayoutIssueOverlay';
 
 interface ScreenshotViewerProps {
   analysisId: string;
@@ -35,10 +38,14 @@ const ScreenshotViewer: React.FC<ScreenshotViewerProps> = ({ analysisId }) => {
   
   const [selectedFormIndex, setSelectedFormIndex] = useState(0);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedIssues, setSelectedIssues] = useState<LayoutIssue[]>([]);
   const [imageZoom, setImageZoom] = useState(1);
+  const [selectedViewport, setSelectedViewport] = useState<number | null>(null);
   
   const { data, isLoading } = useGetAnalysisWithFormsQuery(analysisId);
   const selectedForm = data?.forms[selectedFormIndex];
+  const formScreenshotUrls = selectedForm ? getFormScreenshotUrls(selectedForm, selectedViewport) : null;
+  const activeViewport = selectedViewport ?? selectedForm?.viewports?.[0] ?? null;
   
   const { data: fields, isLoading: fieldsLoading } = useGetFormFieldsQuery(
     { analysisId, formId: selectedForm?.id || '' },
@@ -50,16 +57,22 @@ const ScreenshotViewer: React.FC<ScreenshotViewerProps> = ({ analysisId }) => {
     setSelectedImage(null);
   };
 
-  const handleImageClick = (imageUrl: string) => {
+  const handleImageClick = (imageUrl: string, issues: LayoutIssue[] = []) => {
     setSelectedImage(imageUrl);
+    setSelectedIssues(issues);
     setImageZoom(1);
   };
 
   const handleCloseDialog = () => {
     setSelectedImage(null);
+    setSelectedIssues([]);
     setImageZoom(1);
   };
 
+  // Layout issues measured at the viewport whose screenshot is shown
+  const getLayoutIssues = (field: SurveyField) =>
+    (field.layoutIssues || []).filter(issue => activeViewport === null || issue.viewportWidth === activeViewport);
+
   const handleZoomIn = () => {
     setImageZoom(prev => Math.min(prev + 0.25, 3));
   };
@@ -114,11 +127,55 @@ const ScreenshotViewer: React.FC<ScreenshotViewerProps> = ({ analysisId }) => {
         </Tabs>
       </Paper>
 
+      {selectedForm?.languageCheck && selectedForm.languageCheck.verified !== false && !selectedForm.languageCheck.matches && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          This form looks like {selectedForm.languageCheck.detected.toUpperCase()} but the analysis
+          is {selectedForm.languageCheck.expected.toUpperCase()}. The survey may have fallen back to another language.
+        </Alert>
+      )}
+
+      {selectedForm?.rtlAudit && !selectedForm.rtlAudit.passed && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          This form is not mirrored correctly for right-to-left reading:
+          <Box component="ul" sx={{ m: 0, pl: 2 }}>
+            {selectedForm.rtlAudit.findings
+              .filter(finding => !finding.passed)
+              .map((finding, index) => (
+                <li key={index}>
+                  {finding.questionNumber ? `Q${finding.questionNumber}: ` : ''}{finding.message}
+                </li>
+              ))}
+          </Box>
+        </Alert>
+      )}
+
+      {!!selectedForm?.accessibility?.violations.length && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {selectedForm.accessibility.violations.length} accessibility violations on this form:{' '}
+          {selectedForm.accessibility.violations
+            .map(violation => `${violation.rule} (${violation.impact}${violation.questionNumber ? `, Q${violation.questionNumber}` : ''})`)
+            .join(', ')}
+        </Alert>
+      )}
+
+      {!!selectedForm?.layoutIssueCount && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {selectedForm.layoutIssueCount} clipped, truncated or overlapping text regions were found on this form.
+          They are outlined on the field screenshots.
+        </Alert>
+      )}
+
+      <ViewportSelector
+        viewports={selectedForm?.viewports || []}
+        value={selectedViewport}
+        onChange={setSelectedViewport}
+      />
+
       {/* Form Screenshots */}
-      {selectedForm && (
+      {selectedForm && formScreenshotUrls && (
         <Box sx={{ width: '100%', overflow: 'hidden' }}>
           {/* On-Entry/On-Exit Screenshots */}
-          {(selectedForm.onEntryScreenshotUrl || selectedForm.onExitScreenshotUrl) && (
+          {(formScreenshotUrls.onEntry || formScreenshotUrls.onExit) && (
             <Box sx={{ mb: 3 }}>
               <Carousel
                 autoPlay={false}
@@ -133,20 +190,20 @@ const ScreenshotViewer: React.FC<ScreenshotViewerProps> = ({ analysisId }) => {
                   mx: 'auto',
                 }}
               >
-                {selectedForm.onEntryScreenshotUrl && (
+                {formScreenshotUrls.onEntry && (
                   <Paper
                     sx={{
                       p: 2,
                       cursor: 'pointer',
                     }}
-                    onClick={() => handleImageClick(selectedForm.onEntryScreenshotUrl)}
+                    onClick={() => handleImageClick(formScreenshotUrls.onEntry)}
                   >
                     <Typography variant="subtitle2" gutterBottom align="center">
                       On-Entry Screenshot
                     </Typography>
                     <Box
                       component="img"
-                      src={selectedForm.onEntryScreenshotUrl}
+                      src={formScreenshotUrls.onEntry}
                       alt="On-Entry"
                       sx={{
                         width: '100%',
@@ -158,20 +215,20 @@ const ScreenshotViewer: React.FC<ScreenshotViewerProps> = ({ analysisId }) => {
                   </Paper>
                 )}
                 
-                {selectedForm.onExitScreenshotUrl && (
+                {formScreenshotUrls.onExit && (
                   <Paper
                     sx={{
                       p: 2,
                       cursor: 'pointer',
                     }}
-                    onClick={() => handleImageClick(selectedForm.onExitScreenshotUrl)}
+                    onClick={() => handleImageClick(formScreenshotUrls.onExit)}
                   >
                     <Typography variant="subtitle2" gutterBottom align="center">
                       On-Exit Screenshot
                     </Typography>
                     <Box
                       component="img"
-                      src={selectedForm.onExitScreenshotUrl}
+                      src={formScreenshotUrls.onExit}
                       alt="On-Exit"
                       sx={{
                         width: '100%',
@@ -209,68 +266,83 @@ const ScreenshotViewer: React.FC<ScreenshotViewerProps> = ({ analysisId }) => {
                 overflow: 'hidden',
               }}
             >
-              {fields.map((field) => (
-                <Paper
-                  key={field.id}
-                  sx={{
-                    p: 1,
-                    cursor: 'pointer',
-                    transition: 'all 0.2s',
-                    width: '100%',
-                    overflow: 'hidden',
-                    '&:hover': { 
-                      boxShadow: 3,
-                      transform: 'translateY(-2px)',
-                    },
-                  }}
-                  onClick={() => handleImageClick(field.screenshotUrl)}
-                >
-                  <Stack spacing={1}>
-                    <Box sx={{ p: 1 }}>
-                      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start' }}>
-                        <Box sx={{ flex: 1, minWidth: 0 }}>
-                          <Typography variant="subtitle2" noWrap>
-                            {field.questionNumber} {field.questionText}
-                          </Typography>
-                          <Typography variant="caption" color="text.secondary">
-                            {field.inputType} {field.isRequired && '• Required'}
-                          </Typography>
+              {fields.map((field) => {
+                const layoutIssues = getLayoutIssues(field);
+                return (
+                  <Paper
+                    key={field.id}
+                    sx={{
+                      p: 1,
+                      cursor: 'pointer',
+                      transition: 'all 0.2s',
+                      width: '100%',
+                      overflow: 'hidden',
+                      '&:hover': { 
+                        boxShadow: 3,
+                        transform: 'translateY(-2px)',
+                      },
+                    }}
+                    onClick={() => handleImageClick(getFieldScreenshotUrl(field, selectedViewport), layoutIssues)}
+                  >
+                    <Stack spacing={1}>
+                      <Box sx={{ p: 1 }}>
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start' }}>
+                          <Box sx={{ flex: 1, minWidth: 0 }}>
+                            <Typography variant="subtitle2" noWrap>
+                              {field.questionNumber} {field.questionText}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {field.inputType} {field.isRequired && '• Required'}
+                            </Typography>
+                          </Box>
+                          <IconButton
+                            size="small"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDownload(getFieldScreenshotUrl(field, selectedViewport), field.screenshotFilename);
+                            }}
+                            sx={{ ml: 1 }}
+                          >
+                            <DownloadIcon fontSize="small" />
+                          </IconButton>
                         </Box>
-                        <IconButton
-                          size="small"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDownload(field.screenshotUrl, field.screenshotFilename);
-                          }}
-                          sx={{ ml: 1 }}
-                        >
-                          <DownloadIcon fontSize="small" />
-                        </IconButton>
                       </Box>
-                    </Box>
-                    <Box
-                      component="img"
-                      src={field.screenshotUrl}
-                      alt={field.questionText}
-                      loading="lazy"
-                      sx={{
-                        width: '100%',
-                        height: 300,
-                        objectFit: 'contain',
-                        bgcolor: 'grey.100',
-                        borderRadius: 1,
-                      }}
-                    />
-                    {field.choices && field.choices.length > 0 && (
-                      <Box sx={{ px: 1, pb: 1 }}>
-                        <Typography variant="caption" color="text.secondary">
-                          {field.choices.length} choices
-                        </Typography>
+                      <Box sx={{ position: 'relative', height: 300 }}>
+                        <Box
+                          component="img"
+                          src={getFieldScreenshotUrl(field, selectedViewport)}
+                          alt={field.questionText}
+                          loading="lazy"
+                          sx={{
+                            width: '100%',
+                            height: 300,
+                            objectFit: 'contain',
+                            bgcolor: 'grey.100',
+                            borderRadius: 1,
+                          }}
+                        />
+                        <LayoutIssueOverlay issues={layoutIssues} />
                       </Box>
-                    )}
-                  </Stack>
-                </Paper>
-              ))}
+                      {field.choices && field.choices.length > 0 && (
+                        <Box sx={{ px: 1, pb: 1 }}>
+                          <Typography variant="caption" color="text.secondary">
+                            {field.choices.length} choices
+                          </Typography>
+                        </Box>
+                      )}
+                      {layoutIssues.length > 0 && (
+                        <Box sx={{ px: 1, pb: 1 }}>
+                          {layoutIssues.map((issue, index) => (
+                            <Typography key={index} variant="caption" color="warning.main" display="block" noWrap>
+                              {describeLayoutIssue(issue)}
+                            </Typography>
+                          ))}
+                        </Box>
+                      )}
+                    </Stack>
+                  </Paper>
+                );
+              })}
             </Box>
           ) : (
             <Box sx={{ textAlign: 'center', p: 4 }}>
@@ -339,18 +411,26 @@ const ScreenshotViewer: React.FC<ScreenshotViewerProps> = ({ analysisId }) => {
               }}
             >
               <Box
-                component="img"
-                src={selectedImage}
-                alt="Full screen view"
                 sx={{
-                  maxWidth: '100%',
-                  maxHeight: '100%',
-                  objectFit: 'contain',
+                  position: 'relative',
+                  display: 'inline-flex',
                   transform: `scale(${imageZoom})`,
                   transition: 'transform 0.3s',
                   transformOrigin: 'center',
                 }}
-              />
+              >
+                <Box
+                  component="img"
+                  src={selectedImage}
+                  alt="Full screen view"
+                  sx={{
+                    maxWidth: 'calc(100vw - 48px)',
+                    maxHeight: 'calc(100vh - 120px)',
+                    objectFit: 'contain',
+                  }}
+                />
+                <LayoutIssueOverlay issues={selectedIssues} />
+              </Box>
             </Box>
           )}
         </DialogContent>
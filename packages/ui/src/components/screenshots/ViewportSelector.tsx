@@ -0,0 +1,51 @@
+import { ToggleButton, ToggleButtonGroup, Typography, Box } from '@mui/material';
+import { SurveyField, SurveyForm } from '../../store/services/firestoreApi';
+
+interface ViewportSelectorProps {
+  viewports: number[];
+  value: number | null;
+  onChange: (viewport: number) => void;
+}
+
+// Analyses captured at a single width have nothing to switch between
+const ViewportSelector: React.FC<ViewportSelectorProps> = ({ viewports, value, onChange }) => {
+  if (viewports.length < 2) return null;
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+      <Typography variant="body2" color="text.secondary">
+        Viewport:
+      </Typography>
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={value ?? viewports[0]}
+        onChange={(_event, newValue: number | null) => {
+          if (newValue !== null) onChange(newValue);
+        }}
+      >
+        {viewports.map((width) => (
+          <ToggleButton key={width} value={width}>
+            {width}px
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+    </Box>
+  );
+};
+
+// Screenshot URLs for the chosen viewport, falling back to the primary capture
+export const getFormScreenshotUrls = (form: SurveyForm, viewport: number | null) => {
+  const key = viewport !== null ? String(viewport) : '';
+  return {
+    onEntry: form.onEntryScreenshotUrls?.[key] || form.onEntryScreenshotUrl,
+    onExit: form.onExitScreenshotUrls?.[key] || form.onExitScreenshotUrl,
+  };
+};
+
+export const getFieldScreenshotUrl = (field: SurveyField, viewport: number | null) => {
+  const key = viewport !== null ? String(viewport) : '';
+  return field.screenshotUrls?.[key] || field.screenshotUrl;
+};
+
+export default ViewportSelector;
@@ -3,6 +3,8 @@ import { Box, Typography, CircularProgress, Button, Stack } from '@mui/material'
 import { useMemo } from 'react';
 import ScreenshotViewer from '../components/screenshots/ScreenshotViewer';
 import MultiLanguageScreenshotViewer from '../components/screenshots/MultiLanguageScreenshotViewer';
+import AccessibilitySummary from '../components/analysis/AccessibilitySummary';
+import CodebookDownloadButton from '../components/analysis/CodebookDownloadButton';
 import { useGetAnalysesQuery, SurveyAnalysis } from '../store/services/firestoreApi';
 import AssessmentIcon from '@mui/icons-material/Assessment';
 import SettingsIcon from '@mui/icons-material/Settings';
@@ -112,6 +114,10 @@ const PackageDetail: React.FC = () => {
         </Box>
 
         <Stack direction="row" spacing={2}>
+          <CodebookDownloadButton
+            analysis={currentAnalysis}
+            analyses={hasMultipleLanguages ? Array.from(languageAnalysesMap.values()) : [currentAnalysis]}
+          />
           <Button
             variant="outlined"
             startIcon={<SettingsIcon />}
@@ -129,6 +135,10 @@ const PackageDetail: React.FC = () => {
         </Stack>
       </Stack>
 
+      <AccessibilitySummary
+        analyses={hasMultipleLanguages ? Array.from(languageAnalysesMap.values()) : [currentAnalysis]}
+      />
+
       <Box sx={{ mt: 2 }}>
         {hasMultipleLanguages ? (
           <MultiLanguageScreenshotViewer 
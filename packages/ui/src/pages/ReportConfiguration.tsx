@@ -50,6 +50,7 @@ const ReportConfiguration: React.FC = () => {
   const [formOrder, setFormOrder] = useState<string[]>([]);
   const [selectedLanguages, setSelectedLanguages] = useState<string[]>([]);
   const [includeMetadata, setIncludeMetadata] = useState(true);
+  const [includeAccessibility, setIncludeAccessibility] = useState(false);
   const [pageOrientation, setPageOrientation] = useState<'portrait' | 'landscape'>('portrait');
   const [pageSize, setPageSize] = useState<'A4' | 'Letter' | 'Legal'>('A4');
   const [screenshotType, setScreenshotType] = useState<'on-exit' | 'on-entry' | 'both'>('on-exit');
@@ -101,6 +102,7 @@ const ReportConfiguration: React.FC = () => {
       setSelectedForms(existingConfig.formOrder);
       setSelectedLanguages(existingConfig.selectedLanguages);
       setIncludeMetadata(existingConfig.includeMetadata);
+      setIncludeAccessibility(existingConfig.includeAccessibility ?? false);
       setPageOrientation(existingConfig.pageOrientation);
       setPageSize(existingConfig.pageSize);
       setScreenshotType(existingConfig.screenshotType);
@@ -153,6 +155,7 @@ const ReportConfiguration: React.FC = () => {
         formOrder: selectedFormOrder,
         selectedLanguages,
         includeMetadata,
+        includeAccessibility,
         pageOrientation,
         pageSize,
         screenshotType,
@@ -307,6 +310,16 @@ const ReportConfiguration: React.FC = () => {
               label="Include form metadata in PDF"
             />
             
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={includeAccessibility}
+                  onChange={(e) => setIncludeAccessibility(e.target.checked)}
+                />
+              }
+              label="Include accessibility summary in PDF"
+            />
+            
             <FormControl fullWidth>
               <InputLabel>Page Orientation</InputLabel>
               <Select
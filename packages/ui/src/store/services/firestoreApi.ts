@@ -68,7 +68,15 @@ export interface SurveyAnalysis {
   hasTestData: boolean;
   testDataSummary?: any;
   screenshotsPath: string;
+  viewports?: number[];
   firstFormOnEntryScreenshotUrl?: string;
+  languageMismatchForms?: number[]; // forms whose detected language differs from `language`
+  hasLanguageMismatch?: boolean;
+  rtlFailedForms?: number[] | null; // forms failing the right-to-left audit; null when not audited
+  hasRtlFailure?: boolean;
+  accessibility?: AccessibilitySummary | null; // null when the forms were not audited
+  accessibilityViolationCount?: number;
+  layoutIssueCount?: number;
   status: string;
   processingDuration: number;
   createdAt: Timestamp;
@@ -86,6 +94,14 @@ export interface SurveyField {
   cardBoxSelector: string;
   screenshotFilename: string;
   screenshotUrl: string;
+  screenshotUrls?: Record<string, string>; // keyed by viewport width
+  layoutIssues?: LayoutIssue[];
+  conditionalInfo?: {
+    isConditional: boolean;
+    parentQuestion: string;
+    parentValue: string | number;
+    appearedAfter: string;
+  } | null;
   order: number;
   testData?: any;
 }
@@ -106,6 +122,92 @@ export interface SurveyForm {
   onExitScreenshot: string;
   onEntryScreenshotUrl: string;
   onExitScreenshotUrl: string;
+  viewports?: number[];
+  onEntryScreenshotUrls?: Record<string, string>; // keyed by viewport width
+  onExitScreenshotUrls?: Record<string, string>;
+  languageCheck?: LanguageCheck | null;
+  rtlAudit?: RtlAudit | null;
+  accessibility?: AccessibilityAudit | null;
+  layoutIssueCount?: number;
+}
+
+export interface LanguageCheck {
+  expected: string;
+  detected: string;
+  confidence: number;
+  supported: boolean;
+  verified?: boolean; // missing on checks stored before unverifiable forms were told apart
+  matches: boolean;
+  sampleLength: number;
+  checkedAt: string;
+}
+
+export interface RtlFinding {
+  check: 'direction' | 'question_alignment' | 'choice_order' | 'slider_direction' | 'navigation_placement';
+  passed: boolean;
+  questionNumber?: string;
+  message: string;
+}
+
+export interface RtlAudit {
+  language: string;
+  passed: boolean;
+  findings: RtlFinding[];
+  checkedAt: string;
+}
+
+export type AccessibilityImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export interface AccessibilityViolation {
+  rule: string;
+  impact: AccessibilityImpact;
+  help: string;
+  helpUrl: string;
+  selector: string;
+  html: string;
+  questionNumber?: string;
+}
+
+export interface AccessibilityAudit {
+  engine: string;
+  standard: string[];
+  violations: AccessibilityViolation[];
+  incomplete: number;
+  byImpact: Record<AccessibilityImpact, number>;
+  checkedAt: string;
+}
+
+export interface AccessibilitySummary {
+  auditedForms: number;
+  violations: number;
+  formsWithViolations: number[];
+  byImpact: Record<AccessibilityImpact, number>;
+  rules: Array<{
+    rule: string;
+    impact: AccessibilityImpact;
+    help: string;
+    helpUrl: string;
+    occurrences: number;
+    forms: number[];
+  }>;
+}
+
+export interface LayoutRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutIssue {
+  kind: 'horizontal_overflow' | 'vertical_overflow' | 'ellipsis' | 'overlap';
+  viewportWidth: number;
+  element: string;
+  text: string;
+  overflow: number;
+  rect: LayoutRect;      // relative to the field screenshot
+  formRect: LayoutRect;  // relative to the on-exit screenshot
+  frame: { width: number; height: number };
 }
 
 export interface QueryParams {
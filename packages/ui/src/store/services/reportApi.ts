@@ -78,6 +78,7 @@ export const reportApi = createApi({
           const configData = {
             ...input,
             includeMetadata: input.includeMetadata ?? true,
+            includeAccessibility: input.includeAccessibility ?? false,
             pageOrientation: input.pageOrientation ?? 'portrait',
             pageSize: input.pageSize ?? 'A4',
             screenshotType: input.screenshotType ?? 'on-exit',